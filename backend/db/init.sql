@@ -28,49 +28,8 @@ CREATE TABLE IF NOT EXISTS system_logs (
   timestamp TIMESTAMP DEFAULT CURRENT_TIMESTAMP
 );
 
--- Security function to mask sensitive data
-CREATE OR REPLACE FUNCTION mask_sensitive_provider(provider_name TEXT, sensitivity_level TEXT)
-RETURNS TEXT AS $$
-BEGIN
-  CASE sensitivity_level
-    WHEN 'HIGH' THEN
-      RETURN CASE 
-        WHEN LOWER(provider_name) LIKE '%mossad%' OR LOWER(provider_name) LIKE '%shin%' THEN 'Security-Vendor-' || SUBSTR(MD5(provider_name), 1, 1)
-        WHEN LOWER(provider_name) LIKE '%bank%' OR LOWER(provider_name) LIKE '%finance%' THEN 'Finance-Vendor-' || SUBSTR(MD5(provider_name), 1, 1)
-        WHEN LOWER(provider_name) LIKE '%health%' OR LOWER(provider_name) LIKE '%medical%' THEN 'Health-Vendor-' || SUBSTR(MD5(provider_name), 1, 1)
-        ELSE 'Sensitive-Vendor-' || SUBSTR(MD5(provider_name), 1, 1)
-      END;
-    WHEN 'MEDIUM' THEN
-      RETURN CASE 
-        WHEN LOWER(provider_name) LIKE '%aws%' OR LOWER(provider_name) LIKE '%amazon%' THEN 'Cloud-Provider-A'
-        WHEN LOWER(provider_name) LIKE '%gcp%' OR LOWER(provider_name) LIKE '%google%' THEN 'Cloud-Provider-G'
-        WHEN LOWER(provider_name) LIKE '%azure%' OR LOWER(provider_name) LIKE '%microsoft%' THEN 'Cloud-Provider-M'
-        ELSE provider_name
-      END;
-    ELSE
-      RETURN provider_name;
-  END CASE;
-END;
-$$ LANGUAGE plpgsql IMMUTABLE;
-
--- Function to determine sensitivity level based on provider
-CREATE OR REPLACE FUNCTION get_provider_sensitivity(provider_name TEXT)
-RETURNS TEXT AS $$
-BEGIN
-  -- HIGH sensitivity keywords
-  IF LOWER(provider_name) ~ '.*(mossad|shin|bet|security|defense|military|government|health|medical|bank|finance|crypto).*' THEN
-    RETURN 'HIGH';
-  END IF;
-  
-  -- MEDIUM sensitivity keywords  
-  IF LOWER(provider_name) ~ '.*(aws|amazon|gcp|google|azure|microsoft|hosting|server|cloud).*' THEN
-    RETURN 'MEDIUM';
-  END IF;
-  
-  -- Default to LOW
-  RETURN 'LOW';
-END;
-$$ LANGUAGE plpgsql IMMUTABLE;
+-- Provider sensitivity and masking are decided by the admin-managed rules in
+-- the sensitivity_rules table (see src/scripts/createSensitivityRulesTable.ts)
 
 -- Trigger to automatically set retention policies
 CREATE OR REPLACE FUNCTION set_expense_retention()
@@ -85,13 +44,6 @@ BEGIN
     NEW.retention_until = NEW.created_at + INTERVAL '90 days';
   END IF;
   
-  -- Auto-mask sensitive providers
-  IF NEW.sensitivity_level IN ('MEDIUM', 'HIGH') THEN
-    NEW.provider_masked_name = mask_sensitive_provider(NEW.provider_name, NEW.sensitivity_level);
-  ELSE
-    NEW.provider_masked_name = NEW.provider_name;
-  END IF;
-  
   RETURN NEW;
 END;
 $$ LANGUAGE plpgsql;
@@ -0,0 +1,9 @@
+// Read on use rather than at import so .env (loaded after imports) is honoured
+
+// Every aggregate is reported in this currency; expenses keep their original amount alongside
+export const getReportingCurrency = (): string =>
+  (process.env.REPORTING_CURRENCY || 'USD').toUpperCase();
+
+// Rates are published on business days only, so a weekend expense uses Friday's rate
+export const getFxMaxRateAgeDays = (): number =>
+  parseInt(process.env.FX_MAX_RATE_AGE_DAYS || '7', 10);
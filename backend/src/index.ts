@@ -18,7 +18,24 @@ import expenseRoutes from '@/routes/expenses';
 import uploadRoutes from '@/routes/upload';
 import dashboardRoutes from '@/routes/dashboard';
 import anthropicRoutes from '@/routes/anthropic';
+import dataReductionRoutes from '@/routes/dataReduction';
+import extractionTemplateRoutes from '@/routes/extractionTemplates';
+import statementRoutes from '@/routes/statements';
+import reconciliationRoutes from '@/routes/reconciliation';
+import fxRateRoutes from '@/routes/fxRates';
+import budgetRoutes from '@/routes/budgets';
+import notificationRoutes from '@/routes/notifications';
+import subscriptionRoutes from '@/routes/subscriptions';
+import vendorRoutes from '@/routes/vendors';
+import sensitivityRuleRoutes from '@/routes/sensitivityRules';
 import AnthropicUsageJob from '@/jobs/anthropicUsageJob';
+import RetentionPurgeJob from '@/jobs/retentionPurgeJob';
+import DataReductionJob from '@/jobs/dataReductionJob';
+import UploadProcessingJob from '@/jobs/uploadProcessingJob';
+import MailboxPollingJob from '@/jobs/mailboxPollingJob';
+import DropFolderJob from '@/jobs/dropFolderJob';
+import BudgetAlertJob from '@/jobs/budgetAlertJob';
+import SubscriptionTrackingJob from '@/jobs/subscriptionTrackingJob';
 
 dotenv.config({ path: resolve(__dirname, '../../.env') });
 
@@ -64,6 +81,16 @@ app.use('/api/expenses', expenseRoutes);
 app.use('/api/upload', uploadRoutes);
 app.use('/api/dashboard', dashboardRoutes);
 app.use('/api/anthropic', anthropicRoutes);
+app.use('/api/data-reduction', dataReductionRoutes);
+app.use('/api/extraction-templates', extractionTemplateRoutes);
+app.use('/api/statements', statementRoutes);
+app.use('/api/reconciliation', reconciliationRoutes);
+app.use('/api/fx-rates', fxRateRoutes);
+app.use('/api/budgets', budgetRoutes);
+app.use('/api/notifications', notificationRoutes);
+app.use('/api/subscriptions', subscriptionRoutes);
+app.use('/api/vendors', vendorRoutes);
+app.use('/api/sensitivity-rules', sensitivityRuleRoutes);
 
 app.get('/api/health', (req, res) => {
   res.json({ 
@@ -80,6 +107,9 @@ async function startServer() {
     await connectDatabase();
     await connectRedis();
     
+    // Start the upload processing worker (consumes the Redis upload queue)
+    await UploadProcessingJob.start();
+    
     const server = createServer(app);
     
     server.listen(PORT, () => {
@@ -89,13 +119,38 @@ async function startServer() {
       // Start the Anthropic usage sync job
       AnthropicUsageJob.start();
       logger.info('Anthropic usage sync job started');
+      
+      // Start the invoice retention purge job
+      RetentionPurgeJob.start();
+      
+      // Start the progressive data reduction job
+      DataReductionJob.start();
+      
+      // Start polling the invoices mailbox (when configured)
+      MailboxPollingJob.start();
+      
+      // Start watching the drop folders (when configured)
+      DropFolderJob.start();
+      
+      // Start checking budgets against their alert thresholds
+      BudgetAlertJob.start();
+      
+      // Start detecting and following recurring charges
+      SubscriptionTrackingJob.start();
     });
     
-    process.on('SIGTERM', () => {
+    process.on('SIGTERM', async () => {
       logger.info('SIGTERM received, shutting down gracefully');
       
       // Stop the Anthropic usage job
       AnthropicUsageJob.stop();
+      RetentionPurgeJob.stop();
+      DataReductionJob.stop();
+      MailboxPollingJob.stop();
+      DropFolderJob.stop();
+      BudgetAlertJob.stop();
+      SubscriptionTrackingJob.stop();
+      await UploadProcessingJob.stop();
       
       server.close(() => {
         logger.info('Process terminated');
@@ -0,0 +1,53 @@
+import cron from 'node-cron';
+import { BudgetService } from '@/services/budgetService';
+import { logger } from '@/config/logger';
+
+/**
+ * Hourly job that checks active budgets against their thresholds
+ * Alerts also fire when budgets are viewed; this catches spend nobody is looking at
+ */
+export class BudgetAlertJob {
+  private static job: cron.ScheduledTask | null = null;
+
+  /**
+   * Start the hourly budget check
+   */
+  static start(): void {
+    // Run at quarter past every hour, clear of the retention purge
+    this.job = cron.schedule('15 * * * *', async () => {
+      try {
+        const raised = await BudgetService.checkAll();
+        if (raised > 0) {
+          logger.info(`Budget check completed: ${raised} alert(s) raised`);
+        }
+      } catch (error) {
+        logger.error('Budget check failed:', error);
+      }
+    }, {
+      scheduled: true
+    });
+
+    logger.info('Budget alert job scheduled to run hourly');
+  }
+
+  /**
+   * Stop the scheduled job
+   */
+  static stop(): void {
+    if (this.job) {
+      this.job.stop();
+      this.job = null;
+      logger.info('Budget alert job stopped');
+    }
+  }
+
+  /**
+   * Run the check manually
+   */
+  static async runNow(): Promise<number> {
+    logger.info('Running budget check manually...');
+    return BudgetService.checkAll();
+  }
+}
+
+export default BudgetAlertJob;
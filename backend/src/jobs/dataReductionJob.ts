@@ -0,0 +1,64 @@
+import cron from 'node-cron';
+import { DataReductionService, ReductionReport } from '@/services/dataReductionService';
+import { logger } from '@/config/logger';
+
+/**
+ * Daily job that progressively strips fields from aging expense records
+ * Runs every day at 3:00 AM, after the Anthropic usage sync
+ */
+export class DataReductionJob {
+  private static job: cron.ScheduledTask | null = null;
+  private static lastRun: ReductionReport | null = null;
+
+  /**
+   * Start the daily data reduction job
+   */
+  static start(): void {
+    // Run daily at 3:00 AM
+    this.job = cron.schedule('0 3 * * *', async () => {
+      logger.info('Starting daily data reduction job...');
+
+      try {
+        this.lastRun = await DataReductionService.run({ dryRun: false });
+        logger.info('Daily data reduction completed successfully');
+      } catch (error) {
+        logger.error('Daily data reduction failed:', error);
+      }
+    }, {
+      scheduled: true,
+      timezone: 'America/New_York'
+    });
+
+    logger.info('Data reduction job scheduled to run daily at 3:00 AM');
+  }
+
+  /**
+   * Stop the scheduled job
+   */
+  static stop(): void {
+    if (this.job) {
+      this.job.stop();
+      this.job = null;
+      logger.info('Data reduction job stopped');
+    }
+  }
+
+  /**
+   * Preview what the next run would reduce without modifying any records
+   */
+  static async preview(): Promise<ReductionReport> {
+    return DataReductionService.run({ dryRun: true });
+  }
+
+  /**
+   * Get job status
+   */
+  static getStatus(): { running: boolean; lastRun: ReductionReport | null } {
+    return {
+      running: !!this.job,
+      lastRun: this.lastRun
+    };
+  }
+}
+
+export default DataReductionJob;
@@ -0,0 +1,150 @@
+import cron from 'node-cron';
+import { DropFolder, DropFolderScanResult, DropFolderService } from '@/services/dropFolderService';
+import { UserModel } from '@/models/User';
+import { logger } from '@/config/logger';
+
+interface DropFolderRun {
+  at: string;
+  result?: DropFolderScanResult;
+  errors?: string[];
+}
+
+/**
+ * Watches the directories in DROP_FOLDERS and ingests what is dropped there
+ * as draft expenses owned by DROP_FOLDER_USERNAME. Disabled unless configured.
+ *
+ * DROP_FOLDERS is a JSON array, e.g.
+ * [{"path": "/srv/drop/general"}, {"path": "/srv/drop/payroll", "sensitivity": "HIGH", "category": "Payroll"}]
+ */
+export class DropFolderJob {
+  private static job: cron.ScheduledTask | null = null;
+  private static scanning = false;
+  private static lastRun: DropFolderRun | null = null;
+
+  /**
+   * Start scanning on DROP_FOLDER_POLL_CRON (every 30 seconds by default)
+   */
+  static start(): void {
+    const folders = this.getFolders();
+    if (folders.length === 0) {
+      logger.info('Drop folder ingestion disabled (DROP_FOLDERS not set)');
+      return;
+    }
+
+    const schedule = process.env.DROP_FOLDER_POLL_CRON || '*/30 * * * * *';
+    this.job = cron.schedule(schedule, async () => {
+      try {
+        await this.runNow();
+      } catch (error) {
+        logger.error('Drop folder scan failed:', error);
+      }
+    }, {
+      scheduled: true
+    });
+
+    logger.info(`Drop folder ingestion watching ${folders.length} folder(s): ${schedule}`);
+  }
+
+  /**
+   * Stop the scheduled job
+   */
+  static stop(): void {
+    if (this.job) {
+      this.job.stop();
+      this.job = null;
+      logger.info('Drop folder job stopped');
+    }
+  }
+
+  /**
+   * Scan every folder once. Overlapping runs are skipped rather than queued.
+   */
+  static async runNow(): Promise<DropFolderScanResult | null> {
+    const folders = this.getFolders();
+    if (folders.length === 0) {
+      throw new Error('Drop folder ingestion is not configured');
+    }
+    if (this.scanning) {
+      return null;
+    }
+
+    this.scanning = true;
+    try {
+      const username = process.env.DROP_FOLDER_USERNAME;
+      const user = username ? await UserModel.findByUsername(username) : null;
+      if (!user) {
+        throw new Error('DROP_FOLDER_USERNAME must name an existing user');
+      }
+
+      const result: DropFolderScanResult = { processed: 0, queued: 0, rejected: 0 };
+      const errors: string[] = [];
+
+      // One unreadable folder must not stop the others
+      for (const folder of folders) {
+        try {
+          const scanned = await DropFolderService.scan(folder, { userId: user.id });
+          result.processed += scanned.processed;
+          result.queued += scanned.queued;
+          result.rejected += scanned.rejected;
+        } catch (error) {
+          errors.push(`${folder.path}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+        }
+      }
+
+      this.lastRun = { at: new Date().toISOString(), result, ...(errors.length > 0 && { errors }) };
+      if (result.processed > 0) {
+        logger.info(`Drop folder scan: ${result.processed} file(s), ${result.queued} queued, ${result.rejected} rejected`);
+      }
+      if (errors.length > 0) {
+        logger.warn(`Drop folder scan errors: ${errors.join('; ')}`);
+      }
+      return result;
+    } catch (error) {
+      this.lastRun = { at: new Date().toISOString(), errors: [error instanceof Error ? error.message : 'Unknown error'] };
+      throw error;
+    } finally {
+      this.scanning = false;
+    }
+  }
+
+  /**
+   * Get job status
+   */
+  static getStatus(): { enabled: boolean; running: boolean; folders: DropFolder[]; lastRun: DropFolderRun | null } {
+    const folders = this.getFolders();
+    return {
+      enabled: folders.length > 0,
+      running: !!this.job,
+      folders,
+      lastRun: this.lastRun
+    };
+  }
+
+  /**
+   * Configured folders; entries without a path are dropped and sensitivity defaults to LOW
+   */
+  static getFolders(): DropFolder[] {
+    const raw = process.env.DROP_FOLDERS;
+    if (!raw) return [];
+
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(raw);
+    } catch {
+      logger.error('DROP_FOLDERS is not valid JSON');
+      return [];
+    }
+    if (!Array.isArray(parsed)) return [];
+
+    return parsed
+      .filter((entry): entry is Record<string, unknown> =>
+        !!entry && typeof entry === 'object' && typeof entry.path === 'string' && entry.path !== '')
+      .map(entry => ({
+        path: entry.path as string,
+        sensitivity: entry.sensitivity === 'MEDIUM' || entry.sensitivity === 'HIGH' ? entry.sensitivity : 'LOW',
+        category: typeof entry.category === 'string' && entry.category ? entry.category : undefined
+      }));
+  }
+}
+
+export default DropFolderJob;
@@ -0,0 +1,130 @@
+import cron from 'node-cron';
+import { EmailIngestionService, MailboxPollResult } from '@/services/emailIngestionService';
+import { UserModel } from '@/models/User';
+import { logger } from '@/config/logger';
+
+type MailboxType = 'imap' | 'maildir';
+
+interface MailboxRun {
+  at: string;
+  result?: MailboxPollResult;
+  error?: string;
+}
+
+/**
+ * Polls the invoices mailbox (IMAP, or a local Maildir) and queues every
+ * invoice attachment as a draft expense for MAILBOX_USERNAME.
+ * Disabled unless MAILBOX_TYPE is set.
+ */
+export class MailboxPollingJob {
+  private static job: cron.ScheduledTask | null = null;
+  private static polling = false;
+  private static lastRun: MailboxRun | null = null;
+
+  /**
+   * Start polling on MAILBOX_POLL_CRON (every 5 minutes by default)
+   */
+  static start(): void {
+    const type = this.mailboxType();
+    if (!type) {
+      logger.info('Mailbox polling disabled (MAILBOX_TYPE not set)');
+      return;
+    }
+
+    const schedule = process.env.MAILBOX_POLL_CRON || '*/5 * * * *';
+    this.job = cron.schedule(schedule, async () => {
+      try {
+        await this.runNow();
+      } catch (error) {
+        logger.error('Mailbox polling failed:', error);
+      }
+    }, {
+      scheduled: true
+    });
+
+    logger.info(`Mailbox polling (${type}) scheduled: ${schedule}`);
+  }
+
+  /**
+   * Stop the scheduled job
+   */
+  static stop(): void {
+    if (this.job) {
+      this.job.stop();
+      this.job = null;
+      logger.info('Mailbox polling job stopped');
+    }
+  }
+
+  /**
+   * Poll the mailbox once. Overlapping runs are skipped rather than queued.
+   */
+  static async runNow(): Promise<MailboxPollResult | null> {
+    const type = this.mailboxType();
+    if (!type) {
+      throw new Error('Mailbox polling is not configured');
+    }
+    if (this.polling) {
+      logger.warn('Mailbox poll already in progress; skipping');
+      return null;
+    }
+
+    this.polling = true;
+    try {
+      const username = process.env.MAILBOX_USERNAME;
+      const user = username ? await UserModel.findByUsername(username) : null;
+      if (!user) {
+        throw new Error('MAILBOX_USERNAME must name an existing user');
+      }
+
+      const options = { sensitivity: this.sensitivity() };
+      const context = { userId: user.id };
+
+      const result = type === 'imap'
+        ? await EmailIngestionService.pollImap({
+            host: process.env.IMAP_HOST || 'localhost',
+            port: parseInt(process.env.IMAP_PORT || '993', 10),
+            secure: process.env.IMAP_SECURE !== 'false',
+            user: process.env.IMAP_USER || '',
+            password: process.env.IMAP_PASSWORD || '',
+            mailbox: process.env.IMAP_MAILBOX || 'INBOX'
+          }, options, context)
+        : await EmailIngestionService.pollMaildir(process.env.MAILDIR_PATH || 'maildir', options, context);
+
+      this.lastRun = { at: new Date().toISOString(), result };
+      if (result.messages > 0) {
+        logger.info(`Mailbox poll: ${result.messages} message(s), ${result.queued} invoice(s) queued, ${result.rejected} rejected`);
+      }
+      return result;
+    } catch (error) {
+      this.lastRun = { at: new Date().toISOString(), error: error instanceof Error ? error.message : 'Unknown error' };
+      throw error;
+    } finally {
+      this.polling = false;
+    }
+  }
+
+  /**
+   * Get job status
+   */
+  static getStatus(): { enabled: boolean; type: MailboxType | null; running: boolean; lastRun: MailboxRun | null } {
+    return {
+      enabled: !!this.mailboxType(),
+      type: this.mailboxType(),
+      running: !!this.job,
+      lastRun: this.lastRun
+    };
+  }
+
+  private static mailboxType(): MailboxType | null {
+    const type = process.env.MAILBOX_TYPE;
+    return type === 'imap' || type === 'maildir' ? type : null;
+  }
+
+  private static sensitivity(): 'LOW' | 'MEDIUM' | 'HIGH' {
+    const level = process.env.MAILBOX_SENSITIVITY;
+    return level === 'MEDIUM' || level === 'HIGH' ? level : 'LOW';
+  }
+}
+
+export default MailboxPollingJob;
@@ -0,0 +1,51 @@
+import cron from 'node-cron';
+import { RetentionService } from '@/services/retentionService';
+import { logger } from '@/config/logger';
+
+/**
+ * Hourly job that enforces invoice retention policies
+ * Securely deletes stored files whose retention period has expired
+ */
+export class RetentionPurgeJob {
+  private static job: cron.ScheduledTask | null = null;
+
+  /**
+   * Start the hourly purge job
+   */
+  static start(): void {
+    // Run at the top of every hour
+    this.job = cron.schedule('0 * * * *', async () => {
+      try {
+        const purged = await RetentionService.purgeExpiredFiles();
+        logger.info(`Retention purge completed: ${purged} file(s) deleted`);
+      } catch (error) {
+        logger.error('Retention purge failed:', error);
+      }
+    }, {
+      scheduled: true
+    });
+
+    logger.info('Retention purge job scheduled to run hourly');
+  }
+
+  /**
+   * Stop the scheduled job
+   */
+  static stop(): void {
+    if (this.job) {
+      this.job.stop();
+      this.job = null;
+      logger.info('Retention purge job stopped');
+    }
+  }
+
+  /**
+   * Run the purge manually
+   */
+  static async runNow(): Promise<number> {
+    logger.info('Running retention purge manually...');
+    return RetentionService.purgeExpiredFiles();
+  }
+}
+
+export default RetentionPurgeJob;
@@ -0,0 +1,54 @@
+import cron from 'node-cron';
+import { SubscriptionService } from '@/services/subscriptionService';
+import { logger } from '@/config/logger';
+
+/**
+ * Daily job that detects new recurring charges and follows known subscriptions
+ * Drafts charges that fall due and flags missed, late or re-priced ones
+ */
+export class SubscriptionTrackingJob {
+  private static job: cron.ScheduledTask | null = null;
+
+  /**
+   * Start the daily subscription job
+   */
+  static start(): void {
+    // Run daily at 6:00 AM, so drafts are waiting at the start of the day
+    this.job = cron.schedule('0 6 * * *', async () => {
+      try {
+        const result = await SubscriptionService.runAll();
+        logger.info(
+          `Subscription tracking completed: ${result.detected} detected, ${result.charges} charge(s), ` +
+          `${result.drafted} draft(s), ${result.flagged} flag(s)`
+        );
+      } catch (error) {
+        logger.error('Subscription tracking failed:', error);
+      }
+    }, {
+      scheduled: true
+    });
+
+    logger.info('Subscription tracking job scheduled to run daily at 6:00 AM');
+  }
+
+  /**
+   * Stop the scheduled job
+   */
+  static stop(): void {
+    if (this.job) {
+      this.job.stop();
+      this.job = null;
+      logger.info('Subscription tracking job stopped');
+    }
+  }
+
+  /**
+   * Run the job manually
+   */
+  static async runNow(): Promise<void> {
+    logger.info('Running subscription tracking manually...');
+    await SubscriptionService.runAll();
+  }
+}
+
+export default SubscriptionTrackingJob;
@@ -0,0 +1,170 @@
+import assert from 'node:assert/strict';
+import { afterEach, beforeEach, describe, it, mock } from 'node:test';
+import { UploadProcessingJob } from '@/jobs/uploadProcessingJob';
+import { AuditLogModel } from '@/models/AuditLog';
+import { ExpenseModel } from '@/models/Expense';
+import { ExtractionTemplateModel } from '@/models/ExtractionTemplate';
+import { FileModel } from '@/models/File';
+import { AntivirusService } from '@/services/antivirusService';
+import { DuplicateDetectionService } from '@/services/duplicateDetectionService';
+import { FileStorageService } from '@/services/fileStorageService';
+import { UploadJob, UploadQueueService } from '@/services/uploadQueueService';
+import { Expense, ExpenseCreateRequest, FileRecord } from '@/types';
+import { EInvoice } from '@/utils/eInvoice';
+
+const IBAN = 'IL62 0108 0000 0009 9999 999';
+const CARD = '4111 1111 1111 1111';
+
+const E_INVOICE = `<?xml version="1.0" encoding="UTF-8"?>
+<Invoice xmlns="urn:oasis:names:specification:ubl:schema:xsd:Invoice-2"
+  xmlns:cac="urn:oasis:names:specification:ubl:schema:xsd:CommonAggregateComponents-2"
+  xmlns:cbc="urn:oasis:names:specification:ubl:schema:xsd:CommonBasicComponents-2">
+  <cbc:ID>INV-42</cbc:ID>
+  <cbc:IssueDate>2024-03-01</cbc:IssueDate>
+  <cbc:DocumentCurrencyCode>EUR</cbc:DocumentCurrencyCode>
+  <cac:AccountingSupplierParty><cac:Party>
+    <cac:PartyName><cbc:Name>Acme Cloud GmbH, IBAN ${IBAN}</cbc:Name></cac:PartyName>
+  </cac:Party></cac:AccountingSupplierParty>
+  <cac:AccountingCustomerParty><cac:Party>
+    <cac:PartyName><cbc:Name>Buyer Ltd, card ${CARD}</cbc:Name></cac:PartyName>
+  </cac:Party></cac:AccountingCustomerParty>
+  <cac:LegalMonetaryTotal>
+    <cbc:PayableAmount currencyID="EUR">100.00</cbc:PayableAmount>
+  </cac:LegalMonetaryTotal>
+  <cac:InvoiceLine>
+    <cbc:ID>1</cbc:ID>
+    <cbc:InvoicedQuantity unitCode="C62">1</cbc:InvoicedQuantity>
+    <cbc:LineExtensionAmount currencyID="EUR">100.00</cbc:LineExtensionAmount>
+    <cac:Item><cbc:Name>Refund to card ${CARD}</cbc:Name></cac:Item>
+    <cac:Price><cbc:PriceAmount currencyID="EUR">100.00</cbc:PriceAmount></cac:Price>
+  </cac:InvoiceLine>
+</Invoice>`;
+
+// Single-page PDF with a text layer, so extraction takes the pdf-parse path
+const textPdf = (lines: string[]) => {
+  const stream = `BT /F1 11 Tf 50 780 Td ${lines.map(line => `(${line}) Tj`).join(' 0 -14 Td ')} ET`;
+  const objects = [
+    '<< /Type /Catalog /Pages 2 0 R >>',
+    '<< /Type /Pages /Kids [3 0 R] /Count 1 >>',
+    '<< /Type /Page /Parent 2 0 R /MediaBox [0 0 612 842] /Contents 4 0 R /Resources << /Font << /F1 5 0 R >> >> >>',
+    `<< /Length ${stream.length} >>\nstream\n${stream}\nendstream`,
+    '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica >>'
+  ];
+
+  let pdf = '%PDF-1.4\n';
+  const offsets = objects.map((object, i) => {
+    const offset = pdf.length;
+    pdf += `${i + 1} 0 obj\n${object}\nendobj\n`;
+    return offset;
+  });
+  const xref = pdf.length;
+  pdf += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+  pdf += offsets.map(offset => `${String(offset).padStart(10, '0')} 00000 n \n`).join('');
+  pdf += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R >>\nstartxref\n${xref}\n%%EOF\n`;
+  return Buffer.from(pdf, 'latin1');
+};
+
+const fileRecord = (mimeType: string): FileRecord => ({
+  id: 11,
+  original_filename: 'invoice',
+  encrypted_filename: 'stored',
+  file_size: 1024,
+  mime_type: mimeType,
+  encryption_key_hash: 'key',
+  sensitivity_level: 'HIGH',
+  retention_policy: 'temporary',
+  processing_status: 'queued',
+  uploaded_by: 3,
+  uploaded_at: new Date()
+});
+
+const job: UploadJob = {
+  id: 'job-1',
+  fileId: 11,
+  userId: 3,
+  status: 'queued',
+  draft: { source: 'email' },
+  createdAt: '2024-03-01T00:00:00.000Z',
+  updatedAt: '2024-03-01T00:00:00.000Z'
+};
+
+// The worker loop is private; jobs are processed one at a time through here
+const processJob = (uploadJob: UploadJob) =>
+  (UploadProcessingJob as unknown as { process(job: UploadJob): Promise<void> }).process(uploadJob);
+
+describe('UploadProcessingJob', () => {
+  let updates: Parameters<typeof UploadQueueService.updateJob>[1][];
+  let drafts: ExpenseCreateRequest[];
+  let storedInvoices: EInvoice[];
+
+  const upload = (mimeType: string, content: Buffer) => {
+    mock.method(FileModel, 'findById', async () => fileRecord(mimeType));
+    mock.method(FileStorageService, 'retrieve', async () => content);
+  };
+
+  beforeEach(() => {
+    updates = [];
+    drafts = [];
+    storedInvoices = [];
+
+    mock.method(UploadQueueService, 'updateJob', async (current: UploadJob, update: Parameters<typeof UploadQueueService.updateJob>[1]) => {
+      updates.push(update);
+      return { ...current, ...update };
+    });
+    mock.method(AntivirusService, 'scanFile', async () => ({ isClean: true, threats: [], scanTime: 0 }));
+    mock.method(FileModel, 'updateOCRText', async () => undefined);
+    mock.method(FileModel, 'updateEInvoice', async (_id: number, invoice: EInvoice) => {
+      storedInvoices.push(invoice);
+    });
+    mock.method(FileModel, 'updateRetention', async () => undefined);
+    mock.method(ExtractionTemplateModel, 'findByUser', async () => []);
+    mock.method(DuplicateDetectionService, 'findExpenseDuplicates', async () => []);
+    mock.method(ExpenseModel, 'create', async (data: ExpenseCreateRequest) => {
+      drafts.push(data);
+      return { id: 21 } as Expense;
+    });
+    mock.method(AuditLogModel, 'create', async () => undefined);
+  });
+
+  afterEach(() => mock.restoreAll());
+
+  const assertMasked = (value: unknown) => {
+    const json = JSON.stringify(value);
+    assert.ok(!json.includes(IBAN), `IBAN leaked: ${json}`);
+    assert.ok(!json.includes(CARD), `card number leaked: ${json}`);
+  };
+
+  it('masks e-invoice parties and lines before storing or returning them', async () => {
+    upload('application/xml', Buffer.from(E_INVOICE));
+
+    await processJob(job);
+
+    const result = updates.at(-1);
+    assert.equal(result?.status, 'ready', result?.error);
+    assert.equal(result.result.ocrResults.eInvoice.seller.name, 'Acme Cloud GmbH, IBAN [IBAN]');
+    assert.equal(result.result.ocrResults.invoiceFields.invoiceNumber.value, 'INV-42');
+    assertMasked(result.result);
+    assertMasked(storedInvoices);
+    assert.equal(drafts.length, 1);
+    assert.equal(drafts[0].source_type, 'email');
+    assertMasked(drafts[0].metadata);
+  });
+
+  it('masks fields read from OCR text before storing or returning them', async () => {
+    upload('application/pdf', textPdf([
+      'Acme Hosting Ltd',
+      'Invoice No: INV-2024-001',
+      `Card payment ${CARD} 1 x 80.00 80.00`,
+      `Total 80.00 paid from ${IBAN}`
+    ]));
+
+    await processJob(job);
+
+    const result = updates.at(-1);
+    assert.equal(result?.status, 'ready', result?.error);
+    assert.equal(result.result.ocrResults.invoiceFields.total.value, 80);
+    assertMasked(result.result);
+    assert.equal(drafts.length, 1);
+    assertMasked(drafts[0].metadata);
+  });
+});
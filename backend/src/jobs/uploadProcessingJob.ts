@@ -0,0 +1,285 @@
+import { DateTime } from 'luxon';
+import { getRedisClient } from '@/config/redis';
+import { logger } from '@/config/logger';
+import { AuditLogModel } from '@/models/AuditLog';
+import { ExpenseModel } from '@/models/Expense';
+import { ExtractionTemplateModel } from '@/models/ExtractionTemplate';
+import { FileModel } from '@/models/File';
+import { AntivirusService } from '@/services/antivirusService';
+import { DuplicateDetectionService, DuplicateMatch } from '@/services/duplicateDetectionService';
+import { EInvoiceService, StructuredExtraction } from '@/services/eInvoiceService';
+import { ExtractionTemplateService } from '@/services/extractionTemplateService';
+import { FileStorageService } from '@/services/fileStorageService';
+import { UploadJob, UploadQueueService } from '@/services/uploadQueueService';
+import { ExtractionTemplate, FileRecord } from '@/types';
+import { EInvoice } from '@/utils/eInvoice';
+import { ExtractionEngine, extractText, PageOcrResult } from '@/utils/invoiceExtraction';
+import { InvoiceFields } from '@/utils/invoiceFields';
+import { redactFields, redactText } from '@/utils/redaction';
+
+/**
+ * Background worker that processes queued invoice uploads
+ * Scans and OCRs files outside the request cycle so large images
+ * and multi-page scans don't block the upload request
+ */
+export class UploadProcessingJob {
+  private static client: ReturnType<typeof getRedisClient> | null = null;
+  private static running = false;
+  private static loop: Promise<void> | null = null;
+
+  // Seconds to block waiting for a job before re-checking the running flag
+  private static readonly POLL_TIMEOUT_SECONDS = 5;
+
+  /**
+   * Start consuming the upload queue
+   */
+  static async start(): Promise<void> {
+    if (this.running) return;
+
+    // Blocking pops need a dedicated connection
+    this.client = getRedisClient().duplicate();
+    await this.client.connect();
+    this.running = true;
+
+    const requeued = await UploadQueueService.requeueInterrupted();
+    if (requeued > 0) {
+      logger.info(`Requeued ${requeued} interrupted upload job(s)`);
+    }
+
+    this.loop = this.consume();
+    logger.info('Upload processing worker started');
+  }
+
+  /**
+   * Stop consuming after the current job finishes
+   */
+  static async stop(): Promise<void> {
+    if (!this.running) return;
+
+    this.running = false;
+    await this.loop;
+    await this.client?.quit();
+    this.client = null;
+    this.loop = null;
+    logger.info('Upload processing worker stopped');
+  }
+
+  private static async consume(): Promise<void> {
+    while (this.running && this.client) {
+      let jobId: string | null;
+      try {
+        jobId = await this.client.blMove(
+          UploadQueueService.QUEUE_KEY,
+          UploadQueueService.PROCESSING_KEY,
+          'RIGHT',
+          'LEFT',
+          this.POLL_TIMEOUT_SECONDS
+        );
+      } catch (error) {
+        logger.error('Upload queue read failed:', error);
+        await new Promise(resolve => setTimeout(resolve, this.POLL_TIMEOUT_SECONDS * 1000));
+        continue;
+      }
+
+      if (!jobId) continue;
+
+      try {
+        const job = await UploadQueueService.getJob(jobId);
+        if (job) {
+          await this.process(job);
+        } else {
+          logger.warn(`Upload job ${jobId} expired before processing`);
+        }
+        await UploadQueueService.acknowledge(jobId);
+      } catch (error) {
+        logger.error(`Upload job ${jobId} bookkeeping failed:`, error);
+      }
+    }
+  }
+
+  private static async process(job: UploadJob): Promise<void> {
+    try {
+      const file = await FileModel.findById(job.fileId);
+      if (!file) {
+        throw new Error('File record not found');
+      }
+
+      const buffer = await FileStorageService.retrieve(file.encrypted_filename, file.encryption_key_hash);
+
+      // Antivirus scan
+      job = await UploadQueueService.updateJob(job, { status: 'scanning' });
+      const scanResult = await AntivirusService.scanFile(buffer, file.original_filename, file.mime_type);
+      if (!scanResult.isClean) {
+        await FileStorageService.secureDelete(file.encrypted_filename);
+        await FileModel.markAsDeleted(file.id);
+
+        const recommendation = AntivirusService.getSecurityRecommendation(scanResult);
+        throw new Error(`Security scan failed: ${scanResult.threats.join(', ')}. ${recommendation}`);
+      }
+
+      job = await UploadQueueService.updateJob(job, { status: 'extracting' });
+
+      // Machine-readable invoices (UBL/CII XML, ZUGFeRD/Factur-X PDFs) skip OCR entirely
+      const structured = await EInvoiceService.extract(buffer, file.mime_type);
+
+      let engine: ExtractionEngine;
+      let ocrConfidence: number | undefined;
+      let pages: PageOcrResult[] | undefined;
+      let extractedData: StructuredExtraction['extractedData'];
+      let invoiceFields: InvoiceFields;
+      let template: ExtractionTemplate | null = null;
+      let redaction: ReturnType<typeof redactText>;
+      let eInvoice: EInvoice | null = null;
+
+      if (structured) {
+        ({ extractedData, invoiceFields } = structured);
+        redaction = this.redact(file.id, structured.text);
+        // Parsed parties and lines never pass through the text redaction
+        eInvoice = redactFields(structured.invoice);
+        engine = 'e-invoice';
+        ocrConfidence = 1;
+        await FileModel.updateEInvoice(file.id, eInvoice);
+      } else {
+        // Extract text (with Hebrew support by default)
+        let rawText: string;
+        ({ text: rawText, engine, ocrConfidence, pages } = await extractText(buffer, file.mime_type));
+
+        if (!rawText || !rawText.trim()) {
+          throw new Error(
+            file.mime_type === 'application/pdf'
+              ? 'No text could be recognized in the scanned PDF'
+              : 'Could not extract text from file'
+          );
+        }
+
+        // Templates are learned from the stored text, so they read the same redacted text
+        redaction = this.redact(file.id, rawText);
+        ({ extractedData, invoiceFields, template } = await ExtractionTemplateService.extract(job.userId, redaction.text));
+        if (template) {
+          await ExtractionTemplateModel.recordUse(template.id);
+        }
+      }
+
+      // Fields are stored in the draft and returned, so mask them like the text
+      extractedData = redactFields(extractedData);
+      invoiceFields = redactFields(invoiceFields);
+
+      const text = redaction.text;
+      await FileModel.updateOCRText(file.id, text);
+
+      // Flag only; confirming the expense enforces the override
+      const duplicates = await DuplicateDetectionService.findExpenseDuplicates(job.userId, {
+        providerName: extractedData.vendor,
+        invoiceNumber: invoiceFields.invoiceNumber?.value,
+        amount: extractedData.amount ? parseFloat(extractedData.amount) : undefined,
+        date: extractedData.date
+      });
+
+      // Mailbox and drop-folder invoices have no one waiting on the review form
+      const draftExpenseId = job.draft
+        ? await this.createDraft(job, file, { extractedData, invoiceFields, eInvoice, template, duplicates })
+        : undefined;
+
+      // Keep payload light; full text is stored server-side
+      const textPreviewLimit = parseInt(process.env.TEXT_PREVIEW_LIMIT || '5000', 10);
+      const textPreview = text.length > textPreviewLimit ? `${text.slice(0, textPreviewLimit)}…` : text;
+
+      await UploadQueueService.updateJob(job, {
+        status: 'ready',
+        result: {
+          success: true,
+          message: 'File uploaded and processed successfully',
+          file: { id: file.id, originalName: file.original_filename, size: file.file_size, type: file.mime_type },
+          ocrResults: {
+            engine,                    // 'pdf-parse' | 'tesseract' | 'pdf-ocr' | 'e-invoice'
+            confidence: ocrConfidence, // 0..1 (OCR) | 1 (e-invoice) | undefined (pdf-parse)
+            pages,                     // per-page OCR confidence for scanned PDFs
+            text: textPreview,
+            redactions: redaction.report, // counts of masked PII/secrets per category
+            extractedData,             // { amount, currency, date, vendor }
+            invoiceFields,             // invoice number, totals, tax, line items with per-field confidence
+            eInvoice: structured && eInvoice
+              ? {
+                  format: eInvoice.format,
+                  profile: eInvoice.profile,
+                  source: structured.source,
+                  seller: eInvoice.seller,
+                  buyer: eInvoice.buyer
+                }
+              : null,
+          },
+          duplicates,
+          template: template ? { id: template.id, vendorName: template.vendor_name } : null,
+          draftExpenseId,
+        }
+      });
+
+      logger.info(`Upload job ${job.id} processed (file ${file.id}, engine ${engine})`);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      logger.error(`Upload job ${job.id} failed:`, error);
+      await UploadQueueService.updateJob(job, { status: 'failed', error: message });
+    }
+  }
+
+  private static redact(fileId: number, text: string): ReturnType<typeof redactText> {
+    const redaction = redactText(text);
+    if (redaction.report.total > 0) {
+      logger.info(`Redacted ${redaction.report.total} item(s) from file ${fileId}: ${Object.keys(redaction.report.categories).join(', ')}`);
+    }
+    return redaction;
+  }
+
+  /**
+   * Record the extraction as a draft expense awaiting review. Missing values
+   * are left for the reviewer; the invoice is held until the draft is approved.
+   */
+  private static async createDraft(
+    job: UploadJob,
+    file: FileRecord,
+    extraction: {
+      extractedData: StructuredExtraction['extractedData'];
+      invoiceFields: InvoiceFields;
+      eInvoice: EInvoice | null;
+      template: ExtractionTemplate | null;
+      duplicates: DuplicateMatch[];
+    }
+  ): Promise<number> {
+    const { extractedData, invoiceFields, eInvoice, template, duplicates } = extraction;
+
+    const expense = await ExpenseModel.create({
+      provider_name: extractedData.vendor || 'Unknown vendor',
+      amount: extractedData.amount ? parseFloat(extractedData.amount) : 0,
+      currency: extractedData.currency,
+      date: extractedData.date || DateTime.now().toISODate()!,
+      due_date: invoiceFields.dueDate?.value,
+      category: job.draft!.category,
+      file_id: file.id,
+      source_type: job.draft!.source,
+      metadata: {
+        invoice: invoiceFields,
+        ingestion: { source: job.draft!.source },
+        ...(eInvoice && {
+          eInvoice: { format: eInvoice.format, profile: eInvoice.profile, seller: eInvoice.seller }
+        }),
+        ...(template && { extractionTemplateId: template.id }),
+        ...(duplicates.length > 0 && { possibleDuplicates: duplicates.map(d => ({ reason: d.reason, expenseId: d.expenseId })) })
+      }
+    }, job.userId, 'draft');
+
+    // Unconfirmed uploads expire after a day; a draft may wait longer for review
+    await FileModel.updateRetention(file.id, 'temporary', null);
+
+    await AuditLogModel.create({
+      userId: job.userId,
+      action: 'EXPENSE_DRAFT_CREATE',
+      resourceType: 'expense',
+      resourceId: expense.id,
+      details: { source: job.draft!.source, fileId: file.id, duplicates: duplicates.length }
+    });
+
+    return expense.id;
+  }
+}
+
+export default UploadProcessingJob;
@@ -119,6 +119,21 @@ export const optionalAuth = async (
   }
 };
 
+// Organisation-wide settings are managed by the users named in ADMIN_USERNAMES (comma-separated)
+export const isAdmin = (username?: string): boolean =>
+  Boolean(username) && (process.env.ADMIN_USERNAMES || '')
+    .split(',')
+    .map(name => name.trim())
+    .includes(username!);
+
+export const requireAdmin = (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+  if (!isAdmin(req.user?.username)) {
+    return next(createError('Administrator access required', 403));
+  }
+  
+  next();
+};
+
 // Honeypot middleware to detect bots
 export const honeypot = (req: Request, res: Response, next: NextFunction) => {
   const honeypotField = req.body.website || req.body.url || req.body.homepage;
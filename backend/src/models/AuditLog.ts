@@ -105,7 +105,7 @@ export class AuditLogModel {
        WHERE action IN (
          'LOGIN_FAILED', 'LOGIN_SUCCESS', 'LOGOUT', 
          'ACCOUNT_LOCKED', 'PASSWORD_CHANGE',
-         'SENSITIVE_DATA_ACCESS', 'FILE_UPLOAD',
+         'SENSITIVE_DATA_ACCESS', 'FILE_UPLOAD', 'FILE_BATCH_UPLOAD', 'FILE_DOWNLOAD', 'FILE_DELETE',
          'DATA_EXPORT', 'ADMIN_ACTION'
        )
        ORDER BY timestamp DESC 
@@ -0,0 +1,182 @@
+import { query } from '@/config/database';
+import { BankTransaction, Expense } from '@/types';
+
+export class BankTransactionModel {
+  
+  /**
+   * Store a statement line. Returns null when the line was recorded by an
+   * earlier import of the same statement.
+   */
+  static async create(data: {
+    userId: number;
+    sourceName: string;
+    importKey: string;
+    date: string;
+    description: string;
+    amount: number;
+    currency: string;
+    reference?: string;
+    expenseId?: number;
+  }): Promise<BankTransaction | null> {
+    const result = await query(
+      `INSERT INTO bank_transactions (
+        user_id, source_name, import_key, date, description, amount, currency, reference,
+        expense_id, match_type, matched_at, created_at
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9::integer,
+        CASE WHEN $9::integer IS NULL THEN NULL ELSE 'import' END,
+        CASE WHEN $9::integer IS NULL THEN NULL ELSE CURRENT_TIMESTAMP END,
+        CURRENT_TIMESTAMP)
+      ON CONFLICT (user_id, import_key) DO NOTHING
+      RETURNING *`,
+      [
+        data.userId,
+        data.sourceName,
+        data.importKey,
+        data.date,
+        data.description,
+        data.amount,
+        data.currency,
+        data.reference || null,
+        data.expenseId || null
+      ]
+    );
+    
+    return result.rows.length > 0 ? result.rows[0] : null;
+  }
+  
+  /**
+   * Which of these import keys are already recorded as transactions
+   */
+  static async findRecordedKeys(userId: number, importKeys: string[]): Promise<Set<string>> {
+    if (importKeys.length === 0) return new Set();
+    
+    const result = await query(
+      'SELECT import_key FROM bank_transactions WHERE user_id = $1 AND import_key = ANY($2)',
+      [userId, importKeys]
+    );
+    
+    return new Set(result.rows.map((row: any) => row.import_key));
+  }
+  
+  static async findById(id: number, userId: number): Promise<BankTransaction | null> {
+    const result = await query(
+      'SELECT * FROM bank_transactions WHERE id = $1 AND user_id = $2',
+      [id, userId]
+    );
+    
+    return result.rows.length > 0 ? result.rows[0] : null;
+  }
+  
+  static async findUnmatched(userId: number, limit?: number): Promise<BankTransaction[]> {
+    const result = await query(
+      `SELECT * FROM bank_transactions
+       WHERE user_id = $1 AND expense_id IS NULL AND ignored_at IS NULL
+       ORDER BY date DESC, id DESC
+       ${limit ? 'LIMIT $2' : ''}`,
+      limit ? [userId, limit] : [userId]
+    );
+    
+    return result.rows;
+  }
+  
+  static async findIgnored(userId: number, limit: number): Promise<BankTransaction[]> {
+    const result = await query(
+      `SELECT * FROM bank_transactions
+       WHERE user_id = $1 AND ignored_at IS NOT NULL
+       ORDER BY ignored_at DESC
+       LIMIT $2`,
+      [userId, limit]
+    );
+    
+    return result.rows;
+  }
+  
+  /**
+   * Matched transactions with the expense they paid, newest match first.
+   * Import matches are left out: those expenses were created from the line itself.
+   */
+  static async findRecentMatches(userId: number, limit: number): Promise<(BankTransaction & {
+    expense: Pick<Expense, 'id' | 'provider_name' | 'amount' | 'currency' | 'date' | 'due_date' | 'payment_status'>;
+  })[]> {
+    const result = await query(
+      `SELECT t.*,
+              json_build_object(
+                'id', e.id,
+                'provider_name', e.provider_name,
+                'amount', e.amount,
+                'currency', e.currency,
+                'date', e.date,
+                'due_date', e.due_date,
+                'payment_status', e.payment_status
+              ) AS expense
+       FROM bank_transactions t
+       JOIN expenses e ON e.id = t.expense_id
+       WHERE t.user_id = $1 AND t.match_type <> 'import'
+       ORDER BY t.matched_at DESC
+       LIMIT $2`,
+      [userId, limit]
+    );
+    
+    return result.rows;
+  }
+  
+  /**
+   * Attach an unmatched transaction to an expense; returns null if the
+   * transaction is gone, ignored or already matched
+   */
+  static async match(
+    id: number,
+    userId: number,
+    expenseId: number,
+    matchType: 'auto' | 'manual',
+    score?: number
+  ): Promise<BankTransaction | null> {
+    const result = await query(
+      `UPDATE bank_transactions
+       SET expense_id = $3, match_type = $4, match_score = $5, matched_at = CURRENT_TIMESTAMP
+       WHERE id = $1 AND user_id = $2 AND expense_id IS NULL AND ignored_at IS NULL
+       RETURNING *`,
+      [id, userId, expenseId, matchType, score ?? null]
+    );
+    
+    return result.rows.length > 0 ? result.rows[0] : null;
+  }
+  
+  static async unmatch(id: number, userId: number): Promise<BankTransaction | null> {
+    const result = await query(
+      `UPDATE bank_transactions
+       SET expense_id = NULL, match_type = NULL, match_score = NULL, matched_at = NULL
+       WHERE id = $1 AND user_id = $2 AND expense_id IS NOT NULL AND match_type <> 'import'
+       RETURNING *`,
+      [id, userId]
+    );
+    
+    return result.rows.length > 0 ? result.rows[0] : null;
+  }
+  
+  static async setIgnored(id: number, userId: number, ignored: boolean): Promise<BankTransaction | null> {
+    const result = await query(
+      `UPDATE bank_transactions
+       SET ignored_at = ${ignored ? 'CURRENT_TIMESTAMP' : 'NULL'}
+       WHERE id = $1 AND user_id = $2 AND expense_id IS NULL
+       RETURNING *`,
+      [id, userId]
+    );
+    
+    return result.rows.length > 0 ? result.rows[0] : null;
+  }
+  
+  static async getSummary(userId: number): Promise<{ unmatched: number; matched: number; ignored: number }> {
+    const result = await query(
+      `SELECT
+         COUNT(*) FILTER (WHERE expense_id IS NULL AND ignored_at IS NULL)::int AS unmatched,
+         COUNT(*) FILTER (WHERE expense_id IS NOT NULL)::int AS matched,
+         COUNT(*) FILTER (WHERE ignored_at IS NOT NULL)::int AS ignored
+       FROM bank_transactions
+       WHERE user_id = $1`,
+      [userId]
+    );
+    
+    return result.rows[0];
+  }
+}
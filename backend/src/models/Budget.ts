@@ -0,0 +1,110 @@
+import { query } from '@/config/database';
+import { Budget, BudgetPeriod, BudgetScope } from '@/types';
+
+export interface BudgetInput {
+  name: string;
+  period: BudgetPeriod;
+  scopeType: BudgetScope;
+  scopeValue: string;
+  amount: number;
+  currency: string;
+  thresholds: number[];
+  isActive: boolean;
+}
+
+export class BudgetModel {
+  
+  static async create(userId: number, data: BudgetInput): Promise<Budget> {
+    const result = await query(
+      `INSERT INTO budgets (
+        user_id, name, period, scope_type, scope_value, amount, currency, thresholds, is_active,
+        created_at, updated_at
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, CURRENT_TIMESTAMP, CURRENT_TIMESTAMP)
+      RETURNING *`,
+      [
+        userId,
+        data.name,
+        data.period,
+        data.scopeType,
+        data.scopeValue,
+        data.amount,
+        data.currency,
+        data.thresholds,
+        data.isActive
+      ]
+    );
+    
+    return result.rows[0];
+  }
+  
+  static async findById(id: number, userId: number): Promise<Budget | null> {
+    const result = await query(
+      'SELECT * FROM budgets WHERE id = $1 AND user_id = $2',
+      [id, userId]
+    );
+    
+    return result.rows.length > 0 ? result.rows[0] : null;
+  }
+  
+  static async findByUser(userId: number): Promise<Budget[]> {
+    const result = await query(
+      `SELECT * FROM budgets
+       WHERE user_id = $1
+       ORDER BY is_active DESC, name`,
+      [userId]
+    );
+    
+    return result.rows;
+  }
+  
+  /**
+   * Every active budget, for the scheduled alert check
+   */
+  static async findActive(): Promise<Budget[]> {
+    const result = await query(
+      'SELECT * FROM budgets WHERE is_active ORDER BY user_id, id'
+    );
+    
+    return result.rows;
+  }
+  
+  static async update(id: number, userId: number, data: Partial<BudgetInput>): Promise<Budget | null> {
+    const result = await query(
+      `UPDATE budgets
+       SET name = COALESCE($1, name),
+           period = COALESCE($2, period),
+           scope_type = COALESCE($3, scope_type),
+           scope_value = COALESCE($4, scope_value),
+           amount = COALESCE($5, amount),
+           currency = COALESCE($6, currency),
+           thresholds = COALESCE($7, thresholds),
+           is_active = COALESCE($8, is_active),
+           updated_at = CURRENT_TIMESTAMP
+       WHERE id = $9 AND user_id = $10
+       RETURNING *`,
+      [
+        data.name ?? null,
+        data.period ?? null,
+        data.scopeType ?? null,
+        data.scopeValue ?? null,
+        data.amount ?? null,
+        data.currency ?? null,
+        data.thresholds ?? null,
+        data.isActive ?? null,
+        id,
+        userId
+      ]
+    );
+    
+    return result.rows.length > 0 ? result.rows[0] : null;
+  }
+  
+  static async delete(id: number, userId: number): Promise<boolean> {
+    const result = await query(
+      'DELETE FROM budgets WHERE id = $1 AND user_id = $2',
+      [id, userId]
+    );
+    
+    return (result.rowCount ?? 0) > 0;
+  }
+}
@@ -0,0 +1,47 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { ExpenseModel } from '@/models/Expense';
+
+describe('expense cursors', () => {
+  it('round-trips through encode and decode', () => {
+    const cursor = { sort: 'amount' as const, order: 'desc' as const, key: '120.50', id: 42 };
+    const encoded = ExpenseModel.encodeCursor(cursor);
+
+    assert.match(encoded, /^[A-Za-z0-9_-]+$/);
+    assert.deepEqual(ExpenseModel.decodeCursor(encoded, 'amount', 'desc'), cursor);
+  });
+
+  it('rejects a cursor issued under a different sort or order', () => {
+    const encoded = ExpenseModel.encodeCursor({ sort: 'date', order: 'asc', key: '2024-01-05', id: 7 });
+
+    assert.equal(ExpenseModel.decodeCursor(encoded, 'amount', 'asc'), null);
+    assert.equal(ExpenseModel.decodeCursor(encoded, 'date', 'desc'), null);
+  });
+
+  it('rejects malformed cursors', () => {
+    const encode = (value: unknown) => Buffer.from(JSON.stringify(value)).toString('base64url');
+
+    assert.equal(ExpenseModel.decodeCursor('not a cursor', 'date', 'asc'), null);
+    assert.equal(ExpenseModel.decodeCursor(encode({ sort: 'date', order: 'asc', key: 5, id: 1 }), 'date', 'asc'), null);
+    assert.equal(ExpenseModel.decodeCursor(encode({ sort: 'date', order: 'asc', key: '5', id: 1.5 }), 'date', 'asc'), null);
+  });
+
+  it('only accepts keys of the sort column type', () => {
+    assert.equal(ExpenseModel.isValidCursorKey('date', '2024-01-05'), true);
+    assert.equal(ExpenseModel.isValidCursorKey('date', 'yesterday'), false);
+    assert.equal(ExpenseModel.isValidCursorKey('due_date', '2024-02-30'), false);
+    assert.equal(ExpenseModel.isValidCursorKey('created_at', '2024-01-05 09:30:12.123456'), true);
+    assert.equal(ExpenseModel.isValidCursorKey('created_at', '2024-01-05'), false);
+    assert.equal(ExpenseModel.isValidCursorKey('amount', '-120.50'), true);
+    assert.equal(ExpenseModel.isValidCursorKey('relevance', '1e5'), false);
+    assert.equal(ExpenseModel.isValidCursorKey('sensitivity_level', '99999999999'), false);
+    assert.equal(ExpenseModel.isValidCursorKey('provider_name', 'anything, even 2024-02-30'), true);
+  });
+
+  it('only accepts known sort fields', () => {
+    assert.equal(ExpenseModel.isSortField('relevance'), true);
+    assert.equal(ExpenseModel.isSortField('date'), true);
+    assert.equal(ExpenseModel.isSortField('toString'), false);
+    assert.equal(ExpenseModel.isSortField('created_by; DROP TABLE expenses'), false);
+  });
+});
@@ -1,20 +1,214 @@
 import { query } from '@/config/database';
-import { Expense, ExpenseCreateRequest, ExpenseUpdateRequest } from '@/types';
+import {
+  BudgetScope,
+  Expense,
+  ExpenseCreateRequest,
+  ExpenseCursor,
+  ExpenseFilters,
+  ExpensePage,
+  ExpensePageRequest,
+  ExpenseSortField,
+  ExpenseStatus,
+  ExpenseUpdateRequest
+} from '@/types';
+import { DuplicateDetectionService } from '@/services/duplicateDetectionService';
+import { VendorModel } from '@/models/Vendor';
+import { Classification, SensitivityRuleService } from '@/services/sensitivityRuleService';
+import { getFxMaxRateAgeDays, getReportingCurrency } from '@/config/currency';
 
 export class ExpenseModel {
   
-  static async findAll(
-    userId: number,
-    filters?: {
-      startDate?: string;
-      endDate?: string;
-      provider?: string;
-      category?: string;
-      minAmount?: number;
-      maxAmount?: number;
-      showMasked?: boolean;
+  static async findAll(userId: number, filters?: ExpenseFilters): Promise<Expense[]> {
+    const { whereClause, params, search } = this.buildFilterClause(userId, filters);
+    
+    // Search results come best match first
+    const result = await query(
+      search
+        ? `SELECT ${this.selectFields(filters?.showMasked)}, ${this.snippetExpression(search, filters?.showMasked)} AS search_snippet
+           FROM expenses ${whereClause}
+           ORDER BY ${this.rankExpression(search)} DESC, date DESC`
+        : `SELECT ${this.selectFields(filters?.showMasked)} FROM expenses ${whereClause} ORDER BY date DESC`,
+      params
+    );
+    
+    return result.rows;
+  }
+  
+  /**
+   * One page of the filtered expenses plus the count and per-currency totals of
+   * the whole filtered set. Keyset pagination on (sort value, id), so deep pages
+   * cost the same as the first and rows don't shift when new expenses arrive.
+   */
+  static async findPage(userId: number, filters: ExpenseFilters, page: ExpensePageRequest): Promise<ExpensePage> {
+    const { whereClause, params, search } = this.buildFilterClause(userId, filters);
+    if (page.sort === 'relevance' && !search) {
+      throw new Error('Relevance sort requires a search query');
     }
-  ): Promise<Expense[]> {
+    // Rank is rounded so its text form in the cursor compares exactly
+    const { expression, type } = page.sort === 'relevance'
+      ? { expression: `ROUND(${this.rankExpression(search!)}::numeric, 6)`, type: 'numeric' }
+      : this.SORT_COLUMNS[page.sort];
+    const snippet = search ? `, ${this.snippetExpression(search, filters.showMasked)} AS search_snippet` : '';
+    const direction = page.order === 'asc' ? 'ASC' : 'DESC';
+    
+    let pageClause = whereClause;
+    const pageParams = [...params];
+    if (page.after) {
+      // Row comparison follows the sort direction on both columns
+      const operator = page.order === 'asc' ? '>' : '<';
+      pageParams.push(page.after.key, page.after.id);
+      pageClause += ` AND (${expression}, id) ${operator} ($${pageParams.length - 1}::${type}, $${pageParams.length})`;
+    }
+    pageParams.push(page.limit + 1);
+    const reportingCurrency = getReportingCurrency();
+    const totalsParams = [...params, reportingCurrency];
+    const reportingParam = `$${totalsParams.length}`;
+    
+    const [rows, totals] = await Promise.all([
+      query(
+        `SELECT ${this.selectFields(filters.showMasked)}${snippet}, (${expression})::text AS sort_key
+         FROM expenses ${pageClause}
+         ORDER BY ${expression} ${direction}, id ${direction}
+         LIMIT $${pageParams.length}`,
+        pageParams
+      ),
+      query(
+        `SELECT currency, COUNT(*) AS count, COALESCE(SUM(amount), 0) AS amount,
+                COALESCE(SUM(${this.reportingAmount(reportingParam)}), 0) AS reporting_amount,
+                COUNT(*) FILTER (WHERE ${this.reportingAmount(reportingParam)} IS NULL) AS unconverted
+         FROM expenses ${whereClause}
+         GROUP BY currency
+         ORDER BY SUM(amount) DESC`,
+        totalsParams
+      )
+    ]);
+    
+    // One extra row tells us whether there is another page without a second count query
+    const hasMore = rows.rows.length > page.limit;
+    const items = rows.rows.slice(0, page.limit);
+    const last = items[items.length - 1];
+    const nextCursor = hasMore && last
+      ? this.encodeCursor({ sort: page.sort, order: page.order, key: last.sort_key, id: last.id })
+      : null;
+    
+    for (const row of items) {
+      delete row.sort_key;
+    }
+    
+    return {
+      items,
+      nextCursor,
+      total: totals.rows.reduce((sum: number, row: any) => sum + parseInt(row.count, 10), 0),
+      totals: totals.rows.map((row: any) => ({
+        currency: row.currency || 'USD',
+        count: parseInt(row.count, 10),
+        amount: parseFloat(row.amount)
+      })),
+      reportingTotal: {
+        currency: reportingCurrency,
+        amount: Math.round(totals.rows.reduce((sum: number, row: any) => sum + parseFloat(row.reporting_amount), 0) * 100) / 100,
+        unconverted: totals.rows.reduce((sum: number, row: any) => sum + parseInt(row.unconverted, 10), 0)
+      }
+    };
+  }
+  
+  static encodeCursor(cursor: ExpenseCursor): string {
+    return Buffer.from(JSON.stringify(cursor)).toString('base64url');
+  }
+  
+  /**
+   * Returns null for malformed cursors and for cursors issued under a different sort
+   */
+  static decodeCursor(value: string, sort: ExpenseSortField, order: 'asc' | 'desc'): ExpenseCursor | null {
+    try {
+      const cursor = JSON.parse(Buffer.from(value, 'base64url').toString('utf8'));
+      if (
+        cursor?.sort !== sort ||
+        cursor?.order !== order ||
+        typeof cursor.key !== 'string' ||
+        !Number.isInteger(cursor.id)
+      ) {
+        return null;
+      }
+      return cursor;
+    } catch {
+      return null;
+    }
+  }
+  
+  /**
+   * Whether a cursor key is a value of its sort column's type, so it can be cast
+   * in the keyset condition. Keys are the column's text form, as Postgres prints it.
+   */
+  static isValidCursorKey(sort: ExpenseSortField, key: string): boolean {
+    const type = sort === 'relevance' ? 'numeric' : this.SORT_COLUMNS[sort].type;
+    const pattern = this.CURSOR_KEY_PATTERNS[type];
+    if (!pattern) return true;
+
+    const match = pattern.exec(key);
+    if (!match) return false;
+    // Dates must exist on the calendar, e.g. no 2024-02-30
+    const day = match[1] ? new Date(`${match[1]}T00:00:00Z`) : null;
+    return !day || (!isNaN(day.getTime()) && day.toISOString().startsWith(match[1]));
+  }
+  
+  static isSortField(value: unknown): value is ExpenseSortField {
+    return value === 'relevance' ||
+      (typeof value === 'string' && Object.prototype.hasOwnProperty.call(this.SORT_COLUMNS, value));
+  }
+  
+  // Text keys are cast as-is; the date part, when there is one, is captured
+  private static readonly CURSOR_KEY_PATTERNS: Record<string, RegExp> = {
+    date: /^(\d{4}-\d{2}-\d{2})$/,
+    timestamp: /^(\d{4}-\d{2}-\d{2}) (?:[01]\d|2[0-3]):[0-5]\d:[0-5]\d(?:\.\d{1,6})?$/,
+    numeric: /^-?\d{1,20}(?:\.\d{1,20})?$/,
+    integer: /^-?\d{1,9}$/
+  };
+  
+  // Sort expressions are never NULL so they can be compared in the keyset condition
+  private static readonly SORT_COLUMNS: Record<Exclude<ExpenseSortField, 'relevance'>, { expression: string; type: string }> = {
+    date: { expression: 'date', type: 'date' },
+    provider_name: { expression: 'LOWER(provider_name)', type: 'text' },
+    description: { expression: "LOWER(COALESCE(description, ''))", type: 'text' },
+    amount: { expression: 'amount', type: 'numeric' },
+    currency: { expression: "COALESCE(currency, 'USD')", type: 'text' },
+    category: { expression: "COALESCE(category, '')", type: 'text' },
+    sensitivity_level: {
+      expression: "CASE sensitivity_level WHEN 'HIGH' THEN 3 WHEN 'MEDIUM' THEN 2 ELSE 1 END",
+      type: 'integer'
+    },
+    source_type: { expression: 'source_type', type: 'text' },
+    due_date: { expression: "COALESCE(due_date, DATE '9999-12-31')", type: 'date' },
+    created_at: { expression: 'created_at', type: 'timestamp' }
+  };
+  
+  /**
+   * The search functions and their GIN indexes come from scripts/addExpenseSearchIndexes.ts.
+   * Stored invoice text lives on the expense's file, so it is matched through a subquery.
+   */
+  private static rankExpression(search: string): string {
+    return `(ts_rank(expense_search_vector(description, tags, category, metadata), ${search})
+      + COALESCE((SELECT ts_rank(invoice_text_search_vector(files.ocr_extracted_text), ${search}) * 0.5
+                  FROM files WHERE files.id = expenses.file_id AND files.deleted_at IS NULL), 0))`;
+  }
+  
+  /**
+   * Highlights are wrapped in <mark> for the client to render; the text is never treated as HTML.
+   * Masked (HIGH) rows get no snippet unless masked data was requested, since it quotes the invoice text.
+   */
+  private static snippetExpression(search: string, showMasked?: boolean): string {
+    const headline = `ts_headline('english',
+      concat_ws(E'\\n', description, (SELECT files.ocr_extracted_text FROM files
+                                       WHERE files.id = expenses.file_id AND files.deleted_at IS NULL)),
+      ${search},
+      'StartSel=<mark>, StopSel=</mark>, MaxFragments=2, MaxWords=18, MinWords=6, FragmentDelimiter=" … "')`;
+    return showMasked ? headline : `CASE WHEN sensitivity_level = 'HIGH' THEN NULL ELSE ${headline} END`;
+  }
+  
+  private static buildFilterClause(
+    userId: number,
+    filters?: ExpenseFilters
+  ): { whereClause: string; params: any[]; search?: string } {
     let whereClause = 'WHERE (created_by = $1 OR created_by IS NULL)';
     const params: any[] = [userId];
     let paramCount = 1;
@@ -49,21 +243,44 @@ export class ExpenseModel {
       params.push(filters.maxAmount);
     }
     
-    const selectFields = filters?.showMasked 
+    if (filters?.status) {
+      whereClause += ` AND status = $${++paramCount}`;
+      params.push(filters.status);
+    }
+    
+    // English stemming plus an unstemmed match, which is what covers Hebrew
+    let search: string | undefined;
+    if (filters?.q?.trim()) {
+      search = `(websearch_to_tsquery('english', $${++paramCount}) || websearch_to_tsquery('simple', $${paramCount}))`;
+      params.push(filters.q.trim());
+      whereClause += ` AND (expense_search_vector(description, tags, category, metadata) @@ ${search}
+        OR file_id IN (SELECT id FROM files
+                       WHERE invoice_text_search_vector(ocr_extracted_text) @@ ${search} AND deleted_at IS NULL))`;
+    }
+    
+    return { whereClause, params, search };
+  }
+  
+  private static selectFields(showMasked?: boolean): string {
+    return showMasked 
       ? '*' 
       : `id, 
          provider_name,
          provider_masked_name,
          description, amount, currency, date, due_date, source_type, 
          sensitivity_level, tags, category, file_id, created_by, 
-         created_at, updated_at, retention_until, metadata, file_retention_policy`;
-    
-    const result = await query(
-      `SELECT ${selectFields} FROM expenses ${whereClause} ORDER BY date DESC`,
-      params
-    );
-    
-    return result.rows;
+         created_at, updated_at, retention_until, metadata, file_retention_policy,
+         reduction_level, status, payment_status, paid_amount,
+         reporting_currency, fx_rate, reporting_amount, subscription_id, vendor_id,
+         sensitivity_rule_id, sensitivity_manual`;
+  }
+  
+  /**
+   * The converted amount, or NULL when the expense has no rate into the
+   * current reporting currency (SUM skips it; callers count it separately)
+   */
+  private static reportingAmount(currencyParam: string): string {
+    return `CASE WHEN reporting_currency = ${currencyParam} THEN reporting_amount END`;
   }
   
   static async findById(id: number, userId: number): Promise<Expense | null> {
@@ -75,21 +292,28 @@ export class ExpenseModel {
     return result.rows.length > 0 ? result.rows[0] : null;
   }
   
-  static async create(data: ExpenseCreateRequest, userId: number): Promise<Expense> {
-    // Determine sensitivity level based on provider name
-    const sensitivityResult = await query(
-      'SELECT get_provider_sensitivity($1) as sensitivity',
-      [data.provider_name]
-    );
+  static async create(data: ExpenseCreateRequest, userId: number, status: ExpenseStatus = 'approved'): Promise<Expense> {
+    const vendor = await VendorModel.resolve(data.provider_name, userId);
+    const category = data.category || vendor?.default_category || null;
     
-    const sensitivityLevel = sensitivityResult.rows[0]?.sensitivity || 'LOW';
+    // Determine sensitivity level from the classification rules
+    const classification = await SensitivityRuleService.classify({
+      providerName: data.provider_name,
+      category,
+      amount: data.amount,
+      currency: data.currency || 'USD',
+      date: data.date,
+      vendorId: vendor?.id,
+      vendorSensitivity: vendor?.default_sensitivity,
+      vendorMaskedAlias: vendor?.masked_alias
+    });
     
     const result = await query(
       `INSERT INTO expenses (
         provider_name, description, amount, currency, date, due_date,
-        source_type, sensitivity_level, tags, category, created_by,
-        created_at, updated_at
-      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, CURRENT_TIMESTAMP, CURRENT_TIMESTAMP)
+        source_type, sensitivity_level, tags, category, file_id, metadata, fingerprint, status, created_by,
+        vendor_id, provider_masked_name, sensitivity_rule_id, created_at, updated_at
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, $17, $18, CURRENT_TIMESTAMP, CURRENT_TIMESTAMP)
       RETURNING *`,
       [
         data.provider_name,
@@ -98,17 +322,108 @@ export class ExpenseModel {
         data.currency || 'USD',
         data.date,
         data.due_date || null,
-        'manual',
-        sensitivityLevel,
+        data.source_type || 'manual',
+        classification.sensitivity,
         data.tags || [],
-        data.category,
-        userId
+        category,
+        data.file_id || null,
+        data.metadata || {},
+        DuplicateDetectionService.fingerprint({
+          providerName: data.provider_name,
+          invoiceNumber: data.metadata?.invoice?.invoiceNumber?.value,
+          amount: data.amount,
+          date: data.date
+        }),
+        status,
+        userId,
+        vendor?.id ?? null,
+        classification.maskedName,
+        classification.rule?.id ?? null
       ]
     );
     
-    return result.rows[0];
+    const expense: Expense = result.rows[0];
+    Object.assign(expense, (await this.refreshConversions({ ids: [expense.id] }))[0]);
+    return expense;
   }
-  
+
+  /**
+   * Insert a statement line. Returns null when a line with the same import key
+   * was already imported, which makes re-importing a file a no-op.
+   */
+  static async createImported(
+    data: ExpenseCreateRequest,
+    userId: number,
+    importKey: string,
+    status: ExpenseStatus = 'approved'
+  ): Promise<Expense | null> {
+    const vendor = await VendorModel.resolve(data.provider_name, userId);
+    const category = data.category || vendor?.default_category || null;
+
+    const classification = await SensitivityRuleService.classify({
+      providerName: data.provider_name,
+      category,
+      amount: data.amount,
+      currency: data.currency || 'USD',
+      date: data.date,
+      vendorId: vendor?.id,
+      vendorSensitivity: vendor?.default_sensitivity,
+      vendorMaskedAlias: vendor?.masked_alias
+    });
+
+    const result = await query(
+      `INSERT INTO expenses (
+        provider_name, description, amount, currency, date,
+        source_type, sensitivity_level, tags, category, metadata, fingerprint, status, import_key, created_by,
+        vendor_id, provider_masked_name, sensitivity_rule_id, created_at, updated_at
+      ) VALUES ($1, $2, $3, $4, $5, 'import', $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, CURRENT_TIMESTAMP, CURRENT_TIMESTAMP)
+      ON CONFLICT (created_by, import_key) WHERE import_key IS NOT NULL DO NOTHING
+      RETURNING *`,
+      [
+        data.provider_name,
+        data.description,
+        data.amount,
+        data.currency || 'USD',
+        data.date,
+        classification.sensitivity,
+        data.tags || [],
+        category,
+        data.metadata || {},
+        DuplicateDetectionService.fingerprint({
+          providerName: data.provider_name,
+          amount: data.amount,
+          date: data.date
+        }),
+        status,
+        importKey,
+        userId,
+        vendor?.id ?? null,
+        classification.maskedName,
+        classification.rule?.id ?? null
+      ]
+    );
+
+    const expense: Expense | null = result.rows.length > 0 ? result.rows[0] : null;
+    if (expense) {
+      Object.assign(expense, (await this.refreshConversions({ ids: [expense.id] }))[0]);
+    }
+    return expense;
+  }
+
+  /**
+   * Which of these import keys the user has already imported
+   */
+  static async findImportedKeys(userId: number, importKeys: string[]): Promise<Set<string>> {
+    if (importKeys.length === 0) return new Set();
+
+    const result = await query(
+      'SELECT import_key FROM expenses WHERE created_by = $1 AND import_key = ANY($2)',
+      [userId, importKeys]
+    );
+
+    return new Set(result.rows.map((row: any) => row.import_key));
+  }
+
   static async update(id: number, data: ExpenseUpdateRequest, userId: number): Promise<Expense | null> {
     const fields: string[] = [];
     const params: any[] = [];
@@ -139,6 +454,11 @@ export class ExpenseModel {
       params.push(data.category);
     }
     
+    if (data.date !== undefined) {
+      fields.push(`date = $${++paramCount}`);
+      params.push(data.date);
+    }
+    
     if (data.due_date !== undefined) {
       fields.push(`due_date = $${++paramCount}`);
       params.push(data.due_date);
@@ -147,10 +467,16 @@ export class ExpenseModel {
     if (data.provider_name !== undefined) {
       fields.push(`provider_name = $${++paramCount}`);
       params.push(data.provider_name);
+      
+      // A renamed provider may belong to another vendor
+      const vendor = await VendorModel.resolve(data.provider_name, userId);
+      fields.push(`vendor_id = $${++paramCount}`);
+      params.push(vendor?.id ?? null);
     }
     
+    // A level set by hand is kept from then on instead of following the rules
     if (data.sensitivity_level !== undefined) {
-      fields.push(`sensitivity_level = $${++paramCount}`);
+      fields.push(`sensitivity_level = $${++paramCount}`, 'sensitivity_manual = true', 'sensitivity_rule_id = NULL');
       params.push(data.sensitivity_level);
     }
     
@@ -168,9 +494,426 @@ export class ExpenseModel {
       params
     );
     
+    const expense: Expense | null = result.rows.length > 0 ? result.rows[0] : null;
+    
+    // Keep the duplicate fingerprint in step with the fields it covers
+    if (expense && (data.amount !== undefined || data.provider_name !== undefined || data.date !== undefined)) {
+      expense.fingerprint = DuplicateDetectionService.fingerprint({
+        providerName: expense.provider_name,
+        invoiceNumber: expense.metadata?.invoice?.invoiceNumber?.value,
+        amount: Number(expense.amount),
+        date: DuplicateDetectionService.toDateString(expense.date)
+      }) || undefined;
+      await query('UPDATE expenses SET fingerprint = $1 WHERE id = $2', [expense.fingerprint || null, id]);
+    }
+    
+    // A new amount can turn a paid expense into a partially paid one, or back
+    if (expense && data.amount !== undefined) {
+      await this.refreshPaymentStatus([id]);
+    }
+    
+    if (expense && (data.amount !== undefined || data.currency !== undefined || data.date !== undefined)) {
+      Object.assign(expense, (await this.refreshConversions({ ids: [id] }))[0]);
+    }
+    
+    // Rules look at these fields, and the masked name follows the provider name
+    if (expense && (data.provider_name !== undefined || data.category !== undefined || data.amount !== undefined ||
+        data.currency !== undefined || data.date !== undefined || data.sensitivity_level !== undefined)) {
+      const classification = await SensitivityRuleService.classifyExpense(expense);
+      if (classification.sensitivity !== expense.sensitivity_level ||
+          classification.maskedName !== (expense.provider_masked_name ?? null) ||
+          (classification.rule?.id ?? null) !== (expense.sensitivity_rule_id ?? null)) {
+        Object.assign(expense, await this.applyClassification(id, classification));
+      }
+    }
+    
+    return expense;
+  }
+  
+  /**
+   * Promote a reviewed draft; returns null if it is not a draft (or not the user's)
+   */
+  static async approve(id: number, userId: number): Promise<Expense | null> {
+    const result = await query(
+      `UPDATE expenses SET status = 'approved', updated_at = CURRENT_TIMESTAMP
+       WHERE id = $1 AND (created_by = $2 OR created_by IS NULL) AND status = 'draft'
+       RETURNING *`,
+      [id, userId]
+    );
+    
     return result.rows.length > 0 ? result.rows[0] : null;
   }
   
+  static async updateFileRetention(id: number, policy: 'KEEP' | 'DELETE'): Promise<void> {
+    await query(
+      'UPDATE expenses SET file_retention_policy = $1 WHERE id = $2',
+      [policy, id]
+    );
+  }
+  
+  /**
+   * Expenses sharing a duplicate fingerprint, or with the same amount within
+   * `windowDays` of `date`; the caller decides which are real duplicates
+   */
+  static async findDuplicateCandidates(
+    userId: number,
+    fingerprint: string | null,
+    amount: number,
+    date: string,
+    windowDays: number
+  ): Promise<Expense[]> {
+    const result = await query(
+      `SELECT id, provider_name, provider_masked_name, sensitivity_level, amount, date, file_id, fingerprint
+       FROM expenses
+       WHERE created_by = $1
+         AND (
+           ($2::text IS NOT NULL AND fingerprint = $2)
+           OR (ABS(amount - $3) < 0.01 AND date BETWEEN $4::date - $5::int AND $4::date + $5::int)
+         )
+       ORDER BY date DESC
+       LIMIT 20`,
+      [userId, fingerprint, amount, date, windowDays]
+    );
+    
+    return result.rows;
+  }
+  
+  /**
+   * Approved, not fully paid expenses dated between `from` and `to` that a
+   * bank transaction could be paying. Imported expenses are the transactions
+   * themselves, so they never need a match.
+   */
+  static async findUnpaidForMatching(userId: number, from: string, to: string): Promise<Expense[]> {
+    const result = await query(
+      `SELECT id, provider_name, provider_masked_name, sensitivity_level, amount, paid_amount, payment_status,
+              currency, date, due_date, description, file_id
+       FROM expenses
+       WHERE created_by = $1
+         AND status = 'approved'
+         AND source_type <> 'import'
+         AND payment_status <> 'paid'
+         AND date BETWEEN $2 AND $3
+       ORDER BY date`,
+      [userId, from, to]
+    );
+    
+    return result.rows;
+  }
+  
+  /**
+   * Approved expenses past their due date with no full payment matched yet
+   */
+  static async findOverdueUnpaid(userId: number, limit: number): Promise<Expense[]> {
+    const result = await query(
+      `SELECT ${this.selectFields()}
+       FROM expenses
+       WHERE created_by = $1
+         AND status = 'approved'
+         AND payment_status <> 'paid'
+         AND due_date < CURRENT_DATE
+       ORDER BY due_date, id
+       LIMIT $2`,
+      [userId, limit]
+    );
+    
+    return result.rows;
+  }
+  
+  static async getPaymentSummary(userId: number): Promise<{ unpaid: number; partiallyPaid: number; overdue: number }> {
+    const result = await query(
+      `SELECT
+         COUNT(*) FILTER (WHERE payment_status = 'unpaid')::int AS unpaid,
+         COUNT(*) FILTER (WHERE payment_status = 'partially_paid')::int AS "partiallyPaid",
+         COUNT(*) FILTER (WHERE due_date < CURRENT_DATE)::int AS overdue
+       FROM expenses
+       WHERE created_by = $1 AND status = 'approved' AND payment_status <> 'paid'`,
+      [userId]
+    );
+    
+    return result.rows[0];
+  }
+  
+  /**
+   * Convert amounts into the reporting currency at the rate of each expense's
+   * date. With explicit ids only those are converted; otherwise every expense
+   * still in another reporting currency or without a rate, plus those dated
+   * from..to (the range newly imported rates cover).
+   */
+  static async refreshConversions(scope: { ids?: number[]; from?: string; to?: string } = {}): Promise<Pick<
+    Expense, 'id' | 'reporting_currency' | 'fx_rate' | 'reporting_amount'
+  >[]> {
+    const params: any[] = [getReportingCurrency(), getFxMaxRateAgeDays()];
+    let condition: string;
+    if (scope.ids) {
+      if (scope.ids.length === 0) return [];
+      params.push(scope.ids);
+      condition = `e.id = ANY($3)`;
+    } else {
+      condition = 'e.reporting_currency IS DISTINCT FROM $1 OR e.fx_rate IS NULL';
+      if (scope.from && scope.to) {
+        // A rate also serves expenses up to max-age days after it
+        params.push(scope.from, scope.to);
+        condition += ' OR e.date BETWEEN $3::date AND $4::date + $2::int';
+      }
+    }
+    
+    const result = await query(
+      `UPDATE expenses e
+       SET reporting_currency = $1,
+           fx_rate = c.rate,
+           reporting_amount = ROUND(e.amount * c.rate, 2)
+       FROM (
+         SELECT id, fx_rate(COALESCE(currency, 'USD'), $1, date, $2::int) AS rate
+         FROM expenses e
+         WHERE ${condition}
+       ) c
+       WHERE e.id = c.id
+       RETURNING e.id, e.reporting_currency, e.fx_rate, e.reporting_amount`,
+      params
+    );
+    
+    return result.rows;
+  }
+  
+  /**
+   * The user's expenses with no rate into the reporting currency, by currency,
+   * so it is clear which rates are still missing
+   */
+  static async findUnconverted(userId: number): Promise<{ currency: string; count: number; from: string; to: string }[]> {
+    const result = await query(
+      `SELECT COALESCE(currency, 'USD') AS currency, COUNT(*)::int AS count,
+              to_char(MIN(date), 'YYYY-MM-DD') AS "from",
+              to_char(MAX(date), 'YYYY-MM-DD') AS "to"
+       FROM expenses
+       WHERE (created_by = $1 OR created_by IS NULL)
+         AND ${this.reportingAmount('$2')} IS NULL
+       GROUP BY COALESCE(currency, 'USD')
+       ORDER BY count DESC`,
+      [userId, getReportingCurrency()]
+    );
+    
+    return result.rows;
+  }
+  
+  /**
+   * Approved spend between two dates (inclusive) in one category, provider or tag,
+   * converted to the given currency. Expenses with no rate for their date are
+   * counted in unconverted instead.
+   */
+  static async getBudgetSpend(
+    userId: number,
+    scope: { type: BudgetScope; value: string },
+    from: string,
+    to: string,
+    currency: string
+  ): Promise<{ spent: number; count: number; unconverted: number }> {
+    const scopeClause = {
+      category: 'LOWER(category) = LOWER($4)',
+      // The provider scope covers every name of the vendor it resolves to
+      provider: `(LOWER(provider_name) = LOWER($4)
+        OR vendor_id = (SELECT vendor_id FROM vendor_aliases WHERE alias_key = $7))`,
+      tag: 'EXISTS (SELECT 1 FROM unnest(tags) AS tag WHERE LOWER(tag) = LOWER($4))'
+    }[scope.type];
+    
+    // The stored reporting amount saves a rate lookup whenever the budget is in the reporting currency
+    const amount = `CASE
+      WHEN COALESCE(currency, 'USD') = $5 THEN amount
+      WHEN reporting_currency = $5 THEN reporting_amount
+      ELSE amount * fx_rate(COALESCE(currency, 'USD'), $5, date, $6::int)
+    END`;
+    
+    const result = await query(
+      `SELECT COALESCE(SUM(${amount}), 0) AS spent,
+              COUNT(*)::int AS count,
+              (COUNT(*) FILTER (WHERE (${amount}) IS NULL))::int AS unconverted
+       FROM expenses
+       WHERE (created_by = $1 OR created_by IS NULL)
+         AND status = 'approved'
+         AND date BETWEEN $2 AND $3
+         AND ${scopeClause}`,
+      [userId, from, to, scope.value, currency, getFxMaxRateAgeDays(),
+        ...(scope.type === 'provider' ? [VendorModel.keyFor(scope.value)] : [])]
+    );
+    
+    const row = result.rows[0];
+    return {
+      spent: Math.round(parseFloat(row.spent) * 100) / 100,
+      count: row.count,
+      unconverted: row.unconverted
+    };
+  }
+  
+  /**
+   * Approved expenses since a date, oldest first, for finding recurring charges
+   */
+  static async findForRecurringAnalysis(userId: number, since: string): Promise<Pick<
+    Expense, 'id' | 'provider_name' | 'amount' | 'currency' | 'date' | 'category' | 'subscription_id'
+  >[]> {
+    const result = await query(
+      `SELECT id, provider_name, amount, COALESCE(currency, 'USD') AS currency, date, category, subscription_id
+       FROM expenses
+       WHERE created_by = $1 AND status = 'approved' AND date >= $2
+       ORDER BY date, id`,
+      [userId, since]
+    );
+    
+    return result.rows;
+  }
+  
+  static async linkSubscription(ids: number[], subscriptionId: number): Promise<void> {
+    if (ids.length === 0) return;
+    
+    await query(
+      'UPDATE expenses SET subscription_id = $1 WHERE id = ANY($2::int[])',
+      [subscriptionId, ids]
+    );
+  }
+  
+  /**
+   * Discard predicted-charge drafts for a date once the real charge is recorded.
+   * Drafts with an invoice attached came from somewhere else and are kept.
+   */
+  static async deleteSubscriptionDrafts(subscriptionId: number, date: string): Promise<number> {
+    const result = await query(
+      `DELETE FROM expenses
+       WHERE subscription_id = $1 AND status = 'draft' AND date = $2 AND file_id IS NULL`,
+      [subscriptionId, date]
+    );
+    
+    return result.rowCount ?? 0;
+  }
+  
+  /**
+   * Recompute paid_amount and payment_status from the matched bank transactions
+   */
+  static async refreshPaymentStatus(expenseIds: number[]): Promise<void> {
+    if (expenseIds.length === 0) return;
+    
+    await query(
+      `UPDATE expenses e
+       SET paid_amount = p.total,
+           payment_status = CASE
+             WHEN p.total > 0 AND p.total >= e.amount - 0.005 THEN 'paid'
+             WHEN p.total > 0 THEN 'partially_paid'
+             ELSE 'unpaid'
+           END
+       FROM (
+         SELECT ids.id, COALESCE(SUM(t.amount), 0) AS total
+         FROM unnest($1::int[]) AS ids(id)
+         LEFT JOIN bank_transactions t ON t.expense_id = ids.id
+         GROUP BY ids.id
+       ) p
+       -- Expenses imported before transactions were recorded have nothing to sum and stay paid
+       WHERE e.id = p.id AND NOT (e.source_type = 'import' AND p.total = 0)`,
+      [expenseIds]
+    );
+  }
+  
+  /**
+   * Unlink a deleted upload from any expenses that referenced it
+   */
+  static async detachFile(fileId: number): Promise<void> {
+    await query(
+      `UPDATE expenses SET file_id = NULL, file_retention_policy = 'DELETE' WHERE file_id = $1`,
+      [fileId]
+    );
+  }
+  
+  /**
+   * Expenses older than `olderThanDays` that have not yet been reduced to `level`.
+   * Drafts are left whole until someone has reviewed them.
+   */
+  static async findForReduction(
+    level: 'essential' | 'minimal',
+    olderThanDays: number
+  ): Promise<Expense[]> {
+    const pendingLevels = level === 'minimal' ? ['full', 'essential'] : ['full'];
+    
+    const result = await query(
+      `SELECT * FROM expenses 
+       WHERE date < CURRENT_DATE - $1 * interval '1 day'
+         AND reduction_level = ANY($2)
+         AND status <> 'draft'
+       ORDER BY date`,
+      [olderThanDays, pendingLevels]
+    );
+    
+    return result.rows;
+  }
+  
+  static async reduceToEssential(id: number): Promise<void> {
+    await query(
+      `UPDATE expenses 
+       SET description = NULL, tags = '{}', metadata = '{}',
+           reduction_level = 'essential', reduced_at = CURRENT_TIMESTAMP
+       WHERE id = $1`,
+      [id]
+    );
+  }
+  
+  /**
+   * A batch of expenses after the given id with their vendor's defaults, for
+   * reclassification. Fully reduced rows only keep a masked provider name.
+   */
+  static async findForClassification(
+    afterId: number,
+    limit: number,
+    options: { includeManual?: boolean; vendorIds?: number[] } = {}
+  ): Promise<(Expense & { vendor_sensitivity: Expense['sensitivity_level'] | null; vendor_masked_alias: string | null })[]> {
+    const params: any[] = [afterId, limit];
+    let where = "expenses.id > $1 AND expenses.reduction_level <> 'minimal'";
+    if (!options.includeManual) {
+      where += ' AND NOT expenses.sensitivity_manual';
+    }
+    if (options.vendorIds) {
+      params.push(options.vendorIds);
+      where += ` AND expenses.vendor_id = ANY($${params.length}::int[])`;
+    }
+    
+    const result = await query(
+      `SELECT expenses.*, vendors.default_sensitivity AS vendor_sensitivity, vendors.masked_alias AS vendor_masked_alias
+       FROM expenses LEFT JOIN vendors ON vendors.id = expenses.vendor_id
+       WHERE ${where}
+       ORDER BY expenses.id
+       LIMIT $2`,
+      params
+    );
+    
+    return result.rows;
+  }
+  
+  /**
+   * Save a classification; resetManual hands a level set by hand back to the rules
+   */
+  static async applyClassification(
+    id: number,
+    classification: Classification,
+    resetManual: boolean = false
+  ): Promise<Pick<Expense, 'sensitivity_level' | 'provider_masked_name' | 'sensitivity_rule_id' | 'sensitivity_manual'>> {
+    const result = await query(
+      `UPDATE expenses
+       SET sensitivity_level = $1, provider_masked_name = $2, sensitivity_rule_id = $3,
+           sensitivity_manual = sensitivity_manual AND NOT $4
+       WHERE id = $5
+       RETURNING sensitivity_level, provider_masked_name, sensitivity_rule_id, sensitivity_manual`,
+      [classification.sensitivity, classification.maskedName, classification.rule?.id ?? null, resetManual, id]
+    );
+    
+    return result.rows[0];
+  }
+  
+  // The vendor link goes too, or the vendor's canonical name would identify the provider again
+  static async reduceToMinimal(id: number, maskedProvider: string, providerHash: string): Promise<void> {
+    await query(
+      `UPDATE expenses 
+       SET description = NULL, tags = '{}', metadata = '{}', category = NULL, due_date = NULL,
+           provider_name = $1, provider_masked_name = $1, provider_hash = $2, vendor_id = NULL,
+           reduction_level = 'minimal', reduced_at = CURRENT_TIMESTAMP
+       WHERE id = $3`,
+      [maskedProvider, providerHash, id]
+    );
+  }
+  
   static async delete(id: number, userId: number): Promise<boolean> {
     const result = await query(
       'DELETE FROM expenses WHERE id = $1 AND (created_by = $2 OR created_by IS NULL)',
@@ -180,48 +923,65 @@ export class ExpenseModel {
     return result.rowCount! > 0;
   }
   
+  // Drafts are unreviewed and stay out of every total until approved.
+  // Amounts are summed in the reporting currency; expenses without a rate are counted, not summed.
   static async getStats(userId: number): Promise<any> {
+    const reportingCurrency = getReportingCurrency();
+    const amount = this.reportingAmount('$2');
     const results = await Promise.all([
       // Total expenses (include user's expenses and API-generated ones)
       query(
-        'SELECT COUNT(*) as total, SUM(amount) as total_amount FROM expenses WHERE (created_by = $1 OR created_by IS NULL)',
-        [userId]
+        `SELECT COUNT(*) as total, SUM(${amount}) as total_amount,
+                COUNT(*) FILTER (WHERE ${amount} IS NULL) as unconverted
+         FROM expenses
+         WHERE (created_by = $1 OR created_by IS NULL) AND status = 'approved'`,
+        [userId, reportingCurrency]
       ),
       
       // Monthly stats (include user's expenses and API-generated ones)
       query(
         `SELECT 
            COUNT(*) as monthly_count,
-           SUM(amount) as monthly_total
+           SUM(${amount}) as monthly_total
          FROM expenses 
          WHERE (created_by = $1 OR created_by IS NULL)
+           AND status = 'approved'
            AND date >= date_trunc('month', CURRENT_DATE)`,
-        [userId]
+        [userId, reportingCurrency]
       ),
       
       // Previous month for comparison (include user's expenses and API-generated ones)
       query(
-        `SELECT SUM(amount) as prev_monthly_total
+        `SELECT SUM(${amount}) as prev_monthly_total
          FROM expenses 
          WHERE (created_by = $1 OR created_by IS NULL)
+           AND status = 'approved'
            AND date >= date_trunc('month', CURRENT_DATE - interval '1 month')
            AND date < date_trunc('month', CURRENT_DATE)`,
-        [userId]
+        [userId, reportingCurrency]
       ),
       
-      // Top providers (include ALL sensitivity levels and API-generated expenses)
+      // Top providers by canonical vendor (include ALL sensitivity levels and API-generated expenses)
       query(
         `SELECT 
-           provider_name as provider,
-           SUM(amount) as total,
+           COALESCE(vendors.canonical_name, expenses.provider_name) as provider,
+           COALESCE(SUM(${amount}), 0) as total,
            COUNT(*) as count,
            MAX(sensitivity_level) as max_sensitivity,
            false as is_masked
          FROM expenses 
-         WHERE (created_by = $1 OR created_by IS NULL)
-         GROUP BY provider_name
+         LEFT JOIN vendors ON vendors.id = expenses.vendor_id AND expenses.reduction_level <> 'minimal'
+         WHERE (expenses.created_by = $1 OR expenses.created_by IS NULL) AND status = 'approved'
+         GROUP BY COALESCE(vendors.canonical_name, expenses.provider_name)
          ORDER BY total DESC 
          LIMIT 5`,
+        [userId, reportingCurrency]
+      ),
+      
+      // Drafts waiting in the review inbox
+      query(
+        `SELECT COUNT(*) as drafts FROM expenses
+         WHERE (created_by = $1 OR created_by IS NULL) AND status = 'draft'`,
         [userId]
       )
     ]);
@@ -230,12 +990,15 @@ export class ExpenseModel {
     const monthlyStats = results[1].rows[0];
     const prevMonthStats = results[2].rows[0];
     const topProviders = results[3].rows;
+    const draftStats = results[4].rows[0];
     
     const monthlyChange = prevMonthStats.prev_monthly_total 
       ? ((monthlyStats.monthly_total - prevMonthStats.prev_monthly_total) / prevMonthStats.prev_monthly_total) * 100
       : 0;
     
     return {
+      reportingCurrency,
+      unconvertedCount: parseInt(totalStats.unconverted),
       totalExpenses: parseInt(totalStats.total),
       totalAmount: parseFloat(totalStats.total_amount || 0),
       monthlyTotal: parseFloat(monthlyStats.monthly_total || 0),
@@ -246,7 +1009,8 @@ export class ExpenseModel {
         total: parseFloat(p.total),
         count: parseInt(p.count),
         masked: p.is_masked
-      }))
+      })),
+      draftCount: parseInt(draftStats.drafts)
     };
   }
   
@@ -254,14 +1018,15 @@ export class ExpenseModel {
     const result = await query(
       `SELECT 
          date_trunc('month', date) as month,
-         SUM(amount) as total,
+         COALESCE(SUM(${this.reportingAmount('$2')}), 0) as total,
          COUNT(*) as count
        FROM expenses 
        WHERE (created_by = $1 OR created_by IS NULL)
+         AND status = 'approved'
          AND date >= CURRENT_DATE - interval '${months} months'
        GROUP BY month
        ORDER BY month`,
-      [userId]
+      [userId, getReportingCurrency()]
     );
     
     return result.rows.map(row => ({
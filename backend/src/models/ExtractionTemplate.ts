@@ -0,0 +1,90 @@
+import { query } from '@/config/database';
+import { ExtractionTemplate, TemplateRules } from '@/types';
+
+export class ExtractionTemplateModel {
+  
+  /**
+   * Create a template, or replace the one already saved for this vendor
+   */
+  static async upsert(data: {
+    userId: number;
+    vendorName: string;
+    matchPatterns: string[];
+    rules: TemplateRules;
+  }): Promise<ExtractionTemplate> {
+    const result = await query(
+      `INSERT INTO extraction_templates (user_id, vendor_name, match_patterns, rules, created_at, updated_at)
+       VALUES ($1, $2, $3, $4, CURRENT_TIMESTAMP, CURRENT_TIMESTAMP)
+       ON CONFLICT (user_id, LOWER(vendor_name)) DO UPDATE
+         SET vendor_name = EXCLUDED.vendor_name,
+             match_patterns = EXCLUDED.match_patterns,
+             rules = EXCLUDED.rules,
+             updated_at = CURRENT_TIMESTAMP
+       RETURNING *`,
+      [data.userId, data.vendorName, data.matchPatterns, JSON.stringify(data.rules)]
+    );
+    
+    return result.rows[0];
+  }
+  
+  static async findById(id: number, userId: number): Promise<ExtractionTemplate | null> {
+    const result = await query(
+      'SELECT * FROM extraction_templates WHERE id = $1 AND user_id = $2',
+      [id, userId]
+    );
+    
+    return result.rows.length > 0 ? result.rows[0] : null;
+  }
+  
+  static async findByUser(userId: number): Promise<ExtractionTemplate[]> {
+    const result = await query(
+      `SELECT * FROM extraction_templates
+       WHERE user_id = $1
+       ORDER BY vendor_name`,
+      [userId]
+    );
+    
+    return result.rows;
+  }
+  
+  static async update(
+    id: number,
+    userId: number,
+    data: { vendorName?: string; matchPatterns?: string[]; rules?: TemplateRules }
+  ): Promise<ExtractionTemplate | null> {
+    const result = await query(
+      `UPDATE extraction_templates
+       SET vendor_name = COALESCE($1, vendor_name),
+           match_patterns = COALESCE($2, match_patterns),
+           rules = COALESCE($3, rules),
+           updated_at = CURRENT_TIMESTAMP
+       WHERE id = $4 AND user_id = $5
+       RETURNING *`,
+      [
+        data.vendorName ?? null,
+        data.matchPatterns ?? null,
+        data.rules ? JSON.stringify(data.rules) : null,
+        id,
+        userId
+      ]
+    );
+    
+    return result.rows.length > 0 ? result.rows[0] : null;
+  }
+  
+  static async recordUse(id: number): Promise<void> {
+    await query(
+      'UPDATE extraction_templates SET use_count = use_count + 1, last_used_at = CURRENT_TIMESTAMP WHERE id = $1',
+      [id]
+    );
+  }
+  
+  static async delete(id: number, userId: number): Promise<boolean> {
+    const result = await query(
+      'DELETE FROM extraction_templates WHERE id = $1 AND user_id = $2',
+      [id, userId]
+    );
+    
+    return (result.rowCount ?? 0) > 0;
+  }
+}
\ No newline at end of file
@@ -1,8 +1,28 @@
 import { query } from '@/config/database';
-import { FileRecord } from '@/types';
+import { FileRecord, FileHistoryRecord } from '@/types';
+import { EInvoice } from '@/utils/eInvoice';
 
 export class FileModel {
   
+  // File summary plus the first expense confirmed from it
+  private static readonly HISTORY_SELECT = `
+    SELECT 
+      f.id, f.original_filename, f.file_size, f.mime_type, f.sensitivity_level,
+      f.retention_policy, f.processing_status, f.uploaded_at, f.expires_at,
+      e.id as expense_id,
+      CASE WHEN e.sensitivity_level = 'HIGH' THEN COALESCE(e.provider_masked_name, e.provider_name)
+           ELSE e.provider_name END as expense_provider_name,
+      e.amount as expense_amount,
+      e.date as expense_date
+    FROM files f
+    LEFT JOIN LATERAL (
+      SELECT id, provider_name, provider_masked_name, sensitivity_level, amount, date
+      FROM expenses
+      WHERE file_id = f.id
+      ORDER BY id
+      LIMIT 1
+    ) e ON true`;
+  
   static async create(data: {
     originalFilename: string;
     encryptedFilename: string;
@@ -13,13 +33,14 @@ export class FileModel {
     retentionPolicy: 'immediate' | 'temporary' | 'permanent';
     uploadedBy: number;
     expiresAt?: Date;
+    contentHash?: string;
   }): Promise<FileRecord> {
     const result = await query(
       `INSERT INTO files (
         original_filename, encrypted_filename, file_size, mime_type,
         encryption_key_hash, sensitivity_level, retention_policy,
-        uploaded_by, uploaded_at, expires_at
-      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, CURRENT_TIMESTAMP, $9)
+        uploaded_by, uploaded_at, expires_at, content_hash
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, CURRENT_TIMESTAMP, $9, $10)
       RETURNING *`,
       [
         data.originalFilename,
@@ -30,7 +51,8 @@ export class FileModel {
         data.sensitivityLevel,
         data.retentionPolicy,
         data.uploadedBy,
-        data.expiresAt
+        data.expiresAt,
+        data.contentHash || null
       ]
     );
     
@@ -46,21 +68,39 @@ export class FileModel {
     return result.rows.length > 0 ? result.rows[0] : null;
   }
   
-  static async findByUser(userId: number): Promise<FileRecord[]> {
+  static async findByUser(userId: number): Promise<FileHistoryRecord[]> {
     const result = await query(
-      `SELECT * FROM files 
-       WHERE uploaded_by = $1 AND deleted_at IS NULL 
-       ORDER BY uploaded_at DESC`,
+      `${this.HISTORY_SELECT}
+       WHERE f.uploaded_by = $1 AND f.deleted_at IS NULL 
+       ORDER BY f.uploaded_at DESC`,
       [userId]
     );
     
     return result.rows;
   }
   
+  static async findByContentHash(userId: number, contentHash: string): Promise<FileHistoryRecord[]> {
+    const result = await query(
+      `${this.HISTORY_SELECT}
+       WHERE f.uploaded_by = $1 AND f.content_hash = $2 AND f.deleted_at IS NULL 
+       ORDER BY f.uploaded_at DESC`,
+      [userId, contentHash]
+    );
+    
+    return result.rows;
+  }
+  
   static async updateOCRText(id: number, ocrText: string): Promise<void> {
     await query(
       'UPDATE files SET ocr_extracted_text = $1, processing_status = $2 WHERE id = $3',
-      [ocrText, 'completed', id]
+      [ocrText, 'ready', id]
+    );
+  }
+  
+  static async updateEInvoice(id: number, invoice: EInvoice): Promise<void> {
+    await query(
+      'UPDATE files SET e_invoice = $1 WHERE id = $2',
+      [JSON.stringify(invoice), id]
     );
   }
   
@@ -71,6 +111,17 @@ export class FileModel {
     );
   }
   
+  static async updateRetention(
+    id: number,
+    retentionPolicy: 'immediate' | 'temporary' | 'permanent',
+    expiresAt: Date | null
+  ): Promise<void> {
+    await query(
+      'UPDATE files SET retention_policy = $1, expires_at = $2 WHERE id = $3',
+      [retentionPolicy, expiresAt, id]
+    );
+  }
+  
   static async markAsDeleted(id: number): Promise<void> {
     await query(
       'UPDATE files SET deleted_at = CURRENT_TIMESTAMP WHERE id = $1',
@@ -94,7 +145,7 @@ export class FileModel {
     const result = await query(
       `SELECT * FROM files 
        WHERE retention_policy = 'immediate' 
-         AND processing_status = 'completed'
+         AND processing_status = 'ready'
          AND uploaded_at <= CURRENT_TIMESTAMP - interval '1 hour'
          AND deleted_at IS NULL`,
       []
@@ -104,31 +155,43 @@ export class FileModel {
   }
   
   static async getFileStats(userId?: number): Promise<any> {
-    const whereClause = userId ? 'WHERE uploaded_by = $1' : '';
+    const whereClause = userId ? 'WHERE uploaded_by = $1 AND deleted_at IS NULL' : 'WHERE deleted_at IS NULL';
     const params = userId ? [userId] : [];
     
     const result = await query(
       `SELECT 
          COUNT(*) as total_files,
-         SUM(file_size) as total_size,
+         COALESCE(SUM(file_size), 0) as total_size,
          COUNT(CASE WHEN retention_policy = 'immediate' THEN 1 END) as immediate_deletion,
          COUNT(CASE WHEN retention_policy = 'temporary' THEN 1 END) as temporary_retention,
          COUNT(CASE WHEN retention_policy = 'permanent' THEN 1 END) as permanent_retention,
          COUNT(CASE WHEN sensitivity_level = 'HIGH' THEN 1 END) as high_sensitivity,
-         COUNT(CASE WHEN processing_status = 'pending' THEN 1 END) as pending_processing
+         COUNT(CASE WHEN processing_status IN ('queued', 'scanning', 'extracting') THEN 1 END) as pending_processing
        FROM files 
-       ${whereClause} AND deleted_at IS NULL`,
+       ${whereClause}`,
       params
     );
     
     return result.rows[0];
   }
   
-  static async cleanupExpiredFiles(): Promise<number> {
+  /**
+   * Soft-delete every expired file. `purge` runs first for each file (e.g. to wipe
+   * the stored blob); files whose purge fails are left in place for the next run.
+   */
+  static async cleanupExpiredFiles(purge?: (file: FileRecord) => Promise<void>): Promise<number> {
     const expiredFiles = await this.findExpiredFiles();
     let deletedCount = 0;
     
     for (const file of expiredFiles) {
+      if (purge) {
+        try {
+          await purge(file);
+        } catch {
+          continue;
+        }
+      }
+      
       await this.markAsDeleted(file.id);
       deletedCount++;
     }
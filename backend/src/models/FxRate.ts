@@ -0,0 +1,73 @@
+import { query } from '@/config/database';
+import { FxRateInput } from '@/utils/fxRates';
+
+export class FxRateModel {
+  // Rows per INSERT; keeps the parameter arrays well inside what Postgres accepts
+  private static readonly BATCH_SIZE = 2000;
+  
+  /**
+   * Insert rates, overwriting any already stored for the same pair and day.
+   * Returns how many rows were written.
+   */
+  static async upsertMany(rates: FxRateInput[], source: string): Promise<number> {
+    let written = 0;
+    
+    for (let i = 0; i < rates.length; i += this.BATCH_SIZE) {
+      const batch = rates.slice(i, i + this.BATCH_SIZE);
+      const result = await query(
+        `INSERT INTO fx_rates (rate_date, base_currency, quote_currency, rate, source, created_at)
+         SELECT d, b, q, r, $5, CURRENT_TIMESTAMP
+         FROM unnest($1::date[], $2::varchar[], $3::varchar[], $4::numeric[]) AS t(d, b, q, r)
+         ON CONFLICT (base_currency, quote_currency, rate_date) DO UPDATE
+           SET rate = EXCLUDED.rate, source = EXCLUDED.source`,
+        [
+          batch.map(rate => rate.date),
+          batch.map(rate => rate.base),
+          batch.map(rate => rate.quote),
+          batch.map(rate => rate.rate),
+          source
+        ]
+      );
+      written += result.rowCount ?? 0;
+    }
+    
+    return written;
+  }
+  
+  /**
+   * Rate from one currency to another on a date, through the same lookup the
+   * expense conversion uses; null when no rate is recent enough
+   */
+  static async findRate(from: string, to: string, date: string, maxAgeDays: number): Promise<number | null> {
+    const result = await query(
+      'SELECT fx_rate($1, $2, $3::date, $4::int) AS rate',
+      [from, to, date, maxAgeDays]
+    );
+    
+    const rate = result.rows[0]?.rate;
+    return rate !== null && rate !== undefined ? parseFloat(rate) : null;
+  }
+  
+  /**
+   * Which pairs are loaded and for which dates
+   */
+  static async getCoverage(): Promise<{
+    base: string;
+    quote: string;
+    from: string;
+    to: string;
+    count: number;
+  }[]> {
+    const result = await query(
+      `SELECT base_currency AS base, quote_currency AS quote,
+              to_char(MIN(rate_date), 'YYYY-MM-DD') AS "from",
+              to_char(MAX(rate_date), 'YYYY-MM-DD') AS "to",
+              COUNT(*)::int AS count
+       FROM fx_rates
+       GROUP BY base_currency, quote_currency
+       ORDER BY base_currency, quote_currency`
+    );
+    
+    return result.rows;
+  }
+}
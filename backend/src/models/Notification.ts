@@ -0,0 +1,79 @@
+import { query } from '@/config/database';
+import { Notification } from '@/types';
+
+export class NotificationModel {
+  
+  /**
+   * Returns null when a notification with the same dedupe key already exists
+   */
+  static async create(data: {
+    userId: number;
+    type: string;
+    title: string;
+    message?: string;
+    link?: string;
+    resourceType?: string;
+    resourceId?: number;
+    dedupeKey?: string;
+  }): Promise<Notification | null> {
+    const result = await query(
+      `INSERT INTO notifications (
+        user_id, type, title, message, link, resource_type, resource_id, dedupe_key, created_at
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, CURRENT_TIMESTAMP)
+      ON CONFLICT (user_id, dedupe_key) WHERE dedupe_key IS NOT NULL DO NOTHING
+      RETURNING *`,
+      [
+        data.userId,
+        data.type,
+        data.title,
+        data.message,
+        data.link,
+        data.resourceType,
+        data.resourceId,
+        data.dedupeKey
+      ]
+    );
+    
+    return result.rows.length > 0 ? result.rows[0] : null;
+  }
+  
+  static async findByUser(userId: number, limit: number = 50, unreadOnly: boolean = false): Promise<Notification[]> {
+    const result = await query(
+      `SELECT * FROM notifications
+       WHERE user_id = $1 ${unreadOnly ? 'AND read_at IS NULL' : ''}
+       ORDER BY created_at DESC, id DESC
+       LIMIT $2`,
+      [userId, limit]
+    );
+    
+    return result.rows;
+  }
+  
+  static async countUnread(userId: number): Promise<number> {
+    const result = await query(
+      'SELECT COUNT(*)::int AS count FROM notifications WHERE user_id = $1 AND read_at IS NULL',
+      [userId]
+    );
+    
+    return result.rows[0].count;
+  }
+  
+  static async markRead(id: number, userId: number): Promise<boolean> {
+    const result = await query(
+      `UPDATE notifications SET read_at = COALESCE(read_at, CURRENT_TIMESTAMP)
+       WHERE id = $1 AND user_id = $2`,
+      [id, userId]
+    );
+    
+    return (result.rowCount ?? 0) > 0;
+  }
+  
+  static async markAllRead(userId: number): Promise<number> {
+    const result = await query(
+      'UPDATE notifications SET read_at = CURRENT_TIMESTAMP WHERE user_id = $1 AND read_at IS NULL',
+      [userId]
+    );
+    
+    return result.rowCount ?? 0;
+  }
+}
@@ -0,0 +1,104 @@
+import { query } from '@/config/database';
+import { SensitivityLevel, SensitivityMatchType, SensitivityRule } from '@/types';
+
+export interface SensitivityRuleInput {
+  name: string;
+  matchType: SensitivityMatchType;
+  pattern: string | null;
+  vendorId: number | null;
+  minAmount: number | null;
+  amountCurrency: string | null;
+  sensitivity: SensitivityLevel;
+  maskAlias: string | null;
+  priority: number;
+  isActive: boolean;
+}
+
+const COLUMNS: [keyof SensitivityRuleInput, string][] = [
+  ['name', 'name'],
+  ['matchType', 'match_type'],
+  ['pattern', 'pattern'],
+  ['vendorId', 'vendor_id'],
+  ['minAmount', 'min_amount'],
+  ['amountCurrency', 'amount_currency'],
+  ['sensitivity', 'sensitivity'],
+  ['maskAlias', 'mask_alias'],
+  ['priority', 'priority'],
+  ['isActive', 'is_active']
+];
+
+export class SensitivityRuleModel {
+  
+  // Vendor rules show the vendor's current name
+  private static readonly SELECT = `SELECT sensitivity_rules.*, vendors.canonical_name AS vendor_name
+    FROM sensitivity_rules LEFT JOIN vendors ON vendors.id = sensitivity_rules.vendor_id`;
+  
+  static async findAll(): Promise<(SensitivityRule & { vendor_name?: string | null })[]> {
+    const result = await query(`${this.SELECT} ORDER BY priority DESC, sensitivity_rules.id`);
+    
+    return result.rows;
+  }
+  
+  /**
+   * Active rules in evaluation order
+   */
+  static async findActive(): Promise<SensitivityRule[]> {
+    const result = await query(
+      'SELECT * FROM sensitivity_rules WHERE is_active ORDER BY priority DESC, id'
+    );
+    
+    return result.rows;
+  }
+  
+  static async findById(id: number): Promise<(SensitivityRule & { vendor_name?: string | null }) | null> {
+    const result = await query(`${this.SELECT} WHERE sensitivity_rules.id = $1`, [id]);
+    
+    return result.rows.length > 0 ? result.rows[0] : null;
+  }
+  
+  static async create(data: SensitivityRuleInput, userId: number): Promise<SensitivityRule> {
+    const values = COLUMNS.map(([field]) => data[field]);
+    const result = await query(
+      `INSERT INTO sensitivity_rules (${COLUMNS.map(([, column]) => column).join(', ')}, created_by, created_at, updated_at)
+       VALUES (${values.map((_, index) => `$${index + 1}`).join(', ')}, $${values.length + 1}, CURRENT_TIMESTAMP, CURRENT_TIMESTAMP)
+       RETURNING id`,
+      [...values, userId]
+    );
+    
+    return (await this.findById(result.rows[0].id))!;
+  }
+  
+  /**
+   * Only the given fields change; null clears an optional one
+   */
+  static async update(id: number, data: Partial<SensitivityRuleInput>): Promise<SensitivityRule | null> {
+    const fields: string[] = [];
+    const params: any[] = [];
+    
+    for (const [field, column] of COLUMNS) {
+      if (data[field] !== undefined) {
+        params.push(data[field]);
+        fields.push(`${column} = $${params.length}`);
+      }
+    }
+    
+    params.push(id);
+    const result = await query(
+      `UPDATE sensitivity_rules SET ${[...fields, 'updated_at = CURRENT_TIMESTAMP'].join(', ')}
+       WHERE id = $${params.length}
+       RETURNING id`,
+      params
+    );
+    
+    return result.rows.length > 0 ? this.findById(id) : null;
+  }
+  
+  /**
+   * Expenses it classified keep their level until reclassified
+   */
+  static async delete(id: number): Promise<boolean> {
+    const result = await query('DELETE FROM sensitivity_rules WHERE id = $1', [id]);
+    
+    return (result.rowCount ?? 0) > 0;
+  }
+}
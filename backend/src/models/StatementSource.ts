@@ -0,0 +1,66 @@
+import { query } from '@/config/database';
+import { StatementSource } from '@/types';
+import { StatementFormat, StatementMapping } from '@/utils/statementParsing';
+
+export class StatementSourceModel {
+  
+  /**
+   * Create a source, or replace the mapping already saved under this name
+   */
+  static async upsert(data: {
+    userId: number;
+    sourceName: string;
+    format: StatementFormat;
+    mapping: StatementMapping | null;
+  }): Promise<StatementSource> {
+    const result = await query(
+      `INSERT INTO statement_sources (user_id, source_name, format, mapping, created_at, updated_at)
+       VALUES ($1, $2, $3, $4, CURRENT_TIMESTAMP, CURRENT_TIMESTAMP)
+       ON CONFLICT (user_id, LOWER(source_name)) DO UPDATE
+         SET source_name = EXCLUDED.source_name,
+             format = EXCLUDED.format,
+             mapping = EXCLUDED.mapping,
+             updated_at = CURRENT_TIMESTAMP
+       RETURNING *`,
+      [data.userId, data.sourceName, data.format, data.mapping ? JSON.stringify(data.mapping) : null]
+    );
+    
+    return result.rows[0];
+  }
+  
+  static async findByName(userId: number, sourceName: string): Promise<StatementSource | null> {
+    const result = await query(
+      'SELECT * FROM statement_sources WHERE user_id = $1 AND LOWER(source_name) = LOWER($2)',
+      [userId, sourceName]
+    );
+    
+    return result.rows.length > 0 ? result.rows[0] : null;
+  }
+  
+  static async findByUser(userId: number): Promise<StatementSource[]> {
+    const result = await query(
+      `SELECT * FROM statement_sources
+       WHERE user_id = $1
+       ORDER BY last_used_at DESC NULLS LAST, source_name`,
+      [userId]
+    );
+    
+    return result.rows;
+  }
+  
+  static async recordUse(id: number): Promise<void> {
+    await query(
+      'UPDATE statement_sources SET use_count = use_count + 1, last_used_at = CURRENT_TIMESTAMP WHERE id = $1',
+      [id]
+    );
+  }
+  
+  static async delete(id: number, userId: number): Promise<boolean> {
+    const result = await query(
+      'DELETE FROM statement_sources WHERE id = $1 AND user_id = $2',
+      [id, userId]
+    );
+    
+    return (result.rowCount ?? 0) > 0;
+  }
+}
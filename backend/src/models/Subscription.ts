@@ -0,0 +1,191 @@
+import { query } from '@/config/database';
+import { Subscription, SubscriptionCadence, SubscriptionFlag } from '@/types';
+
+export interface SubscriptionInput {
+  providerName: string;
+  vendorKey: string;
+  category?: string | null;
+  currency: string;
+  amount: number;
+  cadence: SubscriptionCadence;
+  billingDay: number | null;
+  lastChargeDate: string | null;
+  lastChargeAmount: number | null;
+  nextChargeDate: string;
+  chargeCount: number;
+  origin: Subscription['origin'];
+  confidence: number | null;
+}
+
+export class SubscriptionModel {
+  
+  /**
+   * Returns null when the user already has a subscription for this vendor and
+   * currency, including one they cancelled, so detection never brings it back
+   */
+  static async create(userId: number, data: SubscriptionInput): Promise<Subscription | null> {
+    const result = await query(
+      `INSERT INTO subscriptions (
+        user_id, provider_name, vendor_key, category, currency, amount, cadence, billing_day,
+        last_charge_date, last_charge_amount, next_charge_date, charge_count, origin, confidence,
+        created_at, updated_at
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, CURRENT_TIMESTAMP, CURRENT_TIMESTAMP)
+      ON CONFLICT (user_id, vendor_key, currency) DO NOTHING
+      RETURNING *`,
+      [
+        userId,
+        data.providerName,
+        data.vendorKey,
+        data.category ?? null,
+        data.currency,
+        data.amount,
+        data.cadence,
+        data.billingDay,
+        data.lastChargeDate,
+        data.lastChargeAmount,
+        data.nextChargeDate,
+        data.chargeCount,
+        data.origin,
+        data.confidence
+      ]
+    );
+    
+    return result.rows.length > 0 ? result.rows[0] : null;
+  }
+  
+  static async findById(id: number, userId: number): Promise<Subscription | null> {
+    const result = await query(
+      'SELECT * FROM subscriptions WHERE id = $1 AND user_id = $2',
+      [id, userId]
+    );
+    
+    return result.rows.length > 0 ? result.rows[0] : null;
+  }
+  
+  static async findByUser(userId: number): Promise<Subscription[]> {
+    const result = await query(
+      `SELECT * FROM subscriptions
+       WHERE user_id = $1
+       ORDER BY CASE status WHEN 'active' THEN 0 WHEN 'paused' THEN 1 ELSE 2 END, next_charge_date, provider_name`,
+      [userId]
+    );
+    
+    return result.rows;
+  }
+  
+  /**
+   * Edit what the user controls. A new schedule clears the flag, since it was
+   * raised against the old one.
+   */
+  static async update(
+    id: number,
+    userId: number,
+    data: {
+      providerName?: string;
+      category?: string | null;
+      amount?: number;
+      cadence?: SubscriptionCadence;
+      billingDay?: number | null;
+      nextChargeDate?: string;
+      status?: Subscription['status'];
+      autoDraft?: boolean;
+      clearFlag?: boolean;
+    }
+  ): Promise<Subscription | null> {
+    const result = await query(
+      `UPDATE subscriptions
+       SET provider_name = COALESCE($1, provider_name),
+           category = CASE WHEN $2::boolean THEN $3 ELSE category END,
+           amount = COALESCE($4, amount),
+           cadence = COALESCE($5, cadence),
+           billing_day = CASE WHEN $6::boolean THEN $7 ELSE billing_day END,
+           next_charge_date = COALESCE($8, next_charge_date),
+           status = COALESCE($9, status),
+           auto_draft = COALESCE($10, auto_draft),
+           flag = CASE WHEN $11::boolean THEN NULL ELSE flag END,
+           flag_details = CASE WHEN $11::boolean THEN NULL ELSE flag_details END,
+           flagged_at = CASE WHEN $11::boolean THEN NULL ELSE flagged_at END,
+           updated_at = CURRENT_TIMESTAMP
+       WHERE id = $12 AND user_id = $13
+       RETURNING *`,
+      [
+        data.providerName ?? null,
+        data.category !== undefined,
+        data.category ?? null,
+        data.amount ?? null,
+        data.cadence ?? null,
+        data.billingDay !== undefined,
+        data.billingDay ?? null,
+        data.nextChargeDate ?? null,
+        data.status ?? null,
+        data.autoDraft ?? null,
+        Boolean(data.clearFlag || data.cadence || data.nextChargeDate),
+        id,
+        userId
+      ]
+    );
+    
+    return result.rows.length > 0 ? result.rows[0] : null;
+  }
+  
+  /**
+   * Move the schedule on after a charge; flag is null when the charge was as expected
+   */
+  static async recordCharge(
+    id: number,
+    charge: {
+      date: string;
+      amount: number;
+      nextChargeDate: string;
+      flag: SubscriptionFlag | null;
+      flagDetails?: Record<string, unknown>;
+    }
+  ): Promise<void> {
+    await query(
+      `UPDATE subscriptions
+       SET last_charge_date = $1,
+           last_charge_amount = $2,
+           amount = $2,
+           next_charge_date = $3,
+           charge_count = charge_count + 1,
+           flag = $4,
+           flag_details = $5,
+           flagged_at = CASE WHEN $4::text IS NULL THEN NULL ELSE CURRENT_TIMESTAMP END,
+           updated_at = CURRENT_TIMESTAMP
+       WHERE id = $6`,
+      [
+        charge.date,
+        charge.amount,
+        charge.nextChargeDate,
+        charge.flag,
+        charge.flagDetails ? JSON.stringify(charge.flagDetails) : null,
+        id
+      ]
+    );
+  }
+  
+  static async setFlag(id: number, flag: SubscriptionFlag, details: Record<string, unknown>): Promise<void> {
+    await query(
+      `UPDATE subscriptions
+       SET flag = $1, flag_details = $2, flagged_at = CURRENT_TIMESTAMP, updated_at = CURRENT_TIMESTAMP
+       WHERE id = $3`,
+      [flag, JSON.stringify(details), id]
+    );
+  }
+  
+  static async setDraftedFor(id: number, date: string): Promise<void> {
+    await query(
+      'UPDATE subscriptions SET drafted_for = $1, updated_at = CURRENT_TIMESTAMP WHERE id = $2',
+      [date, id]
+    );
+  }
+  
+  static async delete(id: number, userId: number): Promise<boolean> {
+    const result = await query(
+      'DELETE FROM subscriptions WHERE id = $1 AND user_id = $2',
+      [id, userId]
+    );
+    
+    return (result.rowCount ?? 0) > 0;
+  }
+}
@@ -0,0 +1,244 @@
+import { query, transaction } from '@/config/database';
+import { Vendor } from '@/types';
+import { DuplicateDetectionService } from '@/services/duplicateDetectionService';
+
+export interface VendorInput {
+  canonicalName: string;
+  aliases: string[];
+  defaultCategory: string | null;
+  defaultSensitivity: Vendor['default_sensitivity'];
+  maskedAlias: string | null;
+  notes: string | null;
+}
+
+export interface VendorUsage extends Vendor {
+  expense_count: number;
+  // In the reporting currency; expenses without a rate are left out
+  total_amount: number;
+  last_expense_date?: Date | null;
+}
+
+export class VendorModel {
+  
+  private static readonly SELECT = `SELECT vendors.*,
+    ARRAY(SELECT alias FROM vendor_aliases WHERE vendor_id = vendors.id ORDER BY alias) AS aliases
+    FROM vendors`;
+  
+  static keyFor(name: string): string {
+    return DuplicateDetectionService.normalizeVendor(name);
+  }
+  
+  static async findById(id: number): Promise<Vendor | null> {
+    const result = await query(`${this.SELECT} WHERE vendors.id = $1`, [id]);
+    
+    return result.rows.length > 0 ? result.rows[0] : null;
+  }
+  
+  static async findByName(name: string): Promise<Vendor | null> {
+    const result = await query(
+      `${this.SELECT} WHERE vendors.id = (SELECT vendor_id FROM vendor_aliases WHERE alias_key = $1)`,
+      [this.keyFor(name)]
+    );
+    
+    return result.rows.length > 0 ? result.rows[0] : null;
+  }
+  
+  /**
+   * The vendor a provider name belongs to, registering a new one named after it
+   * when no vendor knows the name yet. Returns null for names that normalize to
+   * nothing (punctuation only), which are left unlinked.
+   */
+  static async resolve(providerName: string, userId: number | null): Promise<Vendor | null> {
+    const key = this.keyFor(providerName || '');
+    if (!key) return null;
+    
+    const existing = await this.findByName(providerName);
+    if (existing) return existing;
+    
+    // A concurrent insert of the same name loses the conflict and reads the winner below
+    await query(
+      `WITH vendor AS (
+         INSERT INTO vendors (canonical_name, vendor_key, created_by, created_at, updated_at)
+         VALUES ($1, $2, $3, CURRENT_TIMESTAMP, CURRENT_TIMESTAMP)
+         ON CONFLICT (vendor_key) DO NOTHING
+         RETURNING id
+       )
+       INSERT INTO vendor_aliases (vendor_id, alias, alias_key)
+       SELECT id, $1, $2 FROM vendor
+       ON CONFLICT (alias_key) DO NOTHING`,
+      [providerName.trim(), key, userId]
+    );
+    
+    return this.findByName(providerName);
+  }
+  
+  /**
+   * Vendors with how much of the user's spend each accounts for. The registry is
+   * shared, so unless every vendor is asked for, only those the user's own
+   * expenses reference are returned.
+   */
+  static async findAllWithUsage(userId: number, reportingCurrency: string, everyVendor: boolean): Promise<VendorUsage[]> {
+    const result = await query(
+      `SELECT v.*, COALESCE(usage.expense_count, 0)::int AS expense_count,
+              COALESCE(usage.total_amount, 0) AS total_amount, usage.last_expense_date
+       FROM (${this.SELECT}) v
+       LEFT JOIN (
+         SELECT vendor_id, COUNT(*) AS expense_count, MAX(date) AS last_expense_date,
+                SUM(CASE WHEN reporting_currency = $2 THEN reporting_amount END) AS total_amount
+         FROM expenses
+         WHERE (created_by = $1 OR created_by IS NULL) AND status = 'approved' AND vendor_id IS NOT NULL
+         GROUP BY vendor_id
+       ) usage ON usage.vendor_id = v.id
+       WHERE $3::boolean OR EXISTS (
+         SELECT 1 FROM expenses WHERE vendor_id = v.id AND (created_by = $1 OR created_by IS NULL)
+       )
+       ORDER BY COALESCE(usage.total_amount, 0) DESC, LOWER(v.canonical_name)`,
+      [userId, reportingCurrency, everyVendor]
+    );
+    
+    return result.rows.map((row: any) => ({ ...row, total_amount: parseFloat(row.total_amount) }));
+  }
+  
+  /**
+   * Alias keys among these that already belong to a vendor other than the given one
+   */
+  static async findAliasConflicts(keys: string[], exceptVendorId?: number): Promise<{ alias: string; canonical_name: string }[]> {
+    if (keys.length === 0) return [];
+    
+    const result = await query(
+      `SELECT a.alias, v.canonical_name
+       FROM vendor_aliases a JOIN vendors v ON v.id = a.vendor_id
+       WHERE a.alias_key = ANY($1) AND a.vendor_id <> $2`,
+      [keys, exceptVendorId ?? 0]
+    );
+    
+    return result.rows;
+  }
+  
+  static async create(data: VendorInput, userId: number): Promise<Vendor> {
+    const id = await transaction(async (client) => {
+      const result = await client.query(
+        `INSERT INTO vendors (
+          canonical_name, vendor_key, default_category, default_sensitivity, masked_alias, notes, created_by,
+          created_at, updated_at
+        ) VALUES ($1, $2, $3, $4, $5, $6, $7, CURRENT_TIMESTAMP, CURRENT_TIMESTAMP)
+        RETURNING id`,
+        [
+          data.canonicalName,
+          this.keyFor(data.canonicalName),
+          data.defaultCategory,
+          data.defaultSensitivity,
+          data.maskedAlias,
+          data.notes,
+          userId
+        ]
+      );
+      
+      await this.insertAliases(client, result.rows[0].id, [data.canonicalName, ...data.aliases]);
+      return result.rows[0].id;
+    });
+    
+    return (await this.findById(id))!;
+  }
+  
+  /**
+   * Only the given fields change; null clears a default. A new alias list
+   * replaces the old one, and the canonical name always stays an alias.
+   */
+  static async update(id: number, data: Partial<VendorInput>): Promise<Vendor | null> {
+    const updated = await transaction(async (client) => {
+      const fields: string[] = [];
+      const params: any[] = [];
+      
+      if (data.canonicalName !== undefined) {
+        params.push(data.canonicalName, this.keyFor(data.canonicalName));
+        fields.push(`canonical_name = $${params.length - 1}`, `vendor_key = $${params.length}`);
+      }
+      
+      const columns: [keyof VendorInput, string][] = [
+        ['defaultCategory', 'default_category'],
+        ['defaultSensitivity', 'default_sensitivity'],
+        ['maskedAlias', 'masked_alias'],
+        ['notes', 'notes']
+      ];
+      for (const [field, column] of columns) {
+        if (data[field] !== undefined) {
+          params.push(data[field]);
+          fields.push(`${column} = $${params.length}`);
+        }
+      }
+      
+      params.push(id);
+      const result = await client.query(
+        `UPDATE vendors SET ${[...fields, 'updated_at = CURRENT_TIMESTAMP'].join(', ')}
+         WHERE id = $${params.length}
+         RETURNING canonical_name`,
+        params
+      );
+      if (result.rows.length === 0) return false;
+      
+      if (data.aliases !== undefined || data.canonicalName !== undefined) {
+        const current = await client.query('SELECT alias FROM vendor_aliases WHERE vendor_id = $1', [id]);
+        const aliases = [
+          result.rows[0].canonical_name,
+          ...(data.aliases ?? current.rows.map((row: any) => row.alias))
+        ];
+        const keys = aliases.map(alias => this.keyFor(alias));
+        
+        await client.query(
+          'DELETE FROM vendor_aliases WHERE vendor_id = $1 AND NOT (alias_key = ANY($2))',
+          [id, keys]
+        );
+        await this.insertAliases(client, id, aliases);
+      }
+      return true;
+    });
+    
+    return updated ? this.findById(id) : null;
+  }
+  
+  /**
+   * Folds the source vendors into the target: their aliases and expenses move
+   * over and the sources are deleted. Returns how many expenses moved.
+   */
+  static async merge(targetId: number, sourceIds: number[]): Promise<number> {
+    return transaction(async (client) => {
+      await client.query(
+        'UPDATE vendor_aliases SET vendor_id = $1 WHERE vendor_id = ANY($2::int[])',
+        [targetId, sourceIds]
+      );
+      
+      const moved = await client.query(
+        'UPDATE expenses SET vendor_id = $1 WHERE vendor_id = ANY($2::int[])',
+        [targetId, sourceIds]
+      );
+      
+      await client.query('DELETE FROM vendors WHERE id = ANY($1::int[])', [sourceIds]);
+      await client.query('UPDATE vendors SET updated_at = CURRENT_TIMESTAMP WHERE id = $1', [targetId]);
+      
+      return moved.rowCount ?? 0;
+    });
+  }
+  
+  /**
+   * Expenses keep their provider names and are simply unlinked
+   */
+  static async delete(id: number): Promise<boolean> {
+    const result = await query('DELETE FROM vendors WHERE id = $1', [id]);
+    
+    return (result.rowCount ?? 0) > 0;
+  }
+  
+  private static async insertAliases(client: any, vendorId: number, aliases: string[]): Promise<void> {
+    for (const alias of aliases) {
+      const key = this.keyFor(alias);
+      if (!key) continue;
+      
+      await client.query(
+        `INSERT INTO vendor_aliases (vendor_id, alias, alias_key) VALUES ($1, $2, $3)
+         ON CONFLICT (alias_key) DO NOTHING`,
+        [vendorId, alias.trim(), key]
+      );
+    }
+  }
+}
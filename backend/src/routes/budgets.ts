@@ -0,0 +1,131 @@
+import { Router } from 'express';
+import { authenticateToken, AuthenticatedRequest } from '@/middleware/auth';
+import { asyncHandler, createError } from '@/middleware/errorHandler';
+import { AuditLogModel } from '@/models/AuditLog';
+import { BudgetInput, BudgetModel } from '@/models/Budget';
+import { BudgetService } from '@/services/budgetService';
+
+const router = Router();
+
+// All routes require authentication
+router.use(authenticateToken);
+
+/**
+ * List the user's budgets with actual and projected spend for the current period
+ */
+router.get('/', asyncHandler(async (req: AuthenticatedRequest, res) => {
+  const budgets = await BudgetService.listWithStatus(req.user!.id);
+
+  res.json({
+    success: true,
+    budgets
+  });
+}));
+
+/**
+ * Create a budget
+ */
+router.post('/', asyncHandler(async (req: AuthenticatedRequest, res) => {
+  const userId = req.user!.id;
+
+  const parsed = BudgetService.parseInput(req.body, false);
+  if ('error' in parsed) {
+    throw createError(parsed.error, 400);
+  }
+
+  const budget = await BudgetModel.create(userId, parsed.input as BudgetInput);
+
+  await AuditLogModel.create({
+    userId,
+    action: 'BUDGET_CREATE',
+    resourceType: 'budget',
+    resourceId: budget.id,
+    details: {
+      name: budget.name,
+      period: budget.period,
+      scopeType: budget.scope_type,
+      amount: Number(budget.amount),
+      currency: budget.currency
+    },
+    ipAddress: req.ip,
+    userAgent: req.get('User-Agent'),
+    deviceFingerprint: req.audit?.deviceFingerprint,
+    geoLocation: req.geo
+  });
+
+  res.status(201).json({
+    success: true,
+    budget: await BudgetService.withStatus(budget)
+  });
+}));
+
+/**
+ * Change a budget's limit, scope, thresholds, or pause it
+ */
+router.put('/:id', asyncHandler(async (req: AuthenticatedRequest, res) => {
+  const userId = req.user!.id;
+  const budgetId = parseInt(req.params.id);
+
+  if (isNaN(budgetId)) {
+    throw createError('Invalid budget ID', 400);
+  }
+
+  const parsed = BudgetService.parseInput(req.body, true);
+  if ('error' in parsed) {
+    throw createError(parsed.error, 400);
+  }
+
+  const budget = await BudgetModel.update(budgetId, userId, parsed.input);
+  if (!budget) {
+    throw createError('Budget not found', 404);
+  }
+
+  await AuditLogModel.create({
+    userId,
+    action: 'BUDGET_UPDATE',
+    resourceType: 'budget',
+    resourceId: budgetId,
+    details: { name: budget.name, updatedFields: Object.keys(parsed.input) },
+    ipAddress: req.ip,
+    userAgent: req.get('User-Agent'),
+    deviceFingerprint: req.audit?.deviceFingerprint,
+    geoLocation: req.geo
+  });
+
+  res.json({
+    success: true,
+    budget: await BudgetService.withStatus(budget)
+  });
+}));
+
+/**
+ * Delete a budget; notifications it raised stay in the feed
+ */
+router.delete('/:id', asyncHandler(async (req: AuthenticatedRequest, res) => {
+  const userId = req.user!.id;
+  const budgetId = parseInt(req.params.id);
+
+  if (isNaN(budgetId)) {
+    throw createError('Invalid budget ID', 400);
+  }
+
+  const deleted = await BudgetModel.delete(budgetId, userId);
+  if (!deleted) {
+    throw createError('Budget not found', 404);
+  }
+
+  await AuditLogModel.create({
+    userId,
+    action: 'BUDGET_DELETE',
+    resourceType: 'budget',
+    resourceId: budgetId,
+    ipAddress: req.ip,
+    userAgent: req.get('User-Agent'),
+    deviceFingerprint: req.audit?.deviceFingerprint,
+    geoLocation: req.geo
+  });
+
+  res.json({ success: true, message: 'Budget deleted successfully' });
+}));
+
+export default router;
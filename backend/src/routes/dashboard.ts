@@ -25,11 +25,14 @@ router.get('/overview', asyncHandler(async (req: AuthenticatedRequest, res) => {
   }));
   
   const dashboardStats: DashboardStats = {
+    reportingCurrency: stats.reportingCurrency,
+    unconvertedCount: stats.unconvertedCount,
     totalExpenses: stats.totalExpenses,
     monthlyTotal: stats.monthlyTotal,
     monthlyChange: stats.monthlyChange,
     topProviders,
-    recentTransactions: stats.monthlyCount
+    recentTransactions: stats.monthlyCount,
+    draftCount: stats.draftCount
   };
   
   res.json({
@@ -49,7 +52,8 @@ router.get('/activity', asyncHandler(async (req: AuthenticatedRequest, res) => {
   
   const recentLogs = await AuditLogModel.findByUser(userId, 20);
   const recentExpenses = await ExpenseModel.findAll(userId, {
-    startDate: new Date(Date.now() - hours * 60 * 60 * 1000).toISOString().split('T')[0]
+    startDate: new Date(Date.now() - hours * 60 * 60 * 1000).toISOString().split('T')[0],
+    status: 'approved'
   });
   
   const activity = {
@@ -62,6 +66,7 @@ router.get('/activity', asyncHandler(async (req: AuthenticatedRequest, res) => {
       id: expense.id,
       provider: expense.provider_name, // Show actual provider names for all sensitivity levels
       amount: expense.amount,
+      currency: expense.currency,
       date: expense.date,
       masked: false // Remove masking
     }))
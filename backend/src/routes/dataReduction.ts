@@ -0,0 +1,33 @@
+import { Router } from 'express';
+import { authenticateToken, AuthenticatedRequest, requireAdmin } from '@/middleware/auth';
+import { asyncHandler } from '@/middleware/errorHandler';
+import DataReductionJob from '@/jobs/dataReductionJob';
+
+const router = Router();
+
+// Reduction runs across every user's expenses, so only administrators see it
+router.use(authenticateToken, requireAdmin);
+
+/**
+ * Get data reduction job status and the result of its last run
+ */
+router.get('/status', asyncHandler(async (_req: AuthenticatedRequest, res) => {
+  res.json({
+    success: true,
+    status: DataReductionJob.getStatus()
+  });
+}));
+
+/**
+ * Dry run: report which records would be reduced and which fields stripped
+ */
+router.get('/preview', asyncHandler(async (_req: AuthenticatedRequest, res) => {
+  const report = await DataReductionJob.preview();
+
+  res.json({
+    success: true,
+    report
+  });
+}));
+
+export default router;
@@ -1,19 +1,26 @@
 import { Router } from 'express';
 import { ExpenseModel } from '@/models/Expense';
 import { AuditLogModel } from '@/models/AuditLog';
+import { FileModel } from '@/models/File';
 import { authenticateToken, AuthenticatedRequest } from '@/middleware/auth';
 import { asyncHandler, createError } from '@/middleware/errorHandler';
-import { ExpenseCreateRequest, ExpenseUpdateRequest } from '@/types';
+import { ExpenseCreateRequest, ExpenseCursor, ExpenseFilters, ExpenseStatus, ExpenseUpdateRequest } from '@/types';
 import { AntivirusService } from '@/services/antivirusService';
+import { RetentionDecision, RetentionService } from '@/services/retentionService';
+import { DuplicateDetectionService } from '@/services/duplicateDetectionService';
+import { EInvoiceService } from '@/services/eInvoiceService';
+import { ExtractionTemplateService } from '@/services/extractionTemplateService';
+import { ExpenseExportService, ExportFormat, RedactionProfile } from '@/services/expenseExportService';
 
 const router = Router();
 
+const DEFAULT_PAGE_SIZE = 50;
+const MAX_PAGE_SIZE = 200;
+
 // All expense routes require authentication
 router.use(authenticateToken);
 
-// Get all expenses with filtering
-router.get('/', asyncHandler(async (req: AuthenticatedRequest, res) => {
-  const userId = req.user!.id;
+const parseFilters = (params: AuthenticatedRequest['query']): ExpenseFilters => {
   const {
     startDate,
     endDate,
@@ -21,20 +28,60 @@ router.get('/', asyncHandler(async (req: AuthenticatedRequest, res) => {
     category,
     minAmount,
     maxAmount,
-    showMasked
-  } = req.query;
+    showMasked,
+    status,
+    q
+  } = params;
   
-  const filters = {
+  return {
     startDate: startDate as string,
     endDate: endDate as string,
     provider: provider as string,
     category: category as string,
     minAmount: minAmount ? parseFloat(minAmount as string) : undefined,
     maxAmount: maxAmount ? parseFloat(maxAmount as string) : undefined,
-    showMasked: showMasked === 'true'
+    showMasked: showMasked === 'true',
+    status: status === 'draft' || status === 'approved' ? status as ExpenseStatus : undefined,
+    q: typeof q === 'string' && q.trim() ? q.trim().substring(0, 200) : undefined
   };
-  
-  const expenses = await ExpenseModel.findAll(userId, filters);
+};
+
+// Get expenses with filtering and full-text search (q); paginated and sortable when limit, cursor or sort is given
+router.get('/', asyncHandler(async (req: AuthenticatedRequest, res) => {
+  const userId = req.user!.id;
+  const { limit, cursor, sort, order } = req.query;
+  const filters = parseFilters(req.query);
+  
+  // Without paging parameters the full list is returned, as before
+  const paginate = limit !== undefined || cursor !== undefined || sort !== undefined;
+  let result;
+  if (paginate) {
+    const sortField = sort ?? (filters.q ? 'relevance' : 'date');
+    if (!ExpenseModel.isSortField(sortField)) {
+      throw createError('Invalid sort field', 400);
+    }
+    if (sortField === 'relevance' && !filters.q) {
+      throw createError('Sorting by relevance requires a search query', 400);
+    }
+    const sortOrder = order === 'asc' ? 'asc' : 'desc';
+    const pageSize = Math.min(Math.max(parseInt(limit as string, 10) || DEFAULT_PAGE_SIZE, 1), MAX_PAGE_SIZE);
+    
+    let after: ExpenseCursor | undefined;
+    if (cursor) {
+      const decoded = ExpenseModel.decodeCursor(cursor as string, sortField, sortOrder);
+      if (!decoded) {
+        throw createError('Invalid or stale cursor', 400);
+      }
+      if (!ExpenseModel.isValidCursorKey(sortField, decoded.key)) {
+        throw createError('Invalid cursor', 400);
+      }
+      after = decoded;
+    }
+    
+    result = await ExpenseModel.findPage(userId, filters, { limit: pageSize, sort: sortField, order: sortOrder, after });
+  } else {
+    result = await ExpenseModel.findAll(userId, filters);
+  }
   
   // Log sensitive data access if showing masked data
   if (filters.showMasked) {
@@ -50,7 +97,42 @@ router.get('/', asyncHandler(async (req: AuthenticatedRequest, res) => {
     });
   }
   
-  res.json(expenses);
+  res.json(result);
+}));
+
+// Export the filtered expenses for an accountant; drafts are left out unless status is given
+router.get('/export', asyncHandler(async (req: AuthenticatedRequest, res) => {
+  const userId = req.user!.id;
+  const format = (req.query.format || 'csv') as ExportFormat;
+  const profile = (req.query.profile || 'full') as RedactionProfile;
+  
+  if (!ExpenseExportService.FORMATS.includes(format)) {
+    throw createError(`Format must be one of: ${ExpenseExportService.FORMATS.join(', ')}`, 400);
+  }
+  if (!ExpenseExportService.PROFILES.includes(profile)) {
+    throw createError(`Profile must be one of: ${ExpenseExportService.PROFILES.join(', ')}`, 400);
+  }
+  
+  const requested = parseFilters(req.query);
+  const filters: ExpenseFilters = { ...requested, showMasked: false, status: requested.status || 'approved' };
+  const expenses = await ExpenseModel.findAll(userId, filters);
+  const file = await ExpenseExportService.export(expenses, format, profile);
+  
+  await AuditLogModel.create({
+    userId,
+    action: 'EXPENSE_EXPORT',
+    resourceType: 'expenses',
+    details: { format, profile, rowCount: expenses.length, filters },
+    ipAddress: req.ip,
+    userAgent: req.get('User-Agent'),
+    deviceFingerprint: req.audit?.deviceFingerprint,
+    geoLocation: req.geo
+  });
+  
+  res.setHeader('Content-Type', file.contentType);
+  res.setHeader('Content-Disposition', `attachment; filename="${file.filename}"`);
+  res.setHeader('Cache-Control', 'no-store');
+  res.send(file.body);
 }));
 
 // Get single expense
@@ -87,28 +169,114 @@ router.get('/:id', asyncHandler(async (req: AuthenticatedRequest, res) => {
 router.post('/', asyncHandler(async (req: AuthenticatedRequest, res) => {
   const userId = req.user!.id;
   const expenseData: ExpenseCreateRequest = req.body;
+  // Imported and ingested expenses are created server-side; anything posted here was entered by hand
+  expenseData.source_type = 'manual';
+  // Drafts hold incomplete extractions for review in the inbox
+  const isDraft = expenseData.status === 'draft';
   
   // Validate required fields
-  if (!expenseData.provider_name || !expenseData.amount || !expenseData.date) {
-    throw createError('Provider name, amount, and date are required', 400);
+  if (isDraft) {
+    if (!expenseData.provider_name) {
+      throw createError('Provider name is required', 400);
+    }
+    if (expenseData.amount !== undefined && expenseData.amount < 0) {
+      throw createError('Amount cannot be negative', 400);
+    }
+    expenseData.amount = expenseData.amount || 0;
+    expenseData.date = expenseData.date || new Date().toISOString().split('T')[0];
+  } else {
+    if (!expenseData.provider_name || !expenseData.amount || !expenseData.date) {
+      throw createError('Provider name, amount, and date are required', 400);
+    }
+    
+    if (expenseData.amount <= 0) {
+      throw createError('Amount must be positive', 400);
+    }
   }
   
-  if (expenseData.amount <= 0) {
-    throw createError('Amount must be positive', 400);
+  if (expenseData.metadata !== undefined && (typeof expenseData.metadata !== 'object' || Array.isArray(expenseData.metadata))) {
+    throw createError('Metadata must be an object', 400);
   }
   
-  const expense = await ExpenseModel.create(expenseData, userId);
+  // Only allow linking invoices the user uploaded themselves
+  const file = expenseData.file_id !== undefined ? await FileModel.findById(expenseData.file_id) : null;
+  if (expenseData.file_id !== undefined && (!file || file.uploaded_by !== userId)) {
+    throw createError('Invoice file not found', 404);
+  }
+  
+  // Structured fields come from the stored e-invoice or OCR text, not from the client
+  if (file?.e_invoice) {
+    expenseData.metadata = {
+      ...expenseData.metadata,
+      invoice: EInvoiceService.toInvoiceFields(file.e_invoice),
+      eInvoice: { format: file.e_invoice.format, profile: file.e_invoice.profile, seller: file.e_invoice.seller }
+    };
+  } else if (file?.ocr_extracted_text) {
+    const { invoiceFields, template } = await ExtractionTemplateService.extract(userId, file.ocr_extracted_text);
+    expenseData.metadata = {
+      ...expenseData.metadata,
+      invoice: invoiceFields,
+      ...(template && { extractionTemplateId: template.id })
+    };
+  }
+  
+  // The same vendor invoice entered twice needs an explicit, audited override
+  const duplicates = await DuplicateDetectionService.findExpenseDuplicates(userId, {
+    providerName: expenseData.provider_name,
+    invoiceNumber: expenseData.metadata?.invoice?.invoiceNumber?.value,
+    amount: expenseData.amount,
+    date: expenseData.date
+  });
+  if (isDraft) {
+    // Drafts are only flagged; the override is enforced when the draft is approved
+    if (duplicates.length > 0) {
+      expenseData.metadata = {
+        ...expenseData.metadata,
+        possibleDuplicates: duplicates.map(d => ({ reason: d.reason, expenseId: d.expenseId }))
+      };
+    }
+  } else if (duplicates.length > 0 && !expenseData.allow_duplicate) {
+    res.status(409).json({ error: 'This looks like a duplicate of an existing expense', duplicates });
+    return;
+  }
+  
+  const expense = await ExpenseModel.create(expenseData, userId, isDraft ? 'draft' : 'approved');
+  
+  if (duplicates.length > 0 && !isDraft) {
+    await AuditLogModel.create({
+      userId,
+      action: 'DUPLICATE_OVERRIDE',
+      resourceType: 'expense',
+      resourceId: expense.id,
+      details: { duplicates: duplicates.map(d => ({ reason: d.reason, expenseId: d.expenseId })) },
+      ipAddress: req.ip,
+      userAgent: req.get('User-Agent'),
+      deviceFingerprint: req.audit?.deviceFingerprint,
+      geoLocation: req.geo
+    });
+  }
+  
+  // Confirming an upload decides how long the original invoice is kept;
+  // a draft's invoice is held until the draft is approved
+  let retention: RetentionDecision | null = null;
+  if (file && isDraft) {
+    await FileModel.updateRetention(file.id, 'temporary', null);
+  } else if (file) {
+    retention = await RetentionService.applyToUpload(file, expense);
+  }
   
   // Log expense creation
   await AuditLogModel.create({
     userId,
-    action: 'EXPENSE_CREATE',
+    action: isDraft ? 'EXPENSE_DRAFT_CREATE' : 'EXPENSE_CREATE',
     resourceType: 'expense',
     resourceId: expense.id,
     details: { 
       provider: expense.provider_name,
       amount: expense.amount,
-      sensitivity: expense.sensitivity_level 
+      sensitivity: expense.sensitivity_level,
+      fileId: expense.file_id,
+      retentionPolicy: retention?.policy
     },
     ipAddress: req.ip,
     userAgent: req.get('User-Agent'),
@@ -119,6 +287,81 @@ router.post('/', asyncHandler(async (req: AuthenticatedRequest, res) => {
   res.status(201).json(expense);
 }));
 
+// Approve a reviewed draft: it must now be complete, and it gets the
+// duplicate check and invoice retention a confirmed upload would get
+router.post('/:id/approve', asyncHandler(async (req: AuthenticatedRequest, res) => {
+  const userId = req.user!.id;
+  const expenseId = parseInt(req.params.id);
+  
+  if (isNaN(expenseId)) {
+    throw createError('Invalid expense ID', 400);
+  }
+  
+  const draft = await ExpenseModel.findById(expenseId, userId);
+  if (!draft) {
+    throw createError('Expense not found', 404);
+  }
+  if (draft.status !== 'draft') {
+    throw createError('Expense is not a draft', 409);
+  }
+  if (!draft.provider_name || !(Number(draft.amount) > 0) || !draft.date) {
+    throw createError('Provider name, a positive amount, and date are required before approval', 400);
+  }
+  
+  const duplicates = await DuplicateDetectionService.findExpenseDuplicates(userId, {
+    providerName: draft.provider_name,
+    invoiceNumber: draft.metadata?.invoice?.invoiceNumber?.value,
+    amount: Number(draft.amount),
+    date: DuplicateDetectionService.toDateString(draft.date)
+  }, draft.id);
+  if (duplicates.length > 0 && !req.body?.allow_duplicate) {
+    res.status(409).json({ error: 'This looks like a duplicate of an existing expense', duplicates });
+    return;
+  }
+  
+  const expense = await ExpenseModel.approve(expenseId, userId);
+  if (!expense) {
+    throw createError('Failed to approve expense', 500);
+  }
+  
+  if (duplicates.length > 0) {
+    await AuditLogModel.create({
+      userId,
+      action: 'DUPLICATE_OVERRIDE',
+      resourceType: 'expense',
+      resourceId: expense.id,
+      details: { duplicates: duplicates.map(d => ({ reason: d.reason, expenseId: d.expenseId })) },
+      ipAddress: req.ip,
+      userAgent: req.get('User-Agent'),
+      deviceFingerprint: req.audit?.deviceFingerprint,
+      geoLocation: req.geo
+    });
+  }
+  
+  const file = expense.file_id ? await FileModel.findById(expense.file_id) : null;
+  const retention = file ? await RetentionService.applyToUpload(file, expense) : null;
+  
+  await AuditLogModel.create({
+    userId,
+    action: 'EXPENSE_APPROVE',
+    resourceType: 'expense',
+    resourceId: expense.id,
+    details: {
+      provider: expense.provider_name,
+      amount: expense.amount,
+      source: expense.metadata?.ingestion?.source,
+      fileId: expense.file_id,
+      retentionPolicy: retention?.policy
+    },
+    ipAddress: req.ip,
+    userAgent: req.get('User-Agent'),
+    deviceFingerprint: req.audit?.deviceFingerprint,
+    geoLocation: req.geo
+  });
+  
+  res.json(expense);
+}));
+
 // Update expense
 router.put('/:id', asyncHandler(async (req: AuthenticatedRequest, res) => {
   const userId = req.user!.id;
@@ -205,6 +448,11 @@ router.delete('/:id', asyncHandler(async (req: AuthenticatedRequest, res) => {
     throw createError('Failed to delete expense', 500);
   }
   
+  // A discarded draft's invoice was only held for review; let the purge job wipe it
+  if (expense.status === 'draft' && expense.file_id) {
+    await FileModel.updateRetention(expense.file_id, 'immediate', new Date());
+  }
+  
   // Log expense deletion
   await AuditLogModel.create({
     userId,
@@ -214,7 +462,8 @@ router.delete('/:id', asyncHandler(async (req: AuthenticatedRequest, res) => {
     details: {
       provider: expense.provider_name,
       amount: expense.amount,
-      sensitivity: expense.sensitivity_level
+      sensitivity: expense.sensitivity_level,
+      status: expense.status
     },
     ipAddress: req.ip,
     userAgent: req.get('User-Agent'),
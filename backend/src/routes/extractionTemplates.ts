@@ -0,0 +1,151 @@
+import { Router } from 'express';
+import { authenticateToken, AuthenticatedRequest } from '@/middleware/auth';
+import { asyncHandler, createError } from '@/middleware/errorHandler';
+import { ExtractionTemplateModel } from '@/models/ExtractionTemplate';
+import { FileModel } from '@/models/File';
+import { AuditLogModel } from '@/models/AuditLog';
+import { ExtractionTemplateService } from '@/services/extractionTemplateService';
+
+const router = Router();
+
+// All routes require authentication
+router.use(authenticateToken);
+
+/**
+ * List the user's vendor extraction templates
+ */
+router.get('/', asyncHandler(async (req: AuthenticatedRequest, res) => {
+  const templates = await ExtractionTemplateModel.findByUser(req.user!.id);
+
+  res.json({
+    success: true,
+    templates
+  });
+}));
+
+/**
+ * Learn a template from an upload and the values the user corrected on it
+ */
+router.post('/learn', asyncHandler(async (req: AuthenticatedRequest, res) => {
+  const userId = req.user!.id;
+  const { fileId, vendor, amount, date, invoiceNumber } = req.body;
+
+  if (!fileId || !vendor || typeof vendor !== 'string' || !amount || !date) {
+    throw createError('File, vendor, amount and date are required', 400);
+  }
+
+  const file = await FileModel.findById(parseInt(fileId));
+  if (!file || file.uploaded_by !== userId) {
+    throw createError('File not found', 404);
+  }
+  if (!file.ocr_extracted_text) {
+    throw createError('File has not been processed yet', 409);
+  }
+
+  const template = await ExtractionTemplateService.learn(userId, file.ocr_extracted_text, {
+    vendor,
+    amount: parseFloat(amount),
+    date: String(date).substring(0, 10),
+    invoiceNumber: invoiceNumber ? String(invoiceNumber) : undefined
+  });
+
+  if (!template) {
+    throw createError('None of the corrected values could be found in the invoice text', 422);
+  }
+
+  await AuditLogModel.create({
+    userId,
+    action: 'EXTRACTION_TEMPLATE_LEARN',
+    resourceType: 'extraction_template',
+    resourceId: template.id,
+    details: { vendor: template.vendor_name, fileId: file.id, fields: Object.keys(template.rules) },
+    ipAddress: req.ip,
+    userAgent: req.get('User-Agent'),
+    deviceFingerprint: req.audit?.deviceFingerprint,
+    geoLocation: req.geo
+  });
+
+  res.status(201).json({
+    success: true,
+    template
+  });
+}));
+
+/**
+ * Edit a template's vendor name, recognition patterns or field rules
+ */
+router.put('/:id', asyncHandler(async (req: AuthenticatedRequest, res) => {
+  const userId = req.user!.id;
+  const templateId = parseInt(req.params.id);
+  const { vendorName, matchPatterns, rules } = req.body;
+
+  if (isNaN(templateId)) {
+    throw createError('Invalid template ID', 400);
+  }
+
+  if (matchPatterns !== undefined &&
+      (!Array.isArray(matchPatterns) || matchPatterns.some((p: unknown) => typeof p !== 'string' || !p.trim()))) {
+    throw createError('Match patterns must be non-empty strings', 400);
+  }
+
+  if (rules !== undefined) {
+    const error = ExtractionTemplateService.validateRules(rules);
+    if (error) {
+      throw createError(error, 400);
+    }
+  }
+
+  const template = await ExtractionTemplateModel.update(templateId, userId, { vendorName, matchPatterns, rules });
+  if (!template) {
+    throw createError('Template not found', 404);
+  }
+
+  await AuditLogModel.create({
+    userId,
+    action: 'EXTRACTION_TEMPLATE_UPDATE',
+    resourceType: 'extraction_template',
+    resourceId: templateId,
+    details: { vendor: template.vendor_name, updatedFields: Object.keys(req.body) },
+    ipAddress: req.ip,
+    userAgent: req.get('User-Agent'),
+    deviceFingerprint: req.audit?.deviceFingerprint,
+    geoLocation: req.geo
+  });
+
+  res.json({
+    success: true,
+    template
+  });
+}));
+
+/**
+ * Delete a template; the vendor falls back to the generic parser
+ */
+router.delete('/:id', asyncHandler(async (req: AuthenticatedRequest, res) => {
+  const userId = req.user!.id;
+  const templateId = parseInt(req.params.id);
+
+  if (isNaN(templateId)) {
+    throw createError('Invalid template ID', 400);
+  }
+
+  const deleted = await ExtractionTemplateModel.delete(templateId, userId);
+  if (!deleted) {
+    throw createError('Template not found', 404);
+  }
+
+  await AuditLogModel.create({
+    userId,
+    action: 'EXTRACTION_TEMPLATE_DELETE',
+    resourceType: 'extraction_template',
+    resourceId: templateId,
+    ipAddress: req.ip,
+    userAgent: req.get('User-Agent'),
+    deviceFingerprint: req.audit?.deviceFingerprint,
+    geoLocation: req.geo
+  });
+
+  res.json({ success: true, message: 'Template deleted successfully' });
+}));
+
+export default router;
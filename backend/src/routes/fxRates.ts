@@ -0,0 +1,70 @@
+import { Router } from 'express';
+import multer from 'multer';
+import { authenticateToken, AuthenticatedRequest, requireAdmin } from '@/middleware/auth';
+import { asyncHandler, createError } from '@/middleware/errorHandler';
+import { AuditLogModel } from '@/models/AuditLog';
+import { FxRateService } from '@/services/fxRateService';
+
+const router = Router();
+
+const rateUpload = multer({
+  storage: multer.memoryStorage(),
+  limits: {
+    fileSize: FxRateService.MAX_FILE_SIZE,
+    files: 1,
+  },
+  fileFilter: (req, file, cb) => {
+    if (/\.(csv|txt|xml)$/i.test(file.originalname)) cb(null, true);
+    else cb(new Error('Invalid file type. Only CSV and XML rate files are allowed.'));
+  },
+});
+
+// All routes require authentication
+router.use(authenticateToken);
+
+/**
+ * Reporting currency, loaded rate coverage and the user's expenses still
+ * waiting for a rate
+ */
+router.get('/', asyncHandler(async (req: AuthenticatedRequest, res) => {
+  const status = await FxRateService.getStatus(req.user!.id);
+
+  res.json({
+    success: true,
+    ...status
+  });
+}));
+
+/**
+ * Load rates from an ECB reference rate file or a date/base/quote/rate CSV,
+ * then re-convert the expenses those dates cover. Rates are shared and the
+ * re-conversion spans every user, so this is for administrators.
+ */
+router.post('/import', requireAdmin, rateUpload.single('file'), asyncHandler(async (req: AuthenticatedRequest, res) => {
+  if (!req.file) {
+    throw createError('No rate file uploaded', 400);
+  }
+
+  const result = await FxRateService.importFile(req.file.buffer);
+  if ('error' in result) {
+    throw createError(result.error, 400);
+  }
+
+  await AuditLogModel.create({
+    userId: req.user!.id,
+    action: 'FX_RATES_IMPORT',
+    resourceType: 'fx_rates',
+    details: result,
+    ipAddress: req.ip,
+    userAgent: req.get('User-Agent'),
+    deviceFingerprint: req.audit?.deviceFingerprint,
+    geoLocation: req.geo
+  });
+
+  res.json({
+    success: true,
+    result
+  });
+}));
+
+export default router;
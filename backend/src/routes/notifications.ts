@@ -0,0 +1,55 @@
+import { Router } from 'express';
+import { authenticateToken, AuthenticatedRequest } from '@/middleware/auth';
+import { asyncHandler, createError } from '@/middleware/errorHandler';
+import { NotificationModel } from '@/models/Notification';
+
+const router = Router();
+
+// All routes require authentication
+router.use(authenticateToken);
+
+/**
+ * The user's notification feed, newest first, with the unread count
+ */
+router.get('/', asyncHandler(async (req: AuthenticatedRequest, res) => {
+  const userId = req.user!.id;
+  const limit = Math.min(parseInt(req.query.limit as string) || 50, 200);
+  const unreadOnly = req.query.unread === 'true';
+
+  const [notifications, unreadCount] = await Promise.all([
+    NotificationModel.findByUser(userId, limit, unreadOnly),
+    NotificationModel.countUnread(userId)
+  ]);
+
+  res.json({
+    success: true,
+    notifications,
+    unreadCount
+  });
+}));
+
+router.put('/read-all', asyncHandler(async (req: AuthenticatedRequest, res) => {
+  const updated = await NotificationModel.markAllRead(req.user!.id);
+
+  res.json({
+    success: true,
+    updated
+  });
+}));
+
+router.put('/:id/read', asyncHandler(async (req: AuthenticatedRequest, res) => {
+  const notificationId = parseInt(req.params.id);
+
+  if (isNaN(notificationId)) {
+    throw createError('Invalid notification ID', 400);
+  }
+
+  const updated = await NotificationModel.markRead(notificationId, req.user!.id);
+  if (!updated) {
+    throw createError('Notification not found', 404);
+  }
+
+  res.json({ success: true });
+}));
+
+export default router;
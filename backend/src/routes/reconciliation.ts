@@ -0,0 +1,196 @@
+import { Router } from 'express';
+import { authenticateToken, AuthenticatedRequest } from '@/middleware/auth';
+import { asyncHandler, createError } from '@/middleware/errorHandler';
+import { AuditLogModel } from '@/models/AuditLog';
+import { BankTransactionModel } from '@/models/BankTransaction';
+import { ExpenseModel } from '@/models/Expense';
+import { ReconciliationService } from '@/services/reconciliationService';
+
+const router = Router();
+
+// All routes require authentication
+router.use(authenticateToken);
+
+/**
+ * Everything the reconciliation view shows: counts, unmatched transactions,
+ * unpaid invoices past their due date and the latest matches
+ */
+router.get('/', asyncHandler(async (req: AuthenticatedRequest, res) => {
+  const userId = req.user!.id;
+
+  const [transactions, payments, unmatched, overdue, recentMatches, ignored] = await Promise.all([
+    BankTransactionModel.getSummary(userId),
+    ExpenseModel.getPaymentSummary(userId),
+    BankTransactionModel.findUnmatched(userId, 200),
+    ExpenseModel.findOverdueUnpaid(userId, 100),
+    BankTransactionModel.findRecentMatches(userId, 50),
+    BankTransactionModel.findIgnored(userId, 50)
+  ]);
+
+  res.json({
+    success: true,
+    summary: {
+      unmatchedTransactions: transactions.unmatched,
+      matchedTransactions: transactions.matched,
+      ignoredTransactions: transactions.ignored,
+      unpaidExpenses: payments.unpaid,
+      partiallyPaidExpenses: payments.partiallyPaid,
+      overdueExpenses: payments.overdue
+    },
+    unmatched,
+    overdue,
+    recentMatches,
+    ignored
+  });
+}));
+
+/**
+ * Match every unmatched transaction that has one clear, confident candidate
+ */
+router.post('/auto-match', asyncHandler(async (req: AuthenticatedRequest, res) => {
+  const userId = req.user!.id;
+  const result = await ReconciliationService.autoMatch(userId);
+
+  await AuditLogModel.create({
+    userId,
+    action: 'RECONCILIATION_AUTO_MATCH',
+    resourceType: 'bank_transactions',
+    details: {
+      matched: result.matched,
+      transactionIds: result.transactionIds
+    },
+    ipAddress: req.ip,
+    userAgent: req.get('User-Agent'),
+    deviceFingerprint: req.audit?.deviceFingerprint,
+    geoLocation: req.geo
+  });
+
+  res.json({
+    success: true,
+    matched: result.matched
+  });
+}));
+
+/**
+ * Scored expenses a transaction could be paying, best first
+ */
+router.get('/transactions/:id/candidates', asyncHandler(async (req: AuthenticatedRequest, res) => {
+  const transaction = await findTransaction(req);
+  const candidates = await ReconciliationService.findCandidates(req.user!.id, transaction);
+
+  res.json({
+    success: true,
+    candidates
+  });
+}));
+
+router.post('/transactions/:id/match', asyncHandler(async (req: AuthenticatedRequest, res) => {
+  const userId = req.user!.id;
+  const transaction = await findTransaction(req);
+  const expenseId = parseInt(req.body.expenseId);
+
+  if (isNaN(expenseId)) {
+    throw createError('Invalid expense ID', 400);
+  }
+
+  const expense = await ExpenseModel.findById(expenseId, userId);
+  if (!expense) {
+    throw createError('Expense not found', 404);
+  }
+
+  const result = await ReconciliationService.match(userId, transaction, expense);
+  if ('error' in result) {
+    throw createError(result.error, 400);
+  }
+
+  await AuditLogModel.create({
+    userId,
+    action: 'RECONCILIATION_MATCH',
+    resourceType: 'bank_transaction',
+    resourceId: transaction.id,
+    details: { expenseId },
+    ipAddress: req.ip,
+    userAgent: req.get('User-Agent'),
+    deviceFingerprint: req.audit?.deviceFingerprint,
+    geoLocation: req.geo
+  });
+
+  res.json({
+    success: true,
+    transaction: result.transaction
+  });
+}));
+
+router.delete('/transactions/:id/match', asyncHandler(async (req: AuthenticatedRequest, res) => {
+  const userId = req.user!.id;
+  const transaction = await findTransaction(req);
+
+  const result = await ReconciliationService.unmatch(userId, transaction);
+  if ('error' in result) {
+    throw createError(result.error, 400);
+  }
+
+  await AuditLogModel.create({
+    userId,
+    action: 'RECONCILIATION_UNMATCH',
+    resourceType: 'bank_transaction',
+    resourceId: transaction.id,
+    details: { expenseId: transaction.expense_id },
+    ipAddress: req.ip,
+    userAgent: req.get('User-Agent'),
+    deviceFingerprint: req.audit?.deviceFingerprint,
+    geoLocation: req.geo
+  });
+
+  res.json({
+    success: true,
+    transaction: result.transaction
+  });
+}));
+
+/**
+ * Set aside a transaction that is not an expense payment (transfers, card
+ * repayments, cash withdrawals); ignore=false brings it back
+ */
+router.put('/transactions/:id/ignore', asyncHandler(async (req: AuthenticatedRequest, res) => {
+  const userId = req.user!.id;
+  const transaction = await findTransaction(req);
+  const ignore = req.body.ignore !== false;
+
+  const updated = await BankTransactionModel.setIgnored(transaction.id, userId, ignore);
+  if (!updated) {
+    throw createError('Matched transactions cannot be ignored', 400);
+  }
+
+  await AuditLogModel.create({
+    userId,
+    action: ignore ? 'RECONCILIATION_IGNORE' : 'RECONCILIATION_RESTORE',
+    resourceType: 'bank_transaction',
+    resourceId: transaction.id,
+    ipAddress: req.ip,
+    userAgent: req.get('User-Agent'),
+    deviceFingerprint: req.audit?.deviceFingerprint,
+    geoLocation: req.geo
+  });
+
+  res.json({
+    success: true,
+    transaction: updated
+  });
+}));
+
+async function findTransaction(req: AuthenticatedRequest) {
+  const transactionId = parseInt(req.params.id);
+  if (isNaN(transactionId)) {
+    throw createError('Invalid transaction ID', 400);
+  }
+
+  const transaction = await BankTransactionModel.findById(transactionId, req.user!.id);
+  if (!transaction) {
+    throw createError('Transaction not found', 404);
+  }
+
+  return transaction;
+}
+
+export default router;
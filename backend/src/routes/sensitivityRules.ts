@@ -0,0 +1,213 @@
+import { Router } from 'express';
+import { authenticateToken, AuthenticatedRequest, isAdmin, requireAdmin } from '@/middleware/auth';
+import { asyncHandler, createError } from '@/middleware/errorHandler';
+import { AuditLogModel } from '@/models/AuditLog';
+import { SensitivityRuleModel } from '@/models/SensitivityRule';
+import { SensitivityRuleService } from '@/services/sensitivityRuleService';
+
+const router = Router();
+
+// All routes require authentication; changing rules requires an administrator
+router.use(authenticateToken);
+
+/**
+ * The rules in evaluation order, and whether this user may change them
+ */
+router.get('/', asyncHandler(async (req: AuthenticatedRequest, res) => {
+  const rules = await SensitivityRuleModel.findAll();
+
+  res.json({
+    success: true,
+    canManage: isAdmin(req.user!.username),
+    rules
+  });
+}));
+
+/**
+ * Classify a sample expense against the active rules
+ */
+router.post('/test', asyncHandler(async (req: AuthenticatedRequest, res) => {
+  const parsed = await SensitivityRuleService.parseTestInput(req.body);
+  if ('error' in parsed) {
+    throw createError(parsed.error, 400);
+  }
+
+  const classification = await SensitivityRuleService.classify(parsed.subject);
+
+  res.json({
+    success: true,
+    sensitivity: classification.sensitivity,
+    maskedName: classification.maskedName,
+    rule: classification.rule ? { id: classification.rule.id, name: classification.rule.name } : null
+  });
+}));
+
+/**
+ * Which stored expenses a new or edited rule would reclassify, without saving it.
+ * Pass ruleId to preview an edit of that rule.
+ */
+router.post('/preview', requireAdmin, asyncHandler(async (req: AuthenticatedRequest, res) => {
+  const ruleId = req.body.ruleId !== undefined ? parseInt(req.body.ruleId) : undefined;
+  if (ruleId !== undefined && isNaN(ruleId)) {
+    throw createError('Invalid rule ID', 400);
+  }
+  const existing = ruleId !== undefined ? await SensitivityRuleModel.findById(ruleId) : undefined;
+  if (ruleId !== undefined && !existing) {
+    throw createError('Rule not found', 404);
+  }
+
+  const parsed = await SensitivityRuleService.parseInput(req.body, existing || undefined);
+  if ('error' in parsed) {
+    throw createError(parsed.error, 400);
+  }
+
+  const preview = await SensitivityRuleService.preview(parsed.input, ruleId);
+
+  res.json({
+    success: true,
+    ...preview
+  });
+}));
+
+/**
+ * Apply the active rules to stored expenses now. Levels set by hand are kept.
+ */
+router.post('/reclassify', requireAdmin, asyncHandler(async (req: AuthenticatedRequest, res) => {
+  const userId = req.user!.id;
+
+  const result = await SensitivityRuleService.reclassify({ userId });
+
+  await AuditLogModel.create({
+    userId,
+    action: 'SENSITIVITY_RECLASSIFY',
+    resourceType: 'sensitivity_rule',
+    details: { scanned: result.scanned, changed: result.changed },
+    ipAddress: req.ip,
+    userAgent: req.get('User-Agent'),
+    deviceFingerprint: req.audit?.deviceFingerprint,
+    geoLocation: req.geo
+  });
+
+  res.json({
+    success: true,
+    ...result
+  });
+}));
+
+/**
+ * Add a rule. It applies to expenses created from now on; reclassify to
+ * apply it to stored ones.
+ */
+router.post('/', requireAdmin, asyncHandler(async (req: AuthenticatedRequest, res) => {
+  const userId = req.user!.id;
+
+  const parsed = await SensitivityRuleService.parseInput(req.body);
+  if ('error' in parsed) {
+    throw createError(parsed.error, 400);
+  }
+
+  const rule = await SensitivityRuleModel.create(parsed.input, userId);
+
+  await AuditLogModel.create({
+    userId,
+    action: 'SENSITIVITY_RULE_CREATE',
+    resourceType: 'sensitivity_rule',
+    resourceId: rule.id,
+    details: { ...parsed.input },
+    ipAddress: req.ip,
+    userAgent: req.get('User-Agent'),
+    deviceFingerprint: req.audit?.deviceFingerprint,
+    geoLocation: req.geo
+  });
+
+  res.status(201).json({
+    success: true,
+    rule
+  });
+}));
+
+/**
+ * Change a rule, its priority, or switch it off
+ */
+router.put('/:id', requireAdmin, asyncHandler(async (req: AuthenticatedRequest, res) => {
+  const userId = req.user!.id;
+  const ruleId = parseInt(req.params.id);
+
+  if (isNaN(ruleId)) {
+    throw createError('Invalid rule ID', 400);
+  }
+
+  const existing = await SensitivityRuleModel.findById(ruleId);
+  if (!existing) {
+    throw createError('Rule not found', 404);
+  }
+
+  const parsed = await SensitivityRuleService.parseInput(req.body, existing);
+  if ('error' in parsed) {
+    throw createError(parsed.error, 400);
+  }
+
+  const rule = await SensitivityRuleModel.update(ruleId, parsed.input);
+  if (!rule) {
+    throw createError('Rule not found', 404);
+  }
+
+  await AuditLogModel.create({
+    userId,
+    action: 'SENSITIVITY_RULE_UPDATE',
+    resourceType: 'sensitivity_rule',
+    resourceId: ruleId,
+    details: {
+      before: {
+        matchType: existing.match_type,
+        pattern: existing.pattern,
+        sensitivity: existing.sensitivity,
+        priority: existing.priority,
+        isActive: existing.is_active
+      },
+      after: parsed.input
+    },
+    ipAddress: req.ip,
+    userAgent: req.get('User-Agent'),
+    deviceFingerprint: req.audit?.deviceFingerprint,
+    geoLocation: req.geo
+  });
+
+  res.json({
+    success: true,
+    rule
+  });
+}));
+
+/**
+ * Delete a rule; expenses it classified keep their level until reclassified
+ */
+router.delete('/:id', requireAdmin, asyncHandler(async (req: AuthenticatedRequest, res) => {
+  const userId = req.user!.id;
+  const ruleId = parseInt(req.params.id);
+
+  if (isNaN(ruleId)) {
+    throw createError('Invalid rule ID', 400);
+  }
+
+  const rule = await SensitivityRuleModel.findById(ruleId);
+  if (!rule || !await SensitivityRuleModel.delete(ruleId)) {
+    throw createError('Rule not found', 404);
+  }
+
+  await AuditLogModel.create({
+    userId,
+    action: 'SENSITIVITY_RULE_DELETE',
+    resourceType: 'sensitivity_rule',
+    resourceId: ruleId,
+    details: { name: rule.name, matchType: rule.match_type, sensitivity: rule.sensitivity },
+    ipAddress: req.ip,
+    userAgent: req.get('User-Agent'),
+    deviceFingerprint: req.audit?.deviceFingerprint,
+    geoLocation: req.geo
+  });
+
+  res.json({ success: true, message: 'Rule deleted successfully' });
+}));
+
+export default router;
@@ -0,0 +1,162 @@
+import { Router } from 'express';
+import multer from 'multer';
+import { authenticateToken, AuthenticatedRequest } from '@/middleware/auth';
+import { asyncHandler, createError } from '@/middleware/errorHandler';
+import { AuditLogModel } from '@/models/AuditLog';
+import { StatementSourceModel } from '@/models/StatementSource';
+import { StatementImportService } from '@/services/statementImportService';
+import { StatementMapping } from '@/utils/statementParsing';
+
+const router = Router();
+
+// Browsers report all sorts of MIME types for statements, so go by extension
+const statementUpload = multer({
+  storage: multer.memoryStorage(),
+  limits: {
+    fileSize: StatementImportService.MAX_FILE_SIZE,
+    files: 1,
+  },
+  fileFilter: (req, file, cb) => {
+    if (/\.(csv|tsv|txt|ofx|qfx|qif)$/i.test(file.originalname)) cb(null, true);
+    else cb(new Error('Invalid file type. Only CSV, OFX/QFX and QIF statements are allowed.'));
+  },
+});
+
+// All routes require authentication
+router.use(authenticateToken);
+
+/**
+ * List the user's statement sources and their saved column mappings
+ */
+router.get('/sources', asyncHandler(async (req: AuthenticatedRequest, res) => {
+  const sources = await StatementSourceModel.findByUser(req.user!.id);
+
+  res.json({
+    success: true,
+    sources
+  });
+}));
+
+/**
+ * Parse a statement with the given, saved or suggested mapping and show what
+ * an import would do. Nothing is written.
+ */
+router.post('/preview', statementUpload.single('file'), asyncHandler(async (req: AuthenticatedRequest, res) => {
+  const { file, sourceName, mapping } = parseImportRequest(req);
+
+  const preview = await StatementImportService.preview(req.user!.id, file, sourceName, mapping);
+  if ('error' in preview) {
+    throw createError(preview.error, 400);
+  }
+
+  res.json({
+    success: true,
+    preview
+  });
+}));
+
+/**
+ * Import the statement's new money-out lines as expenses, or only record them
+ * for reconciliation. Lines imported before are skipped, so re-running an
+ * import is safe.
+ */
+router.post('/import', statementUpload.single('file'), asyncHandler(async (req: AuthenticatedRequest, res) => {
+  const { file, sourceName, mapping } = parseImportRequest(req);
+
+  let excludedLines: number[] = [];
+  if (req.body.excludedLines) {
+    try {
+      excludedLines = JSON.parse(req.body.excludedLines);
+    } catch {
+      throw createError('Excluded lines must be a JSON array', 400);
+    }
+    if (!Array.isArray(excludedLines) || excludedLines.some(line => !Number.isInteger(line))) {
+      throw createError('Excluded lines must be a JSON array', 400);
+    }
+  }
+
+  const result = await StatementImportService.commit(
+    file,
+    sourceName,
+    mapping,
+    {
+      saveMapping: req.body.saveMapping === 'true',
+      asDrafts: req.body.asDrafts === 'true',
+      reconcileOnly: req.body.reconcileOnly === 'true',
+      excludedLines
+    },
+    {
+      userId: req.user!.id,
+      ipAddress: req.ip,
+      userAgent: req.get('User-Agent'),
+      deviceFingerprint: req.audit?.deviceFingerprint,
+      geoLocation: req.geo
+    }
+  );
+  if ('error' in result) {
+    throw createError(result.error, 400);
+  }
+
+  res.status(201).json({
+    success: true,
+    result
+  });
+}));
+
+/**
+ * Forget a source's saved mapping; already imported expenses are kept
+ */
+router.delete('/sources/:id', asyncHandler(async (req: AuthenticatedRequest, res) => {
+  const userId = req.user!.id;
+  const sourceId = parseInt(req.params.id);
+
+  if (isNaN(sourceId)) {
+    throw createError('Invalid source ID', 400);
+  }
+
+  const deleted = await StatementSourceModel.delete(sourceId, userId);
+  if (!deleted) {
+    throw createError('Statement source not found', 404);
+  }
+
+  await AuditLogModel.create({
+    userId,
+    action: 'STATEMENT_SOURCE_DELETE',
+    resourceType: 'statement_source',
+    resourceId: sourceId,
+    ipAddress: req.ip,
+    userAgent: req.get('User-Agent'),
+    deviceFingerprint: req.audit?.deviceFingerprint,
+    geoLocation: req.geo
+  });
+
+  res.json({ success: true, message: 'Statement source deleted successfully' });
+}));
+
+function parseImportRequest(req: AuthenticatedRequest): {
+  file: { originalName: string; buffer: Buffer };
+  sourceName: string;
+  mapping?: StatementMapping;
+} {
+  if (!req.file) {
+    throw createError('No statement uploaded', 400);
+  }
+
+  const sourceName = typeof req.body.sourceName === 'string' ? req.body.sourceName.trim() : '';
+  if (!sourceName || sourceName.length > 100) {
+    throw createError('A source name of up to 100 characters is required', 400);
+  }
+
+  let mapping: StatementMapping | undefined;
+  if (req.body.mapping) {
+    try {
+      mapping = JSON.parse(req.body.mapping);
+    } catch {
+      throw createError('Mapping must be valid JSON', 400);
+    }
+  }
+
+  return { file: { originalName: req.file.originalname, buffer: req.file.buffer }, sourceName, mapping };
+}
+
+export default router;
@@ -0,0 +1,202 @@
+import { Router } from 'express';
+import { authenticateToken, AuthenticatedRequest } from '@/middleware/auth';
+import { asyncHandler, createError } from '@/middleware/errorHandler';
+import { AuditLogModel } from '@/models/AuditLog';
+import { SubscriptionModel } from '@/models/Subscription';
+import { DuplicateDetectionService } from '@/services/duplicateDetectionService';
+import { SubscriptionService } from '@/services/subscriptionService';
+
+const router = Router();
+
+// All routes require authentication
+router.use(authenticateToken);
+
+/**
+ * The subscription registry with counts and the monthly cost of active subscriptions
+ */
+router.get('/', asyncHandler(async (req: AuthenticatedRequest, res) => {
+  const subscriptions = await SubscriptionModel.findByUser(req.user!.id);
+  const summary = await SubscriptionService.getSummary(subscriptions);
+
+  res.json({
+    success: true,
+    summary,
+    subscriptions
+  });
+}));
+
+/**
+ * Scan the expense history for recurring charges now, then bring every
+ * schedule up to date, rather than waiting for the daily job
+ */
+router.post('/detect', asyncHandler(async (req: AuthenticatedRequest, res) => {
+  const userId = req.user!.id;
+
+  const detected = await SubscriptionService.detect(userId);
+  const tracked = await SubscriptionService.track(userId);
+
+  await AuditLogModel.create({
+    userId,
+    action: 'SUBSCRIPTION_DETECT',
+    resourceType: 'subscription',
+    details: {
+      detected: detected.map(subscription => subscription.id),
+      ...tracked
+    },
+    ipAddress: req.ip,
+    userAgent: req.get('User-Agent'),
+    deviceFingerprint: req.audit?.deviceFingerprint,
+    geoLocation: req.geo
+  });
+
+  res.json({
+    success: true,
+    detected: detected.length,
+    ...tracked
+  });
+}));
+
+/**
+ * Add a subscription by hand, for one with too little history to be detected
+ */
+router.post('/', asyncHandler(async (req: AuthenticatedRequest, res) => {
+  const userId = req.user!.id;
+
+  const parsed = SubscriptionService.parseInput(req.body, false);
+  if ('error' in parsed) {
+    throw createError(parsed.error, 400);
+  }
+
+  const { input } = parsed;
+  const subscription = await SubscriptionModel.create(userId, {
+    providerName: input.providerName!,
+    vendorKey: DuplicateDetectionService.normalizeVendor(input.providerName!),
+    category: input.category,
+    currency: input.currency!,
+    amount: input.amount!,
+    cadence: input.cadence!,
+    billingDay: SubscriptionService.billingDayFor(input.cadence!, input.nextChargeDate!),
+    lastChargeDate: null,
+    lastChargeAmount: null,
+    nextChargeDate: input.nextChargeDate!,
+    chargeCount: 0,
+    origin: 'manual',
+    confidence: null
+  });
+  if (!subscription) {
+    throw createError(`A subscription for ${input.providerName} in ${input.currency} already exists`, 409);
+  }
+
+  await AuditLogModel.create({
+    userId,
+    action: 'SUBSCRIPTION_CREATE',
+    resourceType: 'subscription',
+    resourceId: subscription.id,
+    details: {
+      provider: subscription.provider_name,
+      amount: input.amount,
+      currency: subscription.currency,
+      cadence: subscription.cadence
+    },
+    ipAddress: req.ip,
+    userAgent: req.get('User-Agent'),
+    deviceFingerprint: req.audit?.deviceFingerprint,
+    geoLocation: req.geo
+  });
+
+  res.status(201).json({
+    success: true,
+    subscription
+  });
+}));
+
+/**
+ * Correct the schedule or amount, pause or cancel, toggle drafting, or dismiss a flag
+ */
+router.put('/:id', asyncHandler(async (req: AuthenticatedRequest, res) => {
+  const userId = req.user!.id;
+  const subscriptionId = parseInt(req.params.id);
+
+  if (isNaN(subscriptionId)) {
+    throw createError('Invalid subscription ID', 400);
+  }
+
+  const parsed = SubscriptionService.parseInput(req.body, true);
+  if ('error' in parsed) {
+    throw createError(parsed.error, 400);
+  }
+
+  const existing = await SubscriptionModel.findById(subscriptionId, userId);
+  if (!existing) {
+    throw createError('Subscription not found', 404);
+  }
+
+  const { input } = parsed;
+  // The billing day follows a new schedule
+  const cadence = input.cadence || existing.cadence;
+  const billingDay = input.cadence || input.nextChargeDate
+    ? SubscriptionService.billingDayFor(cadence, input.nextChargeDate || DuplicateDetectionService.toDateString(existing.next_charge_date))
+    : undefined;
+
+  const subscription = await SubscriptionModel.update(subscriptionId, userId, {
+    providerName: input.providerName,
+    category: input.category,
+    amount: input.amount,
+    cadence: input.cadence,
+    billingDay,
+    nextChargeDate: input.nextChargeDate,
+    status: input.status,
+    autoDraft: input.autoDraft,
+    clearFlag: input.clearFlag
+  });
+
+  await AuditLogModel.create({
+    userId,
+    action: 'SUBSCRIPTION_UPDATE',
+    resourceType: 'subscription',
+    resourceId: subscriptionId,
+    details: { provider: existing.provider_name, updatedFields: Object.keys(input) },
+    ipAddress: req.ip,
+    userAgent: req.get('User-Agent'),
+    deviceFingerprint: req.audit?.deviceFingerprint,
+    geoLocation: req.geo
+  });
+
+  res.json({
+    success: true,
+    subscription
+  });
+}));
+
+/**
+ * Remove a subscription; its charges stay as ordinary expenses. Detection may
+ * register the vendor again, so cancel instead to keep it out of the registry.
+ */
+router.delete('/:id', asyncHandler(async (req: AuthenticatedRequest, res) => {
+  const userId = req.user!.id;
+  const subscriptionId = parseInt(req.params.id);
+
+  if (isNaN(subscriptionId)) {
+    throw createError('Invalid subscription ID', 400);
+  }
+
+  const deleted = await SubscriptionModel.delete(subscriptionId, userId);
+  if (!deleted) {
+    throw createError('Subscription not found', 404);
+  }
+
+  await AuditLogModel.create({
+    userId,
+    action: 'SUBSCRIPTION_DELETE',
+    resourceType: 'subscription',
+    resourceId: subscriptionId,
+    ipAddress: req.ip,
+    userAgent: req.get('User-Agent'),
+    deviceFingerprint: req.audit?.deviceFingerprint,
+    geoLocation: req.geo
+  });
+
+  res.json({ success: true, message: 'Subscription deleted successfully' });
+}));
+
+export default router;
@@ -1,28 +1,71 @@
 import { Router } from 'express';
 import multer from 'multer';
-import { authenticateToken, AuthenticatedRequest } from '@/middleware/auth';
+import { authenticateToken, AuthenticatedRequest, requireAdmin } from '@/middleware/auth';
 import { asyncHandler, createError } from '@/middleware/errorHandler';
 
-import pdfParse from 'pdf-parse';
-import Tesseract from 'tesseract.js';
-import { DateTime } from 'luxon';
-import { AntivirusService } from '@/services/antivirusService';
+import { FileStorageService } from '@/services/fileStorageService';
+import { UploadQueueService } from '@/services/uploadQueueService';
+import { DuplicateMatch } from '@/services/duplicateDetectionService';
+import { ArchiveService } from '@/services/archiveService';
+import { EmailIngestionService } from '@/services/emailIngestionService';
+import { IntakeContext, IntakeOutcome, InvoiceIntakeService } from '@/services/invoiceIntakeService';
+import { FileModel } from '@/models/File';
+import { ExpenseModel } from '@/models/Expense';
+import { AuditLogModel } from '@/models/AuditLog';
+import MailboxPollingJob from '@/jobs/mailboxPollingJob';
+import DropFolderJob from '@/jobs/dropFolderJob';
+import { DropFolderService } from '@/services/dropFolderService';
+import { detectMimeType, INVOICE_MIME_TYPES, isZipArchive, servedContentType, ZIP_MIME_TYPES } from '@/utils/fileType';
 
 const router = Router();
 
+const MAX_FILE_SIZE = InvoiceIntakeService.MAX_FILE_SIZE;
+const MAX_BATCH_FILES = parseInt(process.env.MAX_BATCH_FILES || '20', 10);
+const MAX_ARCHIVE_SIZE = parseInt(process.env.MAX_ARCHIVE_SIZE || '52428800', 10); // 50MB
+const ARCHIVE_LIMITS = {
+  maxEntries: parseInt(process.env.MAX_ARCHIVE_ENTRIES || '100', 10),
+  maxEntrySize: MAX_FILE_SIZE,
+  maxTotalSize: parseInt(process.env.MAX_ARCHIVE_UNCOMPRESSED_SIZE || '209715200', 10) // 200MB
+};
+
 /**
  * Multer config
  */
 const upload = multer({
   storage: multer.memoryStorage(),
   limits: {
-    fileSize: parseInt(process.env.MAX_FILE_SIZE || '10485760', 10), // 10MB
+    fileSize: MAX_FILE_SIZE,
+    files: 1,
+  },
+  fileFilter: (req, file, cb) => {
+    if (INVOICE_MIME_TYPES.includes(file.mimetype)) cb(null, true);
+    else cb(new Error('Invalid file type. Only PDF, JPEG, JPG, PNG and XML invoices are allowed.'));
+  },
+});
+
+// Batches may mix invoices and ZIP archives; invoice sizes are checked per file
+const batchUpload = multer({
+  storage: multer.memoryStorage(),
+  limits: {
+    fileSize: Math.max(MAX_FILE_SIZE, MAX_ARCHIVE_SIZE),
+    files: MAX_BATCH_FILES,
+  },
+  fileFilter: (req, file, cb) => {
+    if (INVOICE_MIME_TYPES.includes(file.mimetype) || ZIP_MIME_TYPES.includes(file.mimetype)) cb(null, true);
+    else cb(new Error('Invalid file type. Only PDF, JPEG, JPG, PNG, XML and ZIP files are allowed.'));
+  },
+});
+
+// Saved messages; browsers rarely report a useful MIME type for .msg, so go by extension
+const emailUpload = multer({
+  storage: multer.memoryStorage(),
+  limits: {
+    fileSize: parseInt(process.env.MAX_EMAIL_SIZE || '26214400', 10), // 25MB
     files: 1,
   },
   fileFilter: (req, file, cb) => {
-    const allowed = ['application/pdf', 'image/jpeg', 'image/jpg', 'image/png'];
-    if (allowed.includes(file.mimetype)) cb(null, true);
-    else cb(new Error('Invalid file type. Only PDF, JPEG, JPG, and PNG files are allowed.'));
+    if (/\.(eml|msg)$/i.test(file.originalname)) cb(null, true);
+    else cb(new Error('Invalid file type. Only .eml and .msg messages are allowed.'));
   },
 });
 
@@ -32,247 +75,472 @@ router.use(authenticateToken);
 /**
  * POST /api/upload/invoice
  * - Validates file
- * - Extracts text (PDF -> pdf-parse, image -> Tesseract)
- * - Parses amount/currency/date/vendor (heuristic)
+ * - Encrypts the original file at rest and records it in `files`
+ * - Queues it for scanning + extraction; poll GET /jobs/:jobId for results
  */
 router.post(
   '/invoice',
   upload.single('invoice'),
   asyncHandler(async (req: AuthenticatedRequest, res) => {
-    const userId = req.user!.id;
     const file = req.file;
     if (!file) throw createError('No file uploaded', 400);
 
-    const maxBytes = parseInt(process.env.MAX_FILE_SIZE || '10485760', 10);
-    if (file.size > maxBytes) throw createError('File too large', 413);
+    const outcome = await InvoiceIntakeService.intake({
+      originalName: file.originalname,
+      buffer: file.buffer,
+      mimeType: file.mimetype
+    }, {
+      sensitivity: parseSensitivity(req.body?.sensitivity),
+      allowDuplicate: req.body?.allowDuplicate === 'true'
+    }, intakeContext(req));
+
+    if (outcome.status === 'rejected') {
+      throw createError(outcome.error, outcome.statusCode);
+    }
+    if (outcome.status === 'duplicate') {
+      res.status(409).json({ error: 'This file has already been uploaded', duplicates: outcome.duplicates });
+      return;
+    }
 
-    if (!validateFileType(file.buffer, file.mimetype)) {
-      throw createError('Invalid file format', 400);
+    res.status(202).json({
+      success: true,
+      message: 'File uploaded and queued for processing',
+      jobId: outcome.jobId,
+      status: 'queued',
+      file: { id: outcome.fileId, originalName: file.originalname, size: file.size, type: file.mimetype },
+      duplicates: outcome.duplicates,
+    });
+  })
+);
+
+/**
+ * POST /api/upload/batch
+ * Accepts several invoices and/or ZIP archives of invoices. Every invoice is
+ * stored and queued on its own, so one bad file never fails the batch; poll
+ * GET /batches/:batchId for the combined progress.
+ */
+router.post(
+  '/batch',
+  batchUpload.array('invoices', MAX_BATCH_FILES),
+  asyncHandler(async (req: AuthenticatedRequest, res) => {
+    const userId = req.user!.id;
+    const uploaded = (req.files as Express.Multer.File[] | undefined) || [];
+    if (uploaded.length === 0) throw createError('No files uploaded', 400);
+
+    const sensitivity = parseSensitivity(req.body?.sensitivity);
+    const allowDuplicate = req.body?.allowDuplicate === 'true';
+
+    const items: Array<{
+      name: string;
+      archive?: string;
+      size: number;
+      status: IntakeOutcome['status'];
+      fileId?: number;
+      jobId?: string;
+      duplicates?: DuplicateMatch[];
+      error?: string;
+    }> = [];
+
+    const intake = async (name: string, buffer: Buffer, mimeType: string | null, archive?: string) => {
+      const outcome = mimeType
+        ? await InvoiceIntakeService.intake({ originalName: name, buffer, mimeType }, { sensitivity, allowDuplicate }, intakeContext(req))
+        : { status: 'rejected' as const, error: 'Unsupported file type', statusCode: 400 };
+
+      items.push({
+        name,
+        archive,
+        size: buffer.length,
+        status: outcome.status,
+        fileId: outcome.status === 'queued' ? outcome.fileId : undefined,
+        jobId: outcome.status === 'queued' ? outcome.jobId : undefined,
+        duplicates: outcome.status === 'rejected' ? undefined : outcome.duplicates,
+        error: outcome.status === 'rejected' ? outcome.error : undefined
+      });
+    };
+
+    for (const file of uploaded) {
+      if (!ZIP_MIME_TYPES.includes(file.mimetype)) {
+        await intake(file.originalname, file.buffer, file.mimetype);
+        continue;
+      }
+
+      if (file.size > MAX_ARCHIVE_SIZE || !isZipArchive(file.buffer)) {
+        items.push({ name: file.originalname, size: file.size, status: 'rejected', error: 'Invalid or oversized ZIP archive' });
+        continue;
+      }
+
+      try {
+        const contents = await ArchiveService.extractZip(file.buffer, ARCHIVE_LIMITS);
+        for (const entry of contents.entries) {
+          // Entries carry no MIME type of their own; trust only their magic bytes
+          await intake(entry.name, entry.buffer, detectMimeType(entry.buffer), file.originalname);
+        }
+        for (const skipped of contents.skipped) {
+          items.push({ name: skipped.name, archive: file.originalname, size: 0, status: 'rejected', error: skipped.reason });
+        }
+      } catch (error) {
+        items.push({
+          name: file.originalname,
+          size: file.size,
+          status: 'rejected',
+          error: error instanceof Error ? error.message : 'Invalid ZIP archive'
+        });
+      }
     }
 
-    // Antivirus scan
-    const scanResult = await AntivirusService.scanFile(file.buffer, file.originalname, file.mimetype);
-    if (!scanResult.isClean) {
-      const recommendation = AntivirusService.getSecurityRecommendation(scanResult);
-      throw createError(`Security scan failed: ${scanResult.threats.join(', ')}. ${recommendation}`, 403);
+    const jobIds = items.filter(item => item.jobId).map(item => item.jobId!);
+    const batch = await UploadQueueService.createBatch(userId, jobIds);
+
+    await AuditLogModel.create({
+      userId,
+      action: 'FILE_BATCH_UPLOAD',
+      resourceType: 'upload_batch',
+      details: {
+        batchId: batch.id,
+        files: uploaded.length,
+        queued: jobIds.length,
+        duplicates: items.filter(item => item.status === 'duplicate').length,
+        rejected: items.filter(item => item.status === 'rejected').length
+      },
+      ipAddress: req.ip,
+      userAgent: req.get('User-Agent'),
+      deviceFingerprint: req.audit?.deviceFingerprint,
+      geoLocation: req.geo
+    });
+
+    res.status(202).json({
+      success: true,
+      message: `${jobIds.length} of ${items.length} files queued for processing`,
+      batchId: batch.id,
+      items,
+    });
+  })
+);
+
+/**
+ * GET /api/upload/batches/:batchId
+ * Poll every job of a batch upload at once
+ */
+router.get(
+  '/batches/:batchId',
+  asyncHandler(async (req: AuthenticatedRequest, res) => {
+    const userId = req.user!.id;
+    const found = await UploadQueueService.getBatch(req.params.batchId);
+
+    if (!found || found.batch.userId !== userId) {
+      throw createError('Upload batch not found', 404);
     }
 
-    // Extract text (with Hebrew support by default)
-    let text: string;
-    let engine: 'pdf-parse' | 'tesseract';
-    let ocrConfidence: number | undefined;
+    const jobs = found.jobs.map(job => ({
+      jobId: job.id,
+      fileId: job.fileId,
+      status: job.status,
+      result: job.status === 'ready' ? job.result : undefined,
+      error: job.status === 'failed' ? job.error : undefined,
+      updatedAt: job.updatedAt,
+    }));
+
+    res.json({
+      batchId: found.batch.id,
+      jobs,
+      done: jobs.every(job => job.status === 'ready' || job.status === 'failed'),
+    });
+  })
+);
+
+/**
+ * POST /api/upload/email
+ * Queues every invoice attached to a saved .eml/.msg message as a draft
+ * expense. Sender, recipients, subject and body are discarded.
+ */
+router.post(
+  '/email',
+  emailUpload.single('message'),
+  asyncHandler(async (req: AuthenticatedRequest, res) => {
+    const file = req.file;
+    if (!file) throw createError('No message uploaded', 400);
 
+    let result;
     try {
-      const out = await extractText(file.buffer, file.mimetype);
-      text = out.text;
-      engine = out.engine;
-      ocrConfidence = out.ocrConfidence;
-    } catch (e: any) {
-      throw createError(`Extraction failed: ${e?.message || e}`, 422);
+      result = await EmailIngestionService.ingest(file.buffer, { sensitivity: parseSensitivity(req.body?.sensitivity) }, intakeContext(req));
+    } catch (error) {
+      throw createError(error instanceof Error ? error.message : 'Unreadable message', 400);
     }
 
-    if (!text || !text.trim()) {
-      // Likely an image-only PDF if type is PDF. For now we fail closed with a clear message.
-      // (If you want, I can add a PDF rasterize->OCR fallback in a follow-up.)
-      if (file.mimetype === 'application/pdf') {
-        throw createError(
-          'No selectable text in PDF (likely a scanned image). PDF OCR fallback is not enabled yet.',
-          422
-        );
-      }
-      throw createError('Could not extract text from file', 422);
+    const queued = result.items.filter(item => item.status === 'queued').length;
+    res.status(202).json({
+      success: true,
+      message: result.attachments === 0
+        ? 'No invoice attachments found in this message'
+        : `${queued} of ${result.attachments} attachments queued as draft expenses`,
+      items: result.items,
+    });
+  })
+);
+
+/**
+ * GET /api/upload/mailbox
+ * Mailbox polling configuration and the outcome of the last poll.
+ * The mailbox is shared, so only administrators see or poll it.
+ */
+router.get(
+  '/mailbox',
+  requireAdmin,
+  asyncHandler(async (req: AuthenticatedRequest, res) => {
+    res.json(MailboxPollingJob.getStatus());
+  })
+);
+
+/**
+ * POST /api/upload/mailbox/poll
+ * Check the mailbox now instead of waiting for the next scheduled poll
+ */
+router.post(
+  '/mailbox/poll',
+  requireAdmin,
+  asyncHandler(async (req: AuthenticatedRequest, res) => {
+    if (!MailboxPollingJob.getStatus().enabled) {
+      throw createError('Mailbox polling is not configured', 404);
+    }
+
+    let result;
+    try {
+      result = await MailboxPollingJob.runNow();
+    } catch (error) {
+      throw createError(error instanceof Error ? error.message : 'Mailbox poll failed', 502);
+    }
+    if (!result) {
+      throw createError('A mailbox poll is already in progress', 409);
     }
 
-    const extractedData = parseInvoiceData(text);
+    res.json({ success: true, result, status: MailboxPollingJob.getStatus() });
+  })
+);
+
+/**
+ * GET /api/upload/drop-folders
+ * Watched folders with their defaults, the last scan and recently ingested files.
+ * Folder paths and ingest history span every user, so this is for administrators.
+ */
+router.get(
+  '/drop-folders',
+  requireAdmin,
+  asyncHandler(async (req: AuthenticatedRequest, res) => {
+    const status = DropFolderJob.getStatus();
+    const activity = status.enabled ? await DropFolderService.getHistory() : [];
+
+    res.json({ ...status, activity });
+  })
+);
 
-    // Keep payload light; store full text server-side if needed
-    const textPreviewLimit = parseInt(process.env.TEXT_PREVIEW_LIMIT || '5000', 10);
-    const textPreview = text.length > textPreviewLimit ? `${text.slice(0, textPreviewLimit)}…` : text;
+/**
+ * POST /api/upload/drop-folders/scan
+ * Scan the drop folders now instead of waiting for the next scheduled scan
+ */
+router.post(
+  '/drop-folders/scan',
+  requireAdmin,
+  asyncHandler(async (req: AuthenticatedRequest, res) => {
+    if (!DropFolderJob.getStatus().enabled) {
+      throw createError('Drop folder ingestion is not configured', 404);
+    }
+
+    let result;
+    try {
+      result = await DropFolderJob.runNow();
+    } catch (error) {
+      throw createError(error instanceof Error ? error.message : 'Drop folder scan failed', 500);
+    }
+    if (!result) {
+      throw createError('A drop folder scan is already in progress', 409);
+    }
+
+    res.json({ success: true, result });
+  })
+);
+
+/**
+ * GET /api/upload/jobs/:jobId
+ * Poll a processing job. Once `ready`, `result` holds the extraction results.
+ */
+router.get(
+  '/jobs/:jobId',
+  asyncHandler(async (req: AuthenticatedRequest, res) => {
+    const userId = req.user!.id;
+    const job = await UploadQueueService.getJob(req.params.jobId);
+
+    if (!job || job.userId !== userId) {
+      throw createError('Upload job not found', 404);
+    }
 
     res.json({
-      success: true,
-      message: 'File uploaded and processed successfully',
-      file: { originalName: file.originalname, size: file.size, type: file.mimetype },
-      ocrResults: {
-        engine,                    // 'pdf-parse' | 'tesseract'
-        confidence: ocrConfidence, // 0..1 (images) | undefined (pdf-parse)
-        text: textPreview,
-        extractedData,             // { amount, currency, date, vendor }
-      },
+      jobId: job.id,
+      fileId: job.fileId,
+      status: job.status,
+      result: job.status === 'ready' ? job.result : undefined,
+      error: job.status === 'failed' ? job.error : undefined,
+      updatedAt: job.updatedAt,
     });
   })
 );
 
 /**
  * GET /api/upload/history
- * No mocks: returns an empty list until you wire DB.
+ * Lists the user's stored uploads with their retention state and linked expense.
  */
 router.get(
   '/history',
-  asyncHandler(async (_req: AuthenticatedRequest, res) => {
+  asyncHandler(async (req: AuthenticatedRequest, res) => {
+    const userId = req.user!.id;
+
+    const [files, stats] = await Promise.all([
+      FileModel.findByUser(userId),
+      FileModel.getFileStats(userId)
+    ]);
+
     res.json({
-      uploads: [],
-      stats: { totalUploads: 0, totalSize: 0, processingQueue: 0 },
+      uploads: files.map(file => ({
+        id: file.id,
+        originalName: file.original_filename,
+        size: file.file_size,
+        type: file.mime_type,
+        sensitivity: file.sensitivity_level,
+        retentionPolicy: file.retention_policy,
+        expiresAt: file.expires_at || null,
+        status: file.processing_status,
+        uploadedAt: file.uploaded_at,
+        expense: file.expense_id
+          ? {
+              id: file.expense_id,
+              providerName: file.expense_provider_name,
+              amount: Number(file.expense_amount),
+              date: file.expense_date
+            }
+          : null
+      })),
+      stats: {
+        totalUploads: parseInt(stats.total_files, 10),
+        totalSize: parseInt(stats.total_size, 10),
+        processingQueue: parseInt(stats.pending_processing, 10),
+        highSensitivity: parseInt(stats.high_sensitivity, 10),
+        byRetention: {
+          immediate: parseInt(stats.immediate_deletion, 10),
+          temporary: parseInt(stats.temporary_retention, 10),
+          permanent: parseInt(stats.permanent_retention, 10)
+        }
+      },
     });
   })
 );
 
-// ---------------- Helpers ----------------
+/**
+ * GET /api/upload/files/:id/download
+ * Decrypts a stored invoice for its owner. Every access is audited.
+ */
+router.get(
+  '/files/:id/download',
+  asyncHandler(async (req: AuthenticatedRequest, res) => {
+    const userId = req.user!.id;
+    const fileId = parseInt(req.params.id);
 
-async function extractText(
-  buffer: Buffer,
-  mimeType: string
-): Promise<{ text: string; engine: 'pdf-parse' | 'tesseract'; ocrConfidence?: number }> {
-  if (mimeType === 'application/pdf') {
-    const data = await pdfParse(buffer);
-    const text = (data.text || '').trim();
-
-    // If very short, likely scanned; fail with explicit message (caller will throw)
-    if (text.length < 20) {
-      throw new Error('PDF appears to be scanned (no extractable text).');
+    if (isNaN(fileId)) {
+      throw createError('Invalid file ID', 400);
     }
-    return { text, engine: 'pdf-parse' };
-  }
-
-  // Images -> OCR (default to Hebrew+English)
-  const tessLang = process.env.TESS_LANG || 'eng+heb';
-  const { data } = await Tesseract.recognize(buffer, tessLang, { logger: () => {} });
-  const conf = typeof data.confidence === 'number' ? data.confidence / 100 : undefined; // 0..1
-  const text = (data.text || '').trim();
-  return { text, engine: 'tesseract', ocrConfidence: conf };
-}
 
-function parseInvoiceData(rawText: string) {
-  const text = rawText.replace(/\r/g, '').replace(/[ \t]+/g, ' ').trim();
-  const lines = text.split('\n').map((l) => l.trim()).filter(Boolean);
-
-  // ---- Amount + Currency ----
-  // Handles: $1,234.56 | 1,234.56 USD | ₪ 450.00 | EUR 99,00
-  const currencySymbols = ['$', '€', '£', '₪', '₪‎'];
-  const currencyCodes = ['USD', 'EUR', 'GBP', 'ILS', 'NIS', 'AUD', 'CAD'];
-  const currencyRegex = new RegExp(
-    `(?:(${currencySymbols.map((s) => '\\' + s).join('|')})\\s*([0-9]{1,3}(?:[.,][0-9]{3})*(?:[.,][0-9]{2})?)|` +
-      `([0-9]{1,3}(?:[.,][0-9]{3})*(?:[.,][0-9]{2})?)\\s*(${currencyCodes.join('|')}))`,
-    'i'
-  );
-
-  let amount: string | undefined;
-  let currency: string | undefined;
-
-  const m = text.match(currencyRegex);
-  if (m) {
-    if (m[1] && m[2]) {
-      currency = symbolToCode(m[1]);
-      amount = normalizeAmount(m[2]);
-    } else if (m[3] && m[4]) {
-      currency = normalizeCurrencyCode(m[4]);
-      amount = normalizeAmount(m[3]);
+    const fileRecord = await FileModel.findById(fileId);
+    if (!fileRecord || fileRecord.uploaded_by !== userId) {
+      throw createError('File not found', 404);
     }
-  }
-
-  // ---- Date (try several formats; return ISO) ----
-  const dateCandidates = findDateCandidates(text);
-  let parsedDate: string | undefined;
-  for (const cand of dateCandidates) {
-    const dt = tryParseDate(cand);
-    if (dt) {
-      parsedDate = dt;
-      break;
+
+    let content: Buffer;
+    try {
+      content = await FileStorageService.retrieve(fileRecord.encrypted_filename, fileRecord.encryption_key_hash);
+    } catch (e: any) {
+      throw createError(`Unable to decrypt file: ${e?.message || e}`, 500);
     }
-  }
-
-  // ---- Vendor (heuristic) ----
-  // Prefer first “company-like” line (not a keyword row). Works with Hebrew/English.
-  let vendor: string | undefined = lines.find((l) =>
-    /[A-Za-z\u0590-\u05FF]/.test(l) && // includes Hebrew range
-    !/invoice|tax|total|amount|date/i.test(l) &&
-    l.length >= 3 &&
-    l.length <= 80
-  );
-  if (!vendor) {
-    const idx = lines.findIndex((l) => /\b(from|supplier|vendor|billed by|issued by)\b/i.test(l));
-    if (idx >= 0 && idx + 1 < lines.length) vendor = lines[idx + 1];
-  }
-
-  return { amount, currency, date: parsedDate, vendor };
-}
 
-function symbolToCode(symbol: string): string | undefined {
-  switch (symbol) {
-    case '$':
-      return 'USD';
-    case '€':
-      return 'EUR';
-    case '£':
-      return 'GBP';
-    case '₪':
-    case '₪‎':
-      return 'ILS';
-    default:
-      return undefined;
-  }
-}
+    await AuditLogModel.create({
+      userId,
+      action: 'FILE_DOWNLOAD',
+      resourceType: 'file',
+      resourceId: fileId,
+      details: { sensitivity: fileRecord.sensitivity_level },
+      ipAddress: req.ip,
+      userAgent: req.get('User-Agent'),
+      deviceFingerprint: req.audit?.deviceFingerprint,
+      geoLocation: req.geo
+    });
 
-function normalizeCurrencyCode(code: string): string {
-  const upper = code.toUpperCase();
-  return upper === 'NIS' ? 'ILS' : upper;
-}
+    // Never let an uploaded file render as a page in the app's origin
+    res.setHeader('Content-Type', servedContentType(content));
+    res.setHeader('Content-Disposition', `attachment; filename*=UTF-8''${encodeURIComponent(fileRecord.original_filename)}`);
+    res.setHeader('X-Content-Type-Options', 'nosniff');
+    res.setHeader('Cache-Control', 'no-store');
+    res.send(content);
+  })
+);
 
-function normalizeAmount(raw: string): string {
-  let s = raw.trim();
-  // 1.234,56 -> 1234.56 (EU style)
-  if (/,[0-9]{2}$/.test(s) && !/\.[0-9]{2}$/.test(s)) {
-    s = s.replace(/\./g, ''); // remove thousand separators
-    s = s.replace(/,/g, (m, off) => (off === s.lastIndexOf(',') ? '.' : ''));
-  } else {
-    // 1,234.56 -> 1234.56 (US style)
-    s = s.replace(/,/g, '');
-  }
-  return s;
-}
+/**
+ * DELETE /api/upload/files/:id
+ * Securely wipes a stored upload and unlinks it from its expense.
+ */
+router.delete(
+  '/files/:id',
+  asyncHandler(async (req: AuthenticatedRequest, res) => {
+    const userId = req.user!.id;
+    const fileId = parseInt(req.params.id);
 
-function findDateCandidates(text: string): string[] {
-  const patterns = [
-    /\b\d{4}-\d{2}-\d{2}\b/g, // 2024-01-15
-    /\b\d{2}\/\d{2}\/\d{4}\b/g, // 15/01/2024 or 01/15/2024
-    /\b\d{2}\.\d{2}\.\d{4}\b/g, // 15.01.2024
-    /\b\d{1,2}\s+[A-Za-z]{3,}\s+\d{4}\b/g, // 15 January 2024
-    /\b[A-Za-z]{3,}\s+\d{1,2},\s+\d{4}\b/g, // January 15, 2024
-  ];
-  const found: string[] = [];
-  for (const rx of patterns) {
-    const m = text.match(rx);
-    if (m) found.push(...m);
-  }
-  return found;
-}
+    if (isNaN(fileId)) {
+      throw createError('Invalid file ID', 400);
+    }
+
+    const fileRecord = await FileModel.findById(fileId);
+    if (!fileRecord || fileRecord.uploaded_by !== userId) {
+      throw createError('File not found', 404);
+    }
 
-function tryParseDate(s: string): string | undefined {
-  const fmts = ['yyyy-MM-dd', 'dd/MM/yyyy', 'MM/dd/yyyy', 'dd.MM.yyyy', 'd LLLL yyyy', 'LLLL d, yyyy'];
-  for (const f of fmts) {
-    const dt = DateTime.fromFormat(s, f);
-    if (dt.isValid) return dt.toISODate();
-  }
-  const iso = DateTime.fromISO(s);
-  return iso.isValid ? iso.toISODate() : undefined;
+    try {
+      await FileStorageService.secureDelete(fileRecord.encrypted_filename);
+    } catch (e: any) {
+      throw createError(`Unable to delete file: ${e?.message || e}`, 500);
+    }
+    await FileModel.markAsDeleted(fileId);
+    await ExpenseModel.detachFile(fileId);
+
+    await AuditLogModel.create({
+      userId,
+      action: 'FILE_DELETE',
+      resourceType: 'file',
+      resourceId: fileId,
+      details: {
+        originalName: fileRecord.original_filename,
+        sensitivity: fileRecord.sensitivity_level,
+        retentionPolicy: fileRecord.retention_policy
+      },
+      ipAddress: req.ip,
+      userAgent: req.get('User-Agent'),
+      deviceFingerprint: req.audit?.deviceFingerprint,
+      geoLocation: req.geo
+    });
+
+    res.json({ success: true, message: 'File deleted successfully' });
+  })
+);
+
+// ---------------- Helpers ----------------
+
+function parseSensitivity(value: unknown): 'LOW' | 'MEDIUM' | 'HIGH' {
+  return value === 'MEDIUM' || value === 'HIGH' ? value : 'LOW';
 }
 
-/**
- * Magic bytes validation (defense-in-depth).
- */
-function validateFileType(buffer: Buffer, mimeType: string): boolean {
-  const magic = buffer.slice(0, 10);
-  switch (mimeType) {
-    case 'application/pdf':
-      return magic.toString('ascii', 0, 4) === '%PDF';
-    case 'image/jpeg':
-    case 'image/jpg':
-      return magic[0] === 0xff && magic[1] === 0xd8 && magic[2] === 0xff;
-    case 'image/png':
-      return magic.toString('hex', 0, 8) === '89504e470d0a1a0a';
-    default:
-      return false;
-  }
+function intakeContext(req: AuthenticatedRequest): IntakeContext {
+  return {
+    userId: req.user!.id,
+    ipAddress: req.ip,
+    userAgent: req.get('User-Agent'),
+    deviceFingerprint: req.audit?.deviceFingerprint,
+    geoLocation: req.geo
+  };
 }
 
 export default router;
\ No newline at end of file
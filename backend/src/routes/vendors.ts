@@ -0,0 +1,182 @@
+import { Router } from 'express';
+import { authenticateToken, AuthenticatedRequest, isAdmin, requireAdmin } from '@/middleware/auth';
+import { asyncHandler, createError } from '@/middleware/errorHandler';
+import { AuditLogModel } from '@/models/AuditLog';
+import { VendorInput, VendorModel } from '@/models/Vendor';
+import { VendorService } from '@/services/vendorService';
+
+const router = Router();
+
+// All routes require authentication; the registry is shared by every user, so
+// changing it requires an administrator
+router.use(authenticateToken);
+
+/**
+ * The vendors the user's expenses reference, or the whole registry for
+ * administrators, with each vendor's share of the user's spend
+ */
+router.get('/', asyncHandler(async (req: AuthenticatedRequest, res) => {
+  const canManage = isAdmin(req.user!.username);
+  const { reportingCurrency, vendors } = await VendorService.list(req.user!.id, canManage);
+
+  res.json({
+    success: true,
+    canManage,
+    reportingCurrency,
+    vendors
+  });
+}));
+
+/**
+ * Register a vendor ahead of its first expense, with its aliases and defaults
+ */
+router.post('/', requireAdmin, asyncHandler(async (req: AuthenticatedRequest, res) => {
+  const userId = req.user!.id;
+
+  const parsed = VendorService.parseInput(req.body, false);
+  if ('error' in parsed) {
+    throw createError(parsed.error, 400);
+  }
+
+  const result = await VendorService.create(parsed.input as VendorInput, userId);
+  if ('error' in result) {
+    throw createError(result.error, 409);
+  }
+
+  await AuditLogModel.create({
+    userId,
+    action: 'VENDOR_CREATE',
+    resourceType: 'vendor',
+    resourceId: result.vendor.id,
+    details: { canonicalName: result.vendor.canonical_name, aliases: result.vendor.aliases },
+    ipAddress: req.ip,
+    userAgent: req.get('User-Agent'),
+    deviceFingerprint: req.audit?.deviceFingerprint,
+    geoLocation: req.geo
+  });
+
+  res.status(201).json({
+    success: true,
+    vendor: result.vendor
+  });
+}));
+
+/**
+ * Rename a vendor, replace its aliases or change its defaults
+ */
+router.put('/:id', requireAdmin, asyncHandler(async (req: AuthenticatedRequest, res) => {
+  const userId = req.user!.id;
+  const vendorId = parseInt(req.params.id);
+
+  if (isNaN(vendorId)) {
+    throw createError('Invalid vendor ID', 400);
+  }
+
+  const parsed = VendorService.parseInput(req.body, true);
+  if ('error' in parsed) {
+    throw createError(parsed.error, 400);
+  }
+
+  const result = await VendorService.update(vendorId, parsed.input);
+  if (!result) {
+    throw createError('Vendor not found', 404);
+  }
+  if ('error' in result) {
+    throw createError(result.error, 409);
+  }
+
+  await AuditLogModel.create({
+    userId,
+    action: 'VENDOR_UPDATE',
+    resourceType: 'vendor',
+    resourceId: vendorId,
+    details: { canonicalName: result.vendor.canonical_name, updatedFields: Object.keys(parsed.input) },
+    ipAddress: req.ip,
+    userAgent: req.get('User-Agent'),
+    deviceFingerprint: req.audit?.deviceFingerprint,
+    geoLocation: req.geo
+  });
+
+  res.json({
+    success: true,
+    vendor: result.vendor
+  });
+}));
+
+/**
+ * Merge other vendors into this one: their aliases and expenses move over
+ * and the merged vendors are deleted
+ */
+router.post('/:id/merge', requireAdmin, asyncHandler(async (req: AuthenticatedRequest, res) => {
+  const userId = req.user!.id;
+  const vendorId = parseInt(req.params.id);
+
+  if (isNaN(vendorId)) {
+    throw createError('Invalid vendor ID', 400);
+  }
+
+  if (!await VendorModel.findById(vendorId)) {
+    throw createError('Vendor not found', 404);
+  }
+
+  const result = await VendorService.merge(vendorId, req.body.sourceIds, userId);
+  if ('error' in result) {
+    throw createError(result.error, 400);
+  }
+
+  await AuditLogModel.create({
+    userId,
+    action: 'VENDOR_MERGE',
+    resourceType: 'vendor',
+    resourceId: vendorId,
+    details: {
+      canonicalName: result.vendor.canonical_name,
+      merged: result.merged.map(vendor => ({ id: vendor.id, canonicalName: vendor.canonical_name })),
+      movedExpenses: result.movedExpenses
+    },
+    ipAddress: req.ip,
+    userAgent: req.get('User-Agent'),
+    deviceFingerprint: req.audit?.deviceFingerprint,
+    geoLocation: req.geo
+  });
+
+  res.json({
+    success: true,
+    vendor: result.vendor,
+    movedExpenses: result.movedExpenses
+  });
+}));
+
+/**
+ * Delete a vendor; its expenses are unlinked, and a new vendor is registered
+ * the next time one of its names comes in
+ */
+router.delete('/:id', requireAdmin, asyncHandler(async (req: AuthenticatedRequest, res) => {
+  const userId = req.user!.id;
+  const vendorId = parseInt(req.params.id);
+
+  if (isNaN(vendorId)) {
+    throw createError('Invalid vendor ID', 400);
+  }
+
+  const vendor = await VendorModel.findById(vendorId);
+  if (!vendor || !await VendorModel.delete(vendorId)) {
+    throw createError('Vendor not found', 404);
+  }
+
+  await AuditLogModel.create({
+    userId,
+    action: 'VENDOR_DELETE',
+    resourceType: 'vendor',
+    resourceId: vendorId,
+    details: { canonicalName: vendor.canonical_name },
+    ipAddress: req.ip,
+    userAgent: req.get('User-Agent'),
+    deviceFingerprint: req.audit?.deviceFingerprint,
+    geoLocation: req.geo
+  });
+
+  res.json({ success: true, message: 'Vendor deleted successfully' });
+}));
+
+export default router;
@@ -0,0 +1,50 @@
+import { connectDatabase, query } from '@/config/database';
+import { logger } from '@/config/logger';
+import dotenv from 'dotenv';
+import { resolve } from 'path';
+
+dotenv.config({ path: resolve(__dirname, '../../../.env') });
+
+async function addDataReductionColumns() {
+  try {
+    logger.info('Adding progressive data reduction columns to expenses table...');
+
+    await query(`
+      ALTER TABLE expenses
+      ADD COLUMN IF NOT EXISTS provider_hash VARCHAR(64),
+      ADD COLUMN IF NOT EXISTS reduction_level VARCHAR(20) NOT NULL DEFAULT 'full'
+        CHECK (reduction_level IN ('full', 'essential', 'minimal')),
+      ADD COLUMN IF NOT EXISTS reduced_at TIMESTAMP;
+    `);
+
+    await query(`
+      CREATE INDEX IF NOT EXISTS idx_expenses_reduction ON expenses(reduction_level, date);
+    `);
+
+    logger.info('Data reduction columns added successfully');
+
+  } catch (error) {
+    logger.error('Error adding data reduction columns:', error);
+    throw error;
+  }
+}
+
+async function main() {
+  try {
+    await connectDatabase();
+    await addDataReductionColumns();
+
+    logger.info('Database migration completed successfully!');
+    process.exit(0);
+
+  } catch (error) {
+    logger.error('Database migration failed:', error);
+    process.exit(1);
+  }
+}
+
+if (require.main === module) {
+  main();
+}
+
+export { addDataReductionColumns };
@@ -0,0 +1,53 @@
+import { connectDatabase, query } from '@/config/database';
+import { logger } from '@/config/logger';
+import dotenv from 'dotenv';
+import { resolve } from 'path';
+
+dotenv.config({ path: resolve(__dirname, '../../../.env') });
+
+async function addDuplicateDetectionColumns() {
+  try {
+    logger.info('Adding duplicate detection columns...');
+
+    await query(`
+      ALTER TABLE files
+      ADD COLUMN IF NOT EXISTS content_hash VARCHAR(64);
+    `);
+
+    await query(`
+      ALTER TABLE expenses
+      ADD COLUMN IF NOT EXISTS fingerprint VARCHAR(64);
+    `);
+
+    await query(`
+      CREATE INDEX IF NOT EXISTS idx_files_content_hash ON files(uploaded_by, content_hash);
+      CREATE INDEX IF NOT EXISTS idx_expenses_fingerprint ON expenses(created_by, fingerprint);
+    `);
+
+    logger.info('Duplicate detection columns added successfully');
+
+  } catch (error) {
+    logger.error('Error adding duplicate detection columns:', error);
+    throw error;
+  }
+}
+
+async function main() {
+  try {
+    await connectDatabase();
+    await addDuplicateDetectionColumns();
+
+    logger.info('Database migration completed successfully!');
+    process.exit(0);
+
+  } catch (error) {
+    logger.error('Database migration failed:', error);
+    process.exit(1);
+  }
+}
+
+if (require.main === module) {
+  main();
+}
+
+export { addDuplicateDetectionColumns };
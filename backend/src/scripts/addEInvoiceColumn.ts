@@ -0,0 +1,44 @@
+import { connectDatabase, query } from '@/config/database';
+import { logger } from '@/config/logger';
+import dotenv from 'dotenv';
+import { resolve } from 'path';
+
+dotenv.config({ path: resolve(__dirname, '../../../.env') });
+
+async function addEInvoiceColumn() {
+  try {
+    logger.info('Adding e-invoice column...');
+
+    // Parsed UBL / CII invoice for uploads that carried one; replaces OCR guesses
+    await query(`
+      ALTER TABLE files
+      ADD COLUMN IF NOT EXISTS e_invoice JSONB;
+    `);
+
+    logger.info('E-invoice column added successfully');
+
+  } catch (error) {
+    logger.error('Error adding e-invoice column:', error);
+    throw error;
+  }
+}
+
+async function main() {
+  try {
+    await connectDatabase();
+    await addEInvoiceColumn();
+
+    logger.info('Database migration completed successfully!');
+    process.exit(0);
+
+  } catch (error) {
+    logger.error('Database migration failed:', error);
+    process.exit(1);
+  }
+}
+
+if (require.main === module) {
+  main();
+}
+
+export { addEInvoiceColumn };
@@ -0,0 +1,47 @@
+import { connectDatabase, query } from '@/config/database';
+import { logger } from '@/config/logger';
+import dotenv from 'dotenv';
+import { resolve } from 'path';
+
+dotenv.config({ path: resolve(__dirname, '../../../.env') });
+
+async function addExpensePaginationIndexes() {
+  try {
+    logger.info('Adding expense pagination indexes...');
+
+    // The default listing pages through (date, id); the tiebreaker keeps keyset scans on the index
+    await query(`
+      CREATE INDEX IF NOT EXISTS idx_expenses_date_id ON expenses(date DESC, id DESC);
+    `);
+
+    await query(`
+      CREATE INDEX IF NOT EXISTS idx_expenses_amount_id ON expenses(amount DESC, id DESC);
+    `);
+
+    logger.info('Expense pagination indexes added successfully');
+
+  } catch (error) {
+    logger.error('Error adding expense pagination indexes:', error);
+    throw error;
+  }
+}
+
+async function main() {
+  try {
+    await connectDatabase();
+    await addExpensePaginationIndexes();
+
+    logger.info('Database migration completed successfully!');
+    process.exit(0);
+
+  } catch (error) {
+    logger.error('Database migration failed:', error);
+    process.exit(1);
+  }
+}
+
+if (require.main === module) {
+  main();
+}
+
+export { addExpensePaginationIndexes };
@@ -0,0 +1,68 @@
+import { connectDatabase, query } from '@/config/database';
+import { logger } from '@/config/logger';
+import dotenv from 'dotenv';
+import { resolve } from 'path';
+
+dotenv.config({ path: resolve(__dirname, '../../../.env') });
+
+async function addExpenseSearchIndexes() {
+  try {
+    logger.info('Adding expense full-text search indexes...');
+
+    // Postgres ships no Hebrew configuration: 'english' stems English words and
+    // 'simple' keeps every word (Hebrew included) as-is, so both go into the vector
+    await query(`
+      CREATE OR REPLACE FUNCTION expense_search_vector(description TEXT, tags TEXT[], category TEXT, metadata JSONB)
+      RETURNS tsvector LANGUAGE SQL IMMUTABLE AS $$
+        SELECT
+          setweight(to_tsvector('english', COALESCE(description, '')) || to_tsvector('simple', COALESCE(description, '')), 'A') ||
+          setweight(to_tsvector('simple', COALESCE(array_to_string(tags, ' '), '') || ' ' || COALESCE(category, '')), 'B') ||
+          setweight(to_tsvector('english', COALESCE(metadata, '{}'::jsonb)) || to_tsvector('simple', COALESCE(metadata, '{}'::jsonb)), 'C')
+      $$;
+    `);
+
+    await query(`
+      CREATE OR REPLACE FUNCTION invoice_text_search_vector(content TEXT)
+      RETURNS tsvector LANGUAGE SQL IMMUTABLE AS $$
+        SELECT to_tsvector('english', COALESCE(content, '')) || to_tsvector('simple', COALESCE(content, ''))
+      $$;
+    `);
+
+    // Expression indexes rather than stored columns, so SELECT * stays unchanged
+    await query(`
+      CREATE INDEX IF NOT EXISTS idx_expenses_search ON expenses
+        USING GIN (expense_search_vector(description, tags, category, metadata));
+    `);
+
+    await query(`
+      CREATE INDEX IF NOT EXISTS idx_files_ocr_search ON files
+        USING GIN (invoice_text_search_vector(ocr_extracted_text));
+    `);
+
+    logger.info('Expense full-text search indexes added successfully');
+
+  } catch (error) {
+    logger.error('Error adding expense full-text search indexes:', error);
+    throw error;
+  }
+}
+
+async function main() {
+  try {
+    await connectDatabase();
+    await addExpenseSearchIndexes();
+
+    logger.info('Database migration completed successfully!');
+    process.exit(0);
+
+  } catch (error) {
+    logger.error('Database migration failed:', error);
+    process.exit(1);
+  }
+}
+
+if (require.main === module) {
+  main();
+}
+
+export { addExpenseSearchIndexes };
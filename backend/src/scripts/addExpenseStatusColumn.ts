@@ -0,0 +1,56 @@
+import { connectDatabase, query } from '@/config/database';
+import { logger } from '@/config/logger';
+import dotenv from 'dotenv';
+import { resolve } from 'path';
+
+dotenv.config({ path: resolve(__dirname, '../../../.env') });
+
+async function addExpenseStatusColumn() {
+  try {
+    logger.info('Adding expense status column...');
+
+    // Existing expenses were all entered by a user, so they count as approved
+    await query(`
+      ALTER TABLE expenses
+      ADD COLUMN IF NOT EXISTS status VARCHAR(20) NOT NULL DEFAULT 'approved'
+        CHECK (status IN ('draft', 'approved'));
+    `);
+
+    // Drafts ingested from a mailbox or drop folder record that channel as their source
+    await query(`
+      ALTER TABLE expenses DROP CONSTRAINT IF EXISTS expenses_source_type_check;
+      ALTER TABLE expenses ADD CONSTRAINT expenses_source_type_check
+        CHECK (source_type IN ('api', 'manual', 'import', 'email', 'folder'));
+    `);
+
+    await query(`
+      CREATE INDEX IF NOT EXISTS idx_expenses_status ON expenses(created_by, status);
+    `);
+
+    logger.info('Expense status column added successfully');
+
+  } catch (error) {
+    logger.error('Error adding expense status column:', error);
+    throw error;
+  }
+}
+
+async function main() {
+  try {
+    await connectDatabase();
+    await addExpenseStatusColumn();
+
+    logger.info('Database migration completed successfully!');
+    process.exit(0);
+
+  } catch (error) {
+    logger.error('Database migration failed:', error);
+    process.exit(1);
+  }
+}
+
+if (require.main === module) {
+  main();
+}
+
+export { addExpenseStatusColumn };
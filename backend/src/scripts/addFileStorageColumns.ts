@@ -0,0 +1,113 @@
+import { connectDatabase, query } from '@/config/database';
+import { logger } from '@/config/logger';
+import dotenv from 'dotenv';
+import { resolve } from 'path';
+
+dotenv.config({ path: resolve(__dirname, '../../../.env') });
+
+async function addFileStorageColumns() {
+  try {
+    logger.info('Adding encrypted file storage columns...');
+
+    // createTables.ts names the columns after plain stored files; encrypted uploads keep
+    // the same values under the names FileModel uses
+    await query(`
+      DO $$
+      BEGIN
+        IF EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name = 'files' AND column_name = 'original_name')
+           AND NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name = 'files' AND column_name = 'original_filename') THEN
+          ALTER TABLE files RENAME COLUMN original_name TO original_filename;
+        END IF;
+        IF EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name = 'files' AND column_name = 'stored_name')
+           AND NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name = 'files' AND column_name = 'encrypted_filename') THEN
+          ALTER TABLE files RENAME COLUMN stored_name TO encrypted_filename;
+        END IF;
+        IF EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name = 'files' AND column_name = 'upload_date')
+           AND NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name = 'files' AND column_name = 'uploaded_at') THEN
+          ALTER TABLE files RENAME COLUMN upload_date TO uploaded_at;
+        END IF;
+        -- The path is derived from the stored name and the upload directory
+        IF EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name = 'files' AND column_name = 'file_path') THEN
+          ALTER TABLE files ALTER COLUMN file_path DROP NOT NULL;
+        END IF;
+      END $$;
+    `);
+
+    await query(`
+      ALTER TABLE files
+      ADD COLUMN IF NOT EXISTS original_filename VARCHAR(255),
+      ADD COLUMN IF NOT EXISTS encrypted_filename VARCHAR(255),
+      ADD COLUMN IF NOT EXISTS encryption_key_hash VARCHAR(255),
+      ADD COLUMN IF NOT EXISTS sensitivity_level VARCHAR(10) DEFAULT 'LOW',
+      ADD COLUMN IF NOT EXISTS ocr_extracted_text TEXT,
+      ADD COLUMN IF NOT EXISTS processing_status VARCHAR(20) DEFAULT 'pending',
+      ADD COLUMN IF NOT EXISTS uploaded_by INTEGER REFERENCES users(id),
+      ADD COLUMN IF NOT EXISTS uploaded_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+      ADD COLUMN IF NOT EXISTS expires_at TIMESTAMP,
+      ADD COLUMN IF NOT EXISTS deleted_at TIMESTAMP,
+      ADD COLUMN IF NOT EXISTS content_hash VARCHAR(64);
+    `);
+
+    // Files processed before the upload queue existed are done
+    await query(`
+      DO $$
+      BEGIN
+        IF EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name = 'files' AND column_name = 'processed') THEN
+          UPDATE files SET processing_status = 'ready' WHERE processed AND processing_status = 'pending';
+        END IF;
+      END $$;
+    `);
+
+    // KEEP/DELETE become the retention tiers; files marked for deletion wait for their
+    // expiry rather than being purged on the next run
+    await query(`
+      ALTER TABLE files DROP CONSTRAINT IF EXISTS files_retention_policy_check;
+      UPDATE files SET retention_policy = CASE retention_policy WHEN 'KEEP' THEN 'permanent' ELSE 'temporary' END
+        WHERE retention_policy IS NULL OR retention_policy IN ('KEEP', 'DELETE');
+      ALTER TABLE files ALTER COLUMN retention_policy SET DEFAULT 'immediate';
+      ALTER TABLE files ADD CONSTRAINT files_retention_policy_check
+        CHECK (retention_policy IN ('immediate', 'temporary', 'permanent'));
+    `);
+
+    await query(`
+      ALTER TABLE files DROP CONSTRAINT IF EXISTS files_sensitivity_level_check;
+      ALTER TABLE files ADD CONSTRAINT files_sensitivity_level_check
+        CHECK (sensitivity_level IN ('LOW', 'MEDIUM', 'HIGH'));
+      ALTER TABLE files DROP CONSTRAINT IF EXISTS files_processing_status_check;
+      ALTER TABLE files ADD CONSTRAINT files_processing_status_check
+        CHECK (processing_status IN ('pending', 'queued', 'scanning', 'extracting', 'ready', 'failed'));
+    `);
+
+    await query(`
+      CREATE INDEX IF NOT EXISTS idx_files_uploaded_by ON files(uploaded_by);
+      CREATE INDEX IF NOT EXISTS idx_files_expires_at ON files(expires_at);
+      CREATE INDEX IF NOT EXISTS idx_files_retention ON files(retention_policy);
+    `);
+
+    logger.info('Encrypted file storage columns added successfully');
+
+  } catch (error) {
+    logger.error('Error adding encrypted file storage columns:', error);
+    throw error;
+  }
+}
+
+async function main() {
+  try {
+    await connectDatabase();
+    await addFileStorageColumns();
+
+    logger.info('Database migration completed successfully!');
+    process.exit(0);
+
+  } catch (error) {
+    logger.error('Database migration failed:', error);
+    process.exit(1);
+  }
+}
+
+if (require.main === module) {
+  main();
+}
+
+export { addFileStorageColumns };
@@ -0,0 +1,84 @@
+import { connectDatabase, query } from '@/config/database';
+import { logger } from '@/config/logger';
+import dotenv from 'dotenv';
+import { resolve } from 'path';
+
+dotenv.config({ path: resolve(__dirname, '../../../.env') });
+
+async function createBudgetTables() {
+  try {
+    logger.info('Creating budget tables...');
+
+    // thresholds are percentages of amount that raise an alert once per period
+    await query(`
+      CREATE TABLE IF NOT EXISTS budgets (
+        id SERIAL PRIMARY KEY,
+        user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+        name VARCHAR(100) NOT NULL,
+        period VARCHAR(10) NOT NULL CHECK (period IN ('monthly', 'quarterly', 'annual')),
+        scope_type VARCHAR(10) NOT NULL CHECK (scope_type IN ('category', 'provider', 'tag')),
+        scope_value VARCHAR(255) NOT NULL,
+        amount DECIMAL(12,2) NOT NULL CHECK (amount > 0),
+        currency VARCHAR(3) NOT NULL,
+        thresholds INTEGER[] NOT NULL DEFAULT '{80,100}',
+        is_active BOOLEAN NOT NULL DEFAULT true,
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+      );
+    `);
+
+    await query(`
+      CREATE INDEX IF NOT EXISTS idx_budgets_user ON budgets(user_id) WHERE is_active;
+    `);
+
+    // In-app notification feed; dedupe_key stops a recurring check from notifying twice
+    await query(`
+      CREATE TABLE IF NOT EXISTS notifications (
+        id SERIAL PRIMARY KEY,
+        user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+        type VARCHAR(50) NOT NULL,
+        title VARCHAR(255) NOT NULL,
+        message TEXT,
+        link VARCHAR(255),
+        resource_type VARCHAR(50),
+        resource_id INTEGER,
+        dedupe_key VARCHAR(255),
+        read_at TIMESTAMP,
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+      );
+    `);
+
+    await query(`
+      CREATE UNIQUE INDEX IF NOT EXISTS idx_notifications_dedupe
+        ON notifications(user_id, dedupe_key) WHERE dedupe_key IS NOT NULL;
+      CREATE INDEX IF NOT EXISTS idx_notifications_user
+        ON notifications(user_id, created_at DESC);
+    `);
+
+    logger.info('Budget tables created successfully');
+
+  } catch (error) {
+    logger.error('Error creating budget tables:', error);
+    throw error;
+  }
+}
+
+async function main() {
+  try {
+    await connectDatabase();
+    await createBudgetTables();
+
+    logger.info('Database migration completed successfully!');
+    process.exit(0);
+
+  } catch (error) {
+    logger.error('Database migration failed:', error);
+    process.exit(1);
+  }
+}
+
+if (require.main === module) {
+  main();
+}
+
+export { createBudgetTables };
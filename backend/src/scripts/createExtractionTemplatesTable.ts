@@ -0,0 +1,57 @@
+import { connectDatabase, query } from '@/config/database';
+import { logger } from '@/config/logger';
+import dotenv from 'dotenv';
+import { resolve } from 'path';
+
+dotenv.config({ path: resolve(__dirname, '../../../.env') });
+
+async function createExtractionTemplatesTable() {
+  try {
+    logger.info('Creating extraction_templates table...');
+
+    await query(`
+      CREATE TABLE IF NOT EXISTS extraction_templates (
+        id SERIAL PRIMARY KEY,
+        user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+        vendor_name VARCHAR(255) NOT NULL,
+        match_patterns TEXT[] NOT NULL DEFAULT '{}',
+        rules JSONB NOT NULL DEFAULT '{}',
+        use_count INTEGER NOT NULL DEFAULT 0,
+        last_used_at TIMESTAMP,
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+      );
+    `);
+
+    await query(`
+      CREATE UNIQUE INDEX IF NOT EXISTS idx_extraction_templates_vendor
+        ON extraction_templates(user_id, LOWER(vendor_name));
+    `);
+
+    logger.info('Extraction templates table created successfully');
+
+  } catch (error) {
+    logger.error('Error creating extraction templates table:', error);
+    throw error;
+  }
+}
+
+async function main() {
+  try {
+    await connectDatabase();
+    await createExtractionTemplatesTable();
+
+    logger.info('Database migration completed successfully!');
+    process.exit(0);
+
+  } catch (error) {
+    logger.error('Database migration failed:', error);
+    process.exit(1);
+  }
+}
+
+if (require.main === module) {
+  main();
+}
+
+export { createExtractionTemplatesTable };
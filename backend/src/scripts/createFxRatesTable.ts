@@ -0,0 +1,99 @@
+import { connectDatabase, query } from '@/config/database';
+import { logger } from '@/config/logger';
+import { ExpenseModel } from '@/models/Expense';
+import { getReportingCurrency } from '@/config/currency';
+import dotenv from 'dotenv';
+import { resolve } from 'path';
+
+dotenv.config({ path: resolve(__dirname, '../../../.env') });
+
+async function createFxRatesTable() {
+  try {
+    logger.info('Creating FX rates table...');
+
+    // 1 base_currency = rate quote_currency on rate_date
+    await query(`
+      CREATE TABLE IF NOT EXISTS fx_rates (
+        id SERIAL PRIMARY KEY,
+        rate_date DATE NOT NULL,
+        base_currency VARCHAR(3) NOT NULL,
+        quote_currency VARCHAR(3) NOT NULL,
+        rate DECIMAL(18,8) NOT NULL CHECK (rate > 0),
+        source VARCHAR(20) NOT NULL,
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        UNIQUE (base_currency, quote_currency, rate_date)
+      );
+      CREATE INDEX IF NOT EXISTS idx_fx_rates_quote ON fx_rates(quote_currency, rate_date);
+    `);
+
+    // Rate from one currency to another on a date: the newest rate no older than
+    // max_age days, taken directly, inverted, or crossed through a shared base
+    // (USD->ILS from EUR->USD and EUR->ILS of the same day). NULL when none is known.
+    await query(`
+      CREATE OR REPLACE FUNCTION fx_rate(p_from VARCHAR, p_to VARCHAR, p_date DATE, p_max_age INTEGER)
+      RETURNS NUMERIC
+      LANGUAGE sql STABLE AS $$
+        SELECT CASE WHEN p_from = p_to THEN 1::numeric ELSE (
+          SELECT c.rate FROM (
+            SELECT r.rate, r.rate_date
+            FROM fx_rates r
+            WHERE r.base_currency = p_from AND r.quote_currency = p_to
+              AND r.rate_date BETWEEN p_date - p_max_age AND p_date
+            UNION ALL
+            SELECT 1 / r.rate, r.rate_date
+            FROM fx_rates r
+            WHERE r.base_currency = p_to AND r.quote_currency = p_from
+              AND r.rate_date BETWEEN p_date - p_max_age AND p_date
+            UNION ALL
+            SELECT t.rate / f.rate, f.rate_date
+            FROM fx_rates f
+            JOIN fx_rates t ON t.base_currency = f.base_currency
+              AND t.rate_date = f.rate_date
+              AND t.quote_currency = p_to
+            WHERE f.quote_currency = p_from
+              AND f.rate_date BETWEEN p_date - p_max_age AND p_date
+          ) c
+          ORDER BY c.rate_date DESC
+          LIMIT 1
+        ) END
+      $$;
+    `);
+
+    // Original amount and currency stay as entered; these hold the converted copy
+    await query(`
+      ALTER TABLE expenses ADD COLUMN IF NOT EXISTS reporting_currency VARCHAR(3);
+      ALTER TABLE expenses ADD COLUMN IF NOT EXISTS fx_rate DECIMAL(18,8);
+      ALTER TABLE expenses ADD COLUMN IF NOT EXISTS reporting_amount DECIMAL(12,2);
+    `);
+
+    // Same-currency expenses convert at 1 even before any rates are imported
+    const converted = await ExpenseModel.refreshConversions();
+    logger.info(`Converted ${converted.length} expenses to ${getReportingCurrency()}`);
+
+    logger.info('FX rates table created successfully');
+
+  } catch (error) {
+    logger.error('Error creating FX rates table:', error);
+    throw error;
+  }
+}
+
+async function main() {
+  try {
+    await connectDatabase();
+    await createFxRatesTable();
+
+    logger.info('Database migration completed successfully!');
+    process.exit(0);
+
+  } catch (error) {
+    logger.error('Database migration failed:', error);
+    process.exit(1);
+  }
+}
+
+if (require.main === module) {
+  main();
+}
+
+export { createFxRatesTable };
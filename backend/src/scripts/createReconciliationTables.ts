@@ -0,0 +1,83 @@
+import { connectDatabase, query } from '@/config/database';
+import { logger } from '@/config/logger';
+import dotenv from 'dotenv';
+import { resolve } from 'path';
+
+dotenv.config({ path: resolve(__dirname, '../../../.env') });
+
+async function createReconciliationTables() {
+  try {
+    logger.info('Creating reconciliation tables...');
+
+    // Money-out statement lines; amount is stored positive
+    await query(`
+      CREATE TABLE IF NOT EXISTS bank_transactions (
+        id SERIAL PRIMARY KEY,
+        user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+        source_name VARCHAR(100) NOT NULL,
+        import_key VARCHAR(64) NOT NULL,
+        date DATE NOT NULL,
+        description VARCHAR(255) NOT NULL,
+        amount DECIMAL(12,2) NOT NULL,
+        currency VARCHAR(3) NOT NULL,
+        reference VARCHAR(100),
+        expense_id INTEGER REFERENCES expenses(id) ON DELETE SET NULL,
+        match_type VARCHAR(10) CHECK (match_type IN ('import', 'auto', 'manual')),
+        match_score DECIMAL(4,3),
+        matched_at TIMESTAMP,
+        ignored_at TIMESTAMP,
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+      );
+    `);
+
+    await query(`
+      CREATE UNIQUE INDEX IF NOT EXISTS idx_bank_transactions_import_key
+        ON bank_transactions(user_id, import_key);
+      CREATE INDEX IF NOT EXISTS idx_bank_transactions_expense
+        ON bank_transactions(expense_id) WHERE expense_id IS NOT NULL;
+      CREATE INDEX IF NOT EXISTS idx_bank_transactions_unmatched
+        ON bank_transactions(user_id, date) WHERE expense_id IS NULL AND ignored_at IS NULL;
+    `);
+
+    await query(`
+      ALTER TABLE expenses ADD COLUMN IF NOT EXISTS paid_amount DECIMAL(12,2) NOT NULL DEFAULT 0;
+      ALTER TABLE expenses ADD COLUMN IF NOT EXISTS payment_status VARCHAR(20) NOT NULL DEFAULT 'unpaid'
+        CHECK (payment_status IN ('unpaid', 'partially_paid', 'paid'));
+      CREATE INDEX IF NOT EXISTS idx_expenses_payment_status
+        ON expenses(created_by, payment_status, due_date);
+    `);
+
+    // Expenses imported before this migration came straight off a statement, so they were paid
+    const result = await query(`
+      UPDATE expenses SET paid_amount = amount, payment_status = 'paid'
+      WHERE source_type = 'import' AND payment_status <> 'paid'
+    `);
+    logger.info(`Marked ${result.rowCount ?? 0} imported expenses as paid`);
+
+    logger.info('Reconciliation tables created successfully');
+
+  } catch (error) {
+    logger.error('Error creating reconciliation tables:', error);
+    throw error;
+  }
+}
+
+async function main() {
+  try {
+    await connectDatabase();
+    await createReconciliationTables();
+
+    logger.info('Database migration completed successfully!');
+    process.exit(0);
+
+  } catch (error) {
+    logger.error('Database migration failed:', error);
+    process.exit(1);
+  }
+}
+
+if (require.main === module) {
+  main();
+}
+
+export { createReconciliationTables };
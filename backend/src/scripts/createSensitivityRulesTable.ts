@@ -0,0 +1,136 @@
+import { connectDatabase, query } from '@/config/database';
+import { logger } from '@/config/logger';
+import dotenv from 'dotenv';
+import { resolve } from 'path';
+
+dotenv.config({ path: resolve(__dirname, '../../../.env') });
+
+const CREATE_TABLES_HIGH_KEYWORDS =
+  'security, defense, military, government, health, medical, bank, finance, crypto, anthropic, openai, claude';
+
+// The keyword lists get_provider_sensitivity hardcoded, in both createTables.ts and
+// init.sql, so classification is unchanged until edited
+const DEFAULT_RULES = [
+  {
+    name: 'Sensitive sectors',
+    pattern: `mossad, shin, bet, ${CREATE_TABLES_HIGH_KEYWORDS}`,
+    sensitivity: 'HIGH',
+    priority: 200
+  },
+  {
+    name: 'Cloud and hosting',
+    pattern: 'aws, amazon, gcp, google, azure, microsoft, hosting, server, cloud',
+    sensitivity: 'MEDIUM',
+    priority: 100
+  }
+];
+
+async function createSensitivityRulesTable() {
+  try {
+    logger.info('Creating sensitivity rules table...');
+
+    // pattern holds the keywords, regex or category; vendor and amount rules use their own columns
+    await query(`
+      CREATE TABLE IF NOT EXISTS sensitivity_rules (
+        id SERIAL PRIMARY KEY,
+        name VARCHAR(100) NOT NULL,
+        match_type VARCHAR(10) NOT NULL CHECK (match_type IN ('keyword', 'regex', 'vendor', 'category', 'amount')),
+        pattern TEXT,
+        vendor_id INTEGER REFERENCES vendors(id) ON DELETE CASCADE,
+        min_amount DECIMAL(12,2) CHECK (min_amount > 0),
+        amount_currency VARCHAR(3),
+        sensitivity VARCHAR(10) NOT NULL CHECK (sensitivity IN ('LOW', 'MEDIUM', 'HIGH')),
+        mask_alias VARCHAR(255),
+        priority INTEGER NOT NULL DEFAULT 100,
+        is_active BOOLEAN NOT NULL DEFAULT true,
+        created_by INTEGER REFERENCES users(id) ON DELETE SET NULL,
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+      );
+      CREATE INDEX IF NOT EXISTS idx_sensitivity_rules_priority
+        ON sensitivity_rules(priority DESC, id) WHERE is_active;
+    `);
+
+    // sensitivity_manual marks a level set by hand, which reclassification leaves alone
+    await query(`
+      ALTER TABLE expenses ADD COLUMN IF NOT EXISTS sensitivity_rule_id INTEGER
+        REFERENCES sensitivity_rules(id) ON DELETE SET NULL;
+      ALTER TABLE expenses ADD COLUMN IF NOT EXISTS sensitivity_manual BOOLEAN NOT NULL DEFAULT false;
+    `);
+
+    const existing = await query('SELECT COUNT(*)::int AS count FROM sensitivity_rules');
+    if (existing.rows[0].count === 0) {
+      for (const rule of DEFAULT_RULES) {
+        await query(
+          `INSERT INTO sensitivity_rules (name, match_type, pattern, sensitivity, priority)
+           VALUES ($1, 'keyword', $2, $3, $4)`,
+          [rule.name, rule.pattern, rule.sensitivity, rule.priority]
+        );
+      }
+      logger.info(`Seeded ${DEFAULT_RULES.length} default sensitivity rules`);
+    } else {
+      // Rules seeded with only the createTables.ts keywords get the init.sql ones too, unless edited since
+      await query(
+        `UPDATE sensitivity_rules SET pattern = $1, updated_at = CURRENT_TIMESTAMP
+         WHERE name = $2 AND match_type = 'keyword' AND pattern = $3`,
+        [DEFAULT_RULES[0].pattern, DEFAULT_RULES[0].name, CREATE_TABLES_HIGH_KEYWORDS]
+      );
+    }
+
+    // Sensitivity and masked names now come from the rules, applied by the
+    // application; the trigger only masks high-sensitivity rows inserted without one
+    await query(`
+      CREATE OR REPLACE FUNCTION set_expense_defaults()
+      RETURNS TRIGGER AS $$
+      BEGIN
+        -- Set masked provider name for high sensitivity
+        IF NEW.sensitivity_level = 'HIGH' AND NEW.provider_masked_name IS NULL THEN
+          NEW.provider_masked_name := mask_provider_name(NEW.provider_name, NEW.sensitivity_level);
+        END IF;
+
+        -- Set file retention policy based on sensitivity and amount
+        IF NEW.file_id IS NOT NULL THEN
+          IF NEW.sensitivity_level = 'HIGH' OR NEW.amount >= 5000 THEN
+            NEW.file_retention_policy := 'KEEP';
+          ELSE
+            NEW.file_retention_policy := 'DELETE';
+          END IF;
+        END IF;
+
+        -- Update timestamp
+        NEW.updated_at := CURRENT_TIMESTAMP;
+
+        RETURN NEW;
+      END;
+      $$ LANGUAGE plpgsql;
+    `);
+
+    await query(`DROP FUNCTION IF EXISTS get_provider_sensitivity(TEXT);`);
+
+    logger.info('Sensitivity rules table created successfully; run scripts/reclassifyExpenses.ts to apply the rules to existing expenses');
+
+  } catch (error) {
+    logger.error('Error creating sensitivity rules table:', error);
+    throw error;
+  }
+}
+
+async function main() {
+  try {
+    await connectDatabase();
+    await createSensitivityRulesTable();
+
+    logger.info('Database migration completed successfully!');
+    process.exit(0);
+
+  } catch (error) {
+    logger.error('Database migration failed:', error);
+    process.exit(1);
+  }
+}
+
+if (require.main === module) {
+  main();
+}
+
+export { createSensitivityRulesTable };
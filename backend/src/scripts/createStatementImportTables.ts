@@ -0,0 +1,71 @@
+import { connectDatabase, query } from '@/config/database';
+import { logger } from '@/config/logger';
+import dotenv from 'dotenv';
+import { resolve } from 'path';
+
+dotenv.config({ path: resolve(__dirname, '../../../.env') });
+
+async function createStatementImportTables() {
+  try {
+    logger.info('Creating statement import tables...');
+
+    await query(`
+      CREATE TABLE IF NOT EXISTS statement_sources (
+        id SERIAL PRIMARY KEY,
+        user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+        source_name VARCHAR(100) NOT NULL,
+        format VARCHAR(10) NOT NULL CHECK (format IN ('csv', 'ofx', 'qif')),
+        mapping JSONB,
+        use_count INTEGER NOT NULL DEFAULT 0,
+        last_used_at TIMESTAMP,
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+      );
+    `);
+
+    await query(`
+      CREATE UNIQUE INDEX IF NOT EXISTS idx_statement_sources_name
+        ON statement_sources(user_id, LOWER(source_name));
+    `);
+
+    // Imported rows get their own source type
+    await query(`
+      ALTER TABLE expenses DROP CONSTRAINT IF EXISTS expenses_source_type_check;
+      ALTER TABLE expenses ADD CONSTRAINT expenses_source_type_check
+        CHECK (source_type IN ('api', 'manual', 'import', 'email', 'folder'));
+    `);
+
+    // One key per statement line makes re-importing the same file a no-op
+    await query(`
+      ALTER TABLE expenses ADD COLUMN IF NOT EXISTS import_key VARCHAR(64);
+      CREATE UNIQUE INDEX IF NOT EXISTS idx_expenses_import_key
+        ON expenses(created_by, import_key) WHERE import_key IS NOT NULL;
+    `);
+
+    logger.info('Statement import tables created successfully');
+
+  } catch (error) {
+    logger.error('Error creating statement import tables:', error);
+    throw error;
+  }
+}
+
+async function main() {
+  try {
+    await connectDatabase();
+    await createStatementImportTables();
+
+    logger.info('Database migration completed successfully!');
+    process.exit(0);
+
+  } catch (error) {
+    logger.error('Database migration failed:', error);
+    process.exit(1);
+  }
+}
+
+if (require.main === module) {
+  main();
+}
+
+export { createStatementImportTables };
@@ -0,0 +1,79 @@
+import { connectDatabase, query } from '@/config/database';
+import { logger } from '@/config/logger';
+import dotenv from 'dotenv';
+import { resolve } from 'path';
+
+dotenv.config({ path: resolve(__dirname, '../../../.env') });
+
+async function createSubscriptionTables() {
+  try {
+    logger.info('Creating subscription tables...');
+
+    // vendor_key is the normalized provider name charges are recognised by
+    await query(`
+      CREATE TABLE IF NOT EXISTS subscriptions (
+        id SERIAL PRIMARY KEY,
+        user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+        provider_name VARCHAR(255) NOT NULL,
+        vendor_key VARCHAR(255) NOT NULL,
+        category VARCHAR(100),
+        currency VARCHAR(3) NOT NULL,
+        amount DECIMAL(12,2) NOT NULL CHECK (amount > 0),
+        cadence VARCHAR(10) NOT NULL CHECK (cadence IN ('weekly', 'monthly', 'quarterly', 'annual')),
+        billing_day SMALLINT CHECK (billing_day BETWEEN 1 AND 31),
+        last_charge_date DATE,
+        last_charge_amount DECIMAL(12,2),
+        next_charge_date DATE NOT NULL,
+        charge_count INTEGER NOT NULL DEFAULT 0,
+        status VARCHAR(10) NOT NULL DEFAULT 'active' CHECK (status IN ('active', 'paused', 'cancelled')),
+        origin VARCHAR(10) NOT NULL DEFAULT 'detected' CHECK (origin IN ('detected', 'manual')),
+        confidence DECIMAL(4,3),
+        auto_draft BOOLEAN NOT NULL DEFAULT true,
+        drafted_for DATE,
+        flag VARCHAR(20) CHECK (flag IN ('missed', 'late', 'price_changed')),
+        flag_details JSONB,
+        flagged_at TIMESTAMP,
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+      );
+    `);
+
+    await query(`
+      CREATE UNIQUE INDEX IF NOT EXISTS idx_subscriptions_vendor
+        ON subscriptions(user_id, vendor_key, currency);
+    `);
+
+    await query(`
+      ALTER TABLE expenses ADD COLUMN IF NOT EXISTS subscription_id INTEGER
+        REFERENCES subscriptions(id) ON DELETE SET NULL;
+      CREATE INDEX IF NOT EXISTS idx_expenses_subscription
+        ON expenses(subscription_id) WHERE subscription_id IS NOT NULL;
+    `);
+
+    logger.info('Subscription tables created successfully');
+
+  } catch (error) {
+    logger.error('Error creating subscription tables:', error);
+    throw error;
+  }
+}
+
+async function main() {
+  try {
+    await connectDatabase();
+    await createSubscriptionTables();
+
+    logger.info('Database migration completed successfully!');
+    process.exit(0);
+
+  } catch (error) {
+    logger.error('Database migration failed:', error);
+    process.exit(1);
+  }
+}
+
+if (require.main === module) {
+  main();
+}
+
+export { createSubscriptionTables };
@@ -139,54 +139,29 @@ async function createTables() {
       $$ LANGUAGE plpgsql IMMUTABLE;
     `);
 
-    // Function to determine sensitivity level based on provider
-    await query(`
-      CREATE OR REPLACE FUNCTION get_provider_sensitivity(provider_name TEXT)
-      RETURNS TEXT AS $$
-      BEGIN
-        -- HIGH sensitivity keywords
-        IF LOWER(provider_name) ~ '.*(security|defense|military|government|health|medical|bank|finance|crypto|anthropic|openai|claude).*' THEN
-          RETURN 'HIGH';
-        END IF;
-        
-        -- MEDIUM sensitivity keywords  
-        IF LOWER(provider_name) ~ '.*(aws|amazon|gcp|google|azure|microsoft|hosting|server|cloud).*' THEN
-          RETURN 'MEDIUM';
-        END IF;
-        
-        -- Default to LOW
-        RETURN 'LOW';
-      END;
-      $$ LANGUAGE plpgsql IMMUTABLE;
-    `);
-
-    // Trigger to automatically set retention policies and sensitivity
+    // Sensitivity and masked names come from the rules in sensitivity_rules, applied by
+    // the application; the trigger only masks high-sensitivity rows inserted without one
     await query(`
       CREATE OR REPLACE FUNCTION set_expense_defaults()
       RETURNS TRIGGER AS $$
       BEGIN
-        -- Set sensitivity level if not provided
-        IF NEW.sensitivity_level = 'LOW' AND NEW.provider_name IS NOT NULL THEN
-          NEW.sensitivity_level := get_provider_sensitivity(NEW.provider_name);
-        END IF;
-        
         -- Set masked provider name for high sensitivity
-        IF NEW.sensitivity_level = 'HIGH' THEN
+        IF NEW.sensitivity_level = 'HIGH' AND NEW.provider_masked_name IS NULL THEN
           NEW.provider_masked_name := mask_provider_name(NEW.provider_name, NEW.sensitivity_level);
         END IF;
-        
+
         -- Set file retention policy based on sensitivity and amount
         IF NEW.file_id IS NOT NULL THEN
-          IF NEW.sensitivity_level = 'HIGH' OR NEW.amount > 1000 THEN
+          IF NEW.sensitivity_level = 'HIGH' OR NEW.amount >= 5000 THEN
             NEW.file_retention_policy := 'KEEP';
           ELSE
             NEW.file_retention_policy := 'DELETE';
           END IF;
         END IF;
-        
+
         -- Update timestamp
         NEW.updated_at := CURRENT_TIMESTAMP;
-        
+
         RETURN NEW;
       END;
       $$ LANGUAGE plpgsql;
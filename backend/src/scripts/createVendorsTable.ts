@@ -0,0 +1,125 @@
+import { connectDatabase, query } from '@/config/database';
+import { logger } from '@/config/logger';
+import { VendorModel } from '@/models/Vendor';
+import dotenv from 'dotenv';
+import { resolve } from 'path';
+
+dotenv.config({ path: resolve(__dirname, '../../../.env') });
+
+async function createVendorsTable() {
+  try {
+    logger.info('Creating vendors tables...');
+
+    // vendor_key is the normalized canonical name
+    await query(`
+      CREATE TABLE IF NOT EXISTS vendors (
+        id SERIAL PRIMARY KEY,
+        canonical_name VARCHAR(255) NOT NULL,
+        vendor_key VARCHAR(255) NOT NULL UNIQUE,
+        default_category VARCHAR(100),
+        default_sensitivity VARCHAR(10) CHECK (default_sensitivity IN ('LOW', 'MEDIUM', 'HIGH')),
+        masked_alias VARCHAR(255),
+        notes TEXT,
+        created_by INTEGER REFERENCES users(id) ON DELETE SET NULL,
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+      );
+    `);
+
+    // Every name a vendor is known by, its canonical name included. An alias
+    // key can only point at one vendor, which is what makes resolution unambiguous.
+    await query(`
+      CREATE TABLE IF NOT EXISTS vendor_aliases (
+        id SERIAL PRIMARY KEY,
+        vendor_id INTEGER NOT NULL REFERENCES vendors(id) ON DELETE CASCADE,
+        alias VARCHAR(255) NOT NULL,
+        alias_key VARCHAR(255) NOT NULL UNIQUE,
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+      );
+      CREATE INDEX IF NOT EXISTS idx_vendor_aliases_vendor ON vendor_aliases(vendor_id);
+    `);
+
+    await query(`
+      ALTER TABLE expenses ADD COLUMN IF NOT EXISTS vendor_id INTEGER
+        REFERENCES vendors(id) ON DELETE SET NULL;
+      CREATE INDEX IF NOT EXISTS idx_expenses_vendor ON expenses(vendor_id);
+    `);
+
+    // Same as createTables.ts; vendor defaults and aliases are applied with the
+    // sensitivity rules when the expense is saved
+    await query(`
+      CREATE OR REPLACE FUNCTION set_expense_defaults()
+      RETURNS TRIGGER AS $$
+      BEGIN
+        -- Set masked provider name for high sensitivity
+        IF NEW.sensitivity_level = 'HIGH' AND NEW.provider_masked_name IS NULL THEN
+          NEW.provider_masked_name := mask_provider_name(NEW.provider_name, NEW.sensitivity_level);
+        END IF;
+
+        -- Set file retention policy based on sensitivity and amount
+        IF NEW.file_id IS NOT NULL THEN
+          IF NEW.sensitivity_level = 'HIGH' OR NEW.amount >= 5000 THEN
+            NEW.file_retention_policy := 'KEEP';
+          ELSE
+            NEW.file_retention_policy := 'DELETE';
+          END IF;
+        END IF;
+
+        -- Update timestamp
+        NEW.updated_at := CURRENT_TIMESTAMP;
+
+        RETURN NEW;
+      END;
+      $$ LANGUAGE plpgsql;
+    `);
+
+    // Fully reduced expenses only keep a masked name; unlink any reduced while linked
+    await query(`UPDATE expenses SET vendor_id = NULL WHERE reduction_level = 'minimal' AND vendor_id IS NOT NULL`);
+
+    // Backfill: one vendor per distinct normalized provider name. Reduced
+    // expenses only keep a masked name, so they are left unlinked.
+    const providers = await query(`
+      SELECT DISTINCT provider_name FROM expenses
+      WHERE vendor_id IS NULL AND provider_name IS NOT NULL AND reduction_level <> 'minimal'
+    `);
+
+    let linked = 0;
+    for (const row of providers.rows) {
+      const vendor = await VendorModel.resolve(row.provider_name, null);
+      if (!vendor) continue;
+
+      const result = await query(
+        'UPDATE expenses SET vendor_id = $1 WHERE vendor_id IS NULL AND provider_name = $2',
+        [vendor.id, row.provider_name]
+      );
+      linked += result.rowCount || 0;
+    }
+
+    // Vendor defaults are applied with the rules, so linked expenses are reclassified separately
+    logger.info(`Vendors tables created; linked ${linked} expenses from ${providers.rows.length} provider names; run scripts/reclassifyExpenses.ts to apply vendor defaults`);
+
+  } catch (error) {
+    logger.error('Error creating vendors tables:', error);
+    throw error;
+  }
+}
+
+async function main() {
+  try {
+    await connectDatabase();
+    await createVendorsTable();
+
+    logger.info('Database migration completed successfully!');
+    process.exit(0);
+
+  } catch (error) {
+    logger.error('Database migration failed:', error);
+    process.exit(1);
+  }
+}
+
+if (require.main === module) {
+  main();
+}
+
+export { createVendorsTable };
@@ -0,0 +1,62 @@
+import { connectDatabase } from '@/config/database';
+import { logger } from '@/config/logger';
+import { SensitivityRuleService } from '@/services/sensitivityRuleService';
+import dotenv from 'dotenv';
+import { resolve } from 'path';
+
+dotenv.config({ path: resolve(__dirname, '../../../.env') });
+
+/**
+ * Apply the sensitivity rules to every stored expense. Each change is logged
+ * and written to the audit log.
+ *
+ *   --dry-run        report what would change without saving
+ *   --include-manual also reclassify levels that were set by hand
+ */
+async function reclassifyExpenses(options: { dryRun: boolean; includeManual: boolean }) {
+  try {
+    logger.info(`Reclassifying expenses${options.dryRun ? ' (dry run)' : ''}...`);
+
+    const result = await SensitivityRuleService.reclassify(options);
+
+    if (options.dryRun) {
+      for (const change of result.changes) {
+        logger.info(`Expense ${change.expenseId} (${change.providerName}): ${change.from.sensitivity} -> ${change.to.sensitivity}` +
+          (change.rule ? ` by rule "${change.rule.name}"` : ''));
+      }
+      if (result.changed > result.changes.length) {
+        logger.info(`...and ${result.changed - result.changes.length} more`);
+      }
+    }
+
+    logger.info(`Scanned ${result.scanned} expenses; ${result.changed} ${options.dryRun ? 'would change' : 'changed'}`);
+    return result;
+
+  } catch (error) {
+    logger.error('Error reclassifying expenses:', error);
+    throw error;
+  }
+}
+
+async function main() {
+  try {
+    await connectDatabase();
+    await reclassifyExpenses({
+      dryRun: process.argv.includes('--dry-run'),
+      includeManual: process.argv.includes('--include-manual')
+    });
+
+    logger.info('Reclassification completed successfully!');
+    process.exit(0);
+
+  } catch (error) {
+    logger.error('Reclassification failed:', error);
+    process.exit(1);
+  }
+}
+
+if (require.main === module) {
+  main();
+}
+
+export { reclassifyExpenses };
@@ -0,0 +1,53 @@
+import { connectDatabase, query } from '@/config/database';
+import { logger } from '@/config/logger';
+import { redactText } from '@/utils/redaction';
+import dotenv from 'dotenv';
+import { resolve } from 'path';
+
+dotenv.config({ path: resolve(__dirname, '../../../.env') });
+
+async function redactStoredOcrText() {
+  try {
+    logger.info('Redacting stored OCR text...');
+
+    // Text extracted before the redaction stage existed still holds raw PII
+    const result = await query(
+      'SELECT id, ocr_extracted_text FROM files WHERE ocr_extracted_text IS NOT NULL AND deleted_at IS NULL'
+    );
+
+    let updated = 0;
+    for (const row of result.rows) {
+      const { text, report } = redactText(row.ocr_extracted_text);
+      if (report.total > 0) {
+        await query('UPDATE files SET ocr_extracted_text = $1 WHERE id = $2', [text, row.id]);
+        updated++;
+      }
+    }
+
+    logger.info(`Redacted OCR text of ${updated} of ${result.rows.length} files`);
+
+  } catch (error) {
+    logger.error('Error redacting stored OCR text:', error);
+    throw error;
+  }
+}
+
+async function main() {
+  try {
+    await connectDatabase();
+    await redactStoredOcrText();
+
+    logger.info('Redaction completed successfully!');
+    process.exit(0);
+
+  } catch (error) {
+    logger.error('Redaction failed:', error);
+    process.exit(1);
+  }
+}
+
+if (require.main === module) {
+  main();
+}
+
+export { redactStoredOcrText };
@@ -1,6 +1,9 @@
 import axios from 'axios';
 import { logger } from '@/config/logger';
 import { query } from '@/config/database';
+import { ExpenseModel } from '@/models/Expense';
+import { VendorModel } from '@/models/Vendor';
+import { SensitivityRuleService } from '@/services/sensitivityRuleService';
 
 interface AnthropicUsage {
   date: string;
@@ -128,6 +131,8 @@ export class AnthropicService {
    * Store Anthropic usage data as expenses in database
    */
   static async storeUsageAsExpenses(usageData: AnthropicUsage[]): Promise<void> {
+    const vendor = usageData.length > 0 ? await VendorModel.resolve('Anthropic', null) : null;
+    
     for (const usage of usageData) {
       try {
         // Check if expense already exists for this date
@@ -158,31 +163,49 @@ export class AnthropicService {
               existing.rows[0].id
             ]
           );
+          await ExpenseModel.refreshConversions({ ids: [existing.rows[0].id] });
           
           logger.info(`Updated Anthropic expense for ${usage.date}: $${usage.cost_usd}`);
         } else {
-          // Create new expense
-          await query(
+          // Create new expense; synced costs wait in the inbox until reviewed
+          const category = vendor?.default_category || 'AI Services';
+          const classification = await SensitivityRuleService.classify({
+            providerName: 'Anthropic',
+            category,
+            amount: usage.cost_usd,
+            currency: 'USD',
+            date: usage.date,
+            vendorId: vendor?.id,
+            vendorSensitivity: vendor?.default_sensitivity,
+            vendorMaskedAlias: vendor?.masked_alias
+          });
+          const created = await query(
             `INSERT INTO expenses 
-             (provider_name, amount, date, description, category, source_type, sensitivity_level, created_at, updated_at, metadata)
-             VALUES ($1, $2, $3, $4, $5, $6, $7, CURRENT_TIMESTAMP, CURRENT_TIMESTAMP, $8)`,
+             (provider_name, amount, date, description, category, source_type, sensitivity_level, created_at, updated_at, metadata, status, vendor_id,
+              provider_masked_name, sensitivity_rule_id)
+             VALUES ($1, $2, $3, $4, $5, $6, $7, CURRENT_TIMESTAMP, CURRENT_TIMESTAMP, $8, 'draft', $9, $10, $11)
+             RETURNING id`,
             [
               'Anthropic',
               usage.cost_usd,
               usage.date,
               `Claude ${usage.model} - ${usage.input_tokens.toLocaleString()} input + ${usage.output_tokens.toLocaleString()} output tokens`,
-              'AI Services',
+              category,
               'api',
-              usage.cost_usd > 100 ? 'MEDIUM' : 'LOW', // Sensitivity based on cost
+              classification.sensitivity,
               JSON.stringify({
                 model: usage.model,
                 input_tokens: usage.input_tokens,
                 output_tokens: usage.output_tokens,
                 requests: usage.requests,
                 tokens_total: usage.input_tokens + usage.output_tokens
-              })
+              }),
+              vendor?.id ?? null,
+              classification.maskedName,
+              classification.rule?.id ?? null
             ]
           );
+          await ExpenseModel.refreshConversions({ ids: [created.rows[0].id] });
           
           logger.info(`Created new Anthropic expense for ${usage.date}: $${usage.cost_usd}`);
         }
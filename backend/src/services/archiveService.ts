@@ -0,0 +1,106 @@
+import { posix } from 'path';
+import yauzl from 'yauzl';
+
+export interface ArchiveEntry {
+  name: string;
+  buffer: Buffer;
+}
+
+export interface ArchiveLimits {
+  maxEntries: number;
+  maxEntrySize: number;
+  maxTotalSize: number;
+}
+
+export interface ArchiveContents {
+  entries: ArchiveEntry[];
+  skipped: { name: string; reason: string }[];
+}
+
+/**
+ * Unpacks uploaded ZIP archives in memory. Sizes are enforced while
+ * inflating, not just from the (attacker-controlled) headers, so a zip bomb
+ * is cut off as soon as it crosses a limit.
+ */
+export class ArchiveService {
+
+  static extractZip(buffer: Buffer, limits: ArchiveLimits): Promise<ArchiveContents> {
+    return new Promise((resolve, reject) => {
+      yauzl.fromBuffer(buffer, { lazyEntries: true, validateEntrySizes: true }, (openError, zipfile) => {
+        if (openError || !zipfile) {
+          reject(new Error('Invalid or corrupted ZIP archive'));
+          return;
+        }
+
+        if (zipfile.entryCount > limits.maxEntries) {
+          zipfile.close();
+          reject(new Error(`Archive contains more than ${limits.maxEntries} entries`));
+          return;
+        }
+
+        const contents: ArchiveContents = { entries: [], skipped: [] };
+        let totalSize = 0;
+
+        const fail = (error: Error) => {
+          zipfile.close();
+          reject(error);
+        };
+
+        zipfile.on('error', () => fail(new Error('Invalid or corrupted ZIP archive')));
+        zipfile.on('end', () => resolve(contents));
+
+        zipfile.on('entry', (entry: yauzl.Entry) => {
+          const name = posix.basename(entry.fileName);
+
+          // Directories and OS metadata (__MACOSX/, .DS_Store) are not invoices
+          if (entry.fileName.endsWith('/') || entry.fileName.startsWith('__MACOSX/') || name.startsWith('.')) {
+            zipfile.readEntry();
+            return;
+          }
+          if (entry.isEncrypted()) {
+            contents.skipped.push({ name, reason: 'Encrypted entries are not supported' });
+            zipfile.readEntry();
+            return;
+          }
+          if (entry.uncompressedSize > limits.maxEntrySize) {
+            contents.skipped.push({ name, reason: 'File too large' });
+            zipfile.readEntry();
+            return;
+          }
+          if (totalSize + entry.uncompressedSize > limits.maxTotalSize) {
+            fail(new Error('Archive is too large once uncompressed'));
+            return;
+          }
+
+          zipfile.openReadStream(entry, (streamError, stream) => {
+            if (streamError || !stream) {
+              contents.skipped.push({ name, reason: 'Entry could not be read' });
+              zipfile.readEntry();
+              return;
+            }
+
+            const chunks: Buffer[] = [];
+            let entrySize = 0;
+            stream.on('data', (chunk: Buffer) => {
+              entrySize += chunk.length;
+              totalSize += chunk.length;
+              if (entrySize > limits.maxEntrySize || totalSize > limits.maxTotalSize) {
+                stream.destroy();
+                fail(new Error('Archive is too large once uncompressed'));
+                return;
+              }
+              chunks.push(chunk);
+            });
+            stream.on('error', () => fail(new Error('Invalid or corrupted ZIP archive')));
+            stream.on('end', () => {
+              contents.entries.push({ name, buffer: Buffer.concat(chunks) });
+              zipfile.readEntry();
+            });
+          });
+        });
+
+        zipfile.readEntry();
+      });
+    });
+  }
+}
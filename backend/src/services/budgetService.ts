@@ -0,0 +1,279 @@
+import { DateTime } from 'luxon';
+import { getReportingCurrency } from '@/config/currency';
+import { AuditLogModel } from '@/models/AuditLog';
+import { BudgetInput, BudgetModel } from '@/models/Budget';
+import { ExpenseModel } from '@/models/Expense';
+import { NotificationModel } from '@/models/Notification';
+import { Budget, BudgetPeriod, BudgetScope } from '@/types';
+
+export interface BudgetStatus {
+  periodStart: string;
+  periodEnd: string;
+  daysElapsed: number;
+  daysInPeriod: number;
+  spent: number;
+  remaining: number;
+  percentUsed: number;
+  // Straight-line burn: spend so far spread over the days elapsed, carried to the period end
+  projected: number;
+  projectedPercent: number;
+  expenseCount: number;
+  unconverted: number;
+  state: 'ok' | 'warning' | 'over';
+}
+
+export type BudgetWithStatus = Budget & { status: BudgetStatus | null };
+
+const PERIODS: BudgetPeriod[] = ['monthly', 'quarterly', 'annual'];
+const SCOPES: BudgetScope[] = ['category', 'provider', 'tag'];
+
+/**
+ * Spending limits per category, provider or tag over calendar months, quarters
+ * or years. Actual spend is always computed from the expenses table, so edits
+ * and late imports are reflected without bookkeeping. Each threshold raises
+ * one alert per period.
+ */
+export class BudgetService {
+  private static readonly MAX_THRESHOLDS = 5;
+  // A projection from the first few days of a period is mostly noise
+  private static readonly FORECAST_MIN_ELAPSED = 0.25;
+
+  /**
+   * Validate a create (partial = false) or update request body
+   */
+  static parseInput(body: any, partial: boolean): { input: Partial<BudgetInput> } | { error: string } {
+    const input: Partial<BudgetInput> = {};
+    const has = (field: string) => body[field] !== undefined;
+
+    if (!partial || has('name')) {
+      if (typeof body.name !== 'string' || !body.name.trim() || body.name.trim().length > 100) {
+        return { error: 'Name is required and must be at most 100 characters' };
+      }
+      input.name = body.name.trim();
+    }
+    if (!partial || has('period')) {
+      if (!PERIODS.includes(body.period)) {
+        return { error: `Period must be one of: ${PERIODS.join(', ')}` };
+      }
+      input.period = body.period;
+    }
+    if (!partial || has('scopeType')) {
+      if (!SCOPES.includes(body.scopeType)) {
+        return { error: `Scope must be one of: ${SCOPES.join(', ')}` };
+      }
+      input.scopeType = body.scopeType;
+    }
+    if (!partial || has('scopeValue')) {
+      if (typeof body.scopeValue !== 'string' || !body.scopeValue.trim() || body.scopeValue.trim().length > 255) {
+        return { error: 'Choose the category, provider or tag the budget covers' };
+      }
+      input.scopeValue = body.scopeValue.trim();
+    }
+    if (!partial || has('amount')) {
+      const amount = parseFloat(body.amount);
+      if (!Number.isFinite(amount) || amount <= 0) {
+        return { error: 'Amount must be a positive number' };
+      }
+      input.amount = Math.round(amount * 100) / 100;
+    }
+    if (has('currency')) {
+      if (typeof body.currency !== 'string' || !/^[A-Z]{3}$/.test(body.currency)) {
+        return { error: 'Currency must be a 3-letter code' };
+      }
+      input.currency = body.currency;
+    } else if (!partial) {
+      input.currency = getReportingCurrency();
+    }
+    if (has('thresholds')) {
+      const thresholds = body.thresholds;
+      if (!Array.isArray(thresholds) || thresholds.length === 0 || thresholds.length > this.MAX_THRESHOLDS ||
+          thresholds.some((value: unknown) => !Number.isInteger(value) || (value as number) < 1 || (value as number) > 1000)) {
+        return { error: `Thresholds must be 1 to ${this.MAX_THRESHOLDS} whole percentages between 1 and 1000` };
+      }
+      input.thresholds = Array.from(new Set<number>(thresholds)).sort((a, b) => a - b);
+    } else if (!partial) {
+      input.thresholds = [80, 100];
+    }
+    if (has('isActive')) {
+      if (typeof body.isActive !== 'boolean') {
+        return { error: 'isActive must be true or false' };
+      }
+      input.isActive = body.isActive;
+    } else if (!partial) {
+      input.isActive = true;
+    }
+
+    return { input };
+  }
+
+  /**
+   * The user's budgets with their current-period status. Alerts due are raised
+   * on the way, so the feed is current whenever budgets are looked at.
+   */
+  static async listWithStatus(userId: number): Promise<BudgetWithStatus[]> {
+    const budgets = await BudgetModel.findByUser(userId);
+
+    const result: BudgetWithStatus[] = [];
+    for (const budget of budgets) {
+      result.push(await this.withStatus(budget));
+    }
+    return result;
+  }
+
+  static async withStatus(budget: Budget): Promise<BudgetWithStatus> {
+    if (!budget.is_active) {
+      return { ...budget, status: null };
+    }
+
+    const status = await this.getStatus(budget);
+    await this.raiseAlerts(budget, status);
+    return { ...budget, status };
+  }
+
+  /**
+   * Check every active budget; run by the scheduled job. Returns the number of alerts raised.
+   */
+  static async checkAll(): Promise<number> {
+    const budgets = await BudgetModel.findActive();
+
+    let raised = 0;
+    for (const budget of budgets) {
+      raised += await this.raiseAlerts(budget, await this.getStatus(budget));
+    }
+    return raised;
+  }
+
+  static async getStatus(budget: Budget, now: DateTime = DateTime.now()): Promise<BudgetStatus> {
+    const { start, end } = this.periodBounds(budget.period, now);
+    const spend = await ExpenseModel.getBudgetSpend(
+      budget.user_id,
+      { type: budget.scope_type, value: budget.scope_value },
+      start.toISODate()!,
+      end.toISODate()!,
+      budget.currency
+    );
+
+    const amount = Number(budget.amount);
+    const daysInPeriod = Math.round(end.diff(start, 'days').days) + 1;
+    const daysElapsed = Math.min(daysInPeriod, Math.round(now.startOf('day').diff(start, 'days').days) + 1);
+    const projected = Math.round((spend.spent / daysElapsed) * daysInPeriod * 100) / 100;
+    const percentUsed = this.percent(spend.spent, amount);
+    const projectedPercent = this.percent(projected, amount);
+    const lowest = Math.min(...budget.thresholds);
+
+    return {
+      periodStart: start.toISODate()!,
+      periodEnd: end.toISODate()!,
+      daysElapsed,
+      daysInPeriod,
+      spent: spend.spent,
+      remaining: Math.round((amount - spend.spent) * 100) / 100,
+      percentUsed,
+      projected,
+      projectedPercent,
+      expenseCount: spend.count,
+      unconverted: spend.unconverted,
+      state: percentUsed >= 100 ? 'over'
+        : percentUsed >= lowest || this.forecastApplies(daysElapsed, daysInPeriod, projectedPercent) ? 'warning'
+        : 'ok'
+    };
+  }
+
+  /**
+   * The calendar month, quarter or year containing the date
+   */
+  static periodBounds(period: BudgetPeriod, date: DateTime): { start: DateTime; end: DateTime } {
+    const unit = period === 'monthly' ? 'month' : period === 'quarterly' ? 'quarter' : 'year';
+    return {
+      start: date.startOf(unit).startOf('day'),
+      end: date.endOf(unit).startOf('day')
+    };
+  }
+
+  /**
+   * Notify for the highest threshold reached, and for a projected overrun, once
+   * per period each. Returns how many notifications were created.
+   */
+  private static async raiseAlerts(budget: Budget, status: BudgetStatus): Promise<number> {
+    let raised = 0;
+    const amount = Number(budget.amount);
+    const format = (value: number) => new Intl.NumberFormat('en-US', {
+      style: 'currency',
+      currency: budget.currency
+    }).format(value);
+    const period = `${status.periodStart} to ${status.periodEnd}`;
+
+    // Only the highest is notified, so a jump from 50% to 120% is one alert rather than two
+    const reached = budget.thresholds.filter(threshold => status.percentUsed >= threshold);
+    if (reached.length > 0) {
+      const threshold = Math.max(...reached);
+      const created = await NotificationModel.create({
+        userId: budget.user_id,
+        type: 'budget_threshold',
+        title: `${budget.name} reached ${threshold}% of budget`,
+        message: `${format(status.spent)} of ${format(amount)} spent (${period}). ` +
+          `Projected ${format(status.projected)} by the end of the period.`,
+        link: '/budgets',
+        resourceType: 'budget',
+        resourceId: budget.id,
+        dedupeKey: `budget:${budget.id}:${status.periodStart}:${threshold}`
+      });
+      if (created) {
+        raised++;
+        await this.audit(budget, status, 'BUDGET_THRESHOLD_REACHED', { threshold });
+      }
+    }
+
+    if (status.percentUsed < 100 && this.forecastApplies(status.daysElapsed, status.daysInPeriod, status.projectedPercent)) {
+      const created = await NotificationModel.create({
+        userId: budget.user_id,
+        type: 'budget_forecast',
+        title: `${budget.name} is on track to exceed its budget`,
+        message: `${format(status.spent)} spent after ${status.daysElapsed} of ${status.daysInPeriod} days; ` +
+          `at this rate ${format(status.projected)} against ${format(amount)} (${period}).`,
+        link: '/budgets',
+        resourceType: 'budget',
+        resourceId: budget.id,
+        dedupeKey: `budget:${budget.id}:${status.periodStart}:forecast`
+      });
+      if (created) {
+        raised++;
+        await this.audit(budget, status, 'BUDGET_FORECAST_EXCEEDED', {});
+      }
+    }
+
+    return raised;
+  }
+
+  private static async audit(
+    budget: Budget,
+    status: BudgetStatus,
+    action: string,
+    details: Record<string, unknown>
+  ): Promise<void> {
+    // Raised by the system rather than a request, so there is no client to record
+    await AuditLogModel.create({
+      userId: budget.user_id,
+      action,
+      resourceType: 'budget',
+      resourceId: budget.id,
+      details: {
+        ...details,
+        name: budget.name,
+        periodStart: status.periodStart,
+        amount: Number(budget.amount),
+        currency: budget.currency,
+        spent: status.spent,
+        projected: status.projected
+      }
+    });
+  }
+
+  private static forecastApplies(daysElapsed: number, daysInPeriod: number, projectedPercent: number): boolean {
+    return projectedPercent >= 100 && daysElapsed / daysInPeriod >= this.FORECAST_MIN_ELAPSED;
+  }
+
+  private static percent(value: number, amount: number): number {
+    return Math.round((value / amount) * 1000) / 10;
+  }
+}
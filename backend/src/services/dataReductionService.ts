@@ -0,0 +1,126 @@
+import { createHmac } from 'crypto';
+import { ExpenseModel } from '@/models/Expense';
+import { AuditLogModel } from '@/models/AuditLog';
+import { logger } from '@/config/logger';
+import { Expense } from '@/types';
+
+type ReductionTier = 'essential' | 'minimal';
+
+export interface ReductionTierReport {
+  olderThanDays: number;
+  records: number;
+  fieldsRemoved: Record<string, number>;
+  expenseIds: number[];
+}
+
+export interface ReductionReport {
+  dryRun: boolean;
+  generatedAt: string;
+  essential: ReductionTierReport;
+  minimal: ReductionTierReport;
+}
+
+export class DataReductionService {
+  // 0-30 days: full record, 30-90 days: essential fields, 90+ days: hash + amount + masked provider
+  private static readonly ESSENTIAL_AFTER_DAYS = 30;
+  private static readonly MINIMAL_AFTER_DAYS = 90;
+
+  private static readonly ESSENTIAL_STRIPPED = ['description', 'tags', 'metadata'];
+  private static readonly MINIMAL_STRIPPED = [...this.ESSENTIAL_STRIPPED, 'category', 'due_date', 'provider_name'];
+
+  /**
+   * Reduce aging expense records. With `dryRun` nothing is written and the
+   * report describes what a real run would strip.
+   */
+  static async run(options: { dryRun: boolean }): Promise<ReductionReport> {
+    const { dryRun } = options;
+
+    // Minimal runs first so records older than 90 days skip the essential pass
+    const minimal = await this.processTier('minimal', this.MINIMAL_AFTER_DAYS, dryRun);
+    const essential = await this.processTier('essential', this.ESSENTIAL_AFTER_DAYS, dryRun, new Set(minimal.expenseIds));
+
+    const report: ReductionReport = {
+      dryRun,
+      generatedAt: new Date().toISOString(),
+      essential,
+      minimal
+    };
+
+    if (!dryRun && (essential.records > 0 || minimal.records > 0)) {
+      await AuditLogModel.create({
+        action: 'DATA_REDUCTION',
+        resourceType: 'expenses',
+        details: report
+      });
+    }
+
+    logger.info(
+      `Data reduction ${dryRun ? 'preview' : 'run'}: ${essential.records} essential, ${minimal.records} minimal`
+    );
+
+    return report;
+  }
+
+  /**
+   * Keyed hash of a provider name, so reduced records can still be grouped
+   * without keeping the name itself
+   */
+  static hashProvider(providerName: string): string {
+    const key = process.env.DATA_REDUCTION_KEY || process.env.ENCRYPTION_KEY;
+    if (!key) {
+      throw new Error('Data reduction key not configured');
+    }
+    return createHmac('sha256', key).update(providerName.trim().toLowerCase()).digest('hex');
+  }
+
+  private static async processTier(
+    tier: ReductionTier,
+    olderThanDays: number,
+    dryRun: boolean,
+    skip: Set<number> = new Set()
+  ): Promise<ReductionTierReport> {
+    const candidates = (await ExpenseModel.findForReduction(tier, olderThanDays)).filter(e => !skip.has(e.id));
+    const stripped = tier === 'minimal' ? this.MINIMAL_STRIPPED : this.ESSENTIAL_STRIPPED;
+
+    const report: ReductionTierReport = {
+      olderThanDays,
+      records: candidates.length,
+      fieldsRemoved: Object.fromEntries(stripped.map(field => [field, 0])),
+      expenseIds: candidates.map(e => e.id)
+    };
+
+    for (const expense of candidates) {
+      for (const field of stripped) {
+        if (this.hasValue(expense, field)) {
+          report.fieldsRemoved[field]++;
+        }
+      }
+
+      if (dryRun) continue;
+
+      if (tier === 'minimal') {
+        const providerHash = expense.provider_hash || this.hashProvider(expense.provider_name);
+        await ExpenseModel.reduceToMinimal(expense.id, this.maskProvider(expense, providerHash), providerHash);
+      } else {
+        await ExpenseModel.reduceToEssential(expense.id);
+      }
+    }
+
+    return report;
+  }
+
+  static maskProvider(expense: Expense, providerHash: string): string {
+    if (expense.provider_masked_name && expense.provider_masked_name !== expense.provider_name) {
+      return expense.provider_masked_name;
+    }
+    return `Vendor-${providerHash.substring(0, 8)}`;
+  }
+
+  private static hasValue(expense: Expense, field: string): boolean {
+    const value = (expense as any)[field];
+    if (value === null || value === undefined || value === '') return false;
+    if (Array.isArray(value)) return value.length > 0;
+    if (typeof value === 'object' && !(value instanceof Date)) return Object.keys(value).length > 0;
+    return true;
+  }
+}
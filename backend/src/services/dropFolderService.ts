@@ -0,0 +1,159 @@
+import { promises as fs } from 'fs';
+import { join, resolve } from 'path';
+import { getRedisClient } from '@/config/redis';
+import { logger } from '@/config/logger';
+import { AuditLogModel } from '@/models/AuditLog';
+import { FileStorageService } from '@/services/fileStorageService';
+import { IntakeContext, InvoiceIntakeService } from '@/services/invoiceIntakeService';
+import { UploadJobStatus, UploadQueueService } from '@/services/uploadQueueService';
+import { detectMimeType } from '@/utils/fileType';
+
+export interface DropFolder {
+  path: string;
+  sensitivity: 'LOW' | 'MEDIUM' | 'HIGH';
+  category?: string;
+}
+
+export interface DropFolderRecord {
+  at: string;
+  folder: string;
+  name: string;
+  size: number;
+  status: 'queued' | 'duplicate' | 'rejected';
+  fileId?: number;
+  jobId?: string;
+  error?: string;
+}
+
+export interface DropFolderActivity extends DropFolderRecord {
+  // Worker progress for queued files, while the job is still known
+  processing?: UploadJobStatus;
+  processingError?: string;
+  draftExpenseId?: number;
+}
+
+export interface DropFolderScanResult {
+  processed: number;
+  queued: number;
+  rejected: number;
+}
+
+/**
+ * Ingestion from local directories (e.g. an air-gapped workstation's drop
+ * folder). Each settled file is handed to the regular intake pipeline as a
+ * draft expense and then securely wiped from the folder, whatever the outcome;
+ * only files that hit an unexpected error are left in place to retry.
+ */
+export class DropFolderService {
+  private static readonly HISTORY_KEY = 'dropfolder:history';
+  private static readonly HISTORY_LIMIT = 200;
+  // Files modified more recently than this may still be being copied in
+  private static readonly SETTLE_MS = parseInt(process.env.DROP_FOLDER_SETTLE_SECONDS || '10', 10) * 1000;
+
+  /**
+   * Ingest every settled file in a folder. Subdirectories and dotfiles are ignored.
+   */
+  static async scan(folder: DropFolder, context: IntakeContext): Promise<DropFolderScanResult> {
+    const result: DropFolderScanResult = { processed: 0, queued: 0, rejected: 0 };
+    const directory = resolve(folder.path);
+
+    const entries = await fs.readdir(directory, { withFileTypes: true });
+    for (const entry of entries) {
+      if (!entry.isFile() || entry.name.startsWith('.')) continue;
+
+      const path = join(directory, entry.name);
+      const stats = await fs.stat(path);
+      if (Date.now() - stats.mtimeMs < this.SETTLE_MS) continue;
+
+      let record: DropFolderRecord;
+      try {
+        record = await this.ingestFile(folder, entry.name, path, stats.size, context);
+        await FileStorageService.wipe(path);
+      } catch (error) {
+        // Storage or queue trouble: leave the file where it is and retry next scan
+        logger.error(`Drop folder ingestion failed for ${path}:`, error);
+        continue;
+      }
+
+      await this.record(record);
+      result.processed++;
+      if (record.status === 'queued') result.queued++;
+      if (record.status === 'rejected') result.rejected++;
+    }
+
+    if (result.processed > 0) {
+      await AuditLogModel.create({
+        userId: context.userId,
+        action: 'DROP_FOLDER_INGEST',
+        resourceType: 'drop_folder',
+        details: { folder: directory, ...result }
+      });
+    }
+
+    return result;
+  }
+
+  /**
+   * Most recent drop-folder files, newest first, with worker progress for queued ones
+   */
+  static async getHistory(limit: number = 50): Promise<DropFolderActivity[]> {
+    const raw = await getRedisClient().lRange(this.HISTORY_KEY, 0, limit - 1);
+    const records: DropFolderRecord[] = raw.map(entry => JSON.parse(entry));
+
+    return Promise.all(records.map(async (record): Promise<DropFolderActivity> => {
+      if (!record.jobId) return record;
+
+      const job = await UploadQueueService.getJob(record.jobId);
+      if (!job) return record;
+
+      return {
+        ...record,
+        processing: job.status,
+        processingError: job.status === 'failed' ? job.error : undefined,
+        draftExpenseId: job.status === 'ready' ? job.result?.draftExpenseId : undefined
+      };
+    }));
+  }
+
+  private static async ingestFile(
+    folder: DropFolder,
+    name: string,
+    path: string,
+    size: number,
+    context: IntakeContext
+  ): Promise<DropFolderRecord> {
+    const base = { at: new Date().toISOString(), folder: folder.path, name, size };
+
+    // Don't read oversized files into memory just to reject them
+    if (size > InvoiceIntakeService.MAX_FILE_SIZE) {
+      return { ...base, status: 'rejected', error: 'File too large' };
+    }
+
+    const buffer = await fs.readFile(path);
+    const mimeType = detectMimeType(buffer);
+    if (!mimeType) {
+      return { ...base, status: 'rejected', error: 'Unsupported file type' };
+    }
+
+    const outcome = await InvoiceIntakeService.intake(
+      { originalName: name, buffer, mimeType },
+      { sensitivity: folder.sensitivity, draft: { source: 'folder', category: folder.category } },
+      context
+    );
+
+    switch (outcome.status) {
+      case 'queued':
+        return { ...base, status: 'queued', fileId: outcome.fileId, jobId: outcome.jobId };
+      case 'duplicate':
+        return { ...base, status: 'duplicate', error: 'Already uploaded' };
+      default:
+        return { ...base, status: 'rejected', error: outcome.error };
+    }
+  }
+
+  private static async record(record: DropFolderRecord): Promise<void> {
+    const client = getRedisClient();
+    await client.lPush(this.HISTORY_KEY, JSON.stringify(record));
+    await client.lTrim(this.HISTORY_KEY, 0, this.HISTORY_LIMIT - 1);
+  }
+}
@@ -0,0 +1,145 @@
+import { createHash, createHmac } from 'crypto';
+import { DateTime } from 'luxon';
+import { ExpenseModel } from '@/models/Expense';
+import { FileModel } from '@/models/File';
+
+export type DuplicateReason = 'same_file' | 'same_invoice' | 'similar_expense';
+
+export interface DuplicateMatch {
+  reason: DuplicateReason;
+  expenseId: number | null;
+  fileId?: number;
+  providerName?: string | null;
+  amount?: number | null;
+  date?: string | null;
+  link: string | null;
+}
+
+export interface DuplicateCandidate {
+  providerName?: string;
+  invoiceNumber?: string;
+  amount?: number;
+  date?: string;
+}
+
+export class DuplicateDetectionService {
+  // Same vendor and amount within this many days counts as a likely re-entry
+  private static readonly SIMILAR_WINDOW_DAYS = 3;
+
+  // Legal suffixes that vary between OCR, manual entry and API sources
+  private static readonly VENDOR_SUFFIXES = /\b(ltd|limited|inc|incorporated|llc|gmbh|corp|corporation|co|plc|s\.?a|b\.?v)\b\.?|בע["״”']?מ/gi;
+
+  static hashContent(buffer: Buffer): string {
+    return createHash('sha256').update(buffer).digest('hex');
+  }
+
+  /**
+   * Keyed fingerprint of vendor + invoice number + amount + date, normalized
+   * so cosmetic differences (case, punctuation, legal suffix) still collide
+   */
+  static fingerprint(candidate: DuplicateCandidate): string | null {
+    if (!candidate.providerName || candidate.amount === undefined || !candidate.date) {
+      return null;
+    }
+
+    const key = process.env.ENCRYPTION_KEY;
+    if (!key) {
+      throw new Error('Encryption key not configured');
+    }
+
+    const parts = [
+      this.normalizeVendor(candidate.providerName),
+      (candidate.invoiceNumber || '').replace(/[^a-z0-9]/gi, '').toUpperCase(),
+      Number(candidate.amount).toFixed(2),
+      candidate.date.substring(0, 10)
+    ];
+    return createHmac('sha256', key).update(parts.join('|')).digest('hex');
+  }
+
+  static normalizeVendor(name: string): string {
+    return name
+      .toLowerCase()
+      .replace(this.VENDOR_SUFFIXES, '')
+      .replace(/[^a-z0-9\u0590-\u05FF]/g, '');
+  }
+
+  /**
+   * Earlier uploads of byte-identical files by the same user
+   */
+  static async findUploadDuplicates(userId: number, contentHash: string): Promise<DuplicateMatch[]> {
+    const files = await FileModel.findByContentHash(userId, contentHash);
+    return files.map(file => ({
+      reason: 'same_file' as const,
+      expenseId: file.expense_id,
+      fileId: file.id,
+      providerName: file.expense_provider_name,
+      amount: file.expense_amount !== null ? Number(file.expense_amount) : null,
+      date: file.expense_date ? this.toDateString(file.expense_date) : null,
+      link: this.expenseLink(file.expense_id)
+    }));
+  }
+
+  /**
+   * Existing expenses that look like the same vendor invoice: an identical
+   * fingerprint, or the same vendor and amount within a few days
+   */
+  static async findExpenseDuplicates(
+    userId: number,
+    candidate: DuplicateCandidate,
+    excludeExpenseId?: number
+  ): Promise<DuplicateMatch[]> {
+    if (!candidate.providerName || candidate.amount === undefined || !candidate.date) {
+      return [];
+    }
+
+    const fingerprint = this.fingerprint(candidate);
+    const vendorKey = this.normalizeVendor(candidate.providerName);
+
+    const rows = await ExpenseModel.findDuplicateCandidates(
+      userId,
+      fingerprint,
+      Number(candidate.amount),
+      candidate.date.substring(0, 10),
+      this.SIMILAR_WINDOW_DAYS
+    );
+
+    const matches: DuplicateMatch[] = [];
+    for (const row of rows) {
+      if (row.id === excludeExpenseId) continue;
+
+      let reason: DuplicateReason | null = null;
+      if (fingerprint && row.fingerprint === fingerprint) {
+        reason = 'same_invoice';
+      } else if (this.vendorsMatch(vendorKey, this.normalizeVendor(row.provider_name || ''))) {
+        reason = 'similar_expense';
+      }
+      if (!reason) continue;
+
+      matches.push({
+        reason,
+        expenseId: row.id,
+        fileId: row.file_id || undefined,
+        providerName: row.sensitivity_level === 'HIGH' ? row.provider_masked_name || row.provider_name : row.provider_name,
+        amount: Number(row.amount),
+        date: this.toDateString(row.date),
+        link: this.expenseLink(row.id)
+      });
+    }
+
+    return matches;
+  }
+
+  static toDateString(date: Date | string): string {
+    // DATE columns come back as local midnight; format locally to avoid a UTC day shift
+    return date instanceof Date ? DateTime.fromJSDate(date).toISODate()! : String(date).substring(0, 10);
+  }
+
+  private static vendorsMatch(a: string, b: string): boolean {
+    if (!a || !b) return false;
+    return a === b || (Math.min(a.length, b.length) >= 4 && (a.includes(b) || b.includes(a)));
+  }
+
+  private static expenseLink(expenseId: number | null): string | null {
+    return expenseId ? `/api/expenses/${expenseId}` : null;
+  }
+}
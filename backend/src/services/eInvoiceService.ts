@@ -0,0 +1,139 @@
+import { logger } from '@/config/logger';
+import { PdfRasterService } from '@/services/pdfRasterService';
+import { EInvoice, looksLikeEInvoice, parseEInvoice } from '@/utils/eInvoice';
+import { InvoiceFields } from '@/utils/invoiceFields';
+import { XML_MIME_TYPES } from '@/utils/fileType';
+
+export type EInvoiceSource = 'xml' | 'pdf-attachment';
+
+export interface StructuredExtraction {
+  invoice: EInvoice;
+  source: EInvoiceSource;
+  text: string;
+  extractedData: { amount?: string; currency?: string; date?: string; vendor?: string };
+  invoiceFields: InvoiceFields;
+}
+
+/**
+ * Machine-readable invoices. When an upload is (or embeds) a valid UBL or CII
+ * invoice its values are taken as-is and OCR is skipped entirely.
+ */
+export class EInvoiceService {
+  // Attachment names used by ZUGFeRD 1.x/2.x, Factur-X and XRechnung hybrids
+  private static readonly PDF_ATTACHMENT_NAMES = [
+    'factur-x.xml',
+    'zugferd-invoice.xml',
+    'zugferd_invoice.xml',
+    'xrechnung.xml'
+  ];
+
+  /**
+   * Returns null when the file carries no structured invoice. XML uploads that
+   * fail validation are rejected; a hybrid PDF with a broken XML part falls
+   * back to OCR of the visible invoice.
+   */
+  static async extract(buffer: Buffer, mimeType: string): Promise<StructuredExtraction | null> {
+    if (XML_MIME_TYPES.includes(mimeType)) {
+      const { invoice, errors } = await parseEInvoice(buffer.toString('utf8'));
+      if (!invoice) {
+        throw new Error(`Invalid e-invoice: ${errors.join('; ')}`);
+      }
+      return this.toExtraction(invoice, 'xml');
+    }
+
+    if (mimeType === 'application/pdf') {
+      const xml = await this.findPdfAttachment(buffer);
+      if (!xml) return null;
+
+      const { invoice, errors } = await parseEInvoice(xml);
+      if (!invoice) {
+        logger.warn(`Embedded e-invoice failed validation, falling back to OCR: ${errors.join('; ')}`);
+        return null;
+      }
+      return this.toExtraction(invoice, 'pdf-attachment');
+    }
+
+    return null;
+  }
+
+  /**
+   * Structured values in the same shape as OCR extraction; nothing was
+   * inferred, so every field is fully confident
+   */
+  static toInvoiceFields(invoice: EInvoice): InvoiceFields {
+    const exact = <T>(value: T | undefined) => (value !== undefined ? { value, confidence: 1 } : undefined);
+
+    return {
+      invoiceNumber: exact(invoice.invoiceNumber),
+      invoiceDate: exact(invoice.issueDate),
+      dueDate: exact(invoice.dueDate),
+      subtotal: exact(invoice.subtotal),
+      taxAmount: exact(invoice.taxAmount),
+      taxRate: exact(invoice.taxRate),
+      total: exact(invoice.total),
+      lineItems: invoice.lineItems
+    };
+  }
+
+  /**
+   * Plain-text rendering stored in place of OCR text, so search and review
+   * work the same for structured and scanned invoices
+   */
+  static toText(invoice: EInvoice): string {
+    const lines = [
+      invoice.seller.name,
+      invoice.seller.vatId ? `VAT ID: ${invoice.seller.vatId}` : '',
+      `Invoice Number: ${invoice.invoiceNumber}`,
+      `Invoice Date: ${invoice.issueDate}`,
+      invoice.dueDate ? `Due Date: ${invoice.dueDate}` : '',
+      invoice.buyer?.name ? `Bill To: ${invoice.buyer.name}` : '',
+      '',
+      ...invoice.lineItems.map(item =>
+        [item.description, item.quantity, item.unitPrice?.toFixed(2), item.amount.toFixed(2)]
+          .filter(part => part !== undefined)
+          .join(' ')
+      ),
+      '',
+      invoice.subtotal !== undefined ? `Subtotal: ${invoice.subtotal.toFixed(2)} ${invoice.currency}` : '',
+      invoice.taxAmount !== undefined
+        ? `VAT${invoice.taxRate !== undefined ? ` ${invoice.taxRate}%` : ''}: ${invoice.taxAmount.toFixed(2)} ${invoice.currency}`
+        : '',
+      `Total: ${invoice.total.toFixed(2)} ${invoice.currency}`,
+      invoice.payable !== invoice.total ? `Amount Due: ${invoice.payable.toFixed(2)} ${invoice.currency}` : ''
+    ];
+
+    return lines.filter((line, index) => line !== '' || lines[index - 1] !== '').join('\n').trim();
+  }
+
+  private static toExtraction(invoice: EInvoice, source: EInvoiceSource): StructuredExtraction {
+    return {
+      invoice,
+      source,
+      text: this.toText(invoice),
+      extractedData: {
+        amount: invoice.total.toFixed(2),
+        currency: invoice.currency,
+        date: invoice.issueDate,
+        vendor: invoice.seller.name
+      },
+      invoiceFields: this.toInvoiceFields(invoice)
+    };
+  }
+
+  private static async findPdfAttachment(buffer: Buffer): Promise<string | null> {
+    let attachments: { filename: string; content: Buffer }[];
+    try {
+      attachments = await PdfRasterService.getAttachments(buffer);
+    } catch (error) {
+      logger.warn('Could not read PDF attachments:', error);
+      return null;
+    }
+
+    const named = attachments.find(a => this.PDF_ATTACHMENT_NAMES.includes(a.filename.toLowerCase()));
+    if (named) return named.content.toString('utf8');
+
+    // Some generators use their own file name; accept any attached invoice XML
+    const other = attachments.find(a => a.filename.toLowerCase().endsWith('.xml') && looksLikeEInvoice(a.content.toString('utf8')));
+    return other ? other.content.toString('utf8') : null;
+  }
+}
@@ -0,0 +1,231 @@
+import { promises as fs } from 'fs';
+import { join } from 'path';
+import { simpleParser } from 'mailparser';
+import MsgReader from '@kenjiuno/msgreader';
+import { ImapFlow } from 'imapflow';
+import { logger } from '@/config/logger';
+import { AuditLogModel } from '@/models/AuditLog';
+import { IntakeContext, InvoiceIntakeService } from '@/services/invoiceIntakeService';
+import { detectMimeType } from '@/utils/fileType';
+
+export interface EmailAttachment {
+  filename: string;
+  content: Buffer;
+}
+
+export interface EmailIngestionItem {
+  name: string;
+  status: 'queued' | 'duplicate' | 'rejected';
+  fileId?: number;
+  jobId?: string;
+  error?: string;
+}
+
+export interface EmailIngestionResult {
+  attachments: number;
+  items: EmailIngestionItem[];
+}
+
+export interface MailboxPollResult {
+  messages: number;
+  queued: number;
+  rejected: number;
+}
+
+/**
+ * Invoice ingestion from email. Only attachments survive parsing: sender and
+ * recipient addresses, subjects and bodies are dropped before anything is
+ * stored or logged (OPSEC), and every attachment goes through the regular
+ * upload pipeline as a draft expense.
+ */
+export class EmailIngestionService {
+  // Forwarded mail nests messages; don't follow chains deeper than this
+  private static readonly MAX_NESTING = 3;
+  private static readonly MAX_MESSAGE_SIZE = parseInt(process.env.MAX_EMAIL_SIZE || '26214400', 10); // 25MB
+  // OLE2 compound file header used by Outlook .msg files
+  private static readonly MSG_SIGNATURE = 'd0cf11e0a1b11ae1';
+
+  /**
+   * Extract invoice attachments (PDF, images, XML e-invoices) from a raw .eml or .msg message
+   */
+  static async extractAttachments(raw: Buffer, depth: number = 0): Promise<EmailAttachment[]> {
+    if (raw.length > this.MAX_MESSAGE_SIZE) {
+      throw new Error('Message too large');
+    }
+
+    const attachments = raw.toString('hex', 0, 8) === this.MSG_SIGNATURE
+      ? this.readMsgAttachments(raw)
+      : await this.readEmlAttachments(raw, depth);
+
+    const invoices: EmailAttachment[] = [];
+    for (const attachment of attachments) {
+      if (attachment.nestedMessage) {
+        if (depth < this.MAX_NESTING) {
+          invoices.push(...await this.extractAttachments(attachment.content, depth + 1));
+        }
+        continue;
+      }
+      // Content decides, not the claimed type: skips signatures, calendar invites, etc.
+      if (detectMimeType(attachment.content)) {
+        invoices.push({ filename: attachment.filename, content: attachment.content });
+      }
+    }
+    return invoices;
+  }
+
+  /**
+   * Queue every invoice attachment of a message as a draft expense
+   */
+  static async ingest(
+    raw: Buffer,
+    options: { sensitivity: 'LOW' | 'MEDIUM' | 'HIGH' },
+    context: IntakeContext
+  ): Promise<EmailIngestionResult> {
+    const attachments = await this.extractAttachments(raw);
+
+    const items: EmailIngestionItem[] = [];
+    for (const attachment of attachments) {
+      const outcome = await InvoiceIntakeService.intake(
+        { originalName: attachment.filename, buffer: attachment.content, mimeType: detectMimeType(attachment.content)! },
+        { sensitivity: options.sensitivity, draft: { source: 'email' } },
+        context
+      );
+      items.push({
+        name: attachment.filename,
+        status: outcome.status,
+        fileId: outcome.status === 'queued' ? outcome.fileId : undefined,
+        jobId: outcome.status === 'queued' ? outcome.jobId : undefined,
+        error: outcome.status === 'rejected' ? outcome.error : outcome.status === 'duplicate' ? 'Already uploaded' : undefined
+      });
+    }
+
+    await AuditLogModel.create({
+      userId: context.userId,
+      action: 'EMAIL_INGEST',
+      resourceType: 'email',
+      details: {
+        attachments: attachments.length,
+        queued: items.filter(item => item.status === 'queued').length
+      },
+      ipAddress: context.ipAddress,
+      userAgent: context.userAgent,
+      deviceFingerprint: context.deviceFingerprint,
+      geoLocation: context.geoLocation
+    });
+
+    return { attachments: attachments.length, items };
+  }
+
+  /**
+   * Ingest unseen messages from an IMAP mailbox, marking each as seen once queued
+   */
+  static async pollImap(
+    config: { host: string; port: number; secure: boolean; user: string; password: string; mailbox: string },
+    options: { sensitivity: 'LOW' | 'MEDIUM' | 'HIGH' },
+    context: IntakeContext
+  ): Promise<MailboxPollResult> {
+    const client = new ImapFlow({
+      host: config.host,
+      port: config.port,
+      secure: config.secure,
+      auth: { user: config.user, pass: config.password },
+      logger: false
+    });
+
+    const result: MailboxPollResult = { messages: 0, queued: 0, rejected: 0 };
+    await client.connect();
+    try {
+      const lock = await client.getMailboxLock(config.mailbox);
+      try {
+        // Commands can't be issued mid-fetch, so collect first and process after
+        const messages: { uid: number; source: Buffer }[] = [];
+        for await (const message of client.fetch({ seen: false }, { uid: true, source: true })) {
+          if (message.source) messages.push({ uid: message.uid, source: message.source });
+        }
+
+        for (const message of messages) {
+          await this.ingestFromMailbox(message.source, options, context, result);
+          await client.messageFlagsAdd(String(message.uid), ['\\Seen'], { uid: true });
+        }
+      } finally {
+        lock.release();
+      }
+    } finally {
+      await client.logout();
+    }
+
+    return result;
+  }
+
+  /**
+   * Ingest messages delivered to a Maildir's `new/`, then file them under `cur/` as seen
+   */
+  static async pollMaildir(
+    directory: string,
+    options: { sensitivity: 'LOW' | 'MEDIUM' | 'HIGH' },
+    context: IntakeContext
+  ): Promise<MailboxPollResult> {
+    const result: MailboxPollResult = { messages: 0, queued: 0, rejected: 0 };
+    const newDir = join(directory, 'new');
+    const curDir = join(directory, 'cur');
+
+    const names = (await fs.readdir(newDir)).filter(name => !name.startsWith('.'));
+    for (const name of names) {
+      const source = await fs.readFile(join(newDir, name));
+      await this.ingestFromMailbox(source, options, context, result);
+      await fs.rename(join(newDir, name), join(curDir, `${name.split(':')[0]}:2,S`));
+    }
+
+    return result;
+  }
+
+  private static async ingestFromMailbox(
+    source: Buffer,
+    options: { sensitivity: 'LOW' | 'MEDIUM' | 'HIGH' },
+    context: IntakeContext,
+    result: MailboxPollResult
+  ): Promise<void> {
+    result.messages++;
+    try {
+      const { items } = await this.ingest(source, options, context);
+      result.queued += items.filter(item => item.status === 'queued').length;
+      result.rejected += items.filter(item => item.status === 'rejected').length;
+    } catch (error) {
+      // One unreadable message must not block the rest of the mailbox
+      result.rejected++;
+      logger.error('Failed to ingest mailbox message:', error instanceof Error ? error.message : error);
+    }
+  }
+
+  private static async readEmlAttachments(raw: Buffer, depth: number) {
+    const parsed = await simpleParser(raw, { skipHtmlToText: true, skipTextToHtml: true, skipTextLinks: true });
+    return parsed.attachments
+      // Images referenced from the HTML body are logos and signatures, not invoices
+      .filter(attachment => !(attachment.related && attachment.contentType.startsWith('image/')))
+      .map((attachment, index) => ({
+        filename: attachment.filename || `attachment-${depth}-${index + 1}`,
+        content: attachment.content,
+        nestedMessage: attachment.contentType === 'message/rfc822'
+      }));
+  }
+
+  private static readMsgAttachments(raw: Buffer) {
+    const reader = new MsgReader(raw.buffer.slice(raw.byteOffset, raw.byteOffset + raw.byteLength) as ArrayBuffer);
+    const data = reader.getFileData();
+    if (data.error) {
+      throw new Error('Unreadable Outlook message');
+    }
+
+    return (data.attachments || [])
+      // Embedded Outlook items and hidden (inline) attachments are not invoices
+      .filter(attachment => !attachment.innerMsgContent && !attachment.attachmentHidden)
+      .map((attachment, index) => {
+        const file = reader.getAttachment(attachment);
+        return {
+          filename: file.fileName || `attachment-${index + 1}`,
+          content: Buffer.from(file.content),
+          nestedMessage: false
+        };
+      });
+  }
+}
@@ -0,0 +1,154 @@
+import ExcelJS from 'exceljs';
+import { DateTime } from 'luxon';
+import { DataReductionService } from '@/services/dataReductionService';
+import { Expense } from '@/types';
+
+export type ExportFormat = 'csv' | 'xlsx' | 'json';
+
+/**
+ * full: everything the user can see in the app.
+ * masked: MEDIUM and HIGH providers replaced by their masked name; HIGH
+ *   descriptions, tags and invoice numbers dropped since they tend to name the vendor.
+ * amounts_only: date, amount, currency, category and sensitivity; no vendor details at all.
+ */
+export type RedactionProfile = 'full' | 'masked' | 'amounts_only';
+
+export interface ExportFile {
+  body: Buffer;
+  contentType: string;
+  filename: string;
+}
+
+type ExportRow = Record<string, string | number | null>;
+
+const DETAIL_COLUMNS = [
+  'id', 'date', 'provider', 'description', 'amount', 'currency', 'reporting_amount', 'reporting_currency', 'category',
+  'tags', 'sensitivity_level', 'source_type', 'due_date', 'invoice_number', 'status'
+];
+
+const COLUMNS: Record<RedactionProfile, string[]> = {
+  full: DETAIL_COLUMNS,
+  masked: DETAIL_COLUMNS,
+  amounts_only: ['date', 'amount', 'currency', 'reporting_amount', 'reporting_currency', 'category', 'sensitivity_level', 'status']
+};
+
+export class ExpenseExportService {
+  static readonly FORMATS: ExportFormat[] = ['csv', 'xlsx', 'json'];
+  static readonly PROFILES: RedactionProfile[] = ['full', 'masked', 'amounts_only'];
+
+  static async export(expenses: Expense[], format: ExportFormat, profile: RedactionProfile): Promise<ExportFile> {
+    const rows = expenses.map(expense => this.toRow(expense, profile));
+    const columns = COLUMNS[profile];
+    const filename = `expenses-${profile}-${DateTime.now().toFormat('yyyyLLdd-HHmm')}.${format}`;
+
+    switch (format) {
+      case 'json':
+        return {
+          body: Buffer.from(JSON.stringify({ profile, exportedAt: new Date().toISOString(), expenses: rows }, null, 2)),
+          contentType: 'application/json',
+          filename
+        };
+      case 'xlsx':
+        return {
+          body: await this.toXlsx(rows, columns),
+          contentType: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+          filename
+        };
+      default:
+        return {
+          body: Buffer.from(this.toCsv(rows, columns)),
+          contentType: 'text/csv; charset=utf-8',
+          filename
+        };
+    }
+  }
+
+  private static toRow(expense: Expense, profile: RedactionProfile): ExportRow {
+    const base: ExportRow = {
+      date: this.formatDate(expense.date),
+      amount: Number(expense.amount),
+      currency: expense.currency || 'USD',
+      // Blank when no rate into the reporting currency was available for the date
+      reporting_amount: expense.reporting_amount !== null && expense.reporting_amount !== undefined
+        ? Number(expense.reporting_amount)
+        : null,
+      reporting_currency: expense.reporting_currency || null,
+      category: expense.category || null,
+      sensitivity_level: expense.sensitivity_level,
+      status: expense.status
+    };
+    if (profile === 'amounts_only') {
+      return base;
+    }
+
+    const maskProvider = profile === 'masked' && expense.sensitivity_level !== 'LOW';
+    const dropDetails = profile === 'masked' && expense.sensitivity_level === 'HIGH';
+    const provider = maskProvider
+      ? DataReductionService.maskProvider(
+          expense,
+          expense.provider_hash || DataReductionService.hashProvider(expense.provider_name)
+        )
+      : expense.provider_name;
+
+    return {
+      id: expense.id,
+      ...base,
+      provider,
+      description: dropDetails ? null : expense.description || null,
+      tags: dropDetails ? null : (expense.tags || []).join(', ') || null,
+      source_type: expense.source_type,
+      due_date: expense.due_date ? this.formatDate(expense.due_date) : null,
+      invoice_number: dropDetails ? null : expense.metadata?.invoice?.invoiceNumber?.value || null
+    };
+  }
+
+  private static toCsv(rows: ExportRow[], columns: string[]): string {
+    const lines = [columns.join(',')];
+    for (const row of rows) {
+      lines.push(columns.map(column => this.csvCell(row[column])).join(','));
+    }
+    // BOM so Excel opens Hebrew vendor names as UTF-8
+    return '\uFEFF' + lines.join('\r\n') + '\r\n';
+  }
+
+  private static csvCell(value: string | number | null | undefined): string {
+    if (value === null || value === undefined) return '';
+    if (typeof value === 'number') return String(value);
+
+    const text = this.neutralizeFormula(value);
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+  }
+
+  private static async toXlsx(rows: ExportRow[], columns: string[]): Promise<Buffer> {
+    const workbook = new ExcelJS.Workbook();
+    workbook.created = new Date();
+    const sheet = workbook.addWorksheet('Expenses');
+
+    sheet.columns = columns.map(column => ({
+      header: column,
+      key: column,
+      width: column === 'description' ? 40 : column === 'provider' ? 28 : 14
+    }));
+    sheet.getRow(1).font = { bold: true };
+
+    // Cells are written as typed values, so text starting with "=" stays text here
+    for (const row of rows) {
+      sheet.addRow(row);
+    }
+    sheet.getColumn('amount').numFmt = '#,##0.00';
+    sheet.getColumn('reporting_amount').numFmt = '#,##0.00';
+
+    return Buffer.from(await workbook.xlsx.writeBuffer());
+  }
+
+  // Invoice-derived text must not become a live formula when the CSV is opened in a spreadsheet
+  private static neutralizeFormula(value: string): string {
+    return /^[=+\-@\t\r]/.test(value) ? `'${value}` : value;
+  }
+
+  private static formatDate(value: Date | string): string {
+    return value instanceof Date
+      ? DateTime.fromJSDate(value).toISODate()!
+      : String(value).substring(0, 10);
+  }
+}
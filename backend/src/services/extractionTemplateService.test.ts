@@ -0,0 +1,55 @@
+import assert from 'node:assert/strict';
+import { afterEach, describe, it, mock } from 'node:test';
+import { ExtractionTemplateModel } from '@/models/ExtractionTemplate';
+import { ExtractionTemplateService } from '@/services/extractionTemplateService';
+import { ExtractionTemplate } from '@/types';
+import { redactText } from '@/utils/redaction';
+
+const invoice = (values: { number: string; date: string; total: string }) => redactText([
+  'Globex Consulting',
+  'www.globex.io',
+  'Bill To:',
+  'Jane Doe',
+  `Reference ${values.number}`,
+  `Issued ${values.date}`,
+  `Please remit ${values.total} to IL62 0108 0000 0009 9999 999`
+].join('\n')).text;
+
+describe('ExtractionTemplateService', () => {
+  afterEach(() => mock.restoreAll());
+
+  it('applies a template learned from redacted text to the next redacted invoice', async () => {
+    mock.method(ExtractionTemplateModel, 'upsert', async (data: Parameters<typeof ExtractionTemplateModel.upsert>[0]) => ({
+      id: 1,
+      user_id: data.userId,
+      vendor_name: data.vendorName,
+      match_patterns: data.matchPatterns,
+      rules: data.rules,
+      use_count: 0,
+      created_at: new Date(),
+      updated_at: new Date()
+    }) satisfies ExtractionTemplate);
+
+    const template = await ExtractionTemplateService.learn(7, invoice({ number: 'G-1001', date: '05/03/2024', total: '480.00' }), {
+      vendor: 'Globex Consulting',
+      amount: 480,
+      date: '2024-03-05',
+      invoiceNumber: 'G-1001'
+    });
+
+    assert.ok(template);
+    assert.deepEqual(template.match_patterns, ['Globex Consulting', 'www.globex.io']);
+    for (const rule of Object.values(template.rules)) {
+      assert.doesNotMatch(rule.anchor || '', /IBAN|NAME/);
+    }
+
+    mock.method(ExtractionTemplateModel, 'findByUser', async () => [template]);
+    const next = await ExtractionTemplateService.extract(7, invoice({ number: 'G-1002', date: '04/04/2024', total: '1,215.50' }));
+
+    assert.equal(next.template?.id, 1);
+    assert.equal(next.extractedData.vendor, 'Globex Consulting');
+    assert.equal(next.extractedData.amount, '1215.50');
+    assert.equal(next.extractedData.date, '2024-04-04');
+    assert.equal(next.invoiceFields.invoiceNumber?.value, 'G-1002');
+  });
+});
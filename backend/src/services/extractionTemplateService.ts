@@ -0,0 +1,286 @@
+import { ExtractionTemplateModel } from '@/models/ExtractionTemplate';
+import { ExtractionTemplate, TemplateFieldRule, TemplateRules } from '@/types';
+import { findDateCandidates, parseInvoiceData, tryParseDate } from '@/utils/invoiceExtraction';
+import { amountsIn, extractInvoiceFields, ExtractedField, InvoiceFields } from '@/utils/invoiceFields';
+import { PLACEHOLDER_RX } from '@/utils/redaction';
+
+export interface TemplateCorrection {
+  vendor: string;
+  amount: number;
+  date: string;
+  invoiceNumber?: string;
+}
+
+export interface TemplateResult {
+  total?: ExtractedField<number>;
+  date?: ExtractedField<string>;
+  invoiceNumber?: ExtractedField<string>;
+}
+
+type ValueReader<T> = (line: string) => T | undefined;
+
+/**
+ * Per-vendor extraction templates. A template is learned from an upload the
+ * user corrected: it records which label sits next to each value and roughly
+ * where on the page it was, plus text patterns that identify the vendor.
+ */
+export class ExtractionTemplateService {
+  // Learned regions span this far either side of where the value was found
+  private static readonly REGION_MARGIN = 0.15;
+  // Share of anchor words that must appear on a line for it to match
+  private static readonly ANCHOR_MATCH_RATIO = 0.6;
+  // User-edited patterns run on every upload; keep them short
+  private static readonly MAX_REGEX_LENGTH = 200;
+  private static readonly MAX_PATTERNS = 5;
+
+  private static readonly DOMAIN_RX = /\b[a-z0-9-]+(?:\.[a-z0-9-]+)*\.(?:com|io|net|org|co\.il|org\.il|co\.uk|de|eu)\b/gi;
+  private static readonly INVOICE_NUMBER_RX = /[A-Z0-9][A-Z0-9\-/_.]*\d[A-Z0-9\-/_.]*/i;
+
+  /**
+   * Generic extraction, overridden field by field by the user's template for
+   * this vendor when one matches
+   */
+  static async extract(userId: number, text: string): Promise<{
+    extractedData: ReturnType<typeof parseInvoiceData>;
+    invoiceFields: InvoiceFields;
+    template: ExtractionTemplate | null;
+  }> {
+    const extractedData = parseInvoiceData(text);
+    const invoiceFields = extractInvoiceFields(text);
+    // The labelled grand total beats the first amount found in the text
+    if (invoiceFields.total) {
+      extractedData.amount = invoiceFields.total.value.toFixed(2);
+    }
+
+    const template = await this.findForText(userId, text);
+    if (template) {
+      const templated = this.apply(template, text);
+      extractedData.vendor = template.vendor_name;
+      if (templated.total) {
+        extractedData.amount = templated.total.value.toFixed(2);
+        invoiceFields.total = templated.total;
+      }
+      if (templated.date) {
+        extractedData.date = templated.date.value;
+        invoiceFields.invoiceDate = templated.date;
+      }
+      if (templated.invoiceNumber) {
+        invoiceFields.invoiceNumber = templated.invoiceNumber;
+      }
+    }
+
+    return { extractedData, invoiceFields, template };
+  }
+
+  /**
+   * Learn (or relearn) a vendor template from OCR text and the values the user
+   * confirmed. Returns null when none of the values can be found in the text.
+   */
+  static async learn(userId: number, text: string, correction: TemplateCorrection): Promise<ExtractionTemplate | null> {
+    const lines = this.splitLines(text);
+    const rules: TemplateRules = {};
+
+    const totalLine = this.lastIndex(lines, line => amountsIn(line).some(a => Math.abs(a - correction.amount) < 0.005));
+    if (totalLine >= 0) rules.total = this.ruleFor(lines, totalLine);
+
+    const dateLine = lines.findIndex(line => this.datesIn(line).includes(correction.date));
+    if (dateLine >= 0) rules.date = this.ruleFor(lines, dateLine);
+
+    if (correction.invoiceNumber) {
+      const wanted = correction.invoiceNumber.trim().toLowerCase();
+      const invoiceLine = lines.findIndex(line => line.toLowerCase().includes(wanted));
+      if (invoiceLine >= 0) rules.invoiceNumber = this.ruleFor(lines, invoiceLine);
+    }
+
+    if (!rules.total && !rules.date && !rules.invoiceNumber) {
+      return null;
+    }
+
+    return ExtractionTemplateModel.upsert({
+      userId,
+      vendorName: correction.vendor.trim(),
+      matchPatterns: this.learnMatchPatterns(text, lines, correction.vendor),
+      rules
+    });
+  }
+
+  /**
+   * Pick the user's template whose patterns best match the text, if any
+   */
+  static async findForText(userId: number, text: string): Promise<ExtractionTemplate | null> {
+    const templates = await ExtractionTemplateModel.findByUser(userId);
+    const haystack = text.toLowerCase();
+
+    let best: ExtractionTemplate | null = null;
+    let bestScore = 0;
+    for (const template of templates) {
+      // Longer matched patterns are more specific than a short brand name
+      const score = template.match_patterns
+        .filter(pattern => pattern && haystack.includes(pattern.toLowerCase()))
+        .reduce((sum, pattern) => sum + pattern.length, 0);
+      if (score > bestScore) {
+        best = template;
+        bestScore = score;
+      }
+    }
+
+    return best;
+  }
+
+  static apply(template: ExtractionTemplate, text: string): TemplateResult {
+    const lines = this.splitLines(text);
+    const { rules } = template;
+
+    return {
+      total: rules.total && this.applyRule(rules.total, lines, line => {
+        const amounts = amountsIn(line);
+        return amounts.length > 0 ? amounts[amounts.length - 1] : undefined;
+      }),
+      date: rules.date && this.applyRule(rules.date, lines, line => this.readDate(line)),
+      invoiceNumber: rules.invoiceNumber && this.applyRule(rules.invoiceNumber, lines, line => {
+        return line.match(this.INVOICE_NUMBER_RX)?.[0];
+      })
+    };
+  }
+
+  /**
+   * Validate user-edited rules; returns an error message or null
+   */
+  static validateRules(rules: TemplateRules): string | null {
+    for (const [field, rule] of Object.entries(rules || {}) as [string, TemplateFieldRule][]) {
+      if (!['total', 'date', 'invoiceNumber'].includes(field)) {
+        return `Unknown template field: ${field}`;
+      }
+      if (rule.regex !== undefined) {
+        if (rule.regex.length > this.MAX_REGEX_LENGTH) {
+          return `Pattern for ${field} is too long`;
+        }
+        try {
+          new RegExp(rule.regex, 'im');
+        } catch {
+          return `Invalid pattern for ${field}`;
+        }
+      }
+      if (rule.region && !(rule.region.from >= 0 && rule.region.to <= 1 && rule.region.from < rule.region.to)) {
+        return `Invalid region for ${field}`;
+      }
+    }
+    return null;
+  }
+
+  private static applyRule<T>(rule: TemplateFieldRule, lines: string[], read: ValueReader<T>): ExtractedField<T> | undefined {
+    const regionLines = this.linesInRegion(lines, rule.region);
+
+    if (rule.regex) {
+      const match = regionLines.join('\n').match(new RegExp(rule.regex, 'im'));
+      const value = match ? read(match[1] ?? match[0]) : undefined;
+      return value !== undefined ? { value, confidence: 0.95 } : undefined;
+    }
+
+    if (!rule.anchor) return undefined;
+
+    // Look inside the learned region first, then anywhere on the page
+    const inRegion = this.readAtAnchor(rule, regionLines, read);
+    if (inRegion !== undefined) return { value: inRegion, confidence: 0.9 };
+
+    const anywhere = this.readAtAnchor(rule, lines, read);
+    return anywhere !== undefined ? { value: anywhere, confidence: 0.7 } : undefined;
+  }
+
+  private static readAtAnchor<T>(rule: TemplateFieldRule, lines: string[], read: ValueReader<T>): T | undefined {
+    const anchorWords = this.words(rule.anchor!);
+    if (anchorWords.length === 0) return undefined;
+
+    for (let i = 0; i < lines.length; i++) {
+      const lineWords = new Set(this.words(lines[i]));
+      const matched = anchorWords.filter(word => lineWords.has(word)).length;
+      if (matched / anchorWords.length < this.ANCHOR_MATCH_RATIO) continue;
+
+      const target = rule.position === 'next_line' ? lines[i + 1] : lines[i];
+      const value = target !== undefined ? read(target) : undefined;
+      if (value !== undefined) return value;
+    }
+    return undefined;
+  }
+
+  /**
+   * Anchor on the label beside the value; a value alone on its line is
+   * anchored on the line above it
+   */
+  private static ruleFor(lines: string[], index: number): TemplateFieldRule {
+    const position = index / Math.max(lines.length - 1, 1);
+    const region = {
+      from: Math.max(0, Math.round((position - this.REGION_MARGIN) * 100) / 100),
+      to: Math.min(1, Math.round((position + this.REGION_MARGIN) * 100) / 100)
+    };
+
+    const label = this.labelOf(lines[index]);
+    if (label.length >= 3 || index === 0) {
+      return { anchor: label, position: 'same_line', region };
+    }
+    return { anchor: this.labelOf(lines[index - 1]), position: 'next_line', region };
+  }
+
+  private static learnMatchPatterns(text: string, lines: string[], vendor: string): string[] {
+    const patterns = new Set<string>();
+
+    if (text.toLowerCase().includes(vendor.trim().toLowerCase())) {
+      patterns.add(vendor.trim());
+    }
+
+    // Vendor domains (aws.amazon.com, slack.com) are stable across invoices
+    for (const domain of text.match(this.DOMAIN_RX) || []) {
+      patterns.add(domain.toLowerCase());
+    }
+
+    if (patterns.size === 0) {
+      // Fall back to the letterhead: the first line with words in it
+      const header = lines.find(line => this.labelOf(line).length >= 3);
+      if (header) patterns.add(header);
+    }
+
+    return Array.from(patterns).slice(0, this.MAX_PATTERNS);
+  }
+
+  private static linesInRegion(lines: string[], region?: { from: number; to: number }): string[] {
+    if (!region || lines.length === 0) return lines;
+    const last = lines.length - 1;
+    return lines.slice(Math.floor(region.from * last), Math.ceil(region.to * last) + 1);
+  }
+
+  private static readDate(line: string): string | undefined {
+    return this.datesIn(line)[0];
+  }
+
+  private static datesIn(line: string): string[] {
+    return findDateCandidates(line).map(tryParseDate).filter((d): d is string => !!d);
+  }
+
+  /**
+   * Redaction placeholders appear on every invoice, so they never anchor a
+   * field or identify a vendor
+   */
+  private static labelOf(line: string): string {
+    return line
+      .replace(PLACEHOLDER_RX, ' ')
+      .replace(/[\d.,:;$€£₪%#/\\()[\]-]+/g, ' ')
+      .replace(/\b(usd|eur|gbp|ils|nis)\b/gi, ' ')
+      .replace(/\s+/g, ' ')
+      .trim();
+  }
+
+  private static words(text: string): string[] {
+    return this.labelOf(text).toLowerCase().split(' ').filter(word => word.length > 1);
+  }
+
+  private static splitLines(text: string): string[] {
+    return text.replace(/\r/g, '').split('\n').map(l => l.replace(/[ \t]+/g, ' ').trim()).filter(Boolean);
+  }
+
+  private static lastIndex(lines: string[], predicate: (line: string) => boolean): number {
+    for (let i = lines.length - 1; i >= 0; i--) {
+      if (predicate(lines[i])) return i;
+    }
+    return -1;
+  }
+}
@@ -0,0 +1,66 @@
+import assert from 'node:assert/strict';
+import { promises as fs } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { afterEach, beforeEach, describe, it } from 'node:test';
+import { FileStorageService } from '@/services/fileStorageService';
+
+describe('FileStorageService', () => {
+  const env = { ENCRYPTION_KEY: process.env.ENCRYPTION_KEY, UPLOAD_DIR: process.env.UPLOAD_DIR };
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(join(tmpdir(), 'uploads-'));
+    process.env.UPLOAD_DIR = dir;
+    process.env.ENCRYPTION_KEY = 'test-secret';
+  });
+
+  afterEach(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+    for (const [name, value] of Object.entries(env)) {
+      if (value === undefined) delete process.env[name];
+      else process.env[name] = value;
+    }
+  });
+
+  const invoice = Buffer.from('%PDF-1.4 Invoice 1001 Total 250.00');
+
+  it('stores files encrypted and reads them back', async () => {
+    const stored = await FileStorageService.store(invoice);
+
+    assert.match(stored.encryptedFilename, /^[0-9a-f]{32}\.enc$/);
+    assert.equal(stored.encryptionKeyHash, FileStorageService.getKeyHash());
+
+    const onDisk = await fs.readFile(join(dir, stored.encryptedFilename));
+    assert.equal(onDisk.length, invoice.length + 12 + 16);
+    assert.equal(onDisk.includes(Buffer.from('Invoice 1001')), false);
+
+    assert.deepEqual(await FileStorageService.retrieve(stored.encryptedFilename, stored.encryptionKeyHash), invoice);
+  });
+
+  it('refuses files encrypted with another key or tampered with', async () => {
+    const stored = await FileStorageService.store(invoice);
+
+    await assert.rejects(FileStorageService.retrieve(stored.encryptedFilename, 'other'), /different key/);
+
+    const path = join(dir, stored.encryptedFilename);
+    const payload = await fs.readFile(path);
+    payload[payload.length - 1] ^= 0xff;
+    await fs.writeFile(path, payload);
+    await assert.rejects(FileStorageService.retrieve(stored.encryptedFilename, stored.encryptionKeyHash));
+  });
+
+  it('rejects stored names that leave the upload directory', async () => {
+    await assert.rejects(FileStorageService.retrieve('../secrets.enc', FileStorageService.getKeyHash()), /Invalid stored filename/);
+    await assert.rejects(FileStorageService.secureDelete('../secrets.enc'), /Invalid stored filename/);
+  });
+
+  it('securely deletes stored files and tolerates missing ones', async () => {
+    const stored = await FileStorageService.store(invoice);
+
+    await FileStorageService.secureDelete(stored.encryptedFilename);
+    await assert.rejects(fs.access(join(dir, stored.encryptedFilename)));
+
+    await FileStorageService.secureDelete(stored.encryptedFilename);
+  });
+});
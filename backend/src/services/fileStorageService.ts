@@ -0,0 +1,123 @@
+import { createCipheriv, createDecipheriv, createHash, randomBytes } from 'crypto';
+import { promises as fs } from 'fs';
+import { basename, join, resolve } from 'path';
+import { logger } from '@/config/logger';
+
+export interface StoredFile {
+  encryptedFilename: string;
+  encryptionKeyHash: string;
+}
+
+export class FileStorageService {
+  private static readonly ALGORITHM = 'aes-256-gcm';
+  private static readonly IV_LENGTH = 12;
+  private static readonly TAG_LENGTH = 16;
+
+  /**
+   * Encrypt a file buffer and write it to the upload directory.
+   * Layout on disk: IV (12 bytes) | auth tag (16 bytes) | ciphertext
+   */
+  static async store(buffer: Buffer): Promise<StoredFile> {
+    const key = this.getKey();
+    const iv = randomBytes(this.IV_LENGTH);
+    const encryptedFilename = `${randomBytes(16).toString('hex')}.enc`;
+
+    const cipher = createCipheriv(this.ALGORITHM, key, iv);
+    const ciphertext = Buffer.concat([cipher.update(buffer), cipher.final()]);
+    const tag = cipher.getAuthTag();
+
+    const dir = this.getStorageDir();
+    await fs.mkdir(dir, { recursive: true, mode: 0o700 });
+    await fs.writeFile(join(dir, encryptedFilename), Buffer.concat([iv, tag, ciphertext]), { mode: 0o600 });
+
+    logger.info(`Stored encrypted file ${encryptedFilename} (${buffer.length} bytes)`);
+
+    return {
+      encryptedFilename,
+      encryptionKeyHash: this.getKeyHash()
+    };
+  }
+
+  /**
+   * Read and decrypt a stored file
+   */
+  static async retrieve(encryptedFilename: string, encryptionKeyHash: string): Promise<Buffer> {
+    if (encryptionKeyHash !== this.getKeyHash()) {
+      throw new Error('File was encrypted with a different key');
+    }
+
+    const payload = await fs.readFile(this.resolvePath(encryptedFilename));
+    const iv = payload.subarray(0, this.IV_LENGTH);
+    const tag = payload.subarray(this.IV_LENGTH, this.IV_LENGTH + this.TAG_LENGTH);
+    const ciphertext = payload.subarray(this.IV_LENGTH + this.TAG_LENGTH);
+
+    const decipher = createDecipheriv(this.ALGORITHM, this.getKey(), iv);
+    decipher.setAuthTag(tag);
+
+    return Buffer.concat([decipher.update(ciphertext), decipher.final()]);
+  }
+
+  /**
+   * Overwrite a stored file with random bytes before unlinking it.
+   * Missing files are treated as already deleted.
+   */
+  static async secureDelete(encryptedFilename: string): Promise<void> {
+    if (!await this.wipe(this.resolvePath(encryptedFilename))) {
+      logger.warn(`Stored file ${encryptedFilename} already removed`);
+      return;
+    }
+    logger.info(`Securely deleted stored file ${encryptedFilename}`);
+  }
+
+  /**
+   * Overwrite any file with random bytes, then unlink it.
+   * Returns false if the file did not exist.
+   */
+  static async wipe(path: string): Promise<boolean> {
+    let handle: fs.FileHandle | undefined;
+    try {
+      handle = await fs.open(path, 'r+');
+      const { size } = await handle.stat();
+      await handle.write(randomBytes(size), 0, size, 0);
+      await handle.sync();
+    } catch (error: any) {
+      if (error?.code === 'ENOENT') {
+        return false;
+      }
+      throw error;
+    } finally {
+      await handle?.close();
+    }
+
+    await fs.unlink(path);
+    return true;
+  }
+
+  /**
+   * Hash of the active key, stored alongside each file so key rotation can be detected
+   */
+  static getKeyHash(): string {
+    return createHash('sha256').update(this.getKey()).digest('hex');
+  }
+
+  private static getKey(): Buffer {
+    const secret = process.env.ENCRYPTION_KEY;
+    if (!secret) {
+      throw new Error('Encryption key not configured');
+    }
+    // Derive a fixed-length 256-bit key regardless of the configured secret's length
+    return createHash('sha256').update(secret).digest();
+  }
+
+  private static getStorageDir(): string {
+    return resolve(process.env.UPLOAD_DIR || 'uploads');
+  }
+
+  private static resolvePath(encryptedFilename: string): string {
+    // Stored names are generated by us; reject anything that could escape the storage dir
+    if (basename(encryptedFilename) !== encryptedFilename) {
+      throw new Error('Invalid stored filename');
+    }
+    return join(this.getStorageDir(), encryptedFilename);
+  }
+}
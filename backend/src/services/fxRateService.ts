@@ -0,0 +1,76 @@
+import { getFxMaxRateAgeDays, getReportingCurrency } from '@/config/currency';
+import { ExpenseModel } from '@/models/Expense';
+import { FxRateModel } from '@/models/FxRate';
+import { parseFxRates, FxRateFormat } from '@/utils/fxRates';
+import { decodeStatement } from '@/utils/statementParsing';
+
+export interface FxImportResult {
+  format: FxRateFormat;
+  imported: number;
+  skipped: number;
+  from: string;
+  to: string;
+  currencies: string[];
+  // Expenses (re)converted with the new rates
+  converted: number;
+}
+
+export interface FxStatus {
+  reportingCurrency: string;
+  maxRateAgeDays: number;
+  coverage: Awaited<ReturnType<typeof FxRateModel.getCoverage>>;
+  // The user's expenses still waiting for a rate, by currency
+  unconverted: Awaited<ReturnType<typeof ExpenseModel.findUnconverted>>;
+}
+
+/**
+ * Local FX rate table. Rates come from files (ECB reference rates or a plain
+ * CSV); nothing is fetched from a live service. Expenses are converted into
+ * the reporting currency at the rate of their own date when they are saved,
+ * and again whenever rates covering their date are imported.
+ */
+export class FxRateService {
+  static readonly MAX_FILE_SIZE = 20 * 1024 * 1024; // the full ECB history is ~7MB
+
+  static async importFile(buffer: Buffer): Promise<FxImportResult | { error: string }> {
+    const parsed = parseFxRates(decodeStatement(buffer));
+    if (!parsed) {
+      return { error: 'Unrecognized rate file. Use ECB reference rates (XML or CSV) or a CSV with date, base, quote and rate columns.' };
+    }
+    if (parsed.rates.length === 0) {
+      return { error: 'No valid rates found in the file' };
+    }
+
+    const dates = parsed.rates.map(rate => rate.date).sort();
+    const from = dates[0];
+    const to = dates[dates.length - 1];
+    const currencies = Array.from(new Set(parsed.rates.flatMap(rate => [rate.base, rate.quote]))).sort();
+
+    const imported = await FxRateModel.upsertMany(parsed.rates, parsed.format);
+    const converted = await ExpenseModel.refreshConversions({ from, to });
+
+    return { format: parsed.format, imported, skipped: parsed.skipped, from, to, currencies, converted: converted.length };
+  }
+
+  static async getStatus(userId: number): Promise<FxStatus> {
+    const [coverage, unconverted] = await Promise.all([
+      FxRateModel.getCoverage(),
+      ExpenseModel.findUnconverted(userId)
+    ]);
+
+    return {
+      reportingCurrency: getReportingCurrency(),
+      maxRateAgeDays: getFxMaxRateAgeDays(),
+      coverage,
+      unconverted
+    };
+  }
+
+  /**
+   * Amount in another currency at the rate of `date`; null when no rate is known
+   */
+  static async convert(amount: number, from: string, to: string, date: string): Promise<number | null> {
+    const rate = await FxRateModel.findRate(from, to, date, getFxMaxRateAgeDays());
+    return rate === null ? null : Math.round(amount * rate * 100) / 100;
+  }
+}
@@ -0,0 +1,118 @@
+import { FileModel } from '@/models/File';
+import { AuditLogModel } from '@/models/AuditLog';
+import { FileStorageService } from '@/services/fileStorageService';
+import { DraftOptions, UploadQueueService } from '@/services/uploadQueueService';
+import { DuplicateDetectionService, DuplicateMatch } from '@/services/duplicateDetectionService';
+import { validateFileType } from '@/utils/fileType';
+
+export interface IntakeFile {
+  originalName: string;
+  buffer: Buffer;
+  mimeType: string;
+}
+
+export interface IntakeOptions {
+  sensitivity: 'LOW' | 'MEDIUM' | 'HIGH';
+  allowDuplicate?: boolean;
+  // Automated ingestion turns the extraction result into a draft expense
+  draft?: DraftOptions;
+}
+
+/**
+ * Who the invoice belongs to and, for requests, where it came from. Background
+ * ingestion (mailbox, drop folder) has no client to record.
+ */
+export interface IntakeContext {
+  userId: number;
+  ipAddress?: string;
+  userAgent?: string;
+  deviceFingerprint?: string;
+  geoLocation?: any;
+}
+
+export type IntakeOutcome =
+  | { status: 'queued'; fileId: number; jobId: string; duplicates: DuplicateMatch[] }
+  | { status: 'duplicate'; duplicates: DuplicateMatch[] }
+  | { status: 'rejected'; error: string; statusCode: number };
+
+/**
+ * The single way an invoice enters the system: validated, encrypted at rest,
+ * recorded in `files` and queued for scanning + extraction. Uploads, email and
+ * the drop folder all go through here so they get the same checks and audit trail.
+ */
+export class InvoiceIntakeService {
+  static readonly MAX_FILE_SIZE = parseInt(process.env.MAX_FILE_SIZE || '10485760', 10); // 10MB
+  // Uploads never confirmed into an expense are purged after this window
+  private static readonly UNCONFIRMED_UPLOAD_TTL_MS = 24 * 60 * 60 * 1000;
+
+  static async intake(file: IntakeFile, options: IntakeOptions, context: IntakeContext): Promise<IntakeOutcome> {
+    const { userId } = context;
+
+    if (file.buffer.length > this.MAX_FILE_SIZE) {
+      return { status: 'rejected', error: 'File too large', statusCode: 413 };
+    }
+    if (!validateFileType(file.buffer, file.mimeType)) {
+      return { status: 'rejected', error: 'Invalid file format', statusCode: 400 };
+    }
+
+    // Re-uploading the same file needs an explicit, audited override
+    const contentHash = DuplicateDetectionService.hashContent(file.buffer);
+    const duplicates = await DuplicateDetectionService.findUploadDuplicates(userId, contentHash);
+    if (duplicates.length > 0 && !options.allowDuplicate) {
+      return { status: 'duplicate', duplicates };
+    }
+
+    // Persist the original encrypted. Until an expense is confirmed from it the upload
+    // is treated as disposable; RetentionService assigns the real tier on confirm.
+    const stored = await FileStorageService.store(file.buffer);
+    const fileRecord = await FileModel.create({
+      originalFilename: file.originalName,
+      encryptedFilename: stored.encryptedFilename,
+      fileSize: file.buffer.length,
+      mimeType: file.mimeType,
+      encryptionKeyHash: stored.encryptionKeyHash,
+      sensitivityLevel: options.sensitivity,
+      retentionPolicy: 'immediate',
+      uploadedBy: userId,
+      expiresAt: new Date(Date.now() + this.UNCONFIRMED_UPLOAD_TTL_MS),
+      contentHash
+    });
+
+    // Scanning and extraction run in the background worker
+    const job = await UploadQueueService.enqueue(fileRecord.id, userId, options.draft);
+
+    await AuditLogModel.create({
+      userId,
+      action: 'FILE_UPLOAD',
+      resourceType: 'file',
+      resourceId: fileRecord.id,
+      details: {
+        size: file.buffer.length,
+        mimeType: file.mimeType,
+        sensitivity: options.sensitivity,
+        jobId: job.id,
+        ...(options.draft && { source: options.draft.source })
+      },
+      ipAddress: context.ipAddress,
+      userAgent: context.userAgent,
+      deviceFingerprint: context.deviceFingerprint,
+      geoLocation: context.geoLocation
+    });
+
+    if (duplicates.length > 0) {
+      await AuditLogModel.create({
+        userId,
+        action: 'DUPLICATE_OVERRIDE',
+        resourceType: 'file',
+        resourceId: fileRecord.id,
+        details: { reason: 'same_file', duplicates: duplicates.map(d => ({ fileId: d.fileId, expenseId: d.expenseId })) },
+        ipAddress: context.ipAddress,
+        userAgent: context.userAgent,
+        deviceFingerprint: context.deviceFingerprint,
+        geoLocation: context.geoLocation
+      });
+    }
+
+    return { status: 'queued', fileId: fileRecord.id, jobId: job.id, duplicates };
+  }
+}
@@ -0,0 +1,129 @@
+import { createCanvas, Canvas, SKRSContext2D, DOMMatrix, ImageData, Path2D } from '@napi-rs/canvas';
+import { logger } from '@/config/logger';
+
+type PdfJs = typeof import('pdfjs-dist/legacy/build/pdf.js');
+
+let pdfjsModule: PdfJs | null = null;
+
+/**
+ * pdf.js probes for DOM geometry classes when it is first loaded, so provide
+ * the @napi-rs/canvas implementations before requiring it
+ */
+async function loadPdfjs(): Promise<PdfJs> {
+  if (!pdfjsModule) {
+    const globals = globalThis as any;
+    globals.DOMMatrix ??= DOMMatrix;
+    globals.ImageData ??= ImageData;
+    globals.Path2D ??= Path2D;
+    pdfjsModule = await import('pdfjs-dist/legacy/build/pdf.js');
+  }
+  return pdfjsModule;
+}
+
+interface CanvasAndContext {
+  canvas: Canvas | null;
+  context: SKRSContext2D | null;
+}
+
+/**
+ * pdf.js canvas factory backed by @napi-rs/canvas, so pages (and the images
+ * embedded in scanned PDFs) can be rendered without a browser or native `canvas` build
+ */
+class NapiCanvasFactory {
+  create(width: number, height: number): CanvasAndContext {
+    const canvas = createCanvas(width, height);
+    return { canvas, context: canvas.getContext('2d') };
+  }
+
+  reset(target: CanvasAndContext, width: number, height: number): void {
+    if (!target.canvas) return;
+    target.canvas.width = width;
+    target.canvas.height = height;
+  }
+
+  destroy(target: CanvasAndContext): void {
+    if (target.canvas) {
+      target.canvas.width = 0;
+      target.canvas.height = 0;
+    }
+    target.canvas = null;
+    target.context = null;
+  }
+}
+
+export interface RenderedPage {
+  page: number;
+  image: Buffer;
+}
+
+export class PdfRasterService {
+  // Scale 2 renders at ~144 DPI, enough for Tesseract on typical invoice fonts
+  private static readonly DEFAULT_SCALE = 2;
+
+  /**
+   * Render PDF pages to PNG images, locally and in-process
+   */
+  static async renderPages(buffer: Buffer, options: { maxPages?: number; scale?: number } = {}): Promise<RenderedPage[]> {
+    const scale = options.scale || this.DEFAULT_SCALE;
+    const canvasFactory = new NapiCanvasFactory();
+    const pdfjs = await loadPdfjs();
+
+    const doc = await pdfjs.getDocument({
+      data: new Uint8Array(buffer),
+      canvasFactory,
+      isEvalSupported: false,
+      disableFontFace: true,
+      verbosity: 0
+    }).promise;
+
+    try {
+      const pageCount = options.maxPages ? Math.min(doc.numPages, options.maxPages) : doc.numPages;
+      if (pageCount < doc.numPages) {
+        logger.warn(`PDF has ${doc.numPages} pages; rendering only the first ${pageCount}`);
+      }
+
+      const pages: RenderedPage[] = [];
+      for (let pageNumber = 1; pageNumber <= pageCount; pageNumber++) {
+        const page = await doc.getPage(pageNumber);
+        const viewport = page.getViewport({ scale });
+        const { canvas, context } = canvasFactory.create(Math.ceil(viewport.width), Math.ceil(viewport.height));
+
+        // Scans often have transparent regions; OCR expects dark text on white
+        context!.fillStyle = '#ffffff';
+        context!.fillRect(0, 0, canvas!.width, canvas!.height);
+
+        await page.render({ canvasContext: context as any, viewport }).promise;
+        pages.push({ page: pageNumber, image: canvas!.toBuffer('image/png') });
+
+        page.cleanup();
+      }
+
+      return pages;
+    } finally {
+      await doc.destroy();
+    }
+  }
+
+  /**
+   * Files embedded in the PDF (e.g. the XML of a ZUGFeRD / Factur-X invoice)
+   */
+  static async getAttachments(buffer: Buffer): Promise<{ filename: string; content: Buffer }[]> {
+    const pdfjs = await loadPdfjs();
+    const doc = await pdfjs.getDocument({
+      data: new Uint8Array(buffer),
+      isEvalSupported: false,
+      disableFontFace: true,
+      verbosity: 0
+    }).promise;
+
+    try {
+      const attachments = (await doc.getAttachments()) || {};
+      return Object.values(attachments).map((attachment: any) => ({
+        filename: String(attachment.filename || ''),
+        content: Buffer.from(attachment.content)
+      }));
+    } finally {
+      await doc.destroy();
+    }
+  }
+}
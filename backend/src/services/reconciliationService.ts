@@ -0,0 +1,265 @@
+import { DateTime } from 'luxon';
+import { BankTransactionModel } from '@/models/BankTransaction';
+import { ExpenseModel } from '@/models/Expense';
+import { DuplicateDetectionService } from '@/services/duplicateDetectionService';
+import { BankTransaction, Expense } from '@/types';
+
+export interface MatchCandidate {
+  expenseId: number;
+  providerName: string;
+  amount: number;
+  outstanding: number;
+  currency: string;
+  date: string;
+  dueDate: string | null;
+  paymentStatus: Expense['payment_status'];
+  score: number;
+  // Pays only part of what is still owed
+  partial: boolean;
+  signals: {
+    amount: number;
+    date: number;
+    vendor: number;
+  };
+}
+
+export interface AutoMatchResult {
+  matched: number;
+  transactionIds: number[];
+  expenseIds: number[];
+}
+
+/**
+ * Matches money-out bank transactions to the expenses they paid, and derives
+ * each expense's payment status from its matches. An expense can be paid by
+ * several transactions (instalments); a transaction pays at most one expense.
+ */
+export class ReconciliationService {
+  // Cards are often charged before the invoice is issued, and bills paid after they fall due
+  private static readonly DAYS_BEFORE_INVOICE = 7;
+  private static readonly DAYS_AFTER_DUE = 45;
+  // Oldest invoice date considered, so long due-date terms still fit the window
+  private static readonly LOOKBACK_DAYS = 180;
+
+  static readonly AUTO_MATCH_SCORE = 0.8;
+  // The best candidate must beat the runner-up by this much to be matched without a person
+  private static readonly AUTO_MATCH_MARGIN = 0.1;
+
+  private static readonly WEIGHTS = { amount: 0.45, date: 0.2, vendor: 0.35 };
+
+  /**
+   * Match every unmatched transaction with one clear, confident candidate
+   */
+  static async autoMatch(userId: number): Promise<AutoMatchResult> {
+    const result: AutoMatchResult = { matched: 0, transactionIds: [], expenseIds: [] };
+
+    const transactions = await BankTransactionModel.findUnmatched(userId);
+    if (transactions.length === 0) return result;
+
+    const expenses = await this.loadExpenses(userId, transactions);
+    const outstanding = new Map(expenses.map(expense => [expense.id, this.outstanding(expense)]));
+
+    const proposals: { transaction: BankTransaction; candidate: MatchCandidate }[] = [];
+    for (const transaction of transactions) {
+      const candidates = this.rank(transaction, expenses, outstanding);
+      const [best, runnerUp] = candidates;
+      if (!best || best.score < this.AUTO_MATCH_SCORE) continue;
+      if (runnerUp && best.score - runnerUp.score < this.AUTO_MATCH_MARGIN) continue;
+      proposals.push({ transaction, candidate: best });
+    }
+
+    // Strongest first, so a weaker proposal cannot use up an expense's unpaid amount
+    proposals.sort((a, b) => b.candidate.score - a.candidate.score);
+
+    const touched = new Set<number>();
+    for (const { transaction, candidate } of proposals) {
+      const remaining = outstanding.get(candidate.expenseId) || 0;
+      const amount = Number(transaction.amount);
+      if (amount > remaining + 0.005) continue;
+
+      const matched = await BankTransactionModel.match(transaction.id, userId, candidate.expenseId, 'auto', candidate.score);
+      if (!matched) continue;
+
+      outstanding.set(candidate.expenseId, remaining - amount);
+      touched.add(candidate.expenseId);
+      result.matched++;
+      result.transactionIds.push(transaction.id);
+    }
+
+    result.expenseIds = Array.from(touched);
+    await ExpenseModel.refreshPaymentStatus(result.expenseIds);
+
+    return result;
+  }
+
+  /**
+   * Scored expenses this transaction could be paying, best first
+   */
+  static async findCandidates(userId: number, transaction: BankTransaction, limit = 10): Promise<MatchCandidate[]> {
+    const expenses = await this.loadExpenses(userId, [transaction]);
+    const outstanding = new Map(expenses.map(expense => [expense.id, this.outstanding(expense)]));
+
+    return this.rank(transaction, expenses, outstanding).slice(0, limit);
+  }
+
+  /**
+   * Manually attach a transaction to an expense. Returns an error message when
+   * the pair cannot be matched.
+   */
+  static async match(
+    userId: number,
+    transaction: BankTransaction,
+    expense: Expense
+  ): Promise<{ transaction: BankTransaction } | { error: string }> {
+    if (transaction.expense_id) {
+      return { error: 'Transaction is already matched' };
+    }
+    if (transaction.ignored_at) {
+      return { error: 'Transaction is ignored; restore it first' };
+    }
+    if (expense.status !== 'approved') {
+      return { error: 'Approve the draft before matching a payment to it' };
+    }
+    if (expense.source_type === 'import') {
+      return { error: 'Imported expenses are already backed by their own statement line' };
+    }
+    if (transaction.currency !== expense.currency) {
+      return { error: `Transaction is in ${transaction.currency} but the expense is in ${expense.currency}` };
+    }
+    if (Number(transaction.amount) > this.outstanding(expense) + 0.005) {
+      return { error: 'Transaction amount is more than the expense still owes' };
+    }
+
+    // Kept for reference; a person may match outside the window the scorer considers
+    const candidate = this.score(transaction, expense, this.outstanding(expense));
+    const matched = await BankTransactionModel.match(transaction.id, userId, expense.id, 'manual', candidate?.score);
+    if (!matched) {
+      return { error: 'Transaction is already matched' };
+    }
+
+    await ExpenseModel.refreshPaymentStatus([expense.id]);
+    return { transaction: matched };
+  }
+
+  static async unmatch(userId: number, transaction: BankTransaction): Promise<{ transaction: BankTransaction } | { error: string }> {
+    if (!transaction.expense_id) {
+      return { error: 'Transaction is not matched' };
+    }
+    if (transaction.match_type === 'import') {
+      return { error: 'The expense was created from this transaction; delete the expense instead' };
+    }
+
+    const unmatched = await BankTransactionModel.unmatch(transaction.id, userId);
+    if (!unmatched) {
+      return { error: 'Transaction is not matched' };
+    }
+
+    await ExpenseModel.refreshPaymentStatus([transaction.expense_id]);
+    return { transaction: unmatched };
+  }
+
+  /**
+   * 0..1 likeness of a bank descriptor ("PAYPAL *NETFLIX 4029") and a vendor name.
+   * Containment counts as a full match since banks pad names with processors and ids.
+   */
+  static vendorSimilarity(descriptor: string, providerName: string): number {
+    const a = DuplicateDetectionService.normalizeVendor(descriptor);
+    const b = DuplicateDetectionService.normalizeVendor(providerName);
+    if (!a || !b) return 0;
+    if (a === b) return 1;
+    if (Math.min(a.length, b.length) >= 4 && (a.includes(b) || b.includes(a))) return 1;
+
+    // Dice coefficient over character bigrams
+    const bigrams = (value: string) => {
+      const counts = new Map<string, number>();
+      for (let i = 0; i < value.length - 1; i++) {
+        const bigram = value.substring(i, i + 2);
+        counts.set(bigram, (counts.get(bigram) || 0) + 1);
+      }
+      return counts;
+    };
+    const left = bigrams(a);
+    const right = bigrams(b);
+    let overlap = 0;
+    for (const [bigram, count] of left) {
+      overlap += Math.min(count, right.get(bigram) || 0);
+    }
+    const total = a.length - 1 + b.length - 1;
+    return total > 0 ? Math.round((2 * overlap / total) * 1000) / 1000 : 0;
+  }
+
+  private static rank(
+    transaction: BankTransaction,
+    expenses: Expense[],
+    outstanding: Map<number, number>
+  ): MatchCandidate[] {
+    const candidates: MatchCandidate[] = [];
+    for (const expense of expenses) {
+      const candidate = this.score(transaction, expense, outstanding.get(expense.id) || 0);
+      if (candidate) candidates.push(candidate);
+    }
+    return candidates.sort((a, b) => b.score - a.score);
+  }
+
+  private static score(transaction: BankTransaction, expense: Expense, outstanding: number): MatchCandidate | null {
+    if (transaction.currency !== expense.currency) return null;
+
+    const amount = Number(transaction.amount);
+    if (outstanding <= 0.005 || amount > outstanding + 0.005) return null;
+
+    const paidOn = this.toDate(transaction.date);
+    const invoiced = this.toDate(expense.date);
+    const due = expense.due_date ? this.toDate(expense.due_date) : invoiced;
+    const daysEarly = invoiced.diff(paidOn, 'days').days;
+    const daysLate = paidOn.diff(due > invoiced ? due : invoiced, 'days').days;
+    if (daysEarly > this.DAYS_BEFORE_INVOICE || daysLate > this.DAYS_AFTER_DUE) return null;
+
+    // Paying between the invoice date and the due date is what we expect
+    const dateScore = daysEarly > 0
+      ? 1 - daysEarly / (this.DAYS_BEFORE_INVOICE + 1)
+      : daysLate > 0 ? 1 - daysLate / (this.DAYS_AFTER_DUE + 1) : 1;
+    const partial = Math.abs(amount - outstanding) >= 0.005;
+    const signals = {
+      amount: partial ? 0.6 : 1,
+      date: Math.round(dateScore * 1000) / 1000,
+      vendor: this.vendorSimilarity(transaction.description, expense.provider_name)
+    };
+    const score = signals.amount * this.WEIGHTS.amount
+      + signals.date * this.WEIGHTS.date
+      + signals.vendor * this.WEIGHTS.vendor;
+
+    return {
+      expenseId: expense.id,
+      providerName: expense.provider_name,
+      amount: Number(expense.amount),
+      outstanding: Math.round(outstanding * 100) / 100,
+      currency: expense.currency,
+      date: DuplicateDetectionService.toDateString(expense.date),
+      dueDate: expense.due_date ? DuplicateDetectionService.toDateString(expense.due_date) : null,
+      paymentStatus: expense.payment_status,
+      score: Math.round(score * 1000) / 1000,
+      partial,
+      signals
+    };
+  }
+
+  private static async loadExpenses(userId: number, transactions: BankTransaction[]): Promise<Expense[]> {
+    const dates = transactions.map(transaction => this.toDate(transaction.date));
+    const earliest = DateTime.min(...dates)!;
+    const latest = DateTime.max(...dates)!;
+
+    return ExpenseModel.findUnpaidForMatching(
+      userId,
+      earliest.minus({ days: this.LOOKBACK_DAYS }).toISODate()!,
+      latest.plus({ days: this.DAYS_BEFORE_INVOICE }).toISODate()!
+    );
+  }
+
+  private static outstanding(expense: Expense): number {
+    return Number(expense.amount) - Number(expense.paid_amount || 0);
+  }
+
+  private static toDate(value: Date | string): DateTime {
+    return DateTime.fromISO(DuplicateDetectionService.toDateString(value));
+  }
+}
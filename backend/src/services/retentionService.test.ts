@@ -0,0 +1,45 @@
+import assert from 'node:assert/strict';
+import { afterEach, describe, it, mock } from 'node:test';
+import { ExpenseModel } from '@/models/Expense';
+import { FileModel } from '@/models/File';
+import { RetentionService } from '@/services/retentionService';
+import { Expense, FileRecord } from '@/types';
+
+const file = { id: 5, sensitivity_level: 'LOW' } as FileRecord;
+
+const expense = (values: Partial<Expense>) => ({
+  id: 9,
+  sensitivity_level: 'LOW',
+  reporting_currency: 'USD',
+  ...values
+}) as Expense;
+
+describe('RetentionService', () => {
+  afterEach(() => mock.restoreAll());
+
+  it('picks the tier from the amount in the reporting currency', async () => {
+    mock.method(FileModel, 'updateRetention', async () => undefined);
+    mock.method(ExpenseModel, 'updateFileRetention', async () => undefined);
+
+    // 5,000 JPY is a small invoice, however large the number
+    const yen = await RetentionService.applyToUpload(file, expense({ amount: 5000, currency: 'JPY', reporting_amount: 33.5 }));
+    assert.equal(yen.policy, 'immediate');
+
+    const dollars = await RetentionService.applyToUpload(file, expense({ amount: 25000, currency: 'USD', reporting_amount: 25000 }));
+    assert.equal(dollars.policy, 'permanent');
+  });
+
+  it('keeps invoices without a rate for a year', async () => {
+    mock.method(FileModel, 'updateRetention', async () => undefined);
+    mock.method(ExpenseModel, 'updateFileRetention', async () => undefined);
+
+    const decision = await RetentionService.applyToUpload(file, expense({ amount: 100, currency: 'XYZ', reporting_amount: null }));
+
+    assert.equal(decision.policy, 'temporary');
+    assert.ok(decision.expiresAt && decision.expiresAt.getTime() > Date.now());
+  });
+
+  it('keeps high-sensitivity invoices permanently', () => {
+    assert.equal(RetentionService.determinePolicy(10, 'HIGH').policy, 'permanent');
+  });
+});
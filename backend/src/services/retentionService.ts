@@ -0,0 +1,95 @@
+import { FileModel } from '@/models/File';
+import { ExpenseModel } from '@/models/Expense';
+import { AuditLogModel } from '@/models/AuditLog';
+import { FileStorageService } from '@/services/fileStorageService';
+import { logger } from '@/config/logger';
+import { getReportingCurrency } from '@/config/currency';
+import { Expense, FileRecord } from '@/types';
+
+type Sensitivity = 'LOW' | 'MEDIUM' | 'HIGH';
+type RetentionPolicy = 'immediate' | 'temporary' | 'permanent';
+
+export interface RetentionDecision {
+  policy: RetentionPolicy;
+  expiresAt: Date | null;
+}
+
+export class RetentionService {
+  private static readonly SMALL_INVOICE_LIMIT = 5000;
+  private static readonly LARGE_INVOICE_LIMIT = 20000;
+  private static readonly SENSITIVITY_RANK: Record<Sensitivity, number> = { LOW: 0, MEDIUM: 1, HIGH: 2 };
+
+  /**
+   * Data minimization tiers, with amounts in the reporting currency:
+   * - HIGH sensitivity or > 20,000: keep encrypted permanently
+   * - 5,000 - 20,000: keep encrypted for 1 year
+   * - < 5,000: delete immediately after extraction
+   * An amount that could not be converted (null) is kept for a year until it can be judged.
+   */
+  static determinePolicy(amount: number | null, sensitivity: Sensitivity, now: Date = new Date()): RetentionDecision {
+    if (sensitivity === 'HIGH' || (amount !== null && amount > this.LARGE_INVOICE_LIMIT)) {
+      return { policy: 'permanent', expiresAt: null };
+    }
+
+    if (amount === null || amount >= this.SMALL_INVOICE_LIMIT) {
+      const expiresAt = new Date(now);
+      expiresAt.setFullYear(expiresAt.getFullYear() + 1);
+      return { policy: 'temporary', expiresAt };
+    }
+
+    return { policy: 'immediate', expiresAt: now };
+  }
+
+  /**
+   * Apply the retention tier to an uploaded invoice once its expense is confirmed
+   */
+  static async applyToUpload(file: FileRecord, expense: Expense): Promise<RetentionDecision> {
+    const sensitivity = this.maxSensitivity(file.sensitivity_level, expense.sensitivity_level);
+    const decision = this.determinePolicy(this.reportingAmount(expense), sensitivity);
+
+    await FileModel.updateRetention(file.id, decision.policy, decision.expiresAt);
+    await ExpenseModel.updateFileRetention(expense.id, decision.policy === 'immediate' ? 'DELETE' : 'KEEP');
+
+    logger.info(`Retention policy '${decision.policy}' applied to file ${file.id} (expense ${expense.id})`);
+
+    return decision;
+  }
+
+  /**
+   * Securely wipe every expired stored invoice and soft-delete its record
+   */
+  static async purgeExpiredFiles(): Promise<number> {
+    return FileModel.cleanupExpiredFiles(async (file) => {
+      try {
+        await FileStorageService.secureDelete(file.encrypted_filename);
+      } catch (error) {
+        logger.error(`Failed to purge stored file ${file.id}:`, error);
+        throw error;
+      }
+
+      await AuditLogModel.create({
+        action: 'FILE_PURGE',
+        resourceType: 'file',
+        resourceId: file.id,
+        details: {
+          retentionPolicy: file.retention_policy,
+          sensitivity: file.sensitivity_level,
+          expiresAt: file.expires_at
+        }
+      });
+    });
+  }
+
+  // Converted when the expense was saved; null when no rate was available
+  private static reportingAmount(expense: Expense): number | null {
+    if (expense.reporting_currency !== getReportingCurrency() ||
+        expense.reporting_amount === null || expense.reporting_amount === undefined) {
+      return null;
+    }
+    return Number(expense.reporting_amount);
+  }
+
+  private static maxSensitivity(a: Sensitivity, b: Sensitivity): Sensitivity {
+    return this.SENSITIVITY_RANK[a] >= this.SENSITIVITY_RANK[b] ? a : b;
+  }
+}
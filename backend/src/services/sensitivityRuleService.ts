@@ -0,0 +1,423 @@
+import { createHash } from 'crypto';
+import { DateTime } from 'luxon';
+import { getReportingCurrency } from '@/config/currency';
+import { logger } from '@/config/logger';
+import { AuditLogModel } from '@/models/AuditLog';
+import { ExpenseModel } from '@/models/Expense';
+import { SensitivityRuleInput, SensitivityRuleModel } from '@/models/SensitivityRule';
+import { VendorModel } from '@/models/Vendor';
+import { DuplicateDetectionService } from '@/services/duplicateDetectionService';
+import { FxRateService } from '@/services/fxRateService';
+import { Expense, SensitivityLevel, SensitivityMatchType, SensitivityRule } from '@/types';
+
+/**
+ * What a rule can look at. The vendor's own default sensitivity and masked
+ * alias come along so they need no second lookup.
+ */
+export interface ClassificationSubject {
+  providerName: string;
+  category?: string | null;
+  amount?: number | null;
+  currency?: string | null;
+  date?: string | null;
+  vendorId?: number | null;
+  vendorSensitivity?: SensitivityLevel | null;
+  vendorMaskedAlias?: string | null;
+}
+
+export interface Classification {
+  sensitivity: SensitivityLevel;
+  maskedName: string | null;
+  // The rule that decided, or null when none matched
+  rule: SensitivityRule | null;
+}
+
+export interface ReclassificationChange {
+  expenseId: number;
+  providerName: string;
+  from: { sensitivity: SensitivityLevel; maskedName: string | null };
+  to: { sensitivity: SensitivityLevel; maskedName: string | null };
+  rule: { id: number; name: string } | null;
+}
+
+export interface ReclassificationResult {
+  scanned: number;
+  changed: number;
+  // The first changes, for previews and logs
+  changes: ReclassificationChange[];
+}
+
+export type ClassifiableExpense = Expense & {
+  vendor_sensitivity?: SensitivityLevel | null;
+  vendor_masked_alias?: string | null;
+};
+
+const MATCH_TYPES: SensitivityMatchType[] = ['keyword', 'regex', 'vendor', 'category', 'amount'];
+const LEVELS: SensitivityLevel[] = ['LOW', 'MEDIUM', 'HIGH'];
+
+/**
+ * Admin-managed rules that classify expenses as LOW, MEDIUM or HIGH
+ * sensitivity and choose the name shown in their place. Active rules are
+ * tried in priority order (highest first) and the first match decides; with
+ * no match an expense is LOW. A vendor's own default sensitivity can only
+ * raise the result, never lower it.
+ */
+export class SensitivityRuleService {
+  private static readonly MAX_PATTERN_LENGTH = 500;
+  private static readonly RECLASSIFY_BATCH = 500;
+  private static readonly SAMPLE_SIZE = 50;
+
+  // Compiled rule patterns; an invalid one is cached as null and never matches
+  private static readonly regexCache = new Map<string, RegExp | null>();
+
+  /**
+   * Validate a rule. For an update the request is applied over the existing
+   * rule and the result validated as a whole, since which fields are required
+   * depends on the match type.
+   */
+  static async parseInput(body: any, existing?: SensitivityRule): Promise<{ input: SensitivityRuleInput } | { error: string }> {
+    const pick = (field: string, current: unknown): any => body[field] !== undefined ? body[field] : current;
+
+    const name = pick('name', existing?.name);
+    if (typeof name !== 'string' || !name.trim() || name.trim().length > 100) {
+      return { error: 'Name is required and must be at most 100 characters' };
+    }
+    const matchType = pick('matchType', existing?.match_type);
+    if (!MATCH_TYPES.includes(matchType)) {
+      return { error: `Match type must be one of: ${MATCH_TYPES.join(', ')}` };
+    }
+    const sensitivity = pick('sensitivity', existing?.sensitivity);
+    if (!LEVELS.includes(sensitivity)) {
+      return { error: `Sensitivity must be one of: ${LEVELS.join(', ')}` };
+    }
+    const maskAlias = pick('maskAlias', existing?.mask_alias ?? null);
+    if (maskAlias !== null && (typeof maskAlias !== 'string' || maskAlias.trim().length > 255)) {
+      return { error: 'Mask alias must be text of at most 255 characters' };
+    }
+    const priority = pick('priority', existing?.priority ?? 100);
+    if (!Number.isInteger(priority) || priority < 0 || priority > 10000) {
+      return { error: 'Priority must be a whole number between 0 and 10000' };
+    }
+    const isActive = pick('isActive', existing?.is_active ?? true);
+    if (typeof isActive !== 'boolean') {
+      return { error: 'isActive must be true or false' };
+    }
+
+    const input: SensitivityRuleInput = {
+      name: name.trim(),
+      matchType,
+      pattern: null,
+      vendorId: null,
+      minAmount: null,
+      amountCurrency: null,
+      sensitivity,
+      maskAlias: maskAlias?.trim() || null,
+      priority,
+      isActive
+    };
+
+    // Fields belonging to another match type are cleared
+    switch (matchType as SensitivityMatchType) {
+      case 'keyword':
+      case 'regex':
+      case 'category': {
+        const pattern = pick('pattern', existing?.pattern ?? null);
+        if (typeof pattern !== 'string' || !pattern.trim() || pattern.length > this.MAX_PATTERN_LENGTH) {
+          return { error: `Pattern is required and must be at most ${this.MAX_PATTERN_LENGTH} characters` };
+        }
+        if (matchType === 'keyword' && this.keywords(pattern).length === 0) {
+          return { error: 'Enter at least one keyword' };
+        }
+        if (matchType === 'regex') {
+          try {
+            new RegExp(pattern, 'i');
+          } catch (error: any) {
+            return { error: error.message };
+          }
+        }
+        input.pattern = pattern.trim();
+        break;
+      }
+      case 'vendor': {
+        const vendorId = pick('vendorId', existing?.vendor_id ?? null);
+        if (!Number.isInteger(vendorId) || !await VendorModel.findById(vendorId)) {
+          return { error: 'Choose the vendor the rule applies to' };
+        }
+        input.vendorId = vendorId;
+        break;
+      }
+      case 'amount': {
+        const minAmount = parseFloat(pick('minAmount', existing?.min_amount ?? null));
+        if (!Number.isFinite(minAmount) || minAmount <= 0) {
+          return { error: 'Amount threshold must be a positive number' };
+        }
+        const currency = pick('amountCurrency', existing?.amount_currency ?? null) || getReportingCurrency();
+        if (typeof currency !== 'string' || !/^[A-Z]{3}$/.test(currency)) {
+          return { error: 'Currency must be a 3-letter code' };
+        }
+        input.minAmount = Math.round(minAmount * 100) / 100;
+        input.amountCurrency = currency;
+        break;
+      }
+    }
+
+    return { input };
+  }
+
+  /**
+   * Validate a sample expense for the test endpoint. The vendor is looked up
+   * by name but never registered.
+   */
+  static async parseTestInput(body: any): Promise<{ subject: ClassificationSubject } | { error: string }> {
+    if (typeof body.providerName !== 'string' || !body.providerName.trim()) {
+      return { error: 'Provider name is required' };
+    }
+    const amount = body.amount !== undefined && body.amount !== null && body.amount !== '' ? parseFloat(body.amount) : null;
+    if (amount !== null && !Number.isFinite(amount)) {
+      return { error: 'Amount must be a number' };
+    }
+    if (body.currency !== undefined && (typeof body.currency !== 'string' || !/^[A-Z]{3}$/.test(body.currency))) {
+      return { error: 'Currency must be a 3-letter code' };
+    }
+    if (body.date !== undefined && (typeof body.date !== 'string' || !DateTime.fromISO(body.date).isValid)) {
+      return { error: 'Date must be YYYY-MM-DD' };
+    }
+
+    const providerName = body.providerName.trim();
+    const vendor = await VendorModel.findByName(providerName);
+    return {
+      subject: {
+        providerName,
+        category: typeof body.category === 'string' && body.category.trim() ? body.category.trim() : null,
+        amount,
+        currency: body.currency || 'USD',
+        date: body.date || DateTime.now().toISODate()!,
+        vendorId: vendor?.id,
+        vendorSensitivity: vendor?.default_sensitivity,
+        vendorMaskedAlias: vendor?.masked_alias
+      }
+    };
+  }
+
+  /**
+   * What saving this rule (a new one, or the given one edited) would change
+   * among stored expenses, without saving anything
+   */
+  static async preview(input: SensitivityRuleInput, ruleId?: number): Promise<ReclassificationResult> {
+    const draft: SensitivityRule = {
+      id: ruleId ?? 0,
+      name: input.name,
+      match_type: input.matchType,
+      pattern: input.pattern,
+      vendor_id: input.vendorId,
+      min_amount: input.minAmount,
+      amount_currency: input.amountCurrency,
+      sensitivity: input.sensitivity,
+      mask_alias: input.maskAlias,
+      priority: input.priority,
+      is_active: input.isActive,
+      created_at: new Date(),
+      updated_at: new Date()
+    };
+
+    const rules = (await SensitivityRuleModel.findActive()).filter(rule => rule.id !== ruleId);
+    if (draft.is_active) {
+      rules.push(draft);
+    }
+    // A new rule goes after existing rules of the same priority, as it will once saved
+    rules.sort((a, b) => b.priority - a.priority || (a.id || Number.MAX_SAFE_INTEGER) - (b.id || Number.MAX_SAFE_INTEGER));
+
+    return this.reclassify({ dryRun: true, rules });
+  }
+
+  /**
+   * Classify against the given rules, or the active rules when none are given
+   */
+  static async classify(subject: ClassificationSubject, rules?: SensitivityRule[]): Promise<Classification> {
+    let rule: SensitivityRule | null = null;
+    for (const candidate of rules ?? await SensitivityRuleModel.findActive()) {
+      if (await this.matches(candidate, subject)) {
+        rule = candidate;
+        break;
+      }
+    }
+
+    let sensitivity: SensitivityLevel = rule?.sensitivity ?? 'LOW';
+    if (subject.vendorSensitivity && LEVELS.indexOf(subject.vendorSensitivity) > LEVELS.indexOf(sensitivity)) {
+      sensitivity = subject.vendorSensitivity;
+    }
+
+    return {
+      sensitivity,
+      maskedName: this.maskedName(subject.providerName, sensitivity, subject.vendorMaskedAlias || rule?.mask_alias),
+      rule
+    };
+  }
+
+  /**
+   * Classification for a stored expense. A level set by hand is kept; only
+   * its masked name follows the provider name. Rows that already carry their
+   * vendor's defaults save the vendor lookup.
+   */
+  static async classifyExpense(expense: ClassifiableExpense, rules?: SensitivityRule[]): Promise<Classification> {
+    const vendor = 'vendor_sensitivity' in expense
+      ? { default_sensitivity: expense.vendor_sensitivity, masked_alias: expense.vendor_masked_alias }
+      : expense.vendor_id ? await VendorModel.findById(expense.vendor_id) : null;
+
+    if (expense.sensitivity_manual) {
+      const sensitivity = expense.sensitivity_level as SensitivityLevel;
+      return {
+        sensitivity,
+        maskedName: this.maskedName(expense.provider_name, sensitivity, vendor?.masked_alias),
+        rule: null
+      };
+    }
+
+    return this.classify({
+      providerName: expense.provider_name,
+      category: expense.category,
+      amount: Number(expense.amount),
+      currency: expense.currency,
+      date: DuplicateDetectionService.toDateString(expense.date),
+      vendorId: expense.vendor_id,
+      vendorSensitivity: vendor?.default_sensitivity,
+      vendorMaskedAlias: vendor?.masked_alias
+    }, rules);
+  }
+
+  static async matches(rule: SensitivityRule, subject: ClassificationSubject): Promise<boolean> {
+    const providerName = (subject.providerName || '').toLowerCase();
+
+    switch (rule.match_type) {
+      case 'keyword':
+        return this.keywords(rule.pattern || '').some(keyword => providerName.includes(keyword));
+      case 'regex':
+        return this.compile(rule.pattern || '')?.test(subject.providerName || '') ?? false;
+      case 'vendor':
+        return Boolean(subject.vendorId) && subject.vendorId === rule.vendor_id;
+      case 'category':
+        return Boolean(subject.category) && subject.category!.toLowerCase() === (rule.pattern || '').toLowerCase();
+      case 'amount': {
+        if (subject.amount === null || subject.amount === undefined || !rule.min_amount) return false;
+        const from = subject.currency || 'USD';
+        const to = rule.amount_currency || getReportingCurrency();
+        const amount = from === to
+          ? subject.amount
+          : await FxRateService.convert(subject.amount, from, to, subject.date || DateTime.now().toISODate()!);
+        // Without a rate the threshold cannot be checked, so the rule does not apply
+        return amount !== null && amount >= Number(rule.min_amount);
+      }
+      default:
+        return false;
+    }
+  }
+
+  /**
+   * The name shown in place of the provider's: the alias when there is one,
+   * otherwise a partial mask for HIGH and nothing below it. {hash} in an
+   * alias keeps vendors sharing it apart.
+   */
+  static maskedName(providerName: string, sensitivity: SensitivityLevel, alias?: string | null): string | null {
+    if (alias) {
+      const hash = createHash('sha256')
+        .update(DuplicateDetectionService.normalizeVendor(providerName))
+        .digest('hex')
+        .substring(0, 6)
+        .toUpperCase();
+      return alias.replace(/\{hash\}/g, hash);
+    }
+    if (sensitivity !== 'HIGH') return null;
+
+    // Same as the mask_provider_name SQL function, which masks rows inserted without a name
+    return providerName.length <= 3
+      ? '***'
+      : providerName.substring(0, 2) + '*'.repeat(providerName.length - 3) + providerName.slice(-1);
+  }
+
+  /**
+   * Re-run classification over stored expenses, skipping levels set by hand
+   * (unless includeManual) and fully reduced rows, whose provider name is
+   * already masked. A dry run only reports; otherwise each change is saved
+   * and written to the audit log.
+   */
+  static async reclassify(options: {
+    dryRun?: boolean;
+    includeManual?: boolean;
+    vendorIds?: number[];
+    rules?: SensitivityRule[];
+    userId?: number | null;
+  } = {}): Promise<ReclassificationResult> {
+    const rules = options.rules ?? await SensitivityRuleModel.findActive();
+    const result: ReclassificationResult = { scanned: 0, changed: 0, changes: [] };
+
+    let afterId = 0;
+    for (;;) {
+      const rows = await ExpenseModel.findForClassification(afterId, this.RECLASSIFY_BATCH, options);
+      if (rows.length === 0) break;
+
+      for (const row of rows) {
+        afterId = row.id;
+        result.scanned++;
+
+        const classification = await this.classifyExpense(
+          options.includeManual ? { ...row, sensitivity_manual: false } : row,
+          rules
+        );
+        const from = { sensitivity: row.sensitivity_level as SensitivityLevel, maskedName: row.provider_masked_name ?? null };
+        const to = { sensitivity: classification.sensitivity, maskedName: classification.maskedName };
+        const changed = from.sensitivity !== to.sensitivity || from.maskedName !== to.maskedName;
+        const ruleId = classification.rule?.id ?? null;
+
+        if (!changed && ruleId === (row.sensitivity_rule_id ?? null) && !(options.includeManual && row.sensitivity_manual)) {
+          continue;
+        }
+
+        if (!options.dryRun) {
+          await ExpenseModel.applyClassification(row.id, classification, Boolean(options.includeManual));
+        }
+        if (!changed) continue;
+
+        result.changed++;
+        const change: ReclassificationChange = {
+          expenseId: row.id,
+          providerName: row.provider_name,
+          from,
+          to,
+          rule: classification.rule ? { id: classification.rule.id, name: classification.rule.name } : null
+        };
+        if (result.changes.length < this.SAMPLE_SIZE) {
+          result.changes.push(change);
+        }
+
+        if (!options.dryRun) {
+          logger.info(`Reclassified expense ${row.id}: ${from.sensitivity} -> ${to.sensitivity}` +
+            (change.rule ? ` (rule "${change.rule.name}")` : ''));
+          await AuditLogModel.create({
+            userId: options.userId ?? undefined,
+            action: 'EXPENSE_RECLASSIFIED',
+            resourceType: 'expense',
+            resourceId: row.id,
+            details: { from, to, rule: change.rule }
+          });
+        }
+      }
+    }
+
+    return result;
+  }
+
+  private static keywords(pattern: string): string[] {
+    return pattern.split(',').map(keyword => keyword.trim().toLowerCase()).filter(Boolean);
+  }
+
+  private static compile(pattern: string): RegExp | null {
+    if (!this.regexCache.has(pattern)) {
+      try {
+        this.regexCache.set(pattern, new RegExp(pattern, 'i'));
+      } catch {
+        this.regexCache.set(pattern, null);
+      }
+    }
+    return this.regexCache.get(pattern)!;
+  }
+}
@@ -0,0 +1,369 @@
+import { createHmac } from 'crypto';
+import { ExpenseModel } from '@/models/Expense';
+import { AuditLogModel } from '@/models/AuditLog';
+import { BankTransactionModel } from '@/models/BankTransaction';
+import { StatementSourceModel } from '@/models/StatementSource';
+import { IntakeContext } from '@/services/invoiceIntakeService';
+import { ReconciliationService } from '@/services/reconciliationService';
+import {
+  applyMapping,
+  DATE_FORMATS,
+  decodeStatement,
+  detectFormat,
+  parseDelimited,
+  parseOfx,
+  parseQif,
+  ParsedRow,
+  StatementFormat,
+  StatementMapping,
+  StatementTransaction,
+  suggestMapping,
+  toTable
+} from '@/utils/statementParsing';
+
+export interface StatementFile {
+  originalName: string;
+  buffer: Buffer;
+}
+
+// credit: money coming in (refunds, salary), which is not an expense
+export type StatementRowStatus = 'new' | 'imported' | 'credit' | 'error';
+
+export interface StatementPreviewRow {
+  line: number;
+  status: StatementRowStatus;
+  transaction?: StatementTransaction;
+  error?: string;
+}
+
+export interface StatementPreview {
+  format: StatementFormat;
+  sourceName: string;
+  headers: string[];
+  mapping: StatementMapping | null;
+  mappingSource: 'provided' | 'saved' | 'suggested' | null;
+  rows: StatementPreviewRow[];
+  summary: Record<StatementRowStatus, number>;
+}
+
+export interface StatementImportOptions {
+  saveMapping: boolean;
+  asDrafts: boolean;
+  // Only record the lines for reconciliation against existing expenses
+  reconcileOnly: boolean;
+  // Preview lines the user unticked
+  excludedLines: number[];
+}
+
+export interface StatementImportResult {
+  created: number;
+  alreadyImported: number;
+  skipped: number;
+  errors: number;
+  expenseIds: number[];
+  // Lines stored as bank transactions, and how many of those were matched to existing expenses
+  recorded: number;
+  matched: number;
+}
+
+interface KeyedRow extends StatementPreviewRow {
+  importKey?: string;
+}
+
+type ParsedStatement = Omit<StatementPreview, 'rows' | 'summary' | 'sourceName'> & { rows: KeyedRow[] };
+
+/**
+ * Bank and card statement import. Files are parsed twice, once for the preview
+ * and again on commit, so nothing is held server-side in between. Each line
+ * gets a keyed import key, so importing an overlapping or identical statement
+ * again only adds the lines that are new.
+ */
+export class StatementImportService {
+  static readonly MAX_FILE_SIZE = parseInt(process.env.MAX_STATEMENT_SIZE || '5242880', 10); // 5MB
+  static readonly MAX_ROWS = 5000;
+
+  static async preview(
+    userId: number,
+    file: StatementFile,
+    sourceName: string,
+    mapping?: StatementMapping
+  ): Promise<StatementPreview | { error: string }> {
+    const parsed = await this.parse(userId, file, sourceName, mapping);
+    if ('error' in parsed) return parsed;
+
+    const summary: Record<StatementRowStatus, number> = { new: 0, imported: 0, credit: 0, error: 0 };
+    for (const row of parsed.rows) summary[row.status]++;
+
+    return {
+      format: parsed.format,
+      sourceName,
+      headers: parsed.headers,
+      mapping: parsed.mapping,
+      mappingSource: parsed.mappingSource,
+      // Import keys stay server-side
+      rows: parsed.rows.map(row => ({ line: row.line, status: row.status, transaction: row.transaction, error: row.error })),
+      summary
+    };
+  }
+
+  static async commit(
+    file: StatementFile,
+    sourceName: string,
+    mapping: StatementMapping | undefined,
+    options: StatementImportOptions,
+    context: IntakeContext
+  ): Promise<StatementImportResult | { error: string }> {
+    const { userId } = context;
+    const parsed = await this.parse(userId, file, sourceName, mapping);
+    if ('error' in parsed) return parsed;
+    if (parsed.format === 'csv' && !parsed.mapping) {
+      return { error: 'Map the statement columns before importing' };
+    }
+
+    const excluded = new Set(options.excludedLines);
+    const result: StatementImportResult = {
+      created: 0, alreadyImported: 0, skipped: 0, errors: 0, expenseIds: [], recorded: 0, matched: 0
+    };
+
+    for (const row of parsed.rows) {
+      if (row.status === 'error') {
+        result.errors++;
+        continue;
+      }
+      if (row.status === 'imported') {
+        result.alreadyImported++;
+        continue;
+      }
+      if (row.status === 'credit' || excluded.has(row.line)) {
+        result.skipped++;
+        continue;
+      }
+
+      const transaction = row.transaction!;
+      const expense = options.reconcileOnly ? null : await ExpenseModel.createImported(
+        {
+          provider_name: transaction.description.substring(0, 255),
+          description: `${sourceName} statement`,
+          amount: Math.abs(transaction.amount),
+          currency: transaction.currency,
+          date: transaction.date,
+          metadata: {
+            import: {
+              source: sourceName,
+              format: parsed.format,
+              reference: transaction.reference,
+              fileName: file.originalName
+            }
+          }
+        },
+        userId,
+        row.importKey!,
+        options.asDrafts ? 'draft' : 'approved'
+      );
+
+      // Outside reconcile-only imports, null means a concurrent import got there first
+      if (expense) {
+        result.created++;
+        result.expenseIds.push(expense.id);
+      } else if (!options.reconcileOnly) {
+        result.alreadyImported++;
+        continue;
+      }
+
+      const recorded = await BankTransactionModel.create({
+        userId,
+        sourceName,
+        importKey: row.importKey!,
+        date: transaction.date,
+        description: transaction.description.substring(0, 255),
+        amount: Math.abs(transaction.amount),
+        currency: transaction.currency,
+        reference: transaction.reference?.substring(0, 100),
+        expenseId: expense?.id
+      });
+      if (recorded) {
+        result.recorded++;
+      } else if (options.reconcileOnly) {
+        result.alreadyImported++;
+      }
+    }
+
+    await ExpenseModel.refreshPaymentStatus(result.expenseIds);
+    if (result.recorded > result.created) {
+      result.matched = (await ReconciliationService.autoMatch(userId)).matched;
+    }
+
+    if (options.saveMapping) {
+      const source = await StatementSourceModel.upsert({
+        userId,
+        sourceName,
+        format: parsed.format,
+        mapping: parsed.mapping
+      });
+      await StatementSourceModel.recordUse(source.id);
+    }
+
+    await AuditLogModel.create({
+      userId,
+      action: 'STATEMENT_IMPORT',
+      resourceType: 'expenses',
+      details: {
+        source: sourceName,
+        format: parsed.format,
+        created: result.created,
+        alreadyImported: result.alreadyImported,
+        skipped: result.skipped,
+        errors: result.errors,
+        recorded: result.recorded,
+        matched: result.matched,
+        asDrafts: options.asDrafts,
+        reconcileOnly: options.reconcileOnly
+      },
+      ipAddress: context.ipAddress,
+      userAgent: context.userAgent,
+      deviceFingerprint: context.deviceFingerprint,
+      geoLocation: context.geoLocation
+    });
+
+    return result;
+  }
+
+  /**
+   * Returns an error message, or null when the mapping fits these headers
+   */
+  static validateMapping(mapping: any, headers: string[]): string | null {
+    if (!mapping || typeof mapping !== 'object') {
+      return 'Mapping must be an object';
+    }
+    if (!mapping.date || !mapping.description) {
+      return 'Date and description columns are required';
+    }
+    if (!mapping.amount && !mapping.debit && !mapping.credit) {
+      return 'Map an amount column, or debit and credit columns';
+    }
+    for (const field of ['date', 'description', 'amount', 'debit', 'credit', 'currency', 'reference']) {
+      const column = mapping[field];
+      if (column !== undefined && column !== null && column !== '' && !headers.includes(column)) {
+        return `Column "${column}" is not in this file`;
+      }
+    }
+    if (!DATE_FORMATS.includes(mapping.dateFormat)) {
+      return `Date format must be one of: ${DATE_FORMATS.join(', ')}`;
+    }
+    if (mapping.decimalSeparator !== '.' && mapping.decimalSeparator !== ',') {
+      return 'Decimal separator must be "." or ","';
+    }
+    if (mapping.expenseSign !== 'negative' && mapping.expenseSign !== 'positive') {
+      return 'Expense sign must be "negative" or "positive"';
+    }
+    if (typeof mapping.defaultCurrency !== 'string' || !/^[A-Z]{3}$/.test(mapping.defaultCurrency)) {
+      return 'Default currency must be a 3-letter code';
+    }
+    return null;
+  }
+
+  private static async parse(
+    userId: number,
+    file: StatementFile,
+    sourceName: string,
+    provided?: StatementMapping
+  ): Promise<ParsedStatement | { error: string }> {
+    const text = decodeStatement(file.buffer);
+    const format = detectFormat(file.originalName, text);
+    const saved = await StatementSourceModel.findByName(userId, sourceName);
+
+    let headers: string[] = [];
+    let mapping: StatementMapping | null = null;
+    let mappingSource: StatementPreview['mappingSource'] = null;
+    let parsedRows: ParsedRow[];
+
+    if (format === 'ofx') {
+      parsedRows = parseOfx(text).map(transaction => ({ ok: true, transaction }));
+    } else if (format === 'qif') {
+      mapping = provided || saved?.mapping || null;
+      mappingSource = provided ? 'provided' : mapping ? 'saved' : null;
+      parsedRows = parseQif(text, {
+        dateFormat: mapping?.dateFormat,
+        decimalSeparator: mapping?.decimalSeparator,
+        currency: mapping?.defaultCurrency || 'USD'
+      });
+    } else {
+      const table = toTable(parseDelimited(text));
+      headers = table.headers;
+
+      if (provided) {
+        const error = this.validateMapping(provided, headers);
+        if (error) return { error };
+        mapping = provided;
+        mappingSource = 'provided';
+      } else if (saved?.mapping && !this.validateMapping(saved.mapping, headers)) {
+        // A saved mapping only applies while the bank keeps the same columns
+        mapping = saved.mapping;
+        mappingSource = 'saved';
+      } else {
+        mapping = suggestMapping(table);
+        mappingSource = mapping ? 'suggested' : null;
+      }
+
+      parsedRows = mapping ? applyMapping(table, mapping) : [];
+    }
+
+    if (parsedRows.length > this.MAX_ROWS) {
+      return { error: `Statements are limited to ${this.MAX_ROWS} lines` };
+    }
+
+    // A line counts as imported once it became an expense or was recorded for reconciliation
+    const rows = this.assignKeys(parsedRows);
+    const keys = rows.filter(row => row.importKey).map(row => row.importKey!);
+    const [asExpenses, asTransactions] = await Promise.all([
+      ExpenseModel.findImportedKeys(userId, keys),
+      BankTransactionModel.findRecordedKeys(userId, keys)
+    ]);
+    for (const row of rows) {
+      if (row.status === 'new' && (asExpenses.has(row.importKey!) || asTransactions.has(row.importKey!))) {
+        row.status = 'imported';
+      }
+    }
+
+    return { format, headers, mapping, mappingSource, rows };
+  }
+
+  /**
+   * Identical lines (two coffees on the same day) are told apart by how many
+   * times the same line came before them in the file
+   */
+  private static assignKeys(parsedRows: ParsedRow[]): KeyedRow[] {
+    const key = process.env.ENCRYPTION_KEY;
+    if (!key) {
+      throw new Error('Encryption key not configured');
+    }
+
+    const occurrences = new Map<string, number>();
+    return parsedRows.map((parsed, line): KeyedRow => {
+      if (!parsed.ok) {
+        return { line, status: 'error', error: parsed.error };
+      }
+
+      const { transaction } = parsed;
+      const identity = [
+        transaction.date,
+        transaction.amount.toFixed(2),
+        transaction.currency,
+        transaction.description.toLowerCase().replace(/\s+/g, ' ')
+      ].join('|');
+      const occurrence = occurrences.get(identity) || 0;
+      occurrences.set(identity, occurrence + 1);
+
+      const importKey = createHmac('sha256', key)
+        .update(`${identity}|${transaction.reference || `#${occurrence}`}`)
+        .digest('hex');
+
+      return {
+        line,
+        status: transaction.amount < 0 ? 'new' : 'credit',
+        transaction,
+        importKey
+      };
+    });
+  }
+}
@@ -0,0 +1,536 @@
+import { DateTime } from 'luxon';
+import { getReportingCurrency } from '@/config/currency';
+import { AuditLogModel } from '@/models/AuditLog';
+import { ExpenseModel } from '@/models/Expense';
+import { NotificationModel } from '@/models/Notification';
+import { SubscriptionModel } from '@/models/Subscription';
+import { UserModel } from '@/models/User';
+import { DuplicateDetectionService } from '@/services/duplicateDetectionService';
+import { FxRateService } from '@/services/fxRateService';
+import { Subscription, SubscriptionCadence, SubscriptionFlag } from '@/types';
+
+type ChargeRow = Awaited<ReturnType<typeof ExpenseModel.findForRecurringAnalysis>>[number];
+
+interface CadenceRule {
+  // Schedules counted in months keep their day of the month
+  months?: number;
+  days?: number;
+  // Nominal length in days
+  length: number;
+  // Median gap between charges that identifies the cadence
+  min: number;
+  max: number;
+  // How far a single gap may stray from the median and still count as regular
+  tolerance: number;
+  // Days after the expected date before a charge is late, or missed
+  grace: number;
+  minCharges: number;
+}
+
+const CADENCES: Record<SubscriptionCadence, CadenceRule> = {
+  weekly: { days: 7, length: 7, min: 6, max: 8, tolerance: 2, grace: 3, minCharges: 4 },
+  monthly: { months: 1, length: 30, min: 26, max: 35, tolerance: 5, grace: 5, minCharges: 3 },
+  quarterly: { months: 3, length: 91, min: 84, max: 98, tolerance: 10, grace: 10, minCharges: 3 },
+  annual: { months: 12, length: 365, min: 350, max: 380, tolerance: 15, grace: 14, minCharges: 2 }
+};
+
+// Monthly equivalent of one charge
+const MONTHLY_FACTOR: Record<SubscriptionCadence, number> = {
+  weekly: 52 / 12,
+  monthly: 1,
+  quarterly: 1 / 3,
+  annual: 1 / 12
+};
+
+export interface SubscriptionRequest {
+  providerName?: string;
+  category?: string | null;
+  amount?: number;
+  currency?: string;
+  cadence?: SubscriptionCadence;
+  nextChargeDate?: string;
+  status?: Subscription['status'];
+  autoDraft?: boolean;
+  clearFlag?: boolean;
+}
+
+export interface RecurringPattern {
+  cadence: SubscriptionCadence;
+  billingDay: number | null;
+  amount: number;
+  lastChargeDate: string;
+  nextChargeDate: string;
+  chargeCount: number;
+  confidence: number;
+}
+
+export interface TrackingResult {
+  charges: number;
+  flagged: number;
+  drafted: number;
+}
+
+export interface SubscriptionSummary {
+  active: number;
+  flagged: number;
+  dueSoon: number;
+  // Active subscriptions as a monthly amount in the reporting currency
+  monthlyCost: { currency: string; amount: number; unconverted: number };
+}
+
+/**
+ * Recurring charges (SaaS seats, hosting, licences) found in the expense
+ * history. Detection registers vendors charged on a regular cadence; tracking
+ * then follows each schedule, drafting the expected charge when it falls due
+ * and flagging charges that are missed, late or at a new price.
+ */
+export class SubscriptionService {
+  // Long enough to see an annual plan charged twice
+  private static readonly LOOKBACK_DAYS = 800;
+  private static readonly MIN_CONFIDENCE = 0.7;
+  // Smaller moves (rounding, card FX) are not a price change
+  private static readonly PRICE_TOLERANCE = 0.02;
+  // Charges this far ahead of schedule are one-off purchases from the same vendor
+  private static readonly EARLY_CHARGE_RATIO = 0.5;
+  private static readonly DUE_SOON_DAYS = 7;
+
+  /**
+   * Validate a manual create (partial = false) or an update request body
+   */
+  static parseInput(body: any, partial: boolean): { input: SubscriptionRequest } | { error: string } {
+    const input: SubscriptionRequest = {};
+    const has = (field: string) => body[field] !== undefined;
+
+    if (!partial || has('providerName')) {
+      if (typeof body.providerName !== 'string' || !DuplicateDetectionService.normalizeVendor(body.providerName)) {
+        return { error: 'Provider name is required' };
+      }
+      input.providerName = body.providerName.trim().substring(0, 255);
+    }
+    if (has('category')) {
+      if (body.category !== null && typeof body.category !== 'string') {
+        return { error: 'Category must be a string' };
+      }
+      input.category = body.category ? body.category.trim().substring(0, 100) : null;
+    }
+    if (!partial || has('amount')) {
+      const amount = parseFloat(body.amount);
+      if (!Number.isFinite(amount) || amount <= 0) {
+        return { error: 'Amount must be a positive number' };
+      }
+      input.amount = Math.round(amount * 100) / 100;
+    }
+    if (!partial) {
+      if (has('currency') && (typeof body.currency !== 'string' || !/^[A-Z]{3}$/.test(body.currency))) {
+        return { error: 'Currency must be a 3-letter code' };
+      }
+      input.currency = body.currency || getReportingCurrency();
+    }
+    if (!partial || has('cadence')) {
+      if (!(body.cadence in CADENCES)) {
+        return { error: `Cadence must be one of: ${Object.keys(CADENCES).join(', ')}` };
+      }
+      input.cadence = body.cadence;
+    }
+    if (!partial || has('nextChargeDate')) {
+      const date = typeof body.nextChargeDate === 'string' ? DateTime.fromISO(body.nextChargeDate) : null;
+      if (!date?.isValid) {
+        return { error: 'Next charge date must be a date (YYYY-MM-DD)' };
+      }
+      input.nextChargeDate = date.toISODate()!;
+    }
+    if (has('status')) {
+      if (!['active', 'paused', 'cancelled'].includes(body.status)) {
+        return { error: 'Status must be active, paused or cancelled' };
+      }
+      input.status = body.status;
+    }
+    for (const field of ['autoDraft', 'clearFlag'] as const) {
+      if (has(field)) {
+        if (typeof body[field] !== 'boolean') {
+          return { error: `${field} must be true or false` };
+        }
+        input[field] = body[field];
+      }
+    }
+
+    return { input };
+  }
+
+  /**
+   * Register recurring vendors not yet in the user's registry
+   */
+  static async detect(userId: number, now: DateTime = DateTime.now()): Promise<Subscription[]> {
+    const [rows, existing] = await Promise.all([
+      ExpenseModel.findForRecurringAnalysis(userId, now.minus({ days: this.LOOKBACK_DAYS }).toISODate()!),
+      SubscriptionModel.findByUser(userId)
+    ]);
+    const known = new Set(existing.map(subscription => `${subscription.vendor_key}|${subscription.currency}`));
+
+    const groups = new Map<string, ChargeRow[]>();
+    for (const row of rows) {
+      const vendorKey = DuplicateDetectionService.normalizeVendor(row.provider_name);
+      const groupKey = `${vendorKey}|${row.currency}`;
+      if (row.subscription_id || !vendorKey || known.has(groupKey)) continue;
+      groups.set(groupKey, [...(groups.get(groupKey) || []), row]);
+    }
+
+    const detected: Subscription[] = [];
+    for (const charges of groups.values()) {
+      const pattern = this.findPattern(
+        charges.map(row => ({ date: DuplicateDetectionService.toDateString(row.date), amount: Number(row.amount) })),
+        now
+      );
+      if (!pattern) continue;
+
+      const latest = charges[charges.length - 1];
+      const subscription = await SubscriptionModel.create(userId, {
+        providerName: latest.provider_name,
+        vendorKey: DuplicateDetectionService.normalizeVendor(latest.provider_name),
+        category: latest.category,
+        currency: latest.currency,
+        amount: pattern.amount,
+        cadence: pattern.cadence,
+        billingDay: pattern.billingDay,
+        lastChargeDate: pattern.lastChargeDate,
+        lastChargeAmount: pattern.amount,
+        nextChargeDate: pattern.nextChargeDate,
+        chargeCount: pattern.chargeCount,
+        origin: 'detected',
+        confidence: pattern.confidence
+      });
+      if (!subscription) continue;
+
+      await ExpenseModel.linkSubscription(charges.map(row => row.id), subscription.id);
+      detected.push(subscription);
+    }
+
+    return detected;
+  }
+
+  /**
+   * Follow each active subscription's schedule: record new charges, flag
+   * surprises and draft charges that are due
+   */
+  static async track(userId: number, now: DateTime = DateTime.now()): Promise<TrackingResult> {
+    const result: TrackingResult = { charges: 0, flagged: 0, drafted: 0 };
+
+    const subscriptions = (await SubscriptionModel.findByUser(userId)).filter(subscription => subscription.status === 'active');
+    if (subscriptions.length === 0) return result;
+
+    const since = DateTime.min(...subscriptions.map(subscription => subscription.last_charge_date
+      ? DateTime.fromISO(DuplicateDetectionService.toDateString(subscription.last_charge_date))
+      : DateTime.fromISO(DuplicateDetectionService.toDateString(subscription.next_charge_date))
+        .minus({ days: CADENCES[subscription.cadence].length })
+    ))!;
+    const rows = await ExpenseModel.findForRecurringAnalysis(userId, since.toISODate()!);
+
+    for (const subscription of subscriptions) {
+      await this.trackOne(subscription, rows, now, result);
+    }
+
+    return result;
+  }
+
+  /**
+   * Detect and track for every active user; run by the scheduled job
+   */
+  static async runAll(): Promise<TrackingResult & { detected: number }> {
+    const totals = { detected: 0, charges: 0, flagged: 0, drafted: 0 };
+
+    for (const user of await UserModel.findActiveUsers()) {
+      const detected = await this.detect(user.id);
+      if (detected.length > 0) {
+        totals.detected += detected.length;
+        await NotificationModel.create({
+          userId: user.id,
+          type: 'subscriptions_detected',
+          title: `${detected.length} recurring charge${detected.length === 1 ? '' : 's'} detected`,
+          message: detected.map(subscription => subscription.provider_name).join(', '),
+          link: '/subscriptions'
+        });
+      }
+
+      const tracked = await this.track(user.id);
+      totals.charges += tracked.charges;
+      totals.flagged += tracked.flagged;
+      totals.drafted += tracked.drafted;
+    }
+
+    return totals;
+  }
+
+  static async getSummary(subscriptions: Subscription[], now: DateTime = DateTime.now()): Promise<SubscriptionSummary> {
+    const active = subscriptions.filter(subscription => subscription.status === 'active');
+    const reportingCurrency = getReportingCurrency();
+    const today = now.toISODate()!;
+    const soon = now.plus({ days: this.DUE_SOON_DAYS }).toISODate()!;
+
+    let amount = 0;
+    let unconverted = 0;
+    for (const subscription of active) {
+      const monthly = Number(subscription.amount) * MONTHLY_FACTOR[subscription.cadence];
+      const converted = await FxRateService.convert(monthly, subscription.currency, reportingCurrency, today);
+      if (converted === null) unconverted++;
+      else amount += converted;
+    }
+
+    return {
+      active: active.length,
+      flagged: active.filter(subscription => subscription.flag).length,
+      dueSoon: active.filter(subscription => {
+        const next = DuplicateDetectionService.toDateString(subscription.next_charge_date);
+        return next >= today && next <= soon;
+      }).length,
+      monthlyCost: { currency: reportingCurrency, amount: Math.round(amount * 100) / 100, unconverted }
+    };
+  }
+
+  /**
+   * Cadence, expected amount and next date of a vendor's charges, or null when
+   * they do not recur closely enough or have stopped
+   */
+  static findPattern(charges: { date: string; amount: number }[], now: DateTime): RecurringPattern | null {
+    // Several charges on one day (extra seats, split invoices) make up one billing
+    const byDate = new Map<string, number>();
+    for (const charge of charges) {
+      byDate.set(charge.date, (byDate.get(charge.date) || 0) + charge.amount);
+    }
+    const dates = Array.from(byDate.keys()).sort();
+    if (dates.length < 2) return null;
+
+    const days = dates.map(date => DateTime.fromISO(date));
+    const gaps = days.slice(1).map((day, i) => Math.round(day.diff(days[i], 'days').days));
+    const medianGap = this.median(gaps);
+
+    const match = (Object.entries(CADENCES) as [SubscriptionCadence, CadenceRule][])
+      .find(([, rule]) => medianGap >= rule.min && medianGap <= rule.max);
+    if (!match) return null;
+
+    const [cadence, rule] = match;
+    if (dates.length < rule.minCharges) return null;
+
+    const lastCharge = days[days.length - 1];
+    if (now.diff(lastCharge, 'days').days > rule.length + rule.grace) return null;
+
+    const regularity = gaps.filter(gap => Math.abs(gap - medianGap) <= rule.tolerance).length / gaps.length;
+    const amounts = dates.map(date => byDate.get(date)!);
+    const mean = amounts.reduce((sum, value) => sum + value, 0) / amounts.length;
+    const deviation = Math.sqrt(amounts.reduce((sum, value) => sum + (value - mean) ** 2, 0) / amounts.length);
+    // Usage-billed services vary; a 10% spread still scores 0.8
+    const stability = Math.max(0, 1 - (deviation / mean) * 2);
+    const confidence = Math.round((regularity * 0.6 + stability * 0.4) * 1000) / 1000;
+    if (confidence < this.MIN_CONFIDENCE) return null;
+
+    const billingDay = rule.months ? this.mostCommonDay(days) : null;
+    const lastChargeDate = dates[dates.length - 1];
+
+    return {
+      cadence,
+      billingDay,
+      amount: Math.round(amounts[amounts.length - 1] * 100) / 100,
+      lastChargeDate,
+      nextChargeDate: this.advance(lastChargeDate, cadence, billingDay),
+      chargeCount: dates.length,
+      confidence
+    };
+  }
+
+  /**
+   * The next scheduled date after `date`
+   */
+  static advance(date: string, cadence: SubscriptionCadence, billingDay: number | null): string {
+    const rule = CADENCES[cadence];
+    const current = DateTime.fromISO(date);
+    if (!rule.months) {
+      return current.plus({ days: rule.days }).toISODate()!;
+    }
+
+    const next = current.plus({ months: rule.months });
+    return (billingDay ? next.set({ day: Math.min(billingDay, next.daysInMonth!) }) : next).toISODate()!;
+  }
+
+  static billingDayFor(cadence: SubscriptionCadence, nextChargeDate: string): number | null {
+    return CADENCES[cadence].months ? DateTime.fromISO(nextChargeDate).day : null;
+  }
+
+  private static async trackOne(
+    subscription: Subscription,
+    rows: ChargeRow[],
+    now: DateTime,
+    result: TrackingResult
+  ): Promise<void> {
+    const rule = CADENCES[subscription.cadence];
+    const billingDay = subscription.billing_day ?? null;
+    let lastChargeDate = subscription.last_charge_date
+      ? DuplicateDetectionService.toDateString(subscription.last_charge_date)
+      : null;
+    let nextChargeDate = DuplicateDetectionService.toDateString(subscription.next_charge_date);
+    let amount = Number(subscription.amount);
+
+    const charges = rows.filter(row =>
+      (row.subscription_id === subscription.id ||
+        (!row.subscription_id && DuplicateDetectionService.normalizeVendor(row.provider_name) === subscription.vendor_key)) &&
+      row.currency === subscription.currency &&
+      (!lastChargeDate || DuplicateDetectionService.toDateString(row.date) > lastChargeDate)
+    );
+
+    for (const charge of charges) {
+      const date = DuplicateDetectionService.toDateString(charge.date);
+      const offset = DateTime.fromISO(date).diff(DateTime.fromISO(nextChargeDate), 'days').days;
+      if (-offset > rule.length * this.EARLY_CHARGE_RATIO) continue;
+
+      const charged = Number(charge.amount);
+      let flag: SubscriptionFlag | null = null;
+      let flagDetails: Record<string, unknown> | undefined;
+      if (Math.abs(charged - amount) > amount * this.PRICE_TOLERANCE) {
+        flag = 'price_changed';
+        flagDetails = { previous: amount, current: charged, date, expenseId: charge.id };
+      } else if (offset > rule.grace) {
+        flag = 'late';
+        flagDetails = { expected: nextChargeDate, charged: date, daysLate: Math.round(offset), expenseId: charge.id };
+      }
+
+      // A late charge still belongs to the period it was expected in
+      let next = this.advance(nextChargeDate, subscription.cadence, billingDay);
+      while (next <= date) {
+        next = this.advance(next, subscription.cadence, billingDay);
+      }
+
+      await SubscriptionModel.recordCharge(subscription.id, {
+        date,
+        amount: charged,
+        nextChargeDate: next,
+        flag,
+        flagDetails
+      });
+      if (charge.subscription_id !== subscription.id) {
+        await ExpenseModel.linkSubscription([charge.id], subscription.id);
+      }
+      await ExpenseModel.deleteSubscriptionDrafts(subscription.id, nextChargeDate);
+      result.charges++;
+
+      if (flag === 'price_changed') {
+        const format = (value: number) => this.formatAmount(value, subscription.currency);
+        result.flagged += await this.notify(subscription, flag, `${nextChargeDate}:${charge.id}`, {
+          title: `${subscription.provider_name} changed price`,
+          message: `Charged ${format(charged)} on ${date}, previously ${format(amount)}.`
+        }, flagDetails!);
+      } else if (flag === 'late') {
+        result.flagged += await this.notify(subscription, flag, nextChargeDate, {
+          title: `${subscription.provider_name} charged late`,
+          message: `Expected on ${nextChargeDate}, charged on ${date}.`
+        }, flagDetails!);
+      }
+
+      lastChargeDate = date;
+      nextChargeDate = next;
+      amount = charged;
+    }
+
+    const today = now.toISODate()!;
+    const missedAfter = DateTime.fromISO(nextChargeDate).plus({ days: rule.grace }).toISODate()!;
+
+    if (today > missedAfter) {
+      const details = { expected: nextChargeDate, amount };
+      const raised = await this.notify(subscription, 'missed', nextChargeDate, {
+        title: `${subscription.provider_name} charge missing`,
+        message: `A ${subscription.cadence} charge of ${this.formatAmount(amount, subscription.currency)} was expected on ${nextChargeDate}. ` +
+          'If the subscription was cancelled, mark it cancelled.'
+      }, details);
+      // Flag once per expected date, so a dismissed flag stays dismissed
+      if (raised) {
+        await SubscriptionModel.setFlag(subscription.id, 'missed', details);
+        result.flagged++;
+      }
+    } else if (
+      subscription.auto_draft &&
+      today >= nextChargeDate &&
+      (!subscription.drafted_for || DuplicateDetectionService.toDateString(subscription.drafted_for) !== nextChargeDate)
+    ) {
+      await this.createDraft(subscription, nextChargeDate, amount);
+      result.drafted++;
+    }
+  }
+
+  /**
+   * Expected charge as a draft in the review inbox; approving it records the charge
+   */
+  private static async createDraft(subscription: Subscription, date: string, amount: number): Promise<void> {
+    const draft = await ExpenseModel.create(
+      {
+        provider_name: subscription.provider_name,
+        description: `${subscription.cadence.charAt(0).toUpperCase()}${subscription.cadence.slice(1)} subscription charge`,
+        amount,
+        currency: subscription.currency,
+        date,
+        category: subscription.category || undefined,
+        metadata: {
+          subscription: { id: subscription.id, expectedDate: date }
+        }
+      },
+      subscription.user_id,
+      'draft'
+    );
+    await ExpenseModel.linkSubscription([draft.id], subscription.id);
+    await SubscriptionModel.setDraftedFor(subscription.id, date);
+
+    await AuditLogModel.create({
+      userId: subscription.user_id,
+      action: 'SUBSCRIPTION_DRAFT_CREATE',
+      resourceType: 'expenses',
+      resourceId: draft.id,
+      details: { subscriptionId: subscription.id, expectedDate: date, amount, currency: subscription.currency }
+    });
+  }
+
+  /**
+   * Returns 1 when the notification is new, 0 when it was raised before
+   */
+  private static async notify(
+    subscription: Subscription,
+    flag: SubscriptionFlag,
+    occurrence: string,
+    content: { title: string; message: string },
+    details: Record<string, unknown>
+  ): Promise<number> {
+    const created = await NotificationModel.create({
+      userId: subscription.user_id,
+      type: `subscription_${flag}`,
+      title: content.title,
+      message: content.message,
+      link: '/subscriptions',
+      resourceType: 'subscription',
+      resourceId: subscription.id,
+      dedupeKey: `subscription:${subscription.id}:${occurrence}:${flag}`
+    });
+    if (!created) return 0;
+
+    // Raised by the system rather than a request, so there is no client to record
+    await AuditLogModel.create({
+      userId: subscription.user_id,
+      action: 'SUBSCRIPTION_FLAGGED',
+      resourceType: 'subscription',
+      resourceId: subscription.id,
+      details: { ...details, flag, provider: subscription.provider_name }
+    });
+    return 1;
+  }
+
+  private static median(values: number[]): number {
+    const sorted = [...values].sort((a, b) => a - b);
+    const middle = Math.floor(sorted.length / 2);
+    return sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+  }
+
+  // Ties go to the later day, so a month-end plan keeps the 31st rather than the 28th
+  private static mostCommonDay(days: DateTime[]): number {
+    const counts = new Map<number, number>();
+    for (const day of days) counts.set(day.day, (counts.get(day.day) || 0) + 1);
+    return Array.from(counts.entries()).sort((a, b) => b[1] - a[1] || b[0] - a[0])[0][0];
+  }
+
+  private static formatAmount(amount: number, currency: string): string {
+    return new Intl.NumberFormat('en-US', { style: 'currency', currency }).format(amount);
+  }
+}
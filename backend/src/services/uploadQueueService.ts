@@ -0,0 +1,139 @@
+import { randomUUID } from 'crypto';
+import { getRedisClient } from '@/config/redis';
+import { FileModel } from '@/models/File';
+
+export type UploadJobStatus = 'queued' | 'scanning' | 'extracting' | 'ready' | 'failed';
+
+/**
+ * Set for automated ingestion (mailbox, drop folder): nobody is waiting on the
+ * result, so the worker records it as a draft expense for later review
+ */
+export interface DraftOptions {
+  source: 'email' | 'folder';
+  category?: string;
+}
+
+export interface UploadJob {
+  id: string;
+  fileId: number;
+  userId: number;
+  status: UploadJobStatus;
+  draft?: DraftOptions;
+  result?: any;
+  error?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface UploadBatch {
+  id: string;
+  userId: number;
+  jobIds: string[];
+  createdAt: string;
+}
+
+export class UploadQueueService {
+  static readonly QUEUE_KEY = 'upload:queue';
+  static readonly PROCESSING_KEY = 'upload:processing';
+  // Job results are kept as long as an unconfirmed upload is
+  private static readonly JOB_TTL_SECONDS = 24 * 60 * 60;
+
+  /**
+   * Record a new job and push it onto the processing queue
+   */
+  static async enqueue(fileId: number, userId: number, draft?: DraftOptions): Promise<UploadJob> {
+    const now = new Date().toISOString();
+    const job: UploadJob = {
+      id: randomUUID(),
+      fileId,
+      userId,
+      status: 'queued',
+      draft,
+      createdAt: now,
+      updatedAt: now
+    };
+
+    const client = getRedisClient();
+    await client.setEx(this.jobKey(job.id), this.JOB_TTL_SECONDS, JSON.stringify(job));
+    await FileModel.updateProcessingStatus(fileId, 'queued');
+    await client.lPush(this.QUEUE_KEY, job.id);
+
+    return job;
+  }
+
+  static async getJob(jobId: string): Promise<UploadJob | null> {
+    const raw = await getRedisClient().get(this.jobKey(jobId));
+    return raw ? JSON.parse(raw) : null;
+  }
+
+  /**
+   * Group the jobs of a multi-file upload so they can be polled together
+   */
+  static async createBatch(userId: number, jobIds: string[]): Promise<UploadBatch> {
+    const batch: UploadBatch = {
+      id: randomUUID(),
+      userId,
+      jobIds,
+      createdAt: new Date().toISOString()
+    };
+
+    await getRedisClient().setEx(this.batchKey(batch.id), this.JOB_TTL_SECONDS, JSON.stringify(batch));
+
+    return batch;
+  }
+
+  static async getBatch(batchId: string): Promise<{ batch: UploadBatch; jobs: UploadJob[] } | null> {
+    const raw = await getRedisClient().get(this.batchKey(batchId));
+    if (!raw) return null;
+
+    const batch: UploadBatch = JSON.parse(raw);
+    const jobs = await Promise.all(batch.jobIds.map(jobId => this.getJob(jobId)));
+
+    return { batch, jobs: jobs.filter((job): job is UploadJob => job !== null) };
+  }
+
+  /**
+   * Update a job's status (mirrored to `files.processing_status`) and optional result
+   */
+  static async updateJob(
+    job: UploadJob,
+    update: { status: UploadJobStatus; result?: any; error?: string }
+  ): Promise<UploadJob> {
+    const updated: UploadJob = {
+      ...job,
+      ...update,
+      updatedAt: new Date().toISOString()
+    };
+
+    await FileModel.updateProcessingStatus(job.fileId, update.status);
+    await getRedisClient().setEx(this.jobKey(job.id), this.JOB_TTL_SECONDS, JSON.stringify(updated));
+
+    return updated;
+  }
+
+  /**
+   * Move jobs left in the processing list by an interrupted worker back onto the queue
+   */
+  static async requeueInterrupted(): Promise<number> {
+    const client = getRedisClient();
+    let requeued = 0;
+
+    while (await client.lMove(this.PROCESSING_KEY, this.QUEUE_KEY, 'LEFT', 'RIGHT')) {
+      requeued++;
+    }
+
+    return requeued;
+  }
+
+  static async acknowledge(jobId: string): Promise<void> {
+    await getRedisClient().lRem(this.PROCESSING_KEY, 1, jobId);
+  }
+
+  private static jobKey(jobId: string): string {
+    return `upload:job:${jobId}`;
+  }
+
+  private static batchKey(batchId: string): string {
+    return `upload:batch:${batchId}`;
+  }
+}
@@ -0,0 +1,145 @@
+import { getReportingCurrency } from '@/config/currency';
+import { VendorInput, VendorModel, VendorUsage } from '@/models/Vendor';
+import { SensitivityRuleService } from '@/services/sensitivityRuleService';
+import { Vendor } from '@/types';
+
+const SENSITIVITIES = ['LOW', 'MEDIUM', 'HIGH'];
+
+/**
+ * The vendor registry: one canonical name per vendor with the other names it
+ * appears under on invoices and statements. Expenses are linked to a vendor
+ * when they are created, imported or extracted from an upload, and the
+ * vendor's defaults fill in what the source left out. The registry is shared
+ * by all users, like the API-generated expenses it also covers.
+ */
+export class VendorService {
+  private static readonly MAX_ALIASES = 50;
+
+  /**
+   * Validate a create (partial = false) or update request body
+   */
+  static parseInput(body: any, partial: boolean): { input: Partial<VendorInput> } | { error: string } {
+    const input: Partial<VendorInput> = {};
+    const has = (field: string) => body[field] !== undefined;
+    const optionalText = (field: string, max: number): string | null | false => {
+      const value = body[field];
+      if (value === null || (typeof value === 'string' && !value.trim())) return null;
+      return typeof value === 'string' && value.trim().length <= max ? value.trim() : false;
+    };
+
+    if (!partial || has('canonicalName')) {
+      if (typeof body.canonicalName !== 'string' || !VendorModel.keyFor(body.canonicalName) ||
+          body.canonicalName.trim().length > 255) {
+        return { error: 'Canonical name is required and must be at most 255 characters' };
+      }
+      input.canonicalName = body.canonicalName.trim();
+    }
+    if (has('aliases')) {
+      const aliases = body.aliases;
+      if (!Array.isArray(aliases) || aliases.length > this.MAX_ALIASES ||
+          aliases.some((alias: unknown) => typeof alias !== 'string' || !VendorModel.keyFor(alias) || alias.length > 255)) {
+        return { error: `Aliases must be up to ${this.MAX_ALIASES} names of at most 255 characters` };
+      }
+      input.aliases = aliases.map((alias: string) => alias.trim());
+    } else if (!partial) {
+      input.aliases = [];
+    }
+
+    const text: [keyof VendorInput, string, number][] = [
+      ['defaultCategory', 'default category', 100],
+      ['maskedAlias', 'masked alias', 255],
+      ['notes', 'notes', 2000]
+    ];
+    for (const [field, label, max] of text) {
+      if (has(field)) {
+        const value = optionalText(field, max);
+        if (value === false) {
+          return { error: `The ${label} must be text of at most ${max} characters` };
+        }
+        (input as any)[field] = value;
+      } else if (!partial) {
+        (input as any)[field] = null;
+      }
+    }
+
+    if (has('defaultSensitivity')) {
+      if (body.defaultSensitivity !== null && !SENSITIVITIES.includes(body.defaultSensitivity)) {
+        return { error: `Default sensitivity must be one of: ${SENSITIVITIES.join(', ')}` };
+      }
+      input.defaultSensitivity = body.defaultSensitivity;
+    } else if (!partial) {
+      input.defaultSensitivity = null;
+    }
+
+    return { input };
+  }
+
+  static async list(userId: number, everyVendor: boolean): Promise<{ reportingCurrency: string; vendors: VendorUsage[] }> {
+    const reportingCurrency = getReportingCurrency();
+    return {
+      reportingCurrency,
+      vendors: await VendorModel.findAllWithUsage(userId, reportingCurrency, everyVendor)
+    };
+  }
+
+  static async create(input: VendorInput, userId: number): Promise<{ vendor: Vendor } | { error: string }> {
+    const conflict = await this.findConflict([input.canonicalName, ...input.aliases]);
+    if (conflict) return { error: conflict };
+
+    return { vendor: await VendorModel.create(input, userId) };
+  }
+
+  /**
+   * Returns null when the vendor does not exist. Defaults apply to expenses
+   * linked from now on; existing expenses keep the values they have.
+   */
+  static async update(id: number, input: Partial<VendorInput>): Promise<{ vendor: Vendor } | { error: string } | null> {
+    const names = [...(input.canonicalName ? [input.canonicalName] : []), ...(input.aliases ?? [])];
+    const conflict = await this.findConflict(names, id);
+    if (conflict) return { error: conflict };
+
+    const vendor = await VendorModel.update(id, input);
+    return vendor ? { vendor } : null;
+  }
+
+  /**
+   * Merge duplicates into one vendor. Statistics, budgets and resolution of
+   * the merged names all follow the target from then on.
+   */
+  static async merge(
+    targetId: number,
+    sourceIds: unknown,
+    userId: number
+  ): Promise<{ vendor: Vendor; merged: Vendor[]; movedExpenses: number } | { error: string }> {
+    if (!Array.isArray(sourceIds) || sourceIds.length === 0 || !sourceIds.every(Number.isInteger)) {
+      return { error: 'Choose the vendors to merge into this one' };
+    }
+    const ids = Array.from(new Set<number>(sourceIds as number[]));
+    if (ids.includes(targetId)) {
+      return { error: 'A vendor cannot be merged into itself' };
+    }
+
+    const merged = await Promise.all(ids.map(id => VendorModel.findById(id)));
+    if (merged.some(vendor => !vendor)) {
+      return { error: 'One of the vendors to merge no longer exists' };
+    }
+
+    const movedExpenses = await VendorModel.merge(targetId, ids);
+    // Moved expenses now fall under the target's vendor rules and defaults
+    await SensitivityRuleService.reclassify({ vendorIds: [targetId], userId });
+    return {
+      vendor: (await VendorModel.findById(targetId))!,
+      merged: merged as Vendor[],
+      movedExpenses
+    };
+  }
+
+  private static async findConflict(names: string[], exceptVendorId?: number): Promise<string | null> {
+    const keys = Array.from(new Set(names.map(name => VendorModel.keyFor(name))));
+    const conflicts = await VendorModel.findAliasConflicts(keys, exceptVendorId);
+    if (conflicts.length === 0) return null;
+
+    const { alias, canonical_name } = conflicts[0];
+    return `"${alias}" already belongs to ${canonical_name}; merge the vendors instead`;
+  }
+}
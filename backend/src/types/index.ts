@@ -1,3 +1,6 @@
+import { EInvoice } from '@/utils/eInvoice';
+import { StatementFormat, StatementMapping } from '@/utils/statementParsing';
+
 export interface User {
   id: number;
   username: string;
@@ -19,17 +22,48 @@ export interface Expense {
   currency: string;
   date: Date;
   due_date?: Date;
-  source_type: 'api' | 'manual';
+  source_type: ExpenseSourceType;
   sensitivity_level: 'LOW' | 'MEDIUM' | 'HIGH';
   tags: string[];
   category?: string;
   file_id?: number;
+  file_retention_policy?: 'KEEP' | 'DELETE';
   created_by: number;
   created_at: Date;
   updated_at: Date;
   retention_until?: Date;
+  metadata?: Record<string, any>;
+  provider_hash?: string;
+  reduction_level?: 'full' | 'essential' | 'minimal';
+  reduced_at?: Date;
+  fingerprint?: string;
+  import_key?: string;
+  status: ExpenseStatus;
+  payment_status: PaymentStatus;
+  paid_amount: number;
+  // amount converted at the rate of `date`; null while no rate is known
+  reporting_currency?: string | null;
+  fx_rate?: number | null;
+  reporting_amount?: number | null;
+  // The subscription this is a charge (or a predicted charge draft) of
+  subscription_id?: number | null;
+  vendor_id?: number | null;
+  // The rule that classified the expense; none when no rule matched or the level was set by hand
+  sensitivity_rule_id?: number | null;
+  sensitivity_manual?: boolean;
+  // Only on search results: matching text with hits wrapped in <mark>; null on masked rows
+  search_snippet?: string | null;
 }
 
+// How the expense entered the system; mailbox and drop-folder invoices keep their channel
+export type ExpenseSourceType = 'api' | 'manual' | 'import' | 'email' | 'folder';
+
+// Drafts come from automated ingestion and wait for a user to review them
+export type ExpenseStatus = 'draft' | 'approved';
+
+// Derived from the bank transactions matched to the expense
+export type PaymentStatus = 'unpaid' | 'partially_paid' | 'paid';
+
 export interface AuditLog {
   id: number;
   user_id?: number;
@@ -59,6 +93,194 @@ export interface FileRecord {
   uploaded_at: Date;
   expires_at?: Date;
   deleted_at?: Date;
+  content_hash?: string;
+  e_invoice?: EInvoice | null;
+}
+
+export interface FileHistoryRecord extends Pick<
+  FileRecord,
+  'id' | 'original_filename' | 'file_size' | 'mime_type' | 'sensitivity_level'
+  | 'retention_policy' | 'processing_status' | 'uploaded_at' | 'expires_at'
+> {
+  expense_id: number | null;
+  expense_provider_name: string | null;
+  expense_amount: number | null;
+  expense_date: Date | null;
+}
+
+export interface TemplateFieldRule {
+  anchor?: string;                        // label text next to the value, e.g. "Total due"
+  position?: 'same_line' | 'next_line';   // where the value sits relative to the anchor
+  regex?: string;                         // explicit pattern; capture group 1 is the value
+  region?: { from: number; to: number };  // relative line band (0..1) to search in
+}
+
+export interface TemplateRules {
+  total?: TemplateFieldRule;
+  date?: TemplateFieldRule;
+  invoiceNumber?: TemplateFieldRule;
+}
+
+export interface ExtractionTemplate {
+  id: number;
+  user_id: number;
+  vendor_name: string;
+  match_patterns: string[];
+  rules: TemplateRules;
+  use_count: number;
+  last_used_at?: Date;
+  created_at: Date;
+  updated_at: Date;
+}
+
+// Saved column mapping for one bank or card account's statement files
+export interface StatementSource {
+  id: number;
+  user_id: number;
+  source_name: string;
+  format: StatementFormat;
+  mapping: StatementMapping | null;
+  use_count: number;
+  last_used_at?: Date;
+  created_at: Date;
+  updated_at: Date;
+}
+
+// A money-out statement line, kept for reconciliation whether or not it became an expense
+export interface BankTransaction {
+  id: number;
+  user_id: number;
+  source_name: string;
+  import_key: string;
+  date: Date;
+  description: string;
+  amount: number;
+  currency: string;
+  reference?: string;
+  expense_id?: number | null;
+  match_type?: 'import' | 'auto' | 'manual' | null;
+  match_score?: number | null;
+  matched_at?: Date | null;
+  ignored_at?: Date | null;
+  created_at: Date;
+}
+
+// 1 base_currency = rate quote_currency on rate_date
+export interface FxRate {
+  id: number;
+  rate_date: Date;
+  base_currency: string;
+  quote_currency: string;
+  rate: number;
+  source: string;
+  created_at: Date;
+}
+
+export type BudgetPeriod = 'monthly' | 'quarterly' | 'annual';
+
+export type BudgetScope = 'category' | 'provider' | 'tag';
+
+export interface Budget {
+  id: number;
+  user_id: number;
+  name: string;
+  period: BudgetPeriod;
+  scope_type: BudgetScope;
+  scope_value: string;
+  amount: number;
+  currency: string;
+  // Percentages of amount, ascending
+  thresholds: number[];
+  is_active: boolean;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export type SubscriptionCadence = 'weekly' | 'monthly' | 'quarterly' | 'annual';
+
+export type SubscriptionFlag = 'missed' | 'late' | 'price_changed';
+
+export interface Subscription {
+  id: number;
+  user_id: number;
+  provider_name: string;
+  vendor_key: string;
+  category?: string | null;
+  currency: string;
+  // Expected amount of the next charge
+  amount: number;
+  cadence: SubscriptionCadence;
+  // Day of the month charges fall on, for cadences counted in months
+  billing_day?: number | null;
+  last_charge_date?: Date | null;
+  last_charge_amount?: number | null;
+  next_charge_date: Date;
+  charge_count: number;
+  status: 'active' | 'paused' | 'cancelled';
+  origin: 'detected' | 'manual';
+  confidence?: number | null;
+  auto_draft: boolean;
+  // next_charge_date a draft expense was last created for
+  drafted_for?: Date | null;
+  flag?: SubscriptionFlag | null;
+  flag_details?: Record<string, any> | null;
+  flagged_at?: Date | null;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export interface Vendor {
+  id: number;
+  canonical_name: string;
+  vendor_key: string;
+  // Every name the vendor is known by, the canonical name included
+  aliases: string[];
+  default_category?: string | null;
+  default_sensitivity?: 'LOW' | 'MEDIUM' | 'HIGH' | null;
+  // Shown instead of the provider name on masked expenses
+  masked_alias?: string | null;
+  notes?: string | null;
+  created_by?: number | null;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export type SensitivityLevel = 'LOW' | 'MEDIUM' | 'HIGH';
+
+export type SensitivityMatchType = 'keyword' | 'regex' | 'vendor' | 'category' | 'amount';
+
+export interface SensitivityRule {
+  id: number;
+  name: string;
+  match_type: SensitivityMatchType;
+  // Comma-separated keywords, a regular expression or a category name
+  pattern?: string | null;
+  vendor_id?: number | null;
+  min_amount?: number | null;
+  amount_currency?: string | null;
+  sensitivity: SensitivityLevel;
+  // {hash} is replaced by a short stable hash of the provider name
+  mask_alias?: string | null;
+  // Higher runs first; the first matching rule decides
+  priority: number;
+  is_active: boolean;
+  created_by?: number | null;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export interface Notification {
+  id: number;
+  user_id: number;
+  type: string;
+  title: string;
+  message?: string;
+  link?: string;
+  resource_type?: string;
+  resource_id?: number;
+  dedupe_key?: string;
+  read_at?: Date | null;
+  created_at: Date;
 }
 
 export interface Session {
@@ -105,12 +327,18 @@ export interface ExpenseCreateRequest {
   due_date?: string;
   tags?: string[];
   category?: string;
+  file_id?: number;
+  metadata?: Record<string, any>;
+  allow_duplicate?: boolean;
+  status?: ExpenseStatus;
+  source_type?: ExpenseSourceType;
 }
 
 export interface ExpenseUpdateRequest {
   description?: string;
   amount?: number;
   currency?: string;
+  date?: string;
   due_date?: string;
   tags?: string[];
   category?: string;
@@ -118,7 +346,70 @@ export interface ExpenseUpdateRequest {
   sensitivity_level?: 'LOW' | 'MEDIUM' | 'HIGH';
 }
 
+export interface ExpenseFilters {
+  startDate?: string;
+  endDate?: string;
+  provider?: string;
+  category?: string;
+  minAmount?: number;
+  maxAmount?: number;
+  showMasked?: boolean;
+  status?: ExpenseStatus;
+  // Full-text query over description, tags, category, metadata and stored invoice text
+  q?: string;
+}
+
+export type ExpenseSortField =
+  | 'relevance'
+  | 'date'
+  | 'provider_name'
+  | 'description'
+  | 'amount'
+  | 'currency'
+  | 'category'
+  | 'sensitivity_level'
+  | 'source_type'
+  | 'due_date'
+  | 'created_at';
+
+export interface ExpensePageRequest {
+  limit: number;
+  sort: ExpenseSortField;
+  order: 'asc' | 'desc';
+  after?: ExpenseCursor;
+}
+
+// Keyset position: the sort value (as text) and id of the last row already returned
+export interface ExpenseCursor {
+  sort: ExpenseSortField;
+  order: 'asc' | 'desc';
+  key: string;
+  id: number;
+}
+
+export interface ExpensePage {
+  items: Expense[];
+  // Opaque; pass back as `cursor` to get the next page. Null on the last page.
+  nextCursor: string | null;
+  total: number;
+  // Totals for the whole filtered set, not just this page; amounts are never summed across currencies
+  totals: {
+    currency: string;
+    count: number;
+    amount: number;
+  }[];
+  // The same set converted into the reporting currency; `unconverted` expenses have no rate yet
+  reportingTotal: {
+    currency: string;
+    amount: number;
+    unconverted: number;
+  };
+}
+
 export interface DashboardStats {
+  reportingCurrency: string;
+  // Approved expenses left out of the amounts below for lack of an FX rate
+  unconvertedCount: number;
   totalExpenses: number;
   monthlyTotal: number;
   monthlyChange: number;
@@ -128,4 +419,5 @@ export interface DashboardStats {
     masked: boolean;
   }[];
   recentTransactions: number;
+  draftCount: number;
 }
\ No newline at end of file
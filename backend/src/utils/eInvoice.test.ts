@@ -0,0 +1,142 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { looksLikeEInvoice, parseEInvoice } from '@/utils/eInvoice';
+
+const ubl = (body: string) => `<?xml version="1.0" encoding="UTF-8"?>
+<Invoice xmlns="urn:oasis:names:specification:ubl:schema:xsd:Invoice-2"
+  xmlns:cac="urn:oasis:names:specification:ubl:schema:xsd:CommonAggregateComponents-2"
+  xmlns:cbc="urn:oasis:names:specification:ubl:schema:xsd:CommonBasicComponents-2">
+${body}
+</Invoice>`;
+
+const UBL_INVOICE = ubl(`
+  <cbc:CustomizationID>urn:cen.eu:en16931:2017#compliant#urn:fdc:peppol.eu:2017:poacc:billing:3.0</cbc:CustomizationID>
+  <cbc:ID>INV-42</cbc:ID>
+  <cbc:IssueDate>2024-03-01</cbc:IssueDate>
+  <cbc:DueDate>2024-03-31</cbc:DueDate>
+  <cbc:DocumentCurrencyCode>EUR</cbc:DocumentCurrencyCode>
+  <cac:AccountingSupplierParty><cac:Party>
+    <cac:PartyName><cbc:Name>Acme Cloud GmbH</cbc:Name></cac:PartyName>
+    <cac:PartyTaxScheme><cbc:CompanyID>DE123456789</cbc:CompanyID></cac:PartyTaxScheme>
+  </cac:Party></cac:AccountingSupplierParty>
+  <cac:AccountingCustomerParty><cac:Party>
+    <cac:PartyName><cbc:Name>Buyer Ltd</cbc:Name></cac:PartyName>
+  </cac:Party></cac:AccountingCustomerParty>
+  <cac:TaxTotal>
+    <cbc:TaxAmount currencyID="EUR">19.00</cbc:TaxAmount>
+    <cac:TaxSubtotal><cac:TaxCategory><cbc:Percent>19</cbc:Percent></cac:TaxCategory></cac:TaxSubtotal>
+  </cac:TaxTotal>
+  <cac:LegalMonetaryTotal>
+    <cbc:TaxExclusiveAmount currencyID="EUR">100.00</cbc:TaxExclusiveAmount>
+    <cbc:TaxInclusiveAmount currencyID="EUR">119.00</cbc:TaxInclusiveAmount>
+    <cbc:PayableAmount currencyID="EUR">119.00</cbc:PayableAmount>
+  </cac:LegalMonetaryTotal>
+  <cac:InvoiceLine>
+    <cbc:ID>1</cbc:ID>
+    <cbc:InvoicedQuantity unitCode="C62">2</cbc:InvoicedQuantity>
+    <cbc:LineExtensionAmount currencyID="EUR">100.00</cbc:LineExtensionAmount>
+    <cac:Item><cbc:Name>Compute hours</cbc:Name></cac:Item>
+    <cac:Price><cbc:PriceAmount currencyID="EUR">50.00</cbc:PriceAmount></cac:Price>
+  </cac:InvoiceLine>`);
+
+const CII_INVOICE = `<?xml version="1.0" encoding="UTF-8"?>
+<rsm:CrossIndustryInvoice xmlns:rsm="urn:un:unece:uncefact:data:standard:CrossIndustryInvoice:100"
+  xmlns:ram="urn:un:unece:uncefact:data:standard:ReusableAggregateBusinessInformationEntity:100"
+  xmlns:udt="urn:un:unece:uncefact:data:standard:UnqualifiedDataType:100">
+  <rsm:ExchangedDocumentContext>
+    <ram:GuidelineSpecifiedDocumentContextParameter><ram:ID>urn:factur-x.eu:1p0:minimum</ram:ID></ram:GuidelineSpecifiedDocumentContextParameter>
+  </rsm:ExchangedDocumentContext>
+  <rsm:ExchangedDocument>
+    <ram:ID>FX-7</ram:ID>
+    <ram:TypeCode>380</ram:TypeCode>
+    <ram:IssueDateTime><udt:DateTimeString format="102">20240215</udt:DateTimeString></ram:IssueDateTime>
+  </rsm:ExchangedDocument>
+  <rsm:SupplyChainTradeTransaction>
+    <ram:ApplicableHeaderTradeAgreement>
+      <ram:SellerTradeParty>
+        <ram:Name>Factur Vendor SARL</ram:Name>
+        <ram:SpecifiedTaxRegistration><ram:ID schemeID="VA">FR12345678901</ram:ID></ram:SpecifiedTaxRegistration>
+      </ram:SellerTradeParty>
+    </ram:ApplicableHeaderTradeAgreement>
+    <ram:ApplicableHeaderTradeSettlement>
+      <ram:InvoiceCurrencyCode>EUR</ram:InvoiceCurrencyCode>
+      <ram:SpecifiedTradeSettlementHeaderMonetarySummation>
+        <ram:TaxBasisTotalAmount>200.00</ram:TaxBasisTotalAmount>
+        <ram:TaxTotalAmount currencyID="EUR">40.00</ram:TaxTotalAmount>
+        <ram:GrandTotalAmount>240.00</ram:GrandTotalAmount>
+        <ram:DuePayableAmount>240.00</ram:DuePayableAmount>
+      </ram:SpecifiedTradeSettlementHeaderMonetarySummation>
+    </ram:ApplicableHeaderTradeSettlement>
+  </rsm:SupplyChainTradeTransaction>
+</rsm:CrossIndustryInvoice>`;
+
+describe('parseEInvoice', () => {
+  it('reads a UBL invoice', async () => {
+    const { invoice, errors } = await parseEInvoice(UBL_INVOICE);
+
+    assert.deepEqual(errors, []);
+    assert.equal(invoice?.format, 'ubl');
+    assert.equal(invoice?.invoiceNumber, 'INV-42');
+    assert.equal(invoice?.issueDate, '2024-03-01');
+    assert.equal(invoice?.dueDate, '2024-03-31');
+    assert.equal(invoice?.currency, 'EUR');
+    assert.deepEqual(invoice?.seller, { name: 'Acme Cloud GmbH', vatId: 'DE123456789' });
+    assert.equal(invoice?.buyer?.name, 'Buyer Ltd');
+    assert.equal(invoice?.subtotal, 100);
+    assert.equal(invoice?.taxAmount, 19);
+    assert.equal(invoice?.taxRate, 19);
+    assert.equal(invoice?.total, 119);
+    assert.deepEqual(invoice?.lineItems, [
+      { description: 'Compute hours', quantity: 2, unitPrice: 50, amount: 100, confidence: 1 }
+    ]);
+  });
+
+  it('reads a CII invoice without line items', async () => {
+    const { invoice, errors } = await parseEInvoice(CII_INVOICE);
+
+    assert.deepEqual(errors, []);
+    assert.equal(invoice?.format, 'cii');
+    assert.equal(invoice?.profile, 'urn:factur-x.eu:1p0:minimum');
+    assert.equal(invoice?.issueDate, '2024-02-15');
+    assert.deepEqual(invoice?.seller, { name: 'Factur Vendor SARL', vatId: 'FR12345678901' });
+    assert.equal(invoice?.total, 240);
+    assert.deepEqual(invoice?.lineItems, []);
+  });
+
+  it('lists every validation error at once', async () => {
+    const { invoice, errors } = await parseEInvoice(ubl(`
+      <cbc:IssueDate>01/03/2024</cbc:IssueDate>
+      <cbc:DocumentCurrencyCode>euro</cbc:DocumentCurrencyCode>`));
+
+    assert.equal(invoice, null);
+    assert.ok(errors.includes('cbc:ID is required'));
+    assert.ok(errors.includes('cbc:IssueDate has an invalid date format'));
+    assert.ok(errors.includes('cbc:DocumentCurrencyCode must be an ISO 4217 currency code'));
+    assert.ok(errors.includes('cbc:PayableAmount is required'));
+    assert.ok(errors.includes('At least one cac:InvoiceLine is required'));
+  });
+
+  it('rejects DOCTYPE declarations and malformed XML', async () => {
+    const withDoctype = UBL_INVOICE.replace('<Invoice', '<!DOCTYPE Invoice [<!ENTITY x "y">]>\n<Invoice');
+
+    assert.deepEqual(await parseEInvoice(withDoctype), {
+      invoice: null,
+      errors: ['DOCTYPE declarations are not allowed in e-invoices']
+    });
+    assert.deepEqual(await parseEInvoice('<Invoice><unclosed></Invoice>'), { invoice: null, errors: ['Malformed XML'] });
+  });
+
+  it('rejects credit notes', async () => {
+    const { errors } = await parseEInvoice('<CreditNote xmlns="urn:oasis:names:specification:ubl:schema:xsd:CreditNote-2"/>');
+
+    assert.deepEqual(errors, ['UBL credit notes are not supported']);
+  });
+});
+
+describe('looksLikeEInvoice', () => {
+  it('recognises UBL and CII namespaces', () => {
+    assert.equal(looksLikeEInvoice(UBL_INVOICE), true);
+    assert.equal(looksLikeEInvoice(CII_INVOICE), true);
+    assert.equal(looksLikeEInvoice('<?xml version="1.0"?><note/>'), false);
+  });
+});
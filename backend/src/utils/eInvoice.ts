@@ -0,0 +1,351 @@
+import { parseStringPromise, processors } from 'xml2js';
+import { InvoiceLineItem } from '@/utils/invoiceFields';
+
+/**
+ * Structured e-invoice parsing: OASIS UBL 2.1 (including Peppol BIS Billing 3.0
+ * and XRechnung) and UN/CEFACT Cross Industry Invoice (the XML inside
+ * ZUGFeRD / Factur-X PDFs). Values are read from their defined elements, so
+ * unlike OCR extraction there is nothing to guess.
+ */
+
+export type EInvoiceFormat = 'ubl' | 'cii';
+
+export interface EInvoiceParty {
+  name: string;
+  vatId?: string;
+}
+
+export interface EInvoice {
+  format: EInvoiceFormat;
+  profile?: string;           // CustomizationID / guideline ID (Peppol BIS, XRechnung, Factur-X profile)
+  invoiceNumber: string;
+  issueDate: string;          // YYYY-MM-DD
+  dueDate?: string;
+  currency: string;
+  seller: EInvoiceParty;
+  buyer?: EInvoiceParty;
+  subtotal?: number;          // total without VAT
+  taxAmount?: number;
+  taxRate?: number;           // percent, when a single rate applies
+  total: number;              // total with VAT
+  payable: number;            // amount due after prepayments
+  lineItems: InvoiceLineItem[];
+}
+
+export interface EInvoiceParseResult {
+  invoice: EInvoice | null;
+  errors: string[];
+}
+
+type XmlNode = any;
+
+const UBL_INVOICE_NS = 'urn:oasis:names:specification:ubl:schema:xsd:Invoice-2';
+const CII_NS = 'urn:un:unece:uncefact:data:standard:CrossIndustryInvoice:100';
+
+// UNTDID 1001 document types that are invoices (credit notes are not supported)
+const CII_INVOICE_TYPE_CODES = ['380', '383', '384', '386', '389', '751'];
+
+const DECIMAL_RX = /^-?\d+(\.\d+)?$/;
+const ISO_DATE_RX = /^\d{4}-\d{2}-\d{2}$/;
+const CII_DATE_RX = /^(\d{4})(\d{2})(\d{2})$/;
+
+export function looksLikeEInvoice(xml: string): boolean {
+  const head = xml.slice(0, 4096);
+  return head.includes(UBL_INVOICE_NS) || head.includes(CII_NS);
+}
+
+/**
+ * Parse and validate an e-invoice. Returns the invoice only when it passes
+ * validation; otherwise `errors` lists every problem found.
+ */
+export async function parseEInvoice(xml: string): Promise<EInvoiceParseResult> {
+  // Invoices never need a DTD; refusing them rules out entity expansion tricks
+  if (/<!DOCTYPE/i.test(xml)) {
+    return { invoice: null, errors: ['DOCTYPE declarations are not allowed in e-invoices'] };
+  }
+
+  let doc: XmlNode;
+  try {
+    doc = await parseStringPromise(xml, {
+      tagNameProcessors: [processors.stripPrefix],
+      attrNameProcessors: [processors.stripPrefix],
+      explicitArray: true,
+      xmlns: false
+    });
+  } catch {
+    return { invoice: null, errors: ['Malformed XML'] };
+  }
+
+  if (doc.Invoice) {
+    return parseUbl(doc.Invoice);
+  }
+  if (doc.CrossIndustryInvoice) {
+    return parseCii(doc.CrossIndustryInvoice);
+  }
+  if (doc.CreditNote) {
+    return { invoice: null, errors: ['UBL credit notes are not supported'] };
+  }
+  return { invoice: null, errors: ['Not a UBL 2.1 Invoice or UN/CEFACT Cross Industry Invoice document'] };
+}
+
+// ---------------- UBL 2.1 ----------------
+
+function parseUbl(root: XmlNode): EInvoiceParseResult {
+  const errors: string[] = [];
+  const v = new Validator(errors);
+
+  const invoiceNumber = v.required(text(root, 'ID'), 'cbc:ID');
+  const issueDate = v.date(text(root, 'IssueDate'), 'cbc:IssueDate', ISO_DATE_RX);
+  const currency = v.currency(text(root, 'DocumentCurrencyCode'), 'cbc:DocumentCurrencyCode');
+
+  const supplier = node(root, 'AccountingSupplierParty', 'Party');
+  v.required(supplier, 'cac:AccountingSupplierParty');
+  v.required(node(root, 'AccountingCustomerParty', 'Party'), 'cac:AccountingCustomerParty');
+
+  const totals = node(root, 'LegalMonetaryTotal');
+  v.required(totals, 'cac:LegalMonetaryTotal');
+  const payable = v.amount(text(totals, 'PayableAmount'), 'cbc:PayableAmount', true);
+  const total = v.amount(text(totals, 'TaxInclusiveAmount'), 'cbc:TaxInclusiveAmount') ?? payable;
+  const subtotal = v.amount(text(totals, 'TaxExclusiveAmount'), 'cbc:TaxExclusiveAmount');
+
+  // Only the tax total in the document currency carries subtotals
+  const taxTotal = nodes(root, 'TaxTotal').find(t => attr(first(t.TaxAmount), 'currencyID') === currency)
+    || nodes(root, 'TaxTotal')[0];
+  const taxAmount = v.amount(text(taxTotal, 'TaxAmount'), 'cbc:TaxAmount');
+  const rates = nodes(taxTotal, 'TaxSubtotal')
+    .map(sub => parseDecimal(text(sub, 'TaxCategory', 'Percent')))
+    .filter((rate): rate is number => rate !== undefined);
+
+  const lines = nodes(root, 'InvoiceLine');
+  if (lines.length === 0) errors.push('At least one cac:InvoiceLine is required');
+
+  const lineItems: InvoiceLineItem[] = lines.map((line, index) => {
+    const amount = v.amount(text(line, 'LineExtensionAmount'), `cac:InvoiceLine[${index + 1}]/cbc:LineExtensionAmount`, true);
+    return {
+      description: text(line, 'Item', 'Name') || text(line, 'Item', 'Description') || `Line ${text(line, 'ID') || index + 1}`,
+      quantity: parseDecimal(text(line, 'InvoicedQuantity')),
+      unitPrice: parseDecimal(text(line, 'Price', 'PriceAmount')),
+      amount: amount ?? 0,
+      confidence: 1
+    };
+  });
+
+  const dueDate = text(root, 'DueDate') || text(root, 'PaymentMeans', 'PaymentDueDate');
+  if (dueDate) v.date(dueDate, 'cbc:DueDate', ISO_DATE_RX);
+
+  const seller = ublParty(supplier);
+  if (!seller.name) errors.push('Supplier party name is required');
+
+  if (errors.length > 0) return { invoice: null, errors };
+
+  return {
+    invoice: {
+      format: 'ubl',
+      profile: text(root, 'CustomizationID'),
+      invoiceNumber: invoiceNumber!,
+      issueDate: issueDate!,
+      dueDate,
+      currency: currency!,
+      seller,
+      buyer: ublParty(node(root, 'AccountingCustomerParty', 'Party')),
+      subtotal,
+      taxAmount,
+      taxRate: uniqueRate(rates),
+      total: total!,
+      payable: payable!,
+      lineItems
+    },
+    errors
+  };
+}
+
+function ublParty(party: XmlNode): EInvoiceParty {
+  return {
+    name: text(party, 'PartyName', 'Name') || text(party, 'PartyLegalEntity', 'RegistrationName') || '',
+    vatId: text(party, 'PartyTaxScheme', 'CompanyID')
+  };
+}
+
+// ---------------- UN/CEFACT CII (ZUGFeRD / Factur-X) ----------------
+
+function parseCii(root: XmlNode): EInvoiceParseResult {
+  const errors: string[] = [];
+  const v = new Validator(errors);
+
+  const document = node(root, 'ExchangedDocument');
+  v.required(document, 'rsm:ExchangedDocument');
+  const invoiceNumber = v.required(text(document, 'ID'), 'ram:ID');
+  const typeCode = text(document, 'TypeCode');
+  if (typeCode && !CII_INVOICE_TYPE_CODES.includes(typeCode)) {
+    errors.push(`Document type ${typeCode} is not an invoice`);
+  }
+  const issueDate = v.date(text(document, 'IssueDateTime', 'DateTimeString'), 'ram:IssueDateTime', CII_DATE_RX);
+
+  const transaction = node(root, 'SupplyChainTradeTransaction');
+  v.required(transaction, 'rsm:SupplyChainTradeTransaction');
+  const agreement = node(transaction, 'ApplicableHeaderTradeAgreement');
+  const settlement = node(transaction, 'ApplicableHeaderTradeSettlement');
+  v.required(agreement, 'ram:ApplicableHeaderTradeAgreement');
+  v.required(settlement, 'ram:ApplicableHeaderTradeSettlement');
+
+  const currency = v.currency(text(settlement, 'InvoiceCurrencyCode'), 'ram:InvoiceCurrencyCode');
+
+  const summation = node(settlement, 'SpecifiedTradeSettlementHeaderMonetarySummation');
+  v.required(summation, 'ram:SpecifiedTradeSettlementHeaderMonetarySummation');
+  const total = v.amount(text(summation, 'GrandTotalAmount'), 'ram:GrandTotalAmount', true);
+  const payable = v.amount(text(summation, 'DuePayableAmount'), 'ram:DuePayableAmount') ?? total;
+  const subtotal = v.amount(text(summation, 'TaxBasisTotalAmount'), 'ram:TaxBasisTotalAmount');
+  // Tax may be stated twice (document and accounting currency)
+  const taxNode = nodes(summation, 'TaxTotalAmount').find(t => attr(t, 'currencyID') === currency)
+    || nodes(summation, 'TaxTotalAmount')[0];
+  const taxAmount = v.amount(valueOf(taxNode), 'ram:TaxTotalAmount');
+  const rates = nodes(settlement, 'ApplicableTradeTax')
+    .map(tax => parseDecimal(text(tax, 'RateApplicablePercent')))
+    .filter((rate): rate is number => rate !== undefined);
+
+  const dueRaw = text(settlement, 'SpecifiedTradePaymentTerms', 'DueDateDateTime', 'DateTimeString');
+  const dueDate = dueRaw ? v.date(dueRaw, 'ram:DueDateDateTime', CII_DATE_RX) : undefined;
+
+  const seller = ciiParty(node(agreement, 'SellerTradeParty'));
+  if (!seller.name) errors.push('ram:SellerTradeParty/ram:Name is required');
+
+  // Minimum/Basic WL Factur-X profiles carry no lines; totals alone are valid there
+  const lineItems: InvoiceLineItem[] = nodes(transaction, 'IncludedSupplyChainTradeLineItem').map((line, index) => {
+    const amount = v.amount(
+      text(line, 'SpecifiedLineTradeSettlement', 'SpecifiedTradeSettlementLineMonetarySummation', 'LineTotalAmount'),
+      `ram:IncludedSupplyChainTradeLineItem[${index + 1}]/ram:LineTotalAmount`,
+      true
+    );
+    return {
+      description: text(line, 'SpecifiedTradeProduct', 'Name') || `Line ${text(line, 'AssociatedDocumentLineDocument', 'LineID') || index + 1}`,
+      quantity: parseDecimal(text(line, 'SpecifiedLineTradeDelivery', 'BilledQuantity')),
+      unitPrice: parseDecimal(text(line, 'SpecifiedLineTradeAgreement', 'NetPriceProductTradePrice', 'ChargeAmount')),
+      amount: amount ?? 0,
+      confidence: 1
+    };
+  });
+
+  if (errors.length > 0) return { invoice: null, errors };
+
+  return {
+    invoice: {
+      format: 'cii',
+      profile: text(root, 'ExchangedDocumentContext', 'GuidelineSpecifiedDocumentContextParameter', 'ID'),
+      invoiceNumber: invoiceNumber!,
+      issueDate: issueDate!,
+      dueDate,
+      currency: currency!,
+      seller,
+      buyer: ciiParty(node(agreement, 'BuyerTradeParty')),
+      subtotal,
+      taxAmount,
+      taxRate: uniqueRate(rates),
+      total: total!,
+      payable: payable!,
+      lineItems
+    },
+    errors
+  };
+}
+
+function ciiParty(party: XmlNode): EInvoiceParty {
+  const vatRegistration = nodes(party, 'SpecifiedTaxRegistration')
+    .map(reg => first(reg.ID))
+    .find(id => attr(id, 'schemeID') === 'VA');
+  return {
+    name: text(party, 'Name') || '',
+    vatId: valueOf(vatRegistration)
+  };
+}
+
+// ---------------- Helpers ----------------
+
+/**
+ * Collects schema violations instead of stopping at the first one, so the
+ * user sees everything wrong with a document at once
+ */
+class Validator {
+  constructor(private errors: string[]) {}
+
+  required<T>(value: T | undefined, element: string): T | undefined {
+    if (value === undefined || value === null || value === '') {
+      this.errors.push(`${element} is required`);
+    }
+    return value;
+  }
+
+  amount(raw: string | undefined, element: string, required = false): number | undefined {
+    if (raw === undefined || raw === '') {
+      if (required) this.errors.push(`${element} is required`);
+      return undefined;
+    }
+    const value = parseDecimal(raw);
+    if (value === undefined) {
+      this.errors.push(`${element} must be a decimal amount`);
+    }
+    return value;
+  }
+
+  date(raw: string | undefined, element: string, format: RegExp): string | undefined {
+    if (!this.required(raw, element)) return undefined;
+    const match = raw!.match(format);
+    if (!match) {
+      this.errors.push(`${element} has an invalid date format`);
+      return undefined;
+    }
+    const iso = match.length > 1 ? `${match[1]}-${match[2]}-${match[3]}` : raw!;
+    if (isNaN(Date.parse(iso))) {
+      this.errors.push(`${element} is not a valid date`);
+      return undefined;
+    }
+    return iso;
+  }
+
+  currency(raw: string | undefined, element: string): string | undefined {
+    if (!this.required(raw, element)) return undefined;
+    if (!/^[A-Z]{3}$/.test(raw!)) {
+      this.errors.push(`${element} must be an ISO 4217 currency code`);
+      return undefined;
+    }
+    return raw;
+  }
+}
+
+function first(list: XmlNode[] | undefined): XmlNode | undefined {
+  return Array.isArray(list) ? list[0] : undefined;
+}
+
+function node(parent: XmlNode, ...path: string[]): XmlNode | undefined {
+  let current = parent;
+  for (const name of path) {
+    current = current ? first(current[name]) : undefined;
+  }
+  return current;
+}
+
+function nodes(parent: XmlNode, name: string): XmlNode[] {
+  return parent && Array.isArray(parent[name]) ? parent[name] : [];
+}
+
+function valueOf(element: XmlNode): string | undefined {
+  if (element === undefined || element === null) return undefined;
+  const value = typeof element === 'object' ? element._ : element;
+  return typeof value === 'string' ? value.trim() : undefined;
+}
+
+function text(parent: XmlNode, ...path: string[]): string | undefined {
+  return valueOf(node(parent, ...path));
+}
+
+function attr(element: XmlNode, name: string): string | undefined {
+  return element && typeof element === 'object' && element.$ ? element.$[name] : undefined;
+}
+
+function parseDecimal(raw: string | undefined): number | undefined {
+  return raw !== undefined && DECIMAL_RX.test(raw) ? parseFloat(raw) : undefined;
+}
+
+function uniqueRate(rates: number[]): number | undefined {
+  const distinct = Array.from(new Set(rates));
+  return distinct.length === 1 ? distinct[0] : undefined;
+}
@@ -0,0 +1,60 @@
+export const XML_MIME_TYPES = ['application/xml', 'text/xml'];
+export const INVOICE_MIME_TYPES = ['application/pdf', 'image/jpeg', 'image/jpg', 'image/png', ...XML_MIME_TYPES];
+export const ZIP_MIME_TYPES = ['application/zip', 'application/x-zip-compressed', 'application/x-zip'];
+
+/**
+ * Magic bytes validation (defense-in-depth).
+ */
+export function validateFileType(buffer: Buffer, mimeType: string): boolean {
+  const magic = buffer.slice(0, 10);
+  switch (mimeType) {
+    case 'application/pdf':
+      return magic.toString('ascii', 0, 4) === '%PDF';
+    case 'image/jpeg':
+    case 'image/jpg':
+      return magic[0] === 0xff && magic[1] === 0xd8 && magic[2] === 0xff;
+    case 'image/png':
+      return magic.toString('hex', 0, 8) === '89504e470d0a1a0a';
+    case 'application/xml':
+    case 'text/xml':
+      return isXmlDocument(buffer);
+    default:
+      return false;
+  }
+}
+
+/**
+ * Work out an invoice's type from its content alone, for files (such as ZIP
+ * entries) that arrive without a trustworthy MIME type
+ */
+export function detectMimeType(buffer: Buffer): string | null {
+  for (const mimeType of ['application/pdf', 'image/jpeg', 'image/png', 'application/xml']) {
+    if (validateFileType(buffer, mimeType)) return mimeType;
+  }
+  return null;
+}
+
+/**
+ * Content type to serve a stored file with, worked out from its bytes rather
+ * than what the uploader claimed. Only types a browser displays without
+ * running script pass through; XML is shown as plain text.
+ */
+export function servedContentType(buffer: Buffer): string {
+  const detected = detectMimeType(buffer);
+  if (detected === 'application/pdf' || detected === 'image/jpeg' || detected === 'image/png') {
+    return detected;
+  }
+  return detected === 'application/xml' ? 'text/plain; charset=utf-8' : 'application/octet-stream';
+}
+
+export function isZipArchive(buffer: Buffer): boolean {
+  // Local file header, or the end-of-central-directory record of an empty archive
+  const signature = buffer.toString('hex', 0, 4);
+  return signature === '504b0304' || signature === '504b0506';
+}
+
+function isXmlDocument(buffer: Buffer): boolean {
+  // XML has no magic bytes; expect a declaration or root element after an optional BOM
+  const head = buffer.toString('utf8', 0, 256).replace(/^\uFEFF/, '').trimStart();
+  return head.startsWith('<?xml') || /^<[A-Za-z_]/.test(head);
+}
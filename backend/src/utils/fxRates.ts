@@ -0,0 +1,138 @@
+import { DateTime } from 'luxon';
+import { parseDelimited } from '@/utils/statementParsing';
+
+/**
+ * FX rate files, for importing rates without a live rate service:
+ * - ECB reference rates as XML (eurofxref-daily.xml, eurofxref-hist.xml)
+ * - ECB reference rates as CSV (eurofxref-hist.csv: Date,USD,JPY,... per EUR)
+ * - A plain CSV with date, base, quote and rate columns
+ */
+
+export type FxRateFormat = 'ecb_xml' | 'ecb_csv' | 'csv';
+
+export interface FxRateInput {
+  date: string;               // ISO date
+  base: string;
+  quote: string;
+  rate: number;               // 1 base = rate quote
+}
+
+export interface ParsedFxRates {
+  format: FxRateFormat;
+  rates: FxRateInput[];
+  skipped: number;
+}
+
+const CURRENCY_RX = /^[A-Z]{3}$/;
+
+const LONG_HEADERS = {
+  date: ['date', 'rate_date', 'day'],
+  base: ['base', 'base_currency', 'from'],
+  quote: ['quote', 'quote_currency', 'to', 'currency'],
+  rate: ['rate', 'value', 'exchange_rate']
+};
+
+/**
+ * Returns null when the file is none of the supported layouts
+ */
+export function parseFxRates(text: string): ParsedFxRates | null {
+  const content = text.replace(/^\uFEFF/, '');
+  if (/<Cube\b/.test(content)) {
+    return parseEcbXml(content);
+  }
+
+  const rows = parseDelimited(content);
+  if (rows.length < 2) return null;
+
+  const headers = rows[0].map(header => header.trim());
+  const lower = headers.map(header => header.toLowerCase());
+  const find = (names: string[]) => lower.findIndex(header => names.includes(header));
+  const columns = {
+    date: find(LONG_HEADERS.date),
+    base: find(LONG_HEADERS.base),
+    quote: find(LONG_HEADERS.quote),
+    rate: find(LONG_HEADERS.rate)
+  };
+
+  if (columns.date >= 0 && columns.quote >= 0 && columns.rate >= 0) {
+    return parseLongCsv(rows.slice(1), columns);
+  }
+  if (lower[0] === 'date' && headers.slice(1).some(header => CURRENCY_RX.test(header))) {
+    return parseEcbCsv(rows.slice(1), headers);
+  }
+  return null;
+}
+
+// ECB XML is flat and regular; a pattern scan handles the 25-year history file without building a DOM
+function parseEcbXml(text: string): ParsedFxRates {
+  const rates: FxRateInput[] = [];
+  let skipped = 0;
+
+  // Rate cubes are self-closing, so the first closing tag ends the day
+  const dayRx = /<Cube\s+time=["'](\d{4}-\d{2}-\d{2})["']\s*>([\s\S]*?)<\/Cube>/g;
+  const rateRx = /<Cube\s+currency=["']([A-Z]{3})["']\s+rate=["']([\d.]+)["']\s*\/>/g;
+
+  for (const day of text.matchAll(dayRx)) {
+    for (const entry of day[2].matchAll(rateRx)) {
+      const rate = parseFloat(entry[2]);
+      if (rate > 0) rates.push({ date: day[1], base: 'EUR', quote: entry[1], rate });
+      else skipped++;
+    }
+  }
+
+  return { format: 'ecb_xml', rates, skipped };
+}
+
+function parseEcbCsv(rows: string[][], headers: string[]): ParsedFxRates {
+  const rates: FxRateInput[] = [];
+  let skipped = 0;
+
+  for (const row of rows) {
+    const date = parseDate(row[0]);
+    for (let i = 1; i < headers.length; i++) {
+      const quote = headers[i].toUpperCase();
+      const value = row[i]?.trim();
+      // Currencies the ECB stopped quoting show as N/A or blank
+      if (!CURRENCY_RX.test(quote) || !value || value === 'N/A') continue;
+
+      const rate = parseFloat(value);
+      if (date && rate > 0) rates.push({ date, base: 'EUR', quote, rate });
+      else skipped++;
+    }
+  }
+
+  return { format: 'ecb_csv', rates, skipped };
+}
+
+function parseLongCsv(
+  rows: string[][],
+  columns: { date: number; base: number; quote: number; rate: number }
+): ParsedFxRates {
+  const rates: FxRateInput[] = [];
+  let skipped = 0;
+
+  for (const row of rows) {
+    const date = parseDate(row[columns.date]);
+    // Without a base column the file is read as per-EUR, like the ECB's
+    const base = columns.base >= 0 ? row[columns.base]?.trim().toUpperCase() : 'EUR';
+    const quote = row[columns.quote]?.trim().toUpperCase();
+    const rate = parseFloat((row[columns.rate] || '').replace(',', '.'));
+
+    if (date && CURRENCY_RX.test(base) && CURRENCY_RX.test(quote) && base !== quote && rate > 0) {
+      rates.push({ date, base, quote, rate });
+    } else {
+      skipped++;
+    }
+  }
+
+  return { format: 'csv', rates, skipped };
+}
+
+function parseDate(value: string | undefined): string | null {
+  if (!value) return null;
+  for (const format of ['yyyy-MM-dd', 'dd/MM/yyyy', 'dd.MM.yyyy']) {
+    const date = DateTime.fromFormat(value.trim(), format);
+    if (date.isValid) return date.toISODate();
+  }
+  return null;
+}
@@ -0,0 +1,196 @@
+import pdfParse from 'pdf-parse';
+import Tesseract from 'tesseract.js';
+import { DateTime } from 'luxon';
+import { PdfRasterService } from '@/services/pdfRasterService';
+
+/**
+ * Invoice text extraction and heuristic field parsing, run by the upload
+ * processing worker.
+ */
+
+export type ExtractionEngine = 'pdf-parse' | 'tesseract' | 'pdf-ocr' | 'e-invoice';
+
+export interface PageOcrResult {
+  page: number;
+  confidence?: number; // 0..1
+  characters: number;
+}
+
+export async function extractText(
+  buffer: Buffer,
+  mimeType: string
+): Promise<{ text: string; engine: ExtractionEngine; ocrConfidence?: number; pages?: PageOcrResult[] }> {
+  if (mimeType === 'application/pdf') {
+    // Same as PdfRasterService: the bundled pdf.js misreads small pooled Buffers, so hand it a plain copy
+    const data = await pdfParse(new Uint8Array(buffer));
+    const text = (data.text || '').trim();
+
+    // Very short text means the PDF is most likely scanned images; OCR it instead
+    if (text.length >= 20) {
+      return { text, engine: 'pdf-parse' };
+    }
+    return ocrPdfPages(buffer);
+  }
+
+  // Images -> OCR (default to Hebrew+English)
+  const { data } = await Tesseract.recognize(buffer, getTessLang(), { logger: () => {} });
+  const conf = typeof data.confidence === 'number' ? data.confidence / 100 : undefined; // 0..1
+  const text = (data.text || '').trim();
+  return { text, engine: 'tesseract', ocrConfidence: conf };
+}
+
+/**
+ * Scanned PDFs: render each page to an image locally, then OCR page by page
+ * with a single Tesseract worker.
+ */
+async function ocrPdfPages(
+  buffer: Buffer
+): Promise<{ text: string; engine: ExtractionEngine; ocrConfidence?: number; pages: PageOcrResult[] }> {
+  const maxPages = parseInt(process.env.PDF_OCR_MAX_PAGES || '10', 10);
+  const rendered = await PdfRasterService.renderPages(buffer, { maxPages });
+
+  const pages: PageOcrResult[] = [];
+  const texts: string[] = [];
+
+  const worker = await Tesseract.createWorker(getTessLang());
+  try {
+    for (const { page, image } of rendered) {
+      const { data } = await worker.recognize(image);
+      const pageText = (data.text || '').trim();
+      texts.push(pageText);
+      pages.push({
+        page,
+        confidence: typeof data.confidence === 'number' ? data.confidence / 100 : undefined,
+        characters: pageText.length,
+      });
+    }
+  } finally {
+    await worker.terminate();
+  }
+
+  const scored = pages.filter((p) => p.confidence !== undefined);
+  const ocrConfidence = scored.length
+    ? scored.reduce((sum, p) => sum + p.confidence!, 0) / scored.length
+    : undefined;
+
+  return { text: texts.filter(Boolean).join('\n\n'), engine: 'pdf-ocr', ocrConfidence, pages };
+}
+
+function getTessLang(): string {
+  return process.env.TESS_LANG || 'eng+heb';
+}
+
+export function parseInvoiceData(rawText: string) {
+  const text = rawText.replace(/\r/g, '').replace(/[ \t]+/g, ' ').trim();
+  const lines = text.split('\n').map((l) => l.trim()).filter(Boolean);
+
+  // ---- Amount + Currency ----
+  // Handles: $1,234.56 | 1,234.56 USD | ₪ 450.00 | EUR 99,00
+  const currencySymbols = ['$', '€', '£', '₪', '₪‎'];
+  const currencyCodes = ['USD', 'EUR', 'GBP', 'ILS', 'NIS', 'AUD', 'CAD'];
+  const currencyRegex = new RegExp(
+    `(?:(${currencySymbols.map((s) => '\\' + s).join('|')})\\s*([0-9]{1,3}(?:[.,][0-9]{3})*(?:[.,][0-9]{2})?)|` +
+      `([0-9]{1,3}(?:[.,][0-9]{3})*(?:[.,][0-9]{2})?)\\s*(${currencyCodes.join('|')}))`,
+    'i'
+  );
+
+  let amount: string | undefined;
+  let currency: string | undefined;
+
+  const m = text.match(currencyRegex);
+  if (m) {
+    if (m[1] && m[2]) {
+      currency = symbolToCode(m[1]);
+      amount = normalizeAmount(m[2]);
+    } else if (m[3] && m[4]) {
+      currency = normalizeCurrencyCode(m[4]);
+      amount = normalizeAmount(m[3]);
+    }
+  }
+
+  // ---- Date (try several formats; return ISO) ----
+  const dateCandidates = findDateCandidates(text);
+  let parsedDate: string | undefined;
+  for (const cand of dateCandidates) {
+    const dt = tryParseDate(cand);
+    if (dt) {
+      parsedDate = dt;
+      break;
+    }
+  }
+
+  // ---- Vendor (heuristic) ----
+  // Prefer first “company-like” line (not a keyword row). Works with Hebrew/English.
+  let vendor: string | undefined = lines.find((l) =>
+    /[A-Za-z\u0590-\u05FF]/.test(l) && // includes Hebrew range
+    !/invoice|tax|total|amount|date/i.test(l) &&
+    l.length >= 3 &&
+    l.length <= 80
+  );
+  if (!vendor) {
+    const idx = lines.findIndex((l) => /\b(from|supplier|vendor|billed by|issued by)\b/i.test(l));
+    if (idx >= 0 && idx + 1 < lines.length) vendor = lines[idx + 1];
+  }
+
+  return { amount, currency, date: parsedDate, vendor };
+}
+
+function symbolToCode(symbol: string): string | undefined {
+  switch (symbol) {
+    case '$':
+      return 'USD';
+    case '€':
+      return 'EUR';
+    case '£':
+      return 'GBP';
+    case '₪':
+    case '₪‎':
+      return 'ILS';
+    default:
+      return undefined;
+  }
+}
+
+function normalizeCurrencyCode(code: string): string {
+  const upper = code.toUpperCase();
+  return upper === 'NIS' ? 'ILS' : upper;
+}
+
+export function normalizeAmount(raw: string): string {
+  let s = raw.trim();
+  // 1.234,56 -> 1234.56 (EU style)
+  if (/,[0-9]{2}$/.test(s) && !/\.[0-9]{2}$/.test(s)) {
+    s = s.replace(/\./g, ''); // remove thousand separators
+    s = s.replace(/,/g, (m, off) => (off === s.lastIndexOf(',') ? '.' : ''));
+  } else {
+    // 1,234.56 -> 1234.56 (US style)
+    s = s.replace(/,/g, '');
+  }
+  return s;
+}
+
+export function findDateCandidates(text: string): string[] {
+  const patterns = [
+    /\b\d{4}-\d{2}-\d{2}\b/g, // 2024-01-15
+    /\b\d{2}\/\d{2}\/\d{4}\b/g, // 15/01/2024 or 01/15/2024
+    /\b\d{2}\.\d{2}\.\d{4}\b/g, // 15.01.2024
+    /\b\d{1,2}\s+[A-Za-z]{3,}\s+\d{4}\b/g, // 15 January 2024
+    /\b[A-Za-z]{3,}\s+\d{1,2},\s+\d{4}\b/g, // January 15, 2024
+  ];
+  const found: string[] = [];
+  for (const rx of patterns) {
+    const m = text.match(rx);
+    if (m) found.push(...m);
+  }
+  return found;
+}
+
+export function tryParseDate(s: string): string | undefined {
+  const fmts = ['yyyy-MM-dd', 'dd/MM/yyyy', 'MM/dd/yyyy', 'dd.MM.yyyy', 'd LLLL yyyy', 'LLLL d, yyyy'];
+  for (const f of fmts) {
+    const dt = DateTime.fromFormat(s, f);
+    if (dt.isValid) return dt.toISODate();
+  }
+  const iso = DateTime.fromISO(s);
+  return iso.isValid ? iso.toISODate() : undefined;
+}
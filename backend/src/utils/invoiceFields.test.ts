@@ -0,0 +1,89 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { amountsIn, extractInvoiceFields } from '@/utils/invoiceFields';
+
+describe('extractInvoiceFields', () => {
+  it('reads labelled fields and cross-checks the totals', () => {
+    const fields = extractInvoiceFields([
+      'Acme Hosting Ltd',
+      'Invoice No: INV-2024-001',
+      'Invoice Date: 15/01/2024',
+      'Due Date: 14/02/2024',
+      'Web hosting 2 x 50.00 100.00',
+      'Domain renewal 1 x 150.00 150.00',
+      'Subtotal 250.00',
+      'VAT 17% 42.50',
+      'Total 292.50'
+    ].join('\n'));
+
+    assert.deepEqual(fields.invoiceNumber, { value: 'INV-2024-001', confidence: 0.9 });
+    assert.equal(fields.invoiceDate?.value, '2024-01-15');
+    assert.equal(fields.dueDate?.value, '2024-02-14');
+    assert.deepEqual(fields.subtotal, { value: 250, confidence: 0.97 });
+    assert.deepEqual(fields.taxAmount, { value: 42.5, confidence: 0.97 });
+    assert.deepEqual(fields.total, { value: 292.5, confidence: 0.97 });
+    assert.equal(fields.taxRate?.value, 17);
+    assert.deepEqual(fields.lineItems.map(item => [item.description, item.quantity, item.unitPrice, item.amount]), [
+      ['Web hosting', 2, 50, 100],
+      ['Domain renewal', 1, 150, 150]
+    ]);
+    assert.ok(fields.lineItems.every(item => item.confidence === 0.97));
+  });
+
+  it('derives a missing total from subtotal and tax', () => {
+    const fields = extractInvoiceFields('Subtotal 100.00\nVAT 17.00');
+
+    assert.deepEqual(fields.total, { value: 117, confidence: 0.6 });
+  });
+
+  it('reads Hebrew labels', () => {
+    const fields = extractInvoiceFields('חשבונית מס 12345\nסה"כ לפני מע"מ 100.00\nמע"מ 17.00\nסה"כ לתשלום 117.00');
+
+    assert.equal(fields.invoiceNumber?.value, '12345');
+    assert.equal(fields.subtotal?.value, 100);
+    assert.equal(fields.total?.value, 117);
+  });
+
+  it('ignores "total" mentioned in passing after the real total', () => {
+    const fields = extractInvoiceFields([
+      'Subtotal 250.00',
+      'VAT 42.50',
+      'Total 292.50',
+      'Order 2024 total 1,250.00 USD'
+    ].join('\n'));
+
+    assert.deepEqual(fields.total, { value: 292.5, confidence: 0.97 });
+  });
+
+  it('prefers a total row whose label opens the line when nothing cross-checks', () => {
+    const fields = extractInvoiceFields('Total 80.00\nYour account total to date 4,000.00');
+
+    assert.equal(fields.total?.value, 80);
+  });
+
+  it('does not read account or card number rows as line items', () => {
+    const fields = extractInvoiceFields([
+      'Consulting 3 x 100.00 300.00',
+      'IBAN: IL62 0108 0000 0009 9999 999',
+      'Card 4111 1111 1111 1111',
+      'Account 12 345 678',
+      'Total 300.00'
+    ].join('\n'));
+
+    assert.deepEqual(fields.lineItems.map(item => item.description), ['Consulting']);
+  });
+
+  it('does not read tax registration numbers as amounts', () => {
+    const fields = extractInvoiceFields('VAT No. 514123456\nTotal 50.00');
+
+    assert.equal(fields.taxAmount, undefined);
+    assert.equal(fields.total?.value, 50);
+  });
+});
+
+describe('amountsIn', () => {
+  it('skips dates and percentages', () => {
+    assert.deepEqual(amountsIn('Total 15.01.2024 1,170.00'), [1170]);
+    assert.deepEqual(amountsIn('VAT 17% 170.00'), [170]);
+  });
+});
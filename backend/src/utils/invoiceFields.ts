@@ -0,0 +1,301 @@
+import { findDateCandidates, normalizeAmount, tryParseDate } from '@/utils/invoiceExtraction';
+
+/**
+ * Structured invoice field extraction. Works line by line on OCR/PDF text,
+ * matching labelled rows (English and Hebrew) and cross-checking the
+ * subtotal + tax = total arithmetic to score each field.
+ */
+
+export interface ExtractedField<T> {
+  value: T;
+  confidence: number; // 0..1
+}
+
+export interface InvoiceLineItem {
+  description: string;
+  quantity?: number;
+  unitPrice?: number;
+  amount: number;
+  confidence: number; // 0..1
+}
+
+export interface InvoiceFields {
+  invoiceNumber?: ExtractedField<string>;
+  invoiceDate?: ExtractedField<string>;
+  dueDate?: ExtractedField<string>;
+  subtotal?: ExtractedField<number>;
+  taxAmount?: ExtractedField<number>;
+  taxRate?: ExtractedField<number>; // percent, e.g. 17
+  total?: ExtractedField<number>;
+  lineItems: InvoiceLineItem[];
+}
+
+type AmountLabel = 'subtotal' | 'tax' | 'total-strong' | 'total';
+
+// A labelled amount, and whether its label opens the row rather than sitting mid-sentence
+type LabelledAmount = ExtractedField<number> & { leading: boolean };
+
+// Hebrew abbreviations are written with ", ״ or ” depending on the source/OCR
+const Q = '["״”\']?';
+
+const SUBTOTAL_RX = new RegExp(
+  `\\b(sub[\\s-]?total|net\\s+(?:amount|total)|(?:total|amount)\\s+(?:before|excl\\.?|excluding|ex\\.?)\\s+(?:vat|tax))\\b|סה${Q}כ\\s+לפני\\s+מע${Q}מ|סכום\\s+ביניים`,
+  'i'
+);
+const TOTAL_STRONG_RX = new RegExp(
+  `\\b(grand\\s+total|total\\s+(?:due|payable|amount|to\\s+pay|incl\\.?|including|inc\\.?)|amount\\s+(?:due|payable)|balance\\s+due)\\b|סה${Q}כ\\s+לתשלום|סה${Q}כ\\s+כולל\\s+מע${Q}מ|לתשלום`,
+  'i'
+);
+const TAX_RX = new RegExp(`\\b(vat|tax|gst|hst)\\b|מע${Q}מ`, 'i');
+const TOTAL_RX = new RegExp(`\\btotal\\b|סה${Q}כ`, 'i');
+// Registration numbers ("VAT No.", "Tax ID", ע.מ./ח.פ.) sit next to tax labels but are not amounts
+const TAX_ID_RX = /\b(?:vat|tax)\s*(?:no\.?|number|id|reg(?:istration)?)\b|ע\.מ\.?|ח\.פ\.?|עוסק\s+מורשה/i;
+
+const DUE_DATE_RX = /\b(due\s+date|payment\s+due|due\s+by|due\s+on|pay\s+by|payable\s+by)\b|תאריך\s+פירעון|לתשלום\s+עד/i;
+const INVOICE_DATE_RX = /\b(invoice\s+date|date\s+of\s+issue|issue\s+date|issued(?:\s+on)?|date)\b|תאריך/i;
+
+const INVOICE_NUMBER_RXS: { rx: RegExp; confidence: number }[] = [
+  { rx: /\b(?:invoice|inv|bill|receipt)\s*(?:no\.?|number|num\.?|#)\s*[:.#]?\s*([A-Z0-9][A-Z0-9\-/_.]*)/i, confidence: 0.9 },
+  { rx: /(?:חשבונית(?:\s+מס)?(?:\s*\/\s*קבלה)?|קבלה)\s*(?:מס['׳]?|מספר)?\s*[:#]?\s*(\d[\d\-/]*)/, confidence: 0.85 },
+  { rx: /\binvoice\s*[:#]\s*([A-Z0-9][A-Z0-9\-/_.]*)/i, confidence: 0.7 }
+];
+
+// Money values; percentages are excluded so "VAT 17%" does not read as 17.00
+const AMOUNT_RX = /(?<![\d.,])(\d{1,3}(?:[,.]\d{3})+(?:[.,]\d{1,2})?|\d+(?:[.,]\d{1,2})?)(?![\d.,]*\s*%)(?![\d])/g;
+const RATE_RX = /(\d{1,2}(?:[.,]\d{1,2})?)\s*%/;
+
+// "Description  2  x  50.00  100.00" / "Description 2 @ 50.00 = 100.00"
+const LINE_ITEM_RX = /^(.*?[A-Za-z\u0590-\u05FF].*?)\s+(\d+(?:[.,]\d+)?)\s*(x|×|@|\*)?\s+[$€£₪]?\s*(\d[\d,.]*)\s*=?\s+[$€£₪]?\s*(\d[\d,.]*)\s*[$€£₪]?$/i;
+// Quantities are small counts or measures; "0108" or "9999" are account-number groups
+const QUANTITY_RX = /^(?:[1-9]\d{0,3}|0)(?:[.,]\d{1,3})?$/;
+// Text ahead of a totals label, when the label starts the row (or follows its amount in RTL text)
+const LEADING_AMOUNT_RX = /^[\d\s.,:$€£₪-]*$/;
+
+const LABELLED = 0.85;       // value on the same line as its label
+const NEXT_LINE = 0.7;       // label on one line, value on the next
+const DERIVED = 0.6;         // computed from the other totals
+const FALLBACK = 0.4;        // unlabelled guess
+const CONSISTENT = 0.97;     // subtotal + tax matches total
+
+export function extractInvoiceFields(rawText: string): InvoiceFields {
+  const text = rawText.replace(/\r/g, '').replace(/[ \t]+/g, ' ').trim();
+  const lines = text.split('\n').map((l) => l.trim()).filter(Boolean);
+
+  const fields: InvoiceFields = { lineItems: [] };
+
+  fields.invoiceNumber = findInvoiceNumber(lines);
+  fields.dueDate = findLabelledDate(lines, DUE_DATE_RX);
+  fields.invoiceDate = findLabelledDate(lines, INVOICE_DATE_RX, DUE_DATE_RX);
+  if (!fields.invoiceDate) {
+    const first = findDateCandidates(text)
+      .map(tryParseDate)
+      .find((d) => d && d !== fields.dueDate?.value);
+    if (first) fields.invoiceDate = { value: first, confidence: FALLBACK };
+  }
+
+  applyTotals(fields, lines);
+  fields.lineItems = findLineItems(lines, fields);
+
+  return pruneEmpty(fields);
+}
+
+function findInvoiceNumber(lines: string[]): ExtractedField<string> | undefined {
+  for (const { rx, confidence } of INVOICE_NUMBER_RXS) {
+    for (const line of lines) {
+      const m = line.match(rx);
+      // Require a digit so labels like "Invoice: Original" are ignored
+      if (m && /\d/.test(m[1])) {
+        return { value: m[1].replace(/[.\-/]+$/, ''), confidence };
+      }
+    }
+  }
+  return undefined;
+}
+
+function findLabelledDate(lines: string[], label: RegExp, exclude?: RegExp): ExtractedField<string> | undefined {
+  for (let i = 0; i < lines.length; i++) {
+    if (!label.test(lines[i]) || (exclude && exclude.test(lines[i]))) continue;
+
+    const sameLine = findDateCandidates(lines[i]).map(tryParseDate).find(Boolean);
+    if (sameLine) return { value: sameLine, confidence: LABELLED };
+
+    const nextLine = i + 1 < lines.length ? findDateCandidates(lines[i + 1]).map(tryParseDate).find(Boolean) : undefined;
+    if (nextLine) return { value: nextLine, confidence: NEXT_LINE };
+  }
+  return undefined;
+}
+
+const LABEL_RXS: [AmountLabel, RegExp][] = [
+  ['subtotal', SUBTOTAL_RX],
+  ['total-strong', TOTAL_STRONG_RX],
+  ['tax', TAX_RX],
+  ['total', TOTAL_RX]
+];
+
+function classifyAmountLine(line: string): AmountLabel | undefined {
+  // Order matters: "Subtotal" and "Total incl. VAT" both contain the weaker labels
+  if (TAX_ID_RX.test(line) || DUE_DATE_RX.test(line)) return undefined;
+  return LABEL_RXS.find(([, rx]) => rx.test(line))?.[0];
+}
+
+function labelLeads(line: string, label: AmountLabel): boolean {
+  const rx = LABEL_RXS.find(([name]) => name === label)![1];
+  const index = line.search(rx);
+  return index >= 0 && LEADING_AMOUNT_RX.test(line.slice(0, index));
+}
+
+export function amountsIn(line: string): number[] {
+  // Drop dates first so "Total 15.01.2024 1,170.00" doesn't yield date fragments
+  let cleaned = line;
+  for (const date of findDateCandidates(line)) {
+    cleaned = cleaned.replace(date, ' ');
+  }
+  return Array.from(cleaned.matchAll(AMOUNT_RX))
+    .map((m) => parseFloat(normalizeAmount(m[1])))
+    .filter((n) => !isNaN(n));
+}
+
+function applyTotals(fields: InvoiceFields, lines: string[]): void {
+  const found: Partial<Record<AmountLabel, LabelledAmount[]>> = {};
+
+  for (let i = 0; i < lines.length; i++) {
+    const label = classifyAmountLine(lines[i]);
+    if (!label) continue;
+
+    // Right-most number on the row is the value column on most layouts
+    let amounts = amountsIn(lines[i]);
+    let confidence = LABELLED;
+    if (amounts.length === 0 && i + 1 < lines.length && !classifyAmountLine(lines[i + 1])) {
+      amounts = amountsIn(lines[i + 1]);
+      confidence = NEXT_LINE;
+    }
+    if (amounts.length === 0) continue;
+
+    (found[label] ||= []).push({ value: round2(amounts[amounts.length - 1]), confidence, leading: labelLeads(lines[i], label) });
+
+    if (label === 'tax' && !fields.taxRate) {
+      const rate = lines[i].match(RATE_RX);
+      if (rate) fields.taxRate = { value: parseFloat(rate[1].replace(',', '.')), confidence: LABELLED };
+    }
+  }
+
+  fields.subtotal = pickFirst(found.subtotal);
+  fields.taxAmount = pickFirst(found.tax);
+  fields.total = pickTotal(found, fields.subtotal, fields.taxAmount);
+
+  const { subtotal, taxAmount, total } = fields;
+
+  if (subtotal && taxAmount && total && approxEqual(subtotal.value + taxAmount.value, total.value)) {
+    subtotal.confidence = taxAmount.confidence = total.confidence = CONSISTENT;
+  } else if (subtotal && taxAmount && !total) {
+    fields.total = { value: round2(subtotal.value + taxAmount.value), confidence: DERIVED };
+  } else if (subtotal && total && !taxAmount && total.value > subtotal.value) {
+    fields.taxAmount = { value: round2(total.value - subtotal.value), confidence: DERIVED };
+  } else if (taxAmount && total && !subtotal && total.value > taxAmount.value) {
+    fields.subtotal = { value: round2(total.value - taxAmount.value), confidence: DERIVED };
+  }
+
+  if (!fields.taxRate && fields.subtotal && fields.taxAmount && fields.subtotal.value > 0) {
+    fields.taxRate = {
+      value: Math.round((fields.taxAmount.value / fields.subtotal.value) * 1000) / 10,
+      confidence: Math.min(fields.subtotal.confidence, fields.taxAmount.confidence) * 0.9
+    };
+  }
+
+  if (!fields.total) {
+    // Nothing labelled: the largest amount on the page is usually the total
+    const all = lines.flatMap(amountsIn);
+    if (all.length > 0) fields.total = { value: round2(Math.max(...all)), confidence: FALLBACK };
+  }
+}
+
+function pickFirst(candidates: LabelledAmount[] | undefined): ExtractedField<number> | undefined {
+  const picked = candidates?.find(c => c.leading) || candidates?.[0];
+  return picked && { value: picked.value, confidence: picked.confidence };
+}
+
+/**
+ * The total is the row that agrees with subtotal + tax when there is one.
+ * Otherwise rows whose label opens the line beat "total" mentioned in
+ * passing ("Order 2024 total 1,250.00"), and explicit "amount due" rows beat
+ * the largest plain "total" row.
+ */
+function pickTotal(
+  found: Partial<Record<AmountLabel, LabelledAmount[]>>,
+  subtotal?: ExtractedField<number>,
+  taxAmount?: ExtractedField<number>
+): ExtractedField<number> | undefined {
+  const strong = found['total-strong'] || [];
+  const plain = found.total || [];
+  const last = (list: LabelledAmount[]) => list[list.length - 1];
+  const largest = (list: LabelledAmount[]) =>
+    list.length > 0 ? list.reduce((max, f) => (f.value > max.value ? f : max)) : undefined;
+
+  const expected = subtotal && taxAmount ? subtotal.value + taxAmount.value : undefined;
+  const picked = (expected !== undefined ? [...strong, ...plain].find(c => approxEqual(c.value, expected)) : undefined)
+    || last(strong.filter(c => c.leading))
+    || largest(plain.filter(c => c.leading))
+    || last(strong)
+    || largest(plain);
+
+  return picked && { value: picked.value, confidence: picked.confidence };
+}
+
+function findLineItems(lines: string[], fields: InvoiceFields): InvoiceLineItem[] {
+  const items: InvoiceLineItem[] = [];
+
+  for (const line of lines) {
+    if (classifyAmountLine(line)) continue;
+
+    const m = line.match(LINE_ITEM_RX);
+    if (!m) continue;
+
+    if (!QUANTITY_RX.test(m[2])) continue;
+
+    const quantity = parseFloat(normalizeAmount(m[2]));
+    const unitPrice = parseFloat(normalizeAmount(m[4]));
+    const amount = parseFloat(normalizeAmount(m[5]));
+    if ([quantity, unitPrice, amount].some(isNaN) || quantity <= 0) continue;
+
+    // Without an "x" or "@" between them the numbers must multiply out, or any
+    // row ending in digit groups (IBANs, card numbers) would read as an item
+    const consistent = approxEqual(quantity * unitPrice, amount);
+    if (!m[3] && !consistent) continue;
+
+    items.push({
+      description: m[1].trim(),
+      quantity,
+      unitPrice: round2(unitPrice),
+      amount: round2(amount),
+      confidence: consistent ? LABELLED : FALLBACK
+    });
+  }
+
+  // Items that add up to the subtotal (or the total when there's no tax) are very likely right
+  const sum = items.reduce((acc, item) => acc + item.amount, 0);
+  const expected = fields.subtotal?.value ?? fields.total?.value;
+  if (items.length > 0 && expected !== undefined && approxEqual(sum, expected)) {
+    items.forEach((item) => (item.confidence = CONSISTENT));
+  }
+
+  return items;
+}
+
+function pruneEmpty(fields: InvoiceFields): InvoiceFields {
+  for (const key of Object.keys(fields) as (keyof InvoiceFields)[]) {
+    if (fields[key] === undefined) delete fields[key];
+    else if (key !== 'lineItems') {
+      const field = fields[key] as ExtractedField<unknown>;
+      field.confidence = Math.round(field.confidence * 100) / 100;
+    }
+  }
+  return fields;
+}
+
+function approxEqual(a: number, b: number): boolean {
+  return Math.abs(a - b) <= 0.02;
+}
+
+function round2(n: number): number {
+  return Math.round(n * 100) / 100;
+}
@@ -0,0 +1,253 @@
+/**
+ * PII and secret redaction for extracted invoice text. Runs as soon as the
+ * text is extracted: fields and vendor templates are read from the redacted
+ * text, and nothing raw is stored, logged or returned. Numbers are only masked
+ * when their checksum validates (IBAN mod-97, Luhn, Teudat Zehut), so amounts
+ * and references survive.
+ * Masking is line-preserving so templates' line-based rules still apply.
+ */
+
+export type RedactionCategory =
+  | 'secret'
+  | 'email'
+  | 'iban'
+  | 'credit_card'
+  | 'phone'
+  | 'national_id'
+  | 'name'
+  | 'address';
+
+export interface RedactionReport {
+  total: number;
+  categories: Partial<Record<RedactionCategory, number>>;
+}
+
+const PLACEHOLDERS: Record<RedactionCategory, string> = {
+  secret: '[SECRET]',
+  email: '[EMAIL]',
+  iban: '[IBAN]',
+  credit_card: '[CARD]',
+  phone: '[PHONE]',
+  national_id: '[ID]',
+  name: '[NAME]',
+  address: '[ADDRESS]'
+};
+
+// Matches any placeholder left in redacted text
+export const PLACEHOLDER_RX = /\[(?:SECRET|EMAIL|IBAN|CARD|PHONE|ID|NAME|ADDRESS)\]/g;
+
+const PRIVATE_KEY_RX = /-----BEGIN [A-Z ]*PRIVATE KEY-----[\s\S]*?-----END [A-Z ]*PRIVATE KEY-----/g;
+const SECRET_TOKEN_RXS = [
+  /\bsk-(?:ant-)?[A-Za-z0-9_-]{20,}/g,                                  // Anthropic / OpenAI API keys
+  /\bAKIA[0-9A-Z]{16}\b/g,                                              // AWS access key IDs
+  /\bgh[pousr]_[A-Za-z0-9]{36,}\b/g,                                    // GitHub tokens
+  /\bxox[abprs]-[A-Za-z0-9-]{10,}/g,                                    // Slack tokens
+  /\beyJ[A-Za-z0-9_-]{10,}\.[A-Za-z0-9_-]{10,}\.[A-Za-z0-9_-]{10,}/g    // JWTs
+];
+const SECRET_LABEL_RX = new RegExp(
+  String.raw`(\b(?:password|passwd|pwd|passcode|api[\s_-]?key|secret|token|access[\s_-]?key)\b|סיסמה|סיסמא)(\s*[:=]\s*)(\S+)`,
+  'gi'
+);
+
+const EMAIL_RX = /\b[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}\b/g;
+const IBAN_RX = /\b[A-Z]{2}\d{2}(?: ?[A-Z0-9]){11,30}\b/g;
+// Unbroken, or in the printed 4-4-4-4 / 4-6-5 groupings; loose digit runs are usually table columns
+const CARD_RX = new RegExp(
+  String.raw`(?<![\d.,])(?:\d{13,19}|\d{4}(?:[ -]\d{4}){2}[ -]\d{1,7}|\d{4}[ -]\d{6}[ -]\d{5})(?![\d.,])`,
+  'g'
+);
+const NATIONAL_ID_RX = /(?<![\d.,/-])(?:\d{9}|\d{8}-\d)(?![\d.,/-])/g;
+
+const PHONE_RXS = [
+  /(?<![\d+])(?:\+972[\s-]?|0)(?:[23489]|5\d|7\d)[\s-]?\d{3}[\s-]?\d{4}(?!\d)/g,           // Israeli
+  /(?<![\w+])\+\d{1,3}[\s.-]?(?:\(\d{1,4}\)[\s.-]?)?\d{1,4}(?:[\s.-]?\d{2,4}){1,4}(?!\d)/g, // international
+  /(?<!\d)(?:\(\d{3}\)\s?|\d{3}[.-])\d{3}[.-]\d{4}(?!\d)/g                                   // North American
+];
+const PHONE_LABEL_RX = new RegExp(
+  String.raw`((?:\b(?:tel|phone|mobile|cell|fax)\b\.?|טל['׳]?|טלפון|נייד|פקס)\s*[:.]?\s*)([+\d][\d\s().-]{6,}\d)`,
+  'gi'
+);
+
+// Personal names are only recognised by their label; company and product "names" are not personal
+const NAME_LABEL_RX = new RegExp([
+  String.raw`((?:^|[^\w])(?<!(?:company|vendor|supplier|business|product|item|file|user)\s)`,
+  String.raw`(?:name|contact(?:\s+person)?|attn\.?|attention|bill(?:ed)?\s+to|ship\s+to|sold\s+to|recipient)\s*:\s*`,
+  String.raw`|(?:^|\s)(?:לכבוד\s*:?|שם(?:\s+הלקוח)?\s*:|איש\s+קשר\s*:?)\s*)(.*)$`
+].join(''), 'i');
+const NAME_HEADER_RX = /^(?:bill(?:ed)?\s+to|ship\s+to|sold\s+to|attn\.?|attention|recipient|לכבוד|איש\s+קשר)\s*:?$/i;
+const DEAR_RX = /(\bdear\s+)([^,\n]+)/gi;
+
+const ADDRESS_LABEL_RX = /((?:\b(?:address|addr\.?)\b|כתובת)\s*:\s*)(.*)$/i;
+const ADDRESS_HEADER_RX = /^(?:\b(?:address|addr\.?)\b|כתובת)\s*:?$/i;
+const ADDRESS_RXS = [
+  new RegExp([
+    String.raw`\b\d{1,5}[A-Za-z]?\s+(?:[A-Z][A-Za-z.'-]*\s+){1,4}`,
+    String.raw`(?:Street|St|Avenue|Ave|Road|Rd|Boulevard|Blvd|Lane|Ln|Drive|Dr|Way|Court|Ct`,
+    String.raw`|Place|Pl|Square|Sq|Terrace|Highway|Hwy)`,
+    String.raw`\b\.?(?:,?\s*(?:Suite|Apt|Unit|Floor|Fl)\.?\s*#?\w+)?`
+  ].join(''), 'g'),
+  /(?:רחוב|רח['׳]|שד['׳]|שדרות)\s+[֐-׿"'׳״ ]{2,30}?\s*\d{1,4}/g,
+  /\bP\.?\s?O\.?\s+Box\s+\d+/gi,
+  /ת\.ד\.?\s*\d+/g
+];
+
+// Invoice/order references can pass a checksum by chance, so the reference after one of
+// these labels skips the card and ID checks; the rest of its line does not
+const REFERENCE_LABELS = [
+  String.raw`\b(?:invoice|inv|bill|receipt|order|reference|ref|po)\s*(?:no\.?|number|num\.?|#)`,
+  String.raw`חשבונית(?:\s+מס['׳]?)?(?:\s+קבלה)?`,
+  'קבלה',
+  'אסמכתא',
+  'הזמנה'
+];
+const REFERENCE_RX = new RegExp(
+  String.raw`(?:${REFERENCE_LABELS.join('|')})\s*[:#.]?\s*([A-Za-z0-9](?:[\w/-]*\w)?)`,
+  'gi'
+);
+// Stands in for a kept reference while the line is checked; private-use characters match no rule
+const KEPT_RX = /\uE000([\uE100-\uEFFF])\uE001/g;
+
+// Fields holding invoice/order references; their digits are kept as on reference lines
+const REFERENCE_FIELDS = ['invoiceNumber'];
+
+/**
+ * `reference` treats every line as a reference line, for text that is known
+ * to be an invoice or order number
+ */
+export function redactText(text: string, options: { reference?: boolean } = {}): { text: string; report: RedactionReport } {
+  const counts: Partial<Record<RedactionCategory, number>> = {};
+  const mask = (category: RedactionCategory) => {
+    counts[category] = (counts[category] || 0) + 1;
+    return PLACEHOLDERS[category];
+  };
+
+  // Key blocks span lines; everything else is handled line by line
+  const lines = text.replace(PRIVATE_KEY_RX, () => mask('secret')).split('\n');
+
+  for (let i = 0; i < lines.length; i++) {
+    let line = lines[i];
+
+    for (const rx of SECRET_TOKEN_RXS) {
+      line = line.replace(rx, () => mask('secret'));
+    }
+    line = line.replace(SECRET_LABEL_RX, (_m, label, sep) => `${label}${sep}${mask('secret')}`);
+    line = line.replace(EMAIL_RX, () => mask('email'));
+    line = line.replace(IBAN_RX, (candidate) => redactIban(candidate, () => mask('iban')));
+
+    const kept: string[] = [];
+    line = line.replace(REFERENCE_RX, (match, reference: string) => {
+      kept.push(reference);
+      return `${match.slice(0, -reference.length)}\uE000${String.fromCharCode(0xe100 + kept.length - 1)}\uE001`;
+    });
+
+    if (!options.reference) {
+      line = line.replace(CARD_RX, (candidate) => (isValidCard(candidate) ? mask('credit_card') : candidate));
+    }
+
+    line = line.replace(PHONE_LABEL_RX, (_m, label) => `${label}${mask('phone')}`);
+    for (const rx of PHONE_RXS) {
+      line = line.replace(rx, (candidate) => (candidate.replace(/\D/g, '').length >= 8 ? mask('phone') : candidate));
+    }
+
+    if (!options.reference) {
+      line = line.replace(NATIONAL_ID_RX, (candidate) => (isValidIsraeliId(candidate) ? mask('national_id') : candidate));
+    }
+
+    line = line.replace(DEAR_RX, (_m, greeting) => `${greeting}${mask('name')}`);
+    line = line.replace(NAME_LABEL_RX, (match, label, value) => (value.trim() ? `${label}${mask('name')}` : match));
+    line = line.replace(ADDRESS_LABEL_RX, (match, label, value) => (value.trim() ? `${label}${mask('address')}` : match));
+    for (const rx of ADDRESS_RXS) {
+      line = line.replace(rx, () => mask('address'));
+    }
+    line = line.replace(KEPT_RX, (_m, index: string) => kept[index.charCodeAt(0) - 0xe100]);
+
+    // A bare "Bill To:" / "Address:" header puts the value on the next line
+    const next = lines[i + 1];
+    if (next !== undefined && next.trim()) {
+      if (NAME_HEADER_RX.test(line.trim())) lines[i + 1] = mask('name');
+      else if (ADDRESS_HEADER_RX.test(line.trim())) lines[i + 1] = mask('address');
+    }
+
+    lines[i] = line;
+  }
+
+  const total = Object.values(counts).reduce((sum, n) => sum + (n || 0), 0);
+  return { text: lines.join('\n'), report: { total, categories: counts } };
+}
+
+/**
+ * Redact every string inside extracted values (invoice fields, parsed
+ * e-invoice parties and lines). Numbers, dates and structure are kept.
+ */
+export function redactFields<T>(value: T, reference = false): T {
+  if (typeof value === 'string') {
+    return redactText(value, { reference }).text as T;
+  }
+  if (Array.isArray(value)) {
+    return value.map(item => redactFields(item, reference)) as T;
+  }
+  if (value && typeof value === 'object' && !(value instanceof Date)) {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, field]) => [key, redactFields(field, reference || REFERENCE_FIELDS.includes(key))])
+    ) as T;
+  }
+  return value;
+}
+
+/**
+ * IBAN candidates may run into a following uppercase word ("… 9999 BIC");
+ * take the longest prefix that passes mod-97
+ */
+function redactIban(candidate: string, mask: () => string): string {
+  for (let end = candidate.length; end >= 15; end--) {
+    const prefix = candidate.slice(0, end);
+    if (/[A-Z0-9]$/.test(prefix) && isValidIban(prefix)) {
+      return mask() + candidate.slice(end);
+    }
+  }
+  return candidate;
+}
+
+export function isValidIban(value: string): boolean {
+  const iban = value.replace(/\s/g, '').toUpperCase();
+  if (!/^[A-Z]{2}\d{2}[A-Z0-9]{11,30}$/.test(iban)) return false;
+
+  const rearranged = iban.slice(4) + iban.slice(0, 4);
+  let remainder = 0;
+  for (const char of rearranged) {
+    const digits = /\d/.test(char) ? char : String(char.charCodeAt(0) - 55);
+    for (const digit of digits) {
+      remainder = (remainder * 10 + Number(digit)) % 97;
+    }
+  }
+  return remainder === 1;
+}
+
+export function isValidCard(value: string): boolean {
+  const digits = value.replace(/\D/g, '');
+  if (digits.length < 13 || digits.length > 19 || /^0/.test(digits)) return false;
+
+  let sum = 0;
+  for (let i = 0; i < digits.length; i++) {
+    let digit = Number(digits[digits.length - 1 - i]);
+    if (i % 2 === 1) {
+      digit *= 2;
+      if (digit > 9) digit -= 9;
+    }
+    sum += digit;
+  }
+  return sum % 10 === 0;
+}
+
+export function isValidIsraeliId(value: string): boolean {
+  const digits = value.replace(/\D/g, '').padStart(9, '0');
+  if (digits.length !== 9 || /^0+$/.test(digits)) return false;
+
+  let sum = 0;
+  for (let i = 0; i < 9; i++) {
+    let step = Number(digits[i]) * ((i % 2) + 1);
+    if (step > 9) step -= 9;
+    sum += step;
+  }
+  return sum % 10 === 0;
+}
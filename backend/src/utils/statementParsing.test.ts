@@ -0,0 +1,158 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import {
+  applyMapping,
+  decodeStatement,
+  detectFormat,
+  parseAmount,
+  parseDelimited,
+  parseOfx,
+  parseQif,
+  parseStatementDate,
+  suggestMapping,
+  toTable
+} from '@/utils/statementParsing';
+
+describe('parseAmount', () => {
+  it('reads signs written as a minus, parentheses or a trailing minus', () => {
+    assert.equal(parseAmount('-12.50', '.'), -12.5);
+    assert.equal(parseAmount('(1,234.56)', '.'), -1234.56);
+    assert.equal(parseAmount('1,234.56-', '.'), -1234.56);
+    assert.equal(parseAmount('− 7.00', '.'), -7);
+  });
+
+  it('honours the decimal separator', () => {
+    assert.equal(parseAmount('1.234,56', ','), 1234.56);
+    assert.equal(parseAmount("1'234.56", '.'), 1234.56);
+    assert.equal(parseAmount('€ 99,90', ','), 99.9);
+  });
+
+  it('returns null for blanks and non-numbers', () => {
+    assert.equal(parseAmount('', '.'), null);
+    assert.equal(parseAmount('n/a', '.'), null);
+    assert.equal(parseAmount(undefined, '.'), null);
+  });
+});
+
+describe('parseStatementDate', () => {
+  it('accepts single-digit days and months and drops the time', () => {
+    assert.equal(parseStatementDate('5/1/2024 00:00', 'dd/MM/yyyy'), '2024-01-05');
+    assert.equal(parseStatementDate('2024-01-05', 'yyyy-MM-dd'), '2024-01-05');
+    assert.equal(parseStatementDate('31/02/2024', 'dd/MM/yyyy'), null);
+  });
+});
+
+describe('parseDelimited', () => {
+  it('guesses the delimiter and handles quoted cells', () => {
+    const rows = parseDelimited('Date;Description;Amount\r\n05/01/2024;"Coffee; large";"-3,50"\r\n\r\n');
+
+    assert.deepEqual(rows, [
+      ['Date', 'Description', 'Amount'],
+      ['05/01/2024', 'Coffee; large', '-3,50']
+    ]);
+  });
+
+  it('unescapes doubled quotes', () => {
+    assert.deepEqual(parseDelimited('a,b\n"say ""hi""",2'), [['a', 'b'], ['say "hi"', '2']]);
+  });
+});
+
+describe('CSV mapping', () => {
+  const csv = [
+    'Account 12345,,',
+    'Date,Description,Amount',
+    '05/01/2024,AWS EMEA,-120.00',
+    '06/01/2024,Refund,15.00',
+    'bad date,Something,-1.00'
+  ].join('\n');
+
+  it('skips preamble rows above the header', () => {
+    const table = toTable(parseDelimited(csv));
+
+    assert.deepEqual(table.headers, ['Date', 'Description', 'Amount']);
+    assert.equal(table.rows.length, 3);
+  });
+
+  it('suggests a mapping and applies it', () => {
+    const table = toTable(parseDelimited(csv));
+    const mapping = suggestMapping(table);
+
+    assert.ok(mapping);
+    assert.equal(mapping.date, 'Date');
+    assert.equal(mapping.amount, 'Amount');
+    assert.equal(mapping.dateFormat, 'dd/MM/yyyy');
+    assert.equal(mapping.expenseSign, 'negative');
+
+    const rows = applyMapping(table, mapping);
+    assert.deepEqual(rows[0], {
+      ok: true,
+      transaction: { date: '2024-01-05', description: 'AWS EMEA', amount: -120, currency: 'USD', reference: undefined }
+    });
+    assert.equal(rows[1].ok && rows[1].transaction.amount, 15);
+    assert.deepEqual(rows[2], { ok: false, error: 'Unreadable date "bad date"' });
+  });
+
+  it('turns separate debit and credit columns into a signed amount', () => {
+    const table = toTable(parseDelimited('Date,Details,Debit,Credit\n2024-02-01,Hosting,50.00,\n2024-02-02,Refund,,20.00'));
+    const rows = applyMapping(table, {
+      date: 'Date',
+      description: 'Details',
+      debit: 'Debit',
+      credit: 'Credit',
+      dateFormat: 'yyyy-MM-dd',
+      decimalSeparator: '.',
+      expenseSign: 'negative',
+      defaultCurrency: 'EUR'
+    });
+
+    assert.deepEqual(rows.map(row => row.ok && row.transaction.amount), [-50, 20]);
+  });
+
+  it('uses ILS for Hebrew statements with positive card charges', () => {
+    const table = toTable(parseDelimited('תאריך עסקה,שם בית העסק,סכום חיוב\n05/01/2024,סופר,45.90\n06/01/2024,דלק,200.00'));
+    const mapping = suggestMapping(table);
+
+    assert.equal(mapping?.defaultCurrency, 'ILS');
+    assert.equal(mapping?.expenseSign, 'positive');
+    const [first] = applyMapping(table, mapping!);
+    assert.equal(first.ok && first.transaction.amount, -45.9);
+  });
+});
+
+describe('parseOfx', () => {
+  it('reads SGML transactions with unclosed tags', () => {
+    const ofx = [
+      'OFXHEADER:100',
+      '<OFX><BANKMSGSRSV1><STMTTRNRS><STMTRS><CURDEF>GBP',
+      '<BANKTRANLIST>',
+      '<STMTTRN><TRNTYPE>DEBIT<DTPOSTED>20240110120000<TRNAMT>-42.10<FITID>abc1<NAME>Tom &amp; Co<MEMO>Lunch',
+      '<STMTTRN><TRNTYPE>CREDIT<DTPOSTED>20240111<TRNAMT>10.00<FITID>abc2<NAME>Refund',
+      '</BANKTRANLIST>'
+    ].join('\n');
+
+    assert.equal(detectFormat('statement.txt', ofx), 'ofx');
+    assert.deepEqual(parseOfx(ofx), [
+      { date: '2024-01-10', description: 'Tom & Co - Lunch', amount: -42.1, currency: 'GBP', reference: 'abc1' },
+      { date: '2024-01-11', description: 'Refund', amount: 10, currency: 'GBP', reference: 'abc2' }
+    ]);
+  });
+});
+
+describe('parseQif', () => {
+  it("reads month-first dates and the apostrophe year", () => {
+    const qif = '!Type:Bank\nD1/5\'24\nT-25.00\nPGitHub\nN1001\n^\nD1/6/2024\nT-3.00\n^\n';
+
+    assert.equal(detectFormat('export.dat', qif), 'qif');
+    assert.deepEqual(parseQif(qif, { currency: 'USD' }), [
+      { ok: true, transaction: { date: '2024-01-05', description: 'GitHub', amount: -25, currency: 'USD', reference: '1001' } },
+      { ok: false, error: 'No description' }
+    ]);
+  });
+});
+
+describe('decodeStatement', () => {
+  it('falls back to Windows-1255 and strips a BOM', () => {
+    assert.equal(decodeStatement(Buffer.from('﻿Date,Amount', 'utf8')), 'Date,Amount');
+    assert.equal(decodeStatement(Buffer.from([0xf9, 0xec, 0xe5, 0xed])), 'שלום');
+  });
+});
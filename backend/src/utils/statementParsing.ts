@@ -0,0 +1,376 @@
+import { DateTime } from 'luxon';
+
+/**
+ * Bank and card statement parsing: delimited text (CSV/TSV, with a per-source
+ * column mapping), OFX/QFX and QIF. Every parser yields transactions with a
+ * signed amount where money going out is negative, as OFX does.
+ */
+
+export type StatementFormat = 'csv' | 'ofx' | 'qif';
+
+export interface StatementMapping {
+  // Column headers as they appear in the file
+  date: string;
+  description: string;
+  amount?: string;             // one signed column...
+  debit?: string;              // ...or separate money-out / money-in columns
+  credit?: string;
+  currency?: string;
+  reference?: string;
+  dateFormat: string;          // luxon format, e.g. 'dd/MM/yyyy'
+  decimalSeparator: '.' | ',';
+  // Which sign a single amount column uses for money going out
+  expenseSign: 'negative' | 'positive';
+  defaultCurrency: string;
+}
+
+export interface StatementTable {
+  headers: string[];
+  rows: string[][];
+}
+
+export interface StatementTransaction {
+  date: string;                // ISO date
+  description: string;
+  amount: number;              // negative = money out
+  currency: string;
+  reference?: string;
+}
+
+export type ParsedRow =
+  | { ok: true; transaction: StatementTransaction }
+  | { ok: false; error: string };
+
+export const DATE_FORMATS = [
+  'dd/MM/yyyy',
+  'MM/dd/yyyy',
+  'yyyy-MM-dd',
+  'dd.MM.yyyy',
+  'dd-MM-yyyy',
+  'yyyy/MM/dd',
+  'dd/MM/yy',
+  'MM/dd/yy'
+];
+
+const BIDI_MARKS_RX = /[\u200e\u200f\u202a-\u202e]/g;
+
+/**
+ * Statement files come as UTF-8 or, from Israeli banks, Windows-1255
+ */
+export function decodeStatement(buffer: Buffer): string {
+  let text: string;
+  try {
+    text = new TextDecoder('utf-8', { fatal: true }).decode(buffer);
+  } catch {
+    text = new TextDecoder('windows-1255').decode(buffer);
+  }
+  return text.replace(/^\uFEFF/, '');
+}
+
+export function detectFormat(filename: string, text: string): StatementFormat {
+  if (/\.(ofx|qfx)$/i.test(filename) || /<OFX>|OFXHEADER:/i.test(text.substring(0, 2000))) {
+    return 'ofx';
+  }
+  if (/\.qif$/i.test(filename) || /^!Type:/im.test(text.substring(0, 200))) {
+    return 'qif';
+  }
+  return 'csv';
+}
+
+/**
+ * RFC 4180-style parsing with the delimiter (comma, semicolon or tab) guessed
+ * from the first lines
+ */
+export function parseDelimited(text: string): string[][] {
+  const sample = text.split(/\r?\n/).slice(0, 10).join('\n');
+  const delimiter = [',', ';', '\t']
+    .map(candidate => ({ candidate, count: sample.split(candidate).length }))
+    .sort((a, b) => b.count - a.count)[0].candidate;
+
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"' && cell.trim() === '') {
+      quoted = true;
+      cell = '';
+    } else if (char === delimiter) {
+      row.push(cell.trim());
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(cell.trim());
+      rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+  if (cell !== '' || row.length > 0) {
+    row.push(cell.trim());
+    rows.push(row);
+  }
+
+  return rows.filter(r => r.some(value => value !== ''));
+}
+
+/**
+ * Bank exports often open with account details above the real header; take
+ * the first row that is about as wide as the table body
+ */
+export function toTable(rows: string[][]): StatementTable {
+  const filled = (r: string[]) => r.filter(value => value !== '').length;
+  const width = Math.max(0, ...rows.map(filled));
+  const headerIndex = rows.findIndex(r => filled(r) >= Math.max(2, Math.ceil(width * 0.6)));
+  if (headerIndex < 0) {
+    return { headers: [], rows: [] };
+  }
+
+  const headers = rows[headerIndex].map((header, i) => header.replace(BIDI_MARKS_RX, '') || `Column ${i + 1}`);
+  return { headers, rows: rows.slice(headerIndex + 1) };
+}
+
+export function parseAmount(value: string | undefined, decimalSeparator: '.' | ','): number | null {
+  if (!value) return null;
+  let text = value.replace(BIDI_MARKS_RX, '').replace(/\u2212/g, '-').trim();
+  if (!text) return null;
+
+  let negative = false;
+  if (/^\(.*\)$/.test(text)) {
+    negative = true;
+    text = text.slice(1, -1);
+  }
+  // Israeli banks print debits as "1,234.56-"
+  if (/-\s*$/.test(text)) {
+    negative = true;
+    text = text.replace(/-\s*$/, '');
+  }
+
+  text = text.replace(decimalSeparator === ',' ? /[.\s'\u00a0]/g : /[,\s'\u00a0]/g, '');
+  if (decimalSeparator === ',') text = text.replace(',', '.');
+  text = text.replace(/[^\d.-]/g, '');
+
+  if (!/^-?\d+(\.\d+)?$/.test(text)) return null;
+  const amount = parseFloat(text);
+  return negative ? -Math.abs(amount) : amount;
+}
+
+export function parseStatementDate(value: string | undefined, format: string): string | null {
+  if (!value) return null;
+  // Drop any time part ("05/01/2024 00:00")
+  const text = value.replace(BIDI_MARKS_RX, '').trim().split(/\s+/)[0];
+
+  // Single-digit days and months are common ("5/1/2024")
+  for (const candidate of [format, format.replace('dd', 'd').replace('MM', 'M')]) {
+    const date = DateTime.fromFormat(text, candidate);
+    if (date.isValid) return date.toISODate();
+  }
+  return null;
+}
+
+export function applyMapping(table: StatementTable, mapping: StatementMapping): ParsedRow[] {
+  const column = (name?: string) => (name ? table.headers.indexOf(name) : -1);
+  const dateIndex = column(mapping.date);
+  const descriptionIndex = column(mapping.description);
+  const amountIndex = column(mapping.amount);
+  const debitIndex = column(mapping.debit);
+  const creditIndex = column(mapping.credit);
+  const currencyIndex = column(mapping.currency);
+  const referenceIndex = column(mapping.reference);
+
+  return table.rows.map((row): ParsedRow => {
+    const date = parseStatementDate(row[dateIndex], mapping.dateFormat);
+    if (!date) {
+      return { ok: false, error: `Unreadable date "${row[dateIndex] ?? ''}"` };
+    }
+
+    let amount: number | null;
+    if (amountIndex >= 0) {
+      amount = parseAmount(row[amountIndex], mapping.decimalSeparator);
+      if (amount !== null && mapping.expenseSign === 'positive') amount = -amount;
+    } else {
+      const debit = parseAmount(row[debitIndex], mapping.decimalSeparator);
+      const credit = parseAmount(row[creditIndex], mapping.decimalSeparator);
+      amount = debit || credit ? Math.abs(credit || 0) - Math.abs(debit || 0) : null;
+    }
+    if (amount === null) {
+      return { ok: false, error: 'No amount' };
+    }
+
+    const description = (row[descriptionIndex] || '').replace(BIDI_MARKS_RX, '').trim();
+    if (!description) {
+      return { ok: false, error: 'No description' };
+    }
+
+    const currency = (row[currencyIndex] || '').trim().toUpperCase();
+    return {
+      ok: true,
+      transaction: {
+        date,
+        description,
+        amount,
+        currency: /^[A-Z]{3}$/.test(currency) ? currency : mapping.defaultCurrency,
+        reference: row[referenceIndex]?.trim() || undefined
+      }
+    };
+  });
+}
+
+/**
+ * Best guess at a mapping from header names (English and Hebrew) and sample values
+ */
+export function suggestMapping(table: StatementTable): StatementMapping | null {
+  const find = (rx: RegExp, exclude: string[] = []) =>
+    table.headers.find(header => rx.test(header) && !exclude.includes(header));
+
+  const date = find(/^(transaction\s+)?date$|posted|תאריך\s*(עסקה|פעולה|רכישה)?$/i) || find(/date|תאריך/i);
+  const debit = find(/^(debit|withdrawals?|money\s+out|paid\s+out|חובה)$/i);
+  const credit = find(/^(credit|deposits?|money\s+in|paid\s+in|זכות)$/i);
+  const amount = debit || credit
+    ? undefined
+    : find(/amount|sum|charge|סכום\s*(חיוב|עסקה)?|סכום/i);
+  const description = find(
+    /description|details|payee|merchant|narrative|memo|תיאור|פרטים|שם\s+בית\s+(ה)?עסק|בית\s+עסק|תאור/i,
+    [date || '']
+  );
+  const currency = find(/currency|מטבע/i);
+  const reference = find(/reference|^ref|cheque|check\s*(no|number)|אסמכתא|שובר/i);
+
+  if (!date || !description || (!amount && !debit && !credit)) {
+    return null;
+  }
+
+  const sample = table.rows.slice(0, 50);
+  const dateValues = sample.map(row => row[table.headers.indexOf(date)]).filter(Boolean);
+  // First format that reads every sample wins; day-first before month-first, as elsewhere
+  const dateFormat = DATE_FORMATS.find(format =>
+    dateValues.length > 0 && dateValues.every(value => parseStatementDate(value, format))
+  ) || 'dd/MM/yyyy';
+
+  const amountValues = sample
+    .map(row => row[table.headers.indexOf((amount || debit || credit)!)])
+    .filter(Boolean);
+  const decimalSeparator = amountValues.some(value => /\d,\d{1,2}\s*-?$/.test(value.trim())) ? ',' : '.';
+
+  // Card statements list charges as positive numbers, bank accounts as negative
+  const signs = amountValues.map(value => parseAmount(value, decimalSeparator) || 0);
+  const expenseSign = signs.filter(n => n < 0).length > signs.length / 2 ? 'negative' : 'positive';
+
+  const hebrew = table.headers.some(header => /[\u0590-\u05FF]/.test(header));
+  return {
+    date,
+    description,
+    amount,
+    debit,
+    credit,
+    currency,
+    reference,
+    dateFormat,
+    decimalSeparator,
+    expenseSign,
+    defaultCurrency: hebrew ? 'ILS' : 'USD'
+  };
+}
+
+/**
+ * OFX 1.x (SGML, unclosed leaf tags) and 2.x (XML) bank and card statements
+ */
+export function parseOfx(text: string): StatementTransaction[] {
+  const tag = (block: string, name: string) => {
+    const match = block.match(new RegExp(`<${name}>([^<\\r\\n]*)`, 'i'));
+    return match ? decodeEntities(match[1].trim()) : undefined;
+  };
+
+  const currency = tag(text, 'CURDEF') || 'USD';
+  const transactions: StatementTransaction[] = [];
+  const blocks = text.match(/<STMTTRN>[\s\S]*?(?=<\/STMTTRN>|<STMTTRN>|<\/BANKTRANLIST>)/gi) || [];
+
+  for (const block of blocks) {
+    const posted = tag(block, 'DTPOSTED');
+    const amount = parseAmount(tag(block, 'TRNAMT'), '.');
+    if (!posted || amount === null) continue;
+
+    const date = DateTime.fromFormat(posted.substring(0, 8), 'yyyyMMdd');
+    if (!date.isValid) continue;
+
+    const name = tag(block, 'NAME');
+    const memo = tag(block, 'MEMO');
+    transactions.push({
+      date: date.toISODate()!,
+      description: [name, memo && memo !== name ? memo : undefined].filter(Boolean).join(' - ') || 'Unknown',
+      amount,
+      currency: tag(block, 'CURRENCY') || currency,
+      reference: tag(block, 'FITID') || tag(block, 'CHECKNUM')
+    });
+  }
+
+  return transactions;
+}
+
+/**
+ * QIF bank/card registers. QIF has no date convention: without a format from
+ * the caller, Quicken's US month-first dates are assumed. The apostrophe year
+ * ("1/5'24") is normalised.
+ */
+export function parseQif(text: string, options: { dateFormat?: string; decimalSeparator?: '.' | ','; currency: string }): ParsedRow[] {
+  const rows: ParsedRow[] = [];
+  let entry: Record<string, string> = {};
+
+  const flush = () => {
+    if (Object.keys(entry).length === 0) return;
+    const rawDate = (entry.D || '').replace(/'\s*/, '/').replace(/\s/g, '');
+    const formats = options.dateFormat
+      ? [options.dateFormat, options.dateFormat.replace('yyyy', 'yy')]
+      : ['MM/dd/yyyy', 'MM/dd/yy', 'yyyy-MM-dd', 'dd.MM.yyyy'];
+    const date = formats.map(format => parseStatementDate(rawDate, format)).find(Boolean);
+    const amount = parseAmount(entry.T || entry.U, options.decimalSeparator || '.');
+    const description = (entry.P || entry.M || '').trim();
+
+    if (!date) rows.push({ ok: false, error: `Unreadable date "${entry.D || ''}"` });
+    else if (amount === null) rows.push({ ok: false, error: 'No amount' });
+    else if (!description) rows.push({ ok: false, error: 'No description' });
+    else {
+      rows.push({
+        ok: true,
+        transaction: { date, description, amount, currency: options.currency, reference: entry.N || undefined }
+      });
+    }
+    entry = {};
+  };
+
+  for (const line of text.split(/\r?\n/)) {
+    if (!line || line.startsWith('!')) continue;
+    if (line.startsWith('^')) {
+      flush();
+      continue;
+    }
+    // Split lines (S/E/$) describe categories of one transaction; keep the first of each code
+    const code = line[0];
+    if (!(code in entry)) entry[code] = line.substring(1).trim();
+  }
+  flush();
+
+  return rows;
+}
+
+function decodeEntities(value: string): string {
+  return value
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, '&');
+}
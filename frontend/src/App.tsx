@@ -5,6 +5,13 @@ import LoadingSpinner from '@/components/common/LoadingSpinner';
 import LoginPage from '@/pages/LoginPage';
 import DashboardPage from '@/pages/DashboardPage';
 import ExpensesPage from '@/pages/ExpensesPage';
+import UploadsPage from '@/pages/UploadsPage';
+import InboxPage from '@/pages/InboxPage';
+import ReconciliationPage from '@/pages/ReconciliationPage';
+import BudgetsPage from '@/pages/BudgetsPage';
+import SubscriptionsPage from '@/pages/SubscriptionsPage';
+import VendorsPage from '@/pages/VendorsPage';
+import SensitivityRulesPage from '@/pages/SensitivityRulesPage';
 import Layout from '@/components/layout/Layout';
 
 const ProtectedRoute: React.FC<{ children: React.ReactNode }> = ({ children }) => {
@@ -76,6 +83,69 @@ function App() {
           } 
         />
 
+        <Route 
+          path="/inbox" 
+          element={
+            <ProtectedRoute>
+              <InboxPage />
+            </ProtectedRoute>
+          } 
+        />
+
+        <Route 
+          path="/reconciliation" 
+          element={
+            <ProtectedRoute>
+              <ReconciliationPage />
+            </ProtectedRoute>
+          } 
+        />
+
+        <Route 
+          path="/budgets" 
+          element={
+            <ProtectedRoute>
+              <BudgetsPage />
+            </ProtectedRoute>
+          } 
+        />
+
+        <Route 
+          path="/subscriptions" 
+          element={
+            <ProtectedRoute>
+              <SubscriptionsPage />
+            </ProtectedRoute>
+          } 
+        />
+
+        <Route 
+          path="/vendors" 
+          element={
+            <ProtectedRoute>
+              <VendorsPage />
+            </ProtectedRoute>
+          } 
+        />
+
+        <Route 
+          path="/sensitivity-rules" 
+          element={
+            <ProtectedRoute>
+              <SensitivityRulesPage />
+            </ProtectedRoute>
+          } 
+        />
+
+        <Route 
+          path="/uploads" 
+          element={
+            <ProtectedRoute>
+              <UploadsPage />
+            </ProtectedRoute>
+          } 
+        />
+
         {/* Default redirect */}
         <Route path="/" element={<Navigate to="/dashboard" replace />} />
         
@@ -0,0 +1,207 @@
+import React, { useState } from 'react';
+import { Loader2, PiggyBank, X } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { budgetsApi } from '@/services/api';
+import { Budget, BudgetPeriod, BudgetRequest, BudgetScope } from '@/types';
+
+// Keep in step with the categories offered by ExpenseForm
+const CATEGORIES = ['Software', 'Infrastructure', 'Security', 'Services', 'Marketing', 'Office', 'Travel', 'Other'];
+
+const PERIODS: { value: BudgetPeriod; label: string }[] = [
+  { value: 'monthly', label: 'Monthly' },
+  { value: 'quarterly', label: 'Quarterly' },
+  { value: 'annual', label: 'Annual' }
+];
+
+const SCOPES: { value: BudgetScope; label: string }[] = [
+  { value: 'category', label: 'Category' },
+  { value: 'provider', label: 'Provider' },
+  { value: 'tag', label: 'Tag' }
+];
+
+interface BudgetModalProps {
+  budget?: Budget;
+  onClose: () => void;
+  onSaved: () => void;
+}
+
+const BudgetModal: React.FC<BudgetModalProps> = ({ budget, onClose, onSaved }) => {
+  const [name, setName] = useState(budget?.name || '');
+  const [period, setPeriod] = useState<BudgetPeriod>(budget?.period || 'monthly');
+  const [scopeType, setScopeType] = useState<BudgetScope>(budget?.scope_type || 'category');
+  const [scopeValue, setScopeValue] = useState(budget?.scope_value || '');
+  const [amount, setAmount] = useState(budget ? String(Number(budget.amount)) : '');
+  const [currency, setCurrency] = useState(budget?.currency || '');
+  const [thresholds, setThresholds] = useState((budget?.thresholds || [80, 100]).join(', '));
+  const [isSaving, setIsSaving] = useState(false);
+
+  const handleSave = async () => {
+    const parsedThresholds = thresholds.split(/[\s,]+/).filter(Boolean).map(value => Number(value));
+    if (parsedThresholds.length === 0 || parsedThresholds.some(value => !Number.isInteger(value) || value < 1)) {
+      toast.error('Thresholds must be whole percentages, e.g. 80, 100');
+      return;
+    }
+
+    const data: BudgetRequest = {
+      name: name.trim(),
+      period,
+      scopeType,
+      scopeValue: scopeValue.trim(),
+      amount: parseFloat(amount),
+      currency: currency || undefined,
+      thresholds: parsedThresholds
+    };
+
+    try {
+      setIsSaving(true);
+      if (budget) {
+        await budgetsApi.update(budget.id, data);
+        toast.success('Budget updated');
+      } else {
+        await budgetsApi.create(data);
+        toast.success('Budget created');
+      }
+      onSaved();
+    } catch (error: any) {
+      console.error('Failed to save budget:', error);
+      toast.error(error.response?.data?.error || 'Failed to save budget');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="card max-w-lg w-full max-h-[90vh] overflow-y-auto">
+        {/* Header */}
+        <div className="flex items-center justify-between p-6 border-b border-primary-border">
+          <div className="flex items-center space-x-3">
+            <div className="p-2 rounded-lg bg-primary-button bg-opacity-20">
+              <PiggyBank className="w-5 h-5 text-primary-secondary" />
+            </div>
+            <h2 className="text-xl font-semibold text-primary-text">
+              {budget ? 'Edit Budget' : 'New Budget'}
+            </h2>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-2 rounded-lg hover:bg-primary-button hover:bg-opacity-20 transition-colors"
+          >
+            <X className="w-5 h-5 text-primary-secondary" />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-4">
+          <div>
+            <label className="block text-sm font-medium text-primary-text mb-2">Name</label>
+            <input
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="e.g. AI Services"
+              maxLength={100}
+              className="input"
+            />
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-primary-text mb-2">Covers</label>
+              <select
+                value={scopeType}
+                onChange={(e) => {
+                  setScopeType(e.target.value as BudgetScope);
+                  setScopeValue('');
+                }}
+                className="input"
+              >
+                {SCOPES.map(option => (
+                  <option key={option.value} value={option.value}>{option.label}</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-primary-text mb-2">
+                {SCOPES.find(option => option.value === scopeType)!.label}
+              </label>
+              {scopeType === 'category' ? (
+                <select value={scopeValue} onChange={(e) => setScopeValue(e.target.value)} className="input">
+                  <option value="">Select category...</option>
+                  {CATEGORIES.map(category => (
+                    <option key={category} value={category}>{category}</option>
+                  ))}
+                </select>
+              ) : (
+                <input
+                  value={scopeValue}
+                  onChange={(e) => setScopeValue(e.target.value)}
+                  placeholder={scopeType === 'provider' ? 'Provider name' : 'Tag'}
+                  className="input"
+                />
+              )}
+            </div>
+          </div>
+
+          <div className="grid grid-cols-3 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-primary-text mb-2">Period</label>
+              <select value={period} onChange={(e) => setPeriod(e.target.value as BudgetPeriod)} className="input">
+                {PERIODS.map(option => (
+                  <option key={option.value} value={option.value}>{option.label}</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-primary-text mb-2">Amount</label>
+              <input
+                type="number"
+                min="0.01"
+                step="0.01"
+                value={amount}
+                onChange={(e) => setAmount(e.target.value)}
+                className="input"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-primary-text mb-2">Currency</label>
+              <select value={currency} onChange={(e) => setCurrency(e.target.value)} className="input">
+                {!budget && <option value="">Reporting</option>}
+                {Array.from(new Set(['USD', 'EUR', 'ILS', ...(budget ? [budget.currency] : [])])).map(code => (
+                  <option key={code} value={code}>{code}</option>
+                ))}
+              </select>
+            </div>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-primary-text mb-2">Alert thresholds (%)</label>
+            <input
+              value={thresholds}
+              onChange={(e) => setThresholds(e.target.value)}
+              placeholder="80, 100"
+              className="input"
+            />
+            <p className="text-xs text-primary-secondary mt-1">
+              Each threshold notifies once per period. You are also warned when spending is on track to exceed the budget.
+            </p>
+          </div>
+
+          <div className="flex justify-end space-x-3 pt-2">
+            <button onClick={onClose} className="btn btn-secondary">
+              Cancel
+            </button>
+            <button
+              onClick={handleSave}
+              disabled={isSaving || !name.trim() || !scopeValue.trim() || !(parseFloat(amount) > 0)}
+              className="btn btn-primary flex items-center space-x-2"
+            >
+              {isSaving && <Loader2 className="w-4 h-4 animate-spin" />}
+              <span>{budget ? 'Save' : 'Create Budget'}</span>
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default BudgetModal;
\ No newline at end of file
@@ -0,0 +1,500 @@
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import { useDropzone } from 'react-dropzone';
+import { Link } from 'react-router-dom';
+import { X, Upload, FileText, Loader2, CheckCircle } from 'lucide-react';
+import { clsx } from 'clsx';
+import toast from 'react-hot-toast';
+import { uploadApi, getDuplicateMatches } from '@/services/api';
+import LoadingSpinner from '@/components/common/LoadingSpinner';
+import { BatchUploadItem, DuplicateMatch, UploadJobStatus } from '@/types';
+
+const BATCH_POLL_INTERVAL_MS = 2000;
+const BATCH_TIMEOUT_MS = 10 * 60 * 1000;
+const MAX_BATCH_FILES = 20;
+
+type RowStatus = UploadJobStatus['status'] | 'duplicate' | 'rejected' | 'saved';
+
+interface ReviewRow {
+  key: string;
+  name: string;
+  archive?: string;
+  fileId?: number;
+  jobId?: string;
+  status: RowStatus;
+  error?: string;
+  duplicates: DuplicateMatch[];
+  providerName: string;
+  amount: string;
+  currency: string;
+  date: string;
+  dueDate?: string;
+  sensitivity: 'LOW' | 'MEDIUM' | 'HIGH';
+  selected: boolean;
+  allowDuplicate: boolean;
+}
+
+const STATUS_LABELS: Record<RowStatus, string> = {
+  queued: 'Queued',
+  scanning: 'Scanning',
+  extracting: 'Extracting',
+  ready: 'Ready',
+  failed: 'Failed',
+  duplicate: 'Already uploaded',
+  rejected: 'Rejected',
+  saved: 'Saved'
+};
+
+const PENDING_STATUSES: RowStatus[] = ['queued', 'scanning', 'extracting'];
+
+const getStatusBadge = (status: RowStatus) => {
+  switch (status) {
+    case 'ready':
+    case 'saved':
+      return 'bg-green-100 text-green-800';
+    case 'failed':
+    case 'rejected':
+      return 'bg-red-100 text-red-800';
+    case 'duplicate':
+      return 'bg-yellow-100 text-yellow-800';
+    default:
+      return 'bg-blue-100 text-blue-800';
+  }
+};
+
+const toRow = (item: BatchUploadItem, index: number, sensitivity: ReviewRow['sensitivity']): ReviewRow => ({
+  key: item.jobId || `${item.archive || ''}/${item.name}/${index}`,
+  name: item.name,
+  archive: item.archive,
+  fileId: item.fileId,
+  jobId: item.jobId,
+  status: item.status === 'queued' ? 'queued' : item.status,
+  error: item.error,
+  duplicates: item.duplicates || [],
+  providerName: '',
+  amount: '',
+  currency: 'USD',
+  date: '',
+  sensitivity,
+  selected: false,
+  allowDuplicate: false
+});
+
+interface BatchUploadModalProps {
+  onClose: () => void;
+  onUpload: () => void;
+}
+
+const BatchUploadModal: React.FC<BatchUploadModalProps> = ({ onClose, onUpload }) => {
+  const [sensitivityLevel, setSensitivityLevel] = useState<'LOW' | 'MEDIUM' | 'HIGH'>('LOW');
+  const [isUploading, setIsUploading] = useState(false);
+  const [isPolling, setIsPolling] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [rows, setRows] = useState<ReviewRow[]>([]);
+  const [savedCount, setSavedCount] = useState(0);
+  const isMounted = useRef(true);
+
+  useEffect(() => {
+    return () => {
+      isMounted.current = false;
+    };
+  }, []);
+
+  const updateRow = (key: string, update: Partial<ReviewRow>) => {
+    setRows(current => current.map(row => (row.key === key ? { ...row, ...update } : row)));
+  };
+
+  // Each file is extracted independently; fill rows in as their jobs settle
+  const pollBatch = async (batchId: string) => {
+    setIsPolling(true);
+    const deadline = Date.now() + BATCH_TIMEOUT_MS;
+    try {
+      while (isMounted.current && Date.now() < deadline) {
+        await new Promise(resolve => setTimeout(resolve, BATCH_POLL_INTERVAL_MS));
+        const batch = await uploadApi.getBatch(batchId);
+        const jobs = new Map(batch.jobs.map(job => [job.jobId, job]));
+
+        setRows(current => current.map(row => {
+          const job = row.jobId ? jobs.get(row.jobId) : undefined;
+          if (!job || !PENDING_STATUSES.includes(row.status)) return row;
+          if (job.status !== 'ready' || !job.result) {
+            return { ...row, status: job.status, error: job.error };
+          }
+
+          const { extractedData, invoiceFields } = job.result.ocrResults;
+          return {
+            ...row,
+            status: 'ready',
+            providerName: extractedData.vendor?.replace(/page?\s*\d+\s*of\s*\d+/gi, '').trim() || '',
+            amount: extractedData.amount || '',
+            currency: extractedData.currency || 'USD',
+            date: extractedData.date || '',
+            dueDate: invoiceFields?.dueDate?.value,
+            duplicates: job.result.duplicates || [],
+            selected: true
+          };
+        }));
+
+        if (batch.done) return;
+      }
+    } catch (error: any) {
+      toast.error('Failed to check processing status: ' + (error.response?.data?.error || error.message));
+    } finally {
+      if (isMounted.current) setIsPolling(false);
+    }
+  };
+
+  const onDrop = useCallback(async (acceptedFiles: File[]) => {
+    if (acceptedFiles.length === 0) return;
+
+    setIsUploading(true);
+    try {
+      const response = await uploadApi.uploadBatch(acceptedFiles, sensitivityLevel);
+      setRows(response.items.map((item, index) => toRow(item, index, sensitivityLevel)));
+      toast.success(response.message);
+      if (response.items.some(item => item.jobId)) {
+        pollBatch(response.batchId);
+      }
+    } catch (error: any) {
+      toast.error(error.response?.data?.error || error.message || 'Upload failed');
+    } finally {
+      setIsUploading(false);
+    }
+  }, [sensitivityLevel]);
+
+  const { getRootProps, getInputProps, isDragActive } = useDropzone({
+    onDrop,
+    accept: {
+      'application/pdf': ['.pdf'],
+      'image/jpeg': ['.jpeg', '.jpg'],
+      'image/png': ['.png'],
+      'application/xml': ['.xml'],
+      'text/xml': ['.xml'],
+      'application/zip': ['.zip']
+    },
+    maxFiles: MAX_BATCH_FILES,
+    disabled: isUploading || rows.length > 0
+  });
+
+  const confirmableRows = rows.filter(row => row.selected && row.status === 'ready');
+
+  const handleConfirmSelected = async () => {
+    const missing = confirmableRows.filter(row => !row.providerName.trim() || !(parseFloat(row.amount) > 0));
+    if (missing.length > 0) {
+      toast.error('Every selected row needs a provider name and an amount');
+      return;
+    }
+
+    setIsSaving(true);
+    let saved = 0;
+    let flagged = 0;
+    for (const row of confirmableRows) {
+      try {
+        await uploadApi.createExpenseFromUpload({
+          provider_name: row.providerName.trim(),
+          description: `Invoice: ${row.name}`,
+          amount: parseFloat(row.amount),
+          currency: row.currency,
+          date: row.date || new Date().toISOString().split('T')[0],
+          due_date: row.dueDate || undefined,
+          sensitivity: row.sensitivity,
+          file_id: row.fileId,
+          allow_duplicate: row.allowDuplicate || undefined
+        });
+        updateRow(row.key, { status: 'saved', selected: false, error: undefined });
+        saved++;
+      } catch (error: any) {
+        const duplicates = getDuplicateMatches(error);
+        if (duplicates) {
+          // Leave the row selected so ticking "save anyway" and confirming again overrides it
+          updateRow(row.key, { duplicates, error: 'Possible duplicate' });
+          flagged++;
+        } else {
+          updateRow(row.key, { error: error.response?.data?.error || error.message });
+        }
+      }
+    }
+    setIsSaving(false);
+    setSavedCount(count => count + saved);
+
+    if (saved > 0) toast.success(`${saved} expense(s) created`);
+    if (flagged > 0) toast.error(`${flagged} row(s) look like duplicates; review them and confirm again`);
+  };
+
+  const handleClose = () => {
+    if (savedCount > 0) onUpload();
+    else onClose();
+  };
+
+  const allSelectable = rows.filter(row => row.status === 'ready');
+  const allSelected = allSelectable.length > 0 && allSelectable.every(row => row.selected);
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="card max-w-6xl w-full max-h-[90vh] overflow-y-auto">
+        {/* Header */}
+        <div className="flex items-center justify-between p-6 border-b border-primary-border">
+          <div className="flex items-center space-x-3">
+            <div className="p-2 rounded-lg bg-primary-button bg-opacity-20">
+              <Upload className="w-5 h-5 text-primary-secondary" />
+            </div>
+            <h2 className="text-xl font-semibold text-primary-text">
+              Batch Upload
+            </h2>
+          </div>
+          <button
+            onClick={handleClose}
+            className="p-2 rounded-lg hover:bg-primary-button hover:bg-opacity-20 transition-colors"
+          >
+            <X className="w-5 h-5 text-primary-secondary" />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-6">
+          {rows.length === 0 && (
+            <>
+              {/* Sensitivity Level Selector */}
+              <div>
+                <label className="block text-sm font-medium text-primary-text mb-3">
+                  Default Sensitivity Level
+                </label>
+                <div className="grid grid-cols-3 gap-3">
+                  {(['LOW', 'MEDIUM', 'HIGH'] as const).map((level) => (
+                    <button
+                      key={level}
+                      type="button"
+                      onClick={() => setSensitivityLevel(level)}
+                      className={`p-3 rounded-lg border-2 transition-colors ${
+                        sensitivityLevel === level
+                          ? 'border-primary-button bg-primary-button bg-opacity-20'
+                          : 'border-primary-border hover:border-primary-button hover:border-opacity-50'
+                      }`}
+                    >
+                      <div className="text-center">
+                        <div className={`w-3 h-3 rounded-full mx-auto mb-2 ${
+                          level === 'LOW' ? 'bg-security-low' :
+                          level === 'MEDIUM' ? 'bg-security-medium' : 'bg-security-high'
+                        }`} />
+                        <span className="text-sm font-medium">{level}</span>
+                      </div>
+                    </button>
+                  ))}
+                </div>
+                <p className="mt-2 text-xs text-primary-secondary">
+                  Applied to every file; you can change it per row before confirming
+                </p>
+              </div>
+
+              {/* Upload Area */}
+              <div
+                {...getRootProps()}
+                className={`border-2 border-dashed rounded-lg p-8 text-center transition-colors cursor-pointer ${
+                  isDragActive
+                    ? 'border-primary-button bg-primary-button bg-opacity-10'
+                    : 'border-primary-border hover:border-primary-button hover:border-opacity-50'
+                } ${isUploading ? 'pointer-events-none opacity-50' : ''}`}
+              >
+                <input {...getInputProps()} />
+
+                {isUploading ? (
+                  <div className="space-y-4">
+                    <LoadingSpinner size="large" />
+                    <p className="text-lg font-medium text-primary-text">Uploading files...</p>
+                  </div>
+                ) : (
+                  <div className="space-y-4">
+                    <Upload className="w-12 h-12 text-primary-secondary mx-auto" />
+                    <div>
+                      <p className="text-lg font-medium text-primary-text">
+                        {isDragActive ? 'Drop your invoices here' : 'Drag & drop invoices or a ZIP archive'}
+                      </p>
+                      <p className="text-sm text-primary-secondary mt-1">
+                        or click to browse files
+                      </p>
+                    </div>
+                    <div className="text-xs text-primary-secondary">
+                      Supports PDF, JPEG, PNG, XML e-invoices and ZIP • Up to {MAX_BATCH_FILES} files • Max 10MB per invoice
+                    </div>
+                  </div>
+                )}
+              </div>
+            </>
+          )}
+
+          {/* Review Grid */}
+          {rows.length > 0 && (
+            <div className="space-y-4">
+              <div className="flex items-center justify-between">
+                <p className="text-sm text-primary-secondary">
+                  {rows.filter(row => row.status === 'saved').length} saved •{' '}
+                  {rows.filter(row => row.status === 'ready').length} ready for review •{' '}
+                  {rows.filter(row => PENDING_STATUSES.includes(row.status)).length} processing
+                </p>
+                {isPolling && (
+                  <span className="flex items-center text-xs text-primary-secondary">
+                    <Loader2 className="w-3 h-3 mr-1 animate-spin" />
+                    Extracting invoices
+                  </span>
+                )}
+              </div>
+
+              <div className="overflow-x-auto">
+                <table className="table w-full">
+                  <thead className="bg-primary-bg">
+                    <tr>
+                      <th className="bg-primary-bg">
+                        <input
+                          type="checkbox"
+                          checked={allSelected}
+                          disabled={allSelectable.length === 0}
+                          onChange={(e) => setRows(current => current.map(row =>
+                            row.status === 'ready' ? { ...row, selected: e.target.checked } : row
+                          ))}
+                        />
+                      </th>
+                      <th className="bg-primary-bg">File</th>
+                      <th className="bg-primary-bg">Status</th>
+                      <th className="bg-primary-bg">Provider</th>
+                      <th className="bg-primary-bg">Amount</th>
+                      <th className="bg-primary-bg">Date</th>
+                      <th className="bg-primary-bg">Sensitivity</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {rows.map((row) => {
+                      const editable = row.status === 'ready';
+                      const duplicateExpense = row.duplicates.find(d => d.expenseId);
+                      return (
+                        <tr key={row.key}>
+                          <td>
+                            <input
+                              type="checkbox"
+                              checked={row.selected}
+                              disabled={!editable}
+                              onChange={(e) => updateRow(row.key, { selected: e.target.checked })}
+                            />
+                          </td>
+                          <td>
+                            <div className="flex items-center space-x-2 min-w-0">
+                              <FileText className="w-4 h-4 text-primary-secondary flex-shrink-0" />
+                              <div className="min-w-0">
+                                <p className="font-medium truncate" title={row.name}>{row.name}</p>
+                                {row.archive && (
+                                  <p className="text-xs text-primary-secondary truncate">from {row.archive}</p>
+                                )}
+                              </div>
+                            </div>
+                          </td>
+                          <td>
+                            <span className={clsx(
+                              'inline-flex items-center px-2 py-1 rounded-full text-xs font-medium whitespace-nowrap',
+                              getStatusBadge(row.status)
+                            )}>
+                              {PENDING_STATUSES.includes(row.status) && (
+                                <Loader2 className="w-3 h-3 mr-1 animate-spin" />
+                              )}
+                              {row.status === 'saved' && <CheckCircle className="w-3 h-3 mr-1" />}
+                              {STATUS_LABELS[row.status]}
+                            </span>
+                            {row.error && (
+                              <p className="text-xs text-red-600 mt-1">{row.error}</p>
+                            )}
+                            {duplicateExpense && row.status !== 'saved' && (
+                              <Link
+                                to={`/expenses?highlight=${duplicateExpense.expenseId}`}
+                                className="block text-xs text-yellow-800 underline mt-1"
+                              >
+                                View existing expense
+                              </Link>
+                            )}
+                            {editable && row.duplicates.length > 0 && (
+                              <label className="flex items-center space-x-1 text-xs text-primary-text mt-1">
+                                <input
+                                  type="checkbox"
+                                  checked={row.allowDuplicate}
+                                  onChange={(e) => updateRow(row.key, { allowDuplicate: e.target.checked })}
+                                />
+                                <span>Save anyway</span>
+                              </label>
+                            )}
+                          </td>
+                          <td>
+                            <input
+                              type="text"
+                              value={row.providerName}
+                              disabled={!editable}
+                              onChange={(e) => updateRow(row.key, { providerName: e.target.value })}
+                              className="input w-full min-w-[10rem]"
+                              placeholder="Provider name"
+                            />
+                          </td>
+                          <td>
+                            <div className="flex items-center space-x-1">
+                              <input
+                                type="number"
+                                step="0.01"
+                                value={row.amount}
+                                disabled={!editable}
+                                onChange={(e) => updateRow(row.key, { amount: e.target.value })}
+                                className="input w-28"
+                              />
+                              <span className="text-xs text-primary-secondary">{row.currency}</span>
+                            </div>
+                          </td>
+                          <td>
+                            <input
+                              type="date"
+                              value={row.date}
+                              disabled={!editable}
+                              onChange={(e) => updateRow(row.key, { date: e.target.value })}
+                              className="input"
+                            />
+                          </td>
+                          <td>
+                            <select
+                              value={row.sensitivity}
+                              disabled={!editable}
+                              onChange={(e) => updateRow(row.key, { sensitivity: e.target.value as ReviewRow['sensitivity'] })}
+                              className="input"
+                            >
+                              <option value="LOW">LOW</option>
+                              <option value="MEDIUM">MEDIUM</option>
+                              <option value="HIGH">HIGH</option>
+                            </select>
+                          </td>
+                        </tr>
+                      );
+                    })}
+                  </tbody>
+                </table>
+              </div>
+            </div>
+          )}
+
+          {/* Actions */}
+          <div className="flex justify-end space-x-3 pt-6 border-t border-primary-border">
+            <button
+              type="button"
+              onClick={handleClose}
+              className="btn btn-secondary"
+            >
+              {savedCount > 0 ? 'Done' : 'Cancel'}
+            </button>
+            {rows.length > 0 && (
+              <button
+                type="button"
+                onClick={handleConfirmSelected}
+                disabled={isSaving || confirmableRows.length === 0}
+                className="btn btn-primary flex items-center space-x-2"
+              >
+                {isSaving && <LoadingSpinner size="small" />}
+                <span>Confirm {confirmableRows.length} Selected</span>
+              </button>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default BatchUploadModal;
\ No newline at end of file
@@ -0,0 +1,209 @@
+import React, { useEffect, useState } from 'react';
+import { FolderInput, Loader2, RefreshCw, X } from 'lucide-react';
+import { clsx } from 'clsx';
+import { format } from 'date-fns';
+import toast from 'react-hot-toast';
+import { uploadApi } from '@/services/api';
+import LoadingSpinner from '@/components/common/LoadingSpinner';
+import { DropFolderActivity, DropFolderStatus } from '@/types';
+
+const REFRESH_INTERVAL_MS = 5000;
+
+const PENDING_STATUSES = ['queued', 'scanning', 'extracting'];
+
+// Intake outcome first, then how the worker got on with queued files
+const describe = (item: DropFolderActivity): { label: string; className: string; detail?: string } => {
+  if (item.status === 'rejected') {
+    return { label: 'Rejected', className: 'bg-red-100 text-red-800', detail: item.error };
+  }
+  if (item.status === 'duplicate') {
+    return { label: 'Already uploaded', className: 'bg-yellow-100 text-yellow-800' };
+  }
+  if (item.processing === 'failed') {
+    return { label: 'Failed', className: 'bg-red-100 text-red-800', detail: item.processingError };
+  }
+  if (item.processing === 'ready') {
+    return { label: item.draftExpenseId ? 'Draft created' : 'Processed', className: 'bg-green-100 text-green-800' };
+  }
+  if (item.processing && PENDING_STATUSES.includes(item.processing)) {
+    return { label: item.processing, className: 'bg-blue-100 text-blue-800' };
+  }
+  return { label: 'Queued', className: 'bg-gray-100 text-gray-800' };
+};
+
+interface DropFolderModalProps {
+  onClose: () => void;
+  onScan: () => void;
+}
+
+const DropFolderModal: React.FC<DropFolderModalProps> = ({ onClose, onScan }) => {
+  const [status, setStatus] = useState<DropFolderStatus | null>(null);
+  const [isScanning, setIsScanning] = useState(false);
+  const [forbidden, setForbidden] = useState(false);
+
+  useEffect(() => {
+    if (forbidden) return;
+    fetchStatus();
+    const interval = setInterval(fetchStatus, REFRESH_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [forbidden]);
+
+  const fetchStatus = async () => {
+    try {
+      setStatus(await uploadApi.getDropFolders());
+    } catch (error: any) {
+      if (error.response?.status === 403) {
+        setForbidden(true);
+        return;
+      }
+      console.error('Failed to fetch drop folder status:', error);
+    }
+  };
+
+  const scanNow = async () => {
+    try {
+      setIsScanning(true);
+      const { result } = await uploadApi.scanDropFolders();
+      toast.success(result.processed > 0 ? `${result.queued} of ${result.processed} files queued as drafts` : 'No new files');
+      await fetchStatus();
+      onScan();
+    } catch (error: any) {
+      console.error('Failed to scan drop folders:', error);
+      toast.error(error.response?.data?.error || 'Failed to scan drop folders');
+    } finally {
+      setIsScanning(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="card max-w-4xl w-full max-h-[90vh] overflow-y-auto">
+        {/* Header */}
+        <div className="flex items-center justify-between p-6 border-b border-primary-border">
+          <div className="flex items-center space-x-3">
+            <div className="p-2 rounded-lg bg-primary-button bg-opacity-20">
+              <FolderInput className="w-5 h-5 text-primary-secondary" />
+            </div>
+            <h2 className="text-xl font-semibold text-primary-text">
+              Drop Folders
+            </h2>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-2 rounded-lg hover:bg-primary-button hover:bg-opacity-20 transition-colors"
+          >
+            <X className="w-5 h-5 text-primary-secondary" />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-6">
+          {forbidden ? (
+            <p className="text-primary-secondary text-center py-8">
+              Drop folders are managed by administrators.
+            </p>
+          ) : !status ? (
+            <div className="flex justify-center py-8">
+              <LoadingSpinner size="large" />
+            </div>
+          ) : !status.enabled ? (
+            <p className="text-primary-secondary text-center py-8">
+              No drop folders are configured. Set DROP_FOLDERS on the server to enable folder ingestion.
+            </p>
+          ) : (
+            <>
+              {/* Folders */}
+              <div>
+                <div className="flex items-center justify-between mb-3">
+                  <h3 className="text-sm font-medium text-primary-text">Watched Folders</h3>
+                  <button
+                    onClick={scanNow}
+                    disabled={isScanning}
+                    className="btn btn-secondary flex items-center space-x-2 text-sm"
+                  >
+                    <RefreshCw className={clsx('w-4 h-4', isScanning && 'animate-spin')} />
+                    <span>Scan now</span>
+                  </button>
+                </div>
+                <div className="space-y-2">
+                  {status.folders.map(folder => (
+                    <div key={folder.path} className="flex items-center justify-between p-3 rounded-lg bg-primary-bg text-sm">
+                      <span className="font-mono truncate" title={folder.path}>{folder.path}</span>
+                      <div className="flex items-center space-x-2 flex-shrink-0 ml-3">
+                        {folder.category && (
+                          <span className="text-primary-secondary">{folder.category}</span>
+                        )}
+                        <span className={clsx('badge', `badge-security-${folder.sensitivity.toLowerCase()}`)}>
+                          {folder.sensitivity}
+                        </span>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+                <p className="text-xs text-primary-secondary mt-2">
+                  {status.lastRun
+                    ? `Last scan ${format(new Date(status.lastRun.at), 'MMM dd, yyyy HH:mm:ss')}`
+                    : 'Not scanned yet'}
+                  {status.lastRun?.errors?.map(error => (
+                    <span key={error} className="block text-red-600">{error}</span>
+                  ))}
+                </p>
+              </div>
+
+              {/* Activity */}
+              <div>
+                <h3 className="text-sm font-medium text-primary-text mb-3">Recent Files</h3>
+                {status.activity.length === 0 ? (
+                  <p className="text-sm text-primary-secondary">Nothing has been dropped yet.</p>
+                ) : (
+                  <table className="table w-full">
+                    <thead>
+                      <tr>
+                        <th>File</th>
+                        <th>Folder</th>
+                        <th>Received</th>
+                        <th>Result</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {status.activity.map(item => {
+                        const result = describe(item);
+                        return (
+                          <tr key={`${item.at}/${item.folder}/${item.name}`}>
+                            <td className="font-medium truncate max-w-xs" title={item.name}>{item.name}</td>
+                            <td className="text-sm text-primary-secondary truncate max-w-xs" title={item.folder}>{item.folder}</td>
+                            <td className="whitespace-nowrap text-center text-sm">
+                              {format(new Date(item.at), 'MMM dd, HH:mm')}
+                            </td>
+                            <td className="text-center">
+                              <span
+                                className={clsx(
+                                  'inline-flex items-center px-2 py-1 rounded-full text-xs font-medium capitalize',
+                                  result.className
+                                )}
+                                title={result.detail}
+                              >
+                                {item.processing && PENDING_STATUSES.includes(item.processing) && (
+                                  <Loader2 className="w-3 h-3 mr-1 animate-spin" />
+                                )}
+                                {result.label}
+                              </span>
+                              {result.detail && (
+                                <p className="text-xs text-red-600 mt-1">{result.detail}</p>
+                              )}
+                            </td>
+                          </tr>
+                        );
+                      })}
+                    </tbody>
+                  </table>
+                )}
+              </div>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default DropFolderModal;
\ No newline at end of file
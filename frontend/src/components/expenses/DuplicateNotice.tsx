@@ -0,0 +1,57 @@
+import React from 'react';
+import { Link } from 'react-router-dom';
+import { AlertTriangle } from 'lucide-react';
+import { DuplicateMatch } from '@/types';
+
+const REASON_LABELS: Record<DuplicateMatch['reason'], string> = {
+  same_file: 'Same file uploaded before',
+  same_invoice: 'Same vendor invoice',
+  similar_expense: 'Same vendor and amount'
+};
+
+const describeMatch = (match: DuplicateMatch) => {
+  const parts = [REASON_LABELS[match.reason]];
+  if (match.providerName) parts.push(match.providerName);
+  if (match.amount !== null && match.amount !== undefined) parts.push(match.amount.toFixed(2));
+  if (match.date) parts.push(match.date);
+  return parts.join(' · ');
+};
+
+/**
+ * Ask before saving something that matches existing records; the server audits overrides
+ */
+export const confirmDuplicateOverride = (duplicates: DuplicateMatch[]): boolean =>
+  window.confirm(
+    `This looks like a duplicate:\n\n${duplicates.map(d => `• ${describeMatch(d)}`).join('\n')}\n\nSave it anyway?`
+  );
+
+interface DuplicateNoticeProps {
+  duplicates: DuplicateMatch[];
+}
+
+const DuplicateNotice: React.FC<DuplicateNoticeProps> = ({ duplicates }) => {
+  if (duplicates.length === 0) return null;
+
+  return (
+    <div className="p-4 rounded-lg border border-yellow-300 bg-yellow-50">
+      <div className="flex items-center space-x-2 mb-2">
+        <AlertTriangle className="w-4 h-4 text-yellow-700" />
+        <h3 className="text-sm font-medium text-yellow-800">Possible duplicate</h3>
+      </div>
+      <ul className="space-y-1">
+        {duplicates.map((match, index) => (
+          <li key={`${match.reason}-${match.expenseId ?? match.fileId ?? index}`} className="text-xs text-yellow-800">
+            {describeMatch(match)}
+            {match.expenseId && (
+              <Link to={`/expenses?highlight=${match.expenseId}`} className="ml-2 underline">
+                View expense
+              </Link>
+            )}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
+
+export default DuplicateNotice;
@@ -1,7 +1,8 @@
 import React from 'react';
 import { useForm } from 'react-hook-form';
 import { X, DollarSign } from 'lucide-react';
-import { expensesApi } from '@/services/api';
+import { expensesApi, getDuplicateMatches } from '@/services/api';
+import { confirmDuplicateOverride } from '@/components/expenses/DuplicateNotice';
 import { Expense, ExpenseCreateRequest, ExpenseUpdateRequest } from '@/types';
 import LoadingSpinner from '@/components/common/LoadingSpinner';
 import toast from 'react-hot-toast';
@@ -73,7 +74,13 @@ const ExpenseForm: React.FC<ExpenseFormProps> = ({ expense, onClose, onSave }) =
           tags,
         };
         
-        await expensesApi.create(createData);
+        try {
+          await expensesApi.create(createData);
+        } catch (error) {
+          const duplicates = getDuplicateMatches(error);
+          if (!duplicates || !confirmDuplicateOverride(duplicates)) throw error;
+          await expensesApi.create({ ...createData, allow_duplicate: true });
+        }
         toast.success('Expense created successfully');
       }
       
@@ -0,0 +1,159 @@
+import React, { useState } from 'react';
+import { Download, Loader2, X } from 'lucide-react';
+import { clsx } from 'clsx';
+import toast from 'react-hot-toast';
+import { expensesApi } from '@/services/api';
+import { ExpenseFilters, ExportFormat, ExportProfile } from '@/types';
+
+const FORMATS: { value: ExportFormat; label: string }[] = [
+  { value: 'csv', label: 'CSV' },
+  { value: 'xlsx', label: 'Excel (XLSX)' },
+  { value: 'json', label: 'JSON' }
+];
+
+const PROFILES: { value: ExportProfile; label: string; description: string }[] = [
+  {
+    value: 'full',
+    label: 'Full',
+    description: 'Every field, with real provider names.'
+  },
+  {
+    value: 'masked',
+    label: 'Masked providers',
+    description: 'MEDIUM and HIGH sensitivity providers masked; HIGH descriptions, tags and invoice numbers left out.'
+  },
+  {
+    value: 'amounts_only',
+    label: 'Amounts only',
+    description: 'Date, amount, currency, category and sensitivity. No provider details.'
+  }
+];
+
+interface ExportModalProps {
+  filters: ExpenseFilters;
+  onClose: () => void;
+}
+
+const ExportModal: React.FC<ExportModalProps> = ({ filters, onClose }) => {
+  const [exportFormat, setExportFormat] = useState<ExportFormat>('csv');
+  const [profile, setProfile] = useState<ExportProfile>('masked');
+  const [isExporting, setIsExporting] = useState(false);
+
+  const activeFilters = Object.entries(filters).filter(([, value]) => value !== undefined && value !== '');
+
+  const handleExport = async () => {
+    try {
+      setIsExporting(true);
+      const blob = await expensesApi.exportFile(filters, exportFormat, profile);
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `expenses-${profile}-${new Date().toISOString().substring(0, 10)}.${exportFormat}`;
+      link.click();
+      URL.revokeObjectURL(url);
+      toast.success('Export downloaded');
+      onClose();
+    } catch (error: any) {
+      console.error('Failed to export expenses:', error);
+      toast.error('Failed to export expenses');
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="card max-w-lg w-full max-h-[90vh] overflow-y-auto">
+        {/* Header */}
+        <div className="flex items-center justify-between p-6 border-b border-primary-border">
+          <div className="flex items-center space-x-3">
+            <div className="p-2 rounded-lg bg-primary-button bg-opacity-20">
+              <Download className="w-5 h-5 text-primary-secondary" />
+            </div>
+            <h2 className="text-xl font-semibold text-primary-text">
+              Export Expenses
+            </h2>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-2 rounded-lg hover:bg-primary-button hover:bg-opacity-20 transition-colors"
+          >
+            <X className="w-5 h-5 text-primary-secondary" />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-6">
+          <div>
+            <h3 className="text-sm font-medium text-primary-text mb-3">Format</h3>
+            <div className="grid grid-cols-3 gap-2">
+              {FORMATS.map(option => (
+                <button
+                  key={option.value}
+                  onClick={() => setExportFormat(option.value)}
+                  className={clsx(
+                    'p-2 rounded-lg border text-sm transition-colors',
+                    exportFormat === option.value
+                      ? 'border-primary-text bg-primary-button bg-opacity-20 text-primary-text'
+                      : 'border-primary-border text-primary-secondary hover:bg-primary-bg'
+                  )}
+                >
+                  {option.label}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <div>
+            <h3 className="text-sm font-medium text-primary-text mb-3">Redaction</h3>
+            <div className="space-y-2">
+              {PROFILES.map(option => (
+                <label
+                  key={option.value}
+                  className={clsx(
+                    'flex items-start space-x-3 p-3 rounded-lg border cursor-pointer',
+                    profile === option.value ? 'border-primary-text bg-primary-bg' : 'border-primary-border'
+                  )}
+                >
+                  <input
+                    type="radio"
+                    name="profile"
+                    checked={profile === option.value}
+                    onChange={() => setProfile(option.value)}
+                    className="mt-1"
+                  />
+                  <div>
+                    <div className="text-sm font-medium text-primary-text">{option.label}</div>
+                    <div className="text-xs text-primary-secondary">{option.description}</div>
+                  </div>
+                </label>
+              ))}
+            </div>
+          </div>
+
+          <p className="text-xs text-primary-secondary">
+            {activeFilters.length > 0
+              ? `Uses the current filters (${activeFilters.map(([key]) => key).join(', ')}). `
+              : 'Exports all expenses. '}
+            Drafts awaiting review are not included. Every export is recorded in the audit log.
+          </p>
+
+          <div className="flex justify-end space-x-3">
+            <button onClick={onClose} className="btn btn-secondary">
+              Cancel
+            </button>
+            <button
+              onClick={handleExport}
+              disabled={isExporting}
+              className="btn btn-primary flex items-center space-x-2"
+            >
+              {isExporting ? <Loader2 className="w-4 h-4 animate-spin" /> : <Download className="w-4 h-4" />}
+              <span>Export</span>
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ExportModal;
\ No newline at end of file
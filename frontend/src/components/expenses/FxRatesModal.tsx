@@ -0,0 +1,184 @@
+import React, { useEffect, useState } from 'react';
+import { useDropzone } from 'react-dropzone';
+import { Coins, Loader2, X } from 'lucide-react';
+import { clsx } from 'clsx';
+import toast from 'react-hot-toast';
+import { fxRatesApi } from '@/services/api';
+import { FxStatus } from '@/types';
+
+interface FxRatesModalProps {
+  onClose: () => void;
+  // Called after an import, since converted totals change
+  onImported?: () => void;
+}
+
+const FxRatesModal: React.FC<FxRatesModalProps> = ({ onClose, onImported }) => {
+  const [status, setStatus] = useState<FxStatus | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isImporting, setIsImporting] = useState(false);
+
+  const loadStatus = async () => {
+    try {
+      setIsLoading(true);
+      setStatus(await fxRatesApi.getStatus());
+    } catch (error: any) {
+      console.error('Failed to load exchange rates:', error);
+      toast.error('Failed to load exchange rates');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadStatus();
+  }, []);
+
+  const handleImport = async (file: File) => {
+    try {
+      setIsImporting(true);
+      const result = await fxRatesApi.importFile(file);
+      toast.success(
+        `Imported ${result.imported} rates for ${result.currencies.length} currencies (${result.from} to ${result.to}); ${result.converted} expenses converted`
+      );
+      await loadStatus();
+      onImported?.();
+    } catch (error: any) {
+      console.error('Failed to import exchange rates:', error);
+      toast.error(error.response?.data?.error || 'Failed to import exchange rates');
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  const { getRootProps, getInputProps, isDragActive } = useDropzone({
+    onDrop: acceptedFiles => {
+      if (acceptedFiles.length > 0) {
+        handleImport(acceptedFiles[0]);
+      }
+    },
+    accept: {
+      'text/csv': ['.csv'],
+      'text/plain': ['.txt'],
+      'text/xml': ['.xml'],
+      'application/xml': ['.xml']
+    },
+    maxFiles: 1,
+    maxSize: 20 * 1024 * 1024, // 20MB
+    disabled: isImporting
+  });
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="card max-w-2xl w-full max-h-[90vh] overflow-y-auto">
+        {/* Header */}
+        <div className="flex items-center justify-between p-6 border-b border-primary-border">
+          <div className="flex items-center space-x-3">
+            <div className="p-2 rounded-lg bg-primary-button bg-opacity-20">
+              <Coins className="w-5 h-5 text-primary-secondary" />
+            </div>
+            <h2 className="text-xl font-semibold text-primary-text">
+              Exchange Rates
+            </h2>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-2 rounded-lg hover:bg-primary-button hover:bg-opacity-20 transition-colors"
+          >
+            <X className="w-5 h-5 text-primary-secondary" />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-6">
+          {isLoading && !status ? (
+            <div className="flex items-center justify-center py-8">
+              <Loader2 className="w-6 h-6 animate-spin text-primary-secondary" />
+            </div>
+          ) : status && (
+            <>
+              <p className="text-sm text-primary-secondary">
+                Totals are reported in <span className="font-medium text-primary-text">{status.reportingCurrency}</span>.
+                Each expense is converted at the rate for its date, or the most recent rate up to {status.maxRateAgeDays} days before it.
+              </p>
+
+              {status.unconverted.length > 0 && (
+                <div className="p-3 rounded-lg border border-yellow-300 bg-yellow-50">
+                  <h3 className="text-sm font-medium text-yellow-800 mb-2">Expenses without a rate</h3>
+                  <ul className="space-y-1 text-sm text-yellow-800">
+                    {status.unconverted.map(entry => (
+                      <li key={entry.currency}>
+                        {entry.count} in {entry.currency}, {entry.from} to {entry.to}
+                      </li>
+                    ))}
+                  </ul>
+                  <p className="text-xs text-yellow-700 mt-2">
+                    These are left out of converted totals until rates covering their dates are imported.
+                  </p>
+                </div>
+              )}
+
+              <div>
+                <h3 className="text-sm font-medium text-primary-text mb-3">Stored rates</h3>
+                {status.coverage.length === 0 ? (
+                  <p className="text-sm text-primary-secondary">No rates imported yet.</p>
+                ) : (
+                  <div className="max-h-60 overflow-y-auto border border-primary-border rounded-lg">
+                    <table className="table w-full text-sm">
+                      <thead className="sticky top-0 bg-primary-bg">
+                        <tr>
+                          <th className="text-left">Pair</th>
+                          <th className="text-left">From</th>
+                          <th className="text-left">To</th>
+                          <th className="text-right">Days</th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {status.coverage.map(pair => (
+                          <tr key={`${pair.base}-${pair.quote}`}>
+                            <td className="text-primary-text">{pair.base}/{pair.quote}</td>
+                            <td className="text-primary-secondary">{pair.from}</td>
+                            <td className="text-primary-secondary">{pair.to}</td>
+                            <td className="text-right text-primary-secondary">{pair.count}</td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+                )}
+              </div>
+            </>
+          )}
+
+          <div
+            {...getRootProps()}
+            className={clsx(
+              'border-2 border-dashed rounded-lg p-4 text-center cursor-pointer transition-colors',
+              isDragActive ? 'border-primary-text bg-primary-bg' : 'border-primary-border hover:bg-primary-bg'
+            )}
+          >
+            <input {...getInputProps()} />
+            {isImporting ? (
+              <div className="flex items-center justify-center space-x-2 text-sm text-primary-text">
+                <Loader2 className="w-4 h-4 animate-spin" />
+                <span>Importing rates...</span>
+              </div>
+            ) : (
+              <p className="text-sm text-primary-text">Drop a rate file here, or click to choose</p>
+            )}
+            <p className="text-xs text-primary-secondary mt-1">
+              ECB reference rates (XML or CSV), or a CSV with date, base, quote and rate columns, up to 20MB.
+              Rates are shared, so only administrators can import them.
+            </p>
+          </div>
+
+          <div className="flex justify-end">
+            <button onClick={onClose} className="btn btn-secondary">
+              Close
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default FxRatesModal;
\ No newline at end of file
@@ -0,0 +1,438 @@
+import React, { useEffect, useState } from 'react';
+import { useDropzone } from 'react-dropzone';
+import { Landmark, Loader2, RefreshCw, X } from 'lucide-react';
+import { clsx } from 'clsx';
+import toast from 'react-hot-toast';
+import { statementsApi } from '@/services/api';
+import { StatementMapping, StatementPreview, StatementRowStatus, StatementSource } from '@/types';
+
+// Keep in step with DATE_FORMATS in the backend's statement parser
+const DATE_FORMATS = [
+  'dd/MM/yyyy',
+  'MM/dd/yyyy',
+  'yyyy-MM-dd',
+  'dd.MM.yyyy',
+  'dd-MM-yyyy',
+  'yyyy/MM/dd',
+  'dd/MM/yy',
+  'MM/dd/yy'
+];
+
+const COLUMN_FIELDS: { key: keyof StatementMapping; label: string; required?: boolean }[] = [
+  { key: 'date', label: 'Date', required: true },
+  { key: 'description', label: 'Description', required: true },
+  { key: 'amount', label: 'Amount' },
+  { key: 'debit', label: 'Debit (money out)' },
+  { key: 'credit', label: 'Credit (money in)' },
+  { key: 'currency', label: 'Currency' },
+  { key: 'reference', label: 'Reference' }
+];
+
+const STATUS_LABELS: Record<StatementRowStatus, { label: string; className: string }> = {
+  new: { label: 'New', className: 'bg-green-100 text-green-800' },
+  imported: { label: 'Already imported', className: 'bg-gray-100 text-gray-800' },
+  credit: { label: 'Money in', className: 'bg-blue-100 text-blue-800' },
+  error: { label: 'Error', className: 'bg-red-100 text-red-800' }
+};
+
+// QIF files carry no headers, only the date and number conventions need choosing
+const QIF_DEFAULTS: StatementMapping = {
+  date: '',
+  description: '',
+  dateFormat: 'MM/dd/yyyy',
+  decimalSeparator: '.',
+  expenseSign: 'negative',
+  defaultCurrency: 'USD'
+};
+
+const EMPTY_MAPPING: StatementMapping = { ...QIF_DEFAULTS, dateFormat: 'dd/MM/yyyy' };
+
+interface StatementImportModalProps {
+  // Reconciliation opens the modal to record transactions rather than create expenses
+  defaultReconcileOnly?: boolean;
+  onClose: () => void;
+  onImport: () => void;
+}
+
+const StatementImportModal: React.FC<StatementImportModalProps> = ({ defaultReconcileOnly = false, onClose, onImport }) => {
+  const [file, setFile] = useState<File | null>(null);
+  const [sourceName, setSourceName] = useState('');
+  const [sources, setSources] = useState<StatementSource[]>([]);
+  const [preview, setPreview] = useState<StatementPreview | null>(null);
+  const [mapping, setMapping] = useState<StatementMapping | null>(null);
+  const [mappingEdited, setMappingEdited] = useState(false);
+  const [excludedLines, setExcludedLines] = useState<Set<number>>(new Set());
+  const [saveMapping, setSaveMapping] = useState(true);
+  const [asDrafts, setAsDrafts] = useState(false);
+  const [reconcileOnly, setReconcileOnly] = useState(defaultReconcileOnly);
+  const [isPreviewing, setIsPreviewing] = useState(false);
+  const [isImporting, setIsImporting] = useState(false);
+
+  useEffect(() => {
+    statementsApi.getSources()
+      .then(setSources)
+      .catch(error => console.error('Failed to load statement sources:', error));
+  }, []);
+
+  const { getRootProps, getInputProps, isDragActive } = useDropzone({
+    onDrop: acceptedFiles => {
+      if (acceptedFiles.length > 0) {
+        setFile(acceptedFiles[0]);
+        setPreview(null);
+        setMapping(null);
+        setMappingEdited(false);
+      }
+    },
+    accept: {
+      'text/csv': ['.csv'],
+      'text/plain': ['.txt', '.tsv'],
+      'application/x-ofx': ['.ofx', '.qfx'],
+      'application/qif': ['.qif']
+    },
+    maxFiles: 1,
+    maxSize: 5 * 1024 * 1024, // 5MB
+    disabled: isPreviewing || isImporting
+  });
+
+  const runPreview = async (withMapping?: StatementMapping | null) => {
+    if (!file || !sourceName.trim()) {
+      toast.error('Choose a statement file and name its source');
+      return;
+    }
+
+    try {
+      setIsPreviewing(true);
+      const result = await statementsApi.preview(file, sourceName.trim(), withMapping);
+      setPreview(result);
+      setMapping(result.mapping || (result.format === 'qif' ? QIF_DEFAULTS : EMPTY_MAPPING));
+      setMappingEdited(!!withMapping);
+      setExcludedLines(new Set());
+    } catch (error: any) {
+      toast.error('Failed to read statement: ' + (error.response?.data?.error || error.message));
+    } finally {
+      setIsPreviewing(false);
+    }
+  };
+
+  const updateMapping = (changes: Partial<StatementMapping>) => {
+    setMapping(current => ({ ...(current || EMPTY_MAPPING), ...changes }));
+    setMappingEdited(true);
+  };
+
+  const toggleLine = (line: number) => {
+    setExcludedLines(current => {
+      const next = new Set(current);
+      if (next.has(line)) next.delete(line);
+      else next.add(line);
+      return next;
+    });
+  };
+
+  const handleImport = async () => {
+    if (!file || !preview) return;
+
+    try {
+      setIsImporting(true);
+      const result = await statementsApi.import(
+        file,
+        sourceName.trim(),
+        preview.format === 'ofx' ? null : mapping,
+        { saveMapping, asDrafts, reconcileOnly, excludedLines: Array.from(excludedLines) }
+      );
+      const alreadyImported = result.alreadyImported ? `, ${result.alreadyImported} already imported` : '';
+      toast.success(reconcileOnly
+        ? `Recorded ${result.recorded} transaction${result.recorded === 1 ? '' : 's'}, ${result.matched} matched to expenses${alreadyImported}`
+        : `Imported ${result.created} expense${result.created === 1 ? '' : 's'}${alreadyImported}` +
+          (asDrafts && result.created ? ' to the Inbox' : '') +
+          (result.matched ? `; ${result.matched} other transaction${result.matched === 1 ? '' : 's'} matched` : '')
+      );
+      onImport();
+    } catch (error: any) {
+      toast.error('Failed to import statement: ' + (error.response?.data?.error || error.message));
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  const selectedCount = preview
+    ? preview.rows.filter(row => row.status === 'new' && !excludedLines.has(row.line)).length
+    : 0;
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="card max-w-4xl w-full max-h-[90vh] overflow-y-auto">
+        {/* Header */}
+        <div className="flex items-center justify-between p-6 border-b border-primary-border">
+          <div className="flex items-center space-x-3">
+            <div className="p-2 rounded-lg bg-primary-button bg-opacity-20">
+              <Landmark className="w-5 h-5 text-primary-secondary" />
+            </div>
+            <h2 className="text-xl font-semibold text-primary-text">
+              Import Bank or Card Statement
+            </h2>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-2 rounded-lg hover:bg-primary-button hover:bg-opacity-20 transition-colors"
+          >
+            <X className="w-5 h-5 text-primary-secondary" />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-6">
+          {/* File and source */}
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div
+              {...getRootProps()}
+              className={clsx(
+                'border-2 border-dashed rounded-lg p-4 text-center cursor-pointer transition-colors',
+                isDragActive ? 'border-primary-text bg-primary-bg' : 'border-primary-border hover:bg-primary-bg'
+              )}
+            >
+              <input {...getInputProps()} />
+              <p className="text-sm text-primary-text">
+                {file ? file.name : 'Drop a statement here, or click to choose'}
+              </p>
+              <p className="text-xs text-primary-secondary mt-1">CSV, OFX/QFX or QIF, up to 5MB</p>
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-primary-text mb-1">
+                Source
+              </label>
+              <input
+                type="text"
+                list="statement-sources"
+                value={sourceName}
+                onChange={(e) => {
+                  setSourceName(e.target.value);
+                  setPreview(null);
+                }}
+                placeholder="e.g. Leumi checking, Visa 1234"
+                maxLength={100}
+                className="input"
+              />
+              <datalist id="statement-sources">
+                {sources.map(source => (
+                  <option key={source.id} value={source.source_name} />
+                ))}
+              </datalist>
+              <p className="text-xs text-primary-secondary mt-1">
+                The column mapping is remembered per source.
+              </p>
+            </div>
+          </div>
+
+          {!preview && (
+            <div className="flex justify-end">
+              <button
+                onClick={() => runPreview()}
+                disabled={!file || !sourceName.trim() || isPreviewing}
+                className="btn btn-primary flex items-center space-x-2"
+              >
+                {isPreviewing && <Loader2 className="w-4 h-4 animate-spin" />}
+                <span>Preview</span>
+              </button>
+            </div>
+          )}
+
+          {/* Mapping */}
+          {preview && preview.format !== 'ofx' && mapping && (
+            <div className="space-y-3">
+              <div className="flex items-center justify-between">
+                <h3 className="text-sm font-medium text-primary-text">
+                  Column mapping
+                  {preview.mappingSource && !mappingEdited && (
+                    <span className="ml-2 text-xs font-normal text-primary-secondary">
+                      ({preview.mappingSource === 'saved' ? 'saved for this source' : preview.mappingSource === 'suggested' ? 'detected' : 'as entered'})
+                    </span>
+                  )}
+                </h3>
+                <button
+                  onClick={() => runPreview(mapping)}
+                  disabled={!mappingEdited || isPreviewing}
+                  className="btn btn-secondary flex items-center space-x-2 text-sm"
+                >
+                  {isPreviewing ? <Loader2 className="w-4 h-4 animate-spin" /> : <RefreshCw className="w-4 h-4" />}
+                  <span>Apply mapping</span>
+                </button>
+              </div>
+
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+                {preview.format === 'csv' && COLUMN_FIELDS.map(field => (
+                  <div key={field.key}>
+                    <label className="block text-xs text-primary-secondary mb-1">
+                      {field.label}{field.required && ' *'}
+                    </label>
+                    <select
+                      value={(mapping[field.key] as string) || ''}
+                      onChange={(e) => updateMapping({ [field.key]: e.target.value || undefined })}
+                      className="input text-sm"
+                    >
+                      <option value="">-</option>
+                      {preview.headers.map(header => (
+                        <option key={header} value={header}>{header}</option>
+                      ))}
+                    </select>
+                  </div>
+                ))}
+
+                <div>
+                  <label className="block text-xs text-primary-secondary mb-1">Date format</label>
+                  <select
+                    value={mapping.dateFormat}
+                    onChange={(e) => updateMapping({ dateFormat: e.target.value })}
+                    className="input text-sm"
+                  >
+                    {DATE_FORMATS.map(dateFormat => (
+                      <option key={dateFormat} value={dateFormat}>{dateFormat}</option>
+                    ))}
+                  </select>
+                </div>
+
+                <div>
+                  <label className="block text-xs text-primary-secondary mb-1">Decimal separator</label>
+                  <select
+                    value={mapping.decimalSeparator}
+                    onChange={(e) => updateMapping({ decimalSeparator: e.target.value as StatementMapping['decimalSeparator'] })}
+                    className="input text-sm"
+                  >
+                    <option value=".">1,234.56</option>
+                    <option value=",">1.234,56</option>
+                  </select>
+                </div>
+
+                {preview.format === 'csv' && (
+                  <div>
+                    <label className="block text-xs text-primary-secondary mb-1">Expenses are</label>
+                    <select
+                      value={mapping.expenseSign}
+                      onChange={(e) => updateMapping({ expenseSign: e.target.value as StatementMapping['expenseSign'] })}
+                      className="input text-sm"
+                    >
+                      <option value="negative">Negative amounts</option>
+                      <option value="positive">Positive amounts</option>
+                    </select>
+                  </div>
+                )}
+
+                <div>
+                  <label className="block text-xs text-primary-secondary mb-1">Default currency</label>
+                  <input
+                    type="text"
+                    value={mapping.defaultCurrency}
+                    onChange={(e) => updateMapping({ defaultCurrency: e.target.value.toUpperCase() })}
+                    maxLength={3}
+                    className="input text-sm"
+                  />
+                </div>
+              </div>
+            </div>
+          )}
+
+          {/* Preview */}
+          {preview && (
+            <div className="space-y-3">
+              <div className="flex items-center justify-between text-sm">
+                <h3 className="font-medium text-primary-text">Preview</h3>
+                <span className="text-primary-secondary">
+                  {preview.summary.new} new, {preview.summary.imported} already imported,{' '}
+                  {preview.summary.credit} money in, {preview.summary.error} errors
+                </span>
+              </div>
+
+              {preview.rows.length === 0 ? (
+                <p className="text-sm text-primary-secondary">
+                  {preview.mapping ? 'No transactions found in this file.' : 'Map the date, description and amount columns, then apply the mapping.'}
+                </p>
+              ) : (
+                <div className="max-h-80 overflow-y-auto border border-primary-border rounded-lg">
+                  <table className="w-full text-sm">
+                    <thead className="sticky top-0 bg-primary-bg">
+                      <tr className="text-left text-primary-secondary">
+                        <th className="p-2 w-8"></th>
+                        <th className="p-2">Date</th>
+                        <th className="p-2">Description</th>
+                        <th className="p-2 text-right">Amount</th>
+                        <th className="p-2">Status</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {preview.rows.map(row => (
+                        <tr
+                          key={row.line}
+                          className={clsx(
+                            'border-t border-primary-border',
+                            (row.status !== 'new' || excludedLines.has(row.line)) && 'opacity-60'
+                          )}
+                        >
+                          <td className="p-2">
+                            {row.status === 'new' && (
+                              <input
+                                type="checkbox"
+                                checked={!excludedLines.has(row.line)}
+                                onChange={() => toggleLine(row.line)}
+                              />
+                            )}
+                          </td>
+                          <td className="p-2 whitespace-nowrap">{row.transaction?.date || '-'}</td>
+                          <td className="p-2">{row.transaction?.description || row.error}</td>
+                          <td className="p-2 text-right whitespace-nowrap">
+                            {row.transaction ? `${row.transaction.amount.toFixed(2)} ${row.transaction.currency}` : ''}
+                          </td>
+                          <td className="p-2">
+                            <span className={clsx('inline-flex px-2 py-0.5 rounded-full text-xs font-medium', STATUS_LABELS[row.status].className)}>
+                              {STATUS_LABELS[row.status].label}
+                            </span>
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+
+              <div className="flex flex-wrap gap-4 text-sm text-primary-text">
+                <label className="flex items-center space-x-2">
+                  <input type="checkbox" checked={saveMapping} onChange={(e) => setSaveMapping(e.target.checked)} />
+                  <span>Remember mapping for {sourceName.trim()}</span>
+                </label>
+                <label className="flex items-center space-x-2">
+                  <input type="checkbox" checked={reconcileOnly} onChange={(e) => setReconcileOnly(e.target.checked)} />
+                  <span>Only match against existing expenses</span>
+                </label>
+                {!reconcileOnly && (
+                  <label className="flex items-center space-x-2">
+                    <input type="checkbox" checked={asDrafts} onChange={(e) => setAsDrafts(e.target.checked)} />
+                    <span>Send to Inbox for review</span>
+                  </label>
+                )}
+              </div>
+
+              <div className="flex justify-end space-x-3">
+                <button onClick={onClose} className="btn btn-secondary">
+                  Cancel
+                </button>
+                <button
+                  onClick={handleImport}
+                  disabled={isImporting || mappingEdited || selectedCount === 0}
+                  title={mappingEdited ? 'Apply the mapping to refresh the preview first' : undefined}
+                  className="btn btn-primary flex items-center space-x-2"
+                >
+                  {isImporting && <Loader2 className="w-4 h-4 animate-spin" />}
+                  <span>
+                    {reconcileOnly
+                      ? `Record ${selectedCount} transaction${selectedCount === 1 ? '' : 's'}`
+                      : `Import ${selectedCount} expense${selectedCount === 1 ? '' : 's'}`}
+                  </span>
+                </button>
+              </div>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default StatementImportModal;
\ No newline at end of file
@@ -1,9 +1,33 @@
-import React, { useCallback, useState } from 'react';
+import React, { useCallback, useEffect, useRef, useState } from 'react';
 import { useDropzone } from 'react-dropzone';
 import { X, Upload, FileText, Image, AlertTriangle, CheckCircle } from 'lucide-react';
-import { uploadApi } from '@/services/api';
+import { uploadApi, templatesApi, getDuplicateMatches } from '@/services/api';
+import DuplicateNotice, { confirmDuplicateOverride } from '@/components/expenses/DuplicateNotice';
 import LoadingSpinner from '@/components/common/LoadingSpinner';
 import toast from 'react-hot-toast';
+import { InvoiceFields, RedactionCategory, UploadJobStatus, UploadResponse } from '@/types';
+
+const JOB_POLL_INTERVAL_MS = 1500;
+const JOB_TIMEOUT_MS = 5 * 60 * 1000;
+
+const PROCESSING_MESSAGES: Record<UploadJobStatus['status'], string> = {
+  queued: 'Waiting in processing queue',
+  scanning: 'Scanning file for threats',
+  extracting: 'Extracting data with OCR and applying security policies',
+  ready: 'Processing complete',
+  failed: 'Processing failed'
+};
+
+const REDACTION_LABELS: Record<RedactionCategory, string> = {
+  secret: 'secret(s)',
+  email: 'email address(es)',
+  iban: 'IBAN(s)',
+  credit_card: 'card number(s)',
+  phone: 'phone number(s)',
+  national_id: 'ID number(s)',
+  name: 'name(s)',
+  address: 'address(es)'
+};
 
 interface UploadModalProps {
   onClose: () => void;
@@ -17,6 +41,30 @@ const UploadModal: React.FC<UploadModalProps> = ({ onClose, onUpload }) => {
   const [editedProviderName, setEditedProviderName] = useState<string>('');
   const [editedSensitivity, setEditedSensitivity] = useState<'LOW' | 'MEDIUM' | 'HIGH'>('LOW');
   const [editedDueDate, setEditedDueDate] = useState<string>('');
+  const [editedAmount, setEditedAmount] = useState<string>('');
+  const [editedDate, setEditedDate] = useState<string>('');
+  const [rememberTemplate, setRememberTemplate] = useState(false);
+  const [processingStatus, setProcessingStatus] = useState<UploadJobStatus['status'] | null>(null);
+  const isMounted = useRef(true);
+
+  useEffect(() => {
+    return () => {
+      isMounted.current = false;
+    };
+  }, []);
+
+  // Processing runs in a background worker; poll until the job settles
+  const waitForJob = async (jobId: string): Promise<UploadResponse> => {
+    const deadline = Date.now() + JOB_TIMEOUT_MS;
+    while (isMounted.current && Date.now() < deadline) {
+      await new Promise(resolve => setTimeout(resolve, JOB_POLL_INTERVAL_MS));
+      const job = await uploadApi.getJob(jobId);
+      setProcessingStatus(job.status);
+      if (job.status === 'ready' && job.result) return job.result;
+      if (job.status === 'failed') throw new Error(job.error || 'Processing failed');
+    }
+    throw new Error('Processing is taking longer than expected. Check upload history later.');
+  };
 
   const onDrop = useCallback(async (acceptedFiles: File[]) => {
     if (acceptedFiles.length === 0) return;
@@ -32,18 +80,31 @@ const UploadModal: React.FC<UploadModalProps> = ({ onClose, onUpload }) => {
     setIsUploading(true);
     
     try {
-      const result = await uploadApi.uploadInvoice(file, sensitivityLevel);
+      let queued;
+      try {
+        queued = await uploadApi.uploadInvoice(file, sensitivityLevel);
+      } catch (error) {
+        const duplicates = getDuplicateMatches(error);
+        if (!duplicates || !confirmDuplicateOverride(duplicates)) throw error;
+        queued = await uploadApi.uploadInvoice(file, sensitivityLevel, true);
+      }
+      setProcessingStatus(queued.status);
+      const result = await waitForJob(queued.jobId);
       setUploadResult(result);
       // Clean up OCR-extracted vendor name by removing "page X of Y" text
       const cleanedVendorName = result.ocrResults.extractedData.vendor?.replace(/page?\s*\d+\s*of\s*\d+/gi, '').trim() || '';
       setEditedProviderName(cleanedVendorName);
       setEditedSensitivity(sensitivityLevel);
+      setEditedDueDate(result.ocrResults.invoiceFields?.dueDate?.value || '');
+      setEditedAmount(result.ocrResults.extractedData.amount || '');
+      setEditedDate(result.ocrResults.extractedData.date || '');
       toast.success('Invoice uploaded and processed successfully');
     } catch (error: any) {
-      const errorMessage = error.response?.data?.error || 'Upload failed';
+      const errorMessage = error.response?.data?.error || error.message || 'Upload failed';
       toast.error(errorMessage);
     } finally {
       setIsUploading(false);
+      setProcessingStatus(null);
     }
   }, []);
 
@@ -58,7 +119,9 @@ const UploadModal: React.FC<UploadModalProps> = ({ onClose, onUpload }) => {
     accept: {
       'application/pdf': ['.pdf'],
       'image/jpeg': ['.jpeg', '.jpg'],
-      'image/png': ['.png']
+      'image/png': ['.png'],
+      'application/xml': ['.xml'],
+      'text/xml': ['.xml']
     },
     maxFiles: 1,
     maxSize: 10 * 1024 * 1024, // 10MB
@@ -66,26 +129,56 @@ const UploadModal: React.FC<UploadModalProps> = ({ onClose, onUpload }) => {
   });
 
   const getFileIcon = (mimeType: string) => {
-    if (mimeType === 'application/pdf') {
+    if (mimeType === 'application/pdf' || mimeType.endsWith('/xml')) {
       return <FileText className="w-8 h-8 text-security-high" />;
     }
     return <Image className="w-8 h-8 text-security-medium" />;
   };
 
+  // Teach the extractor where this vendor puts its values; failure here shouldn't block the expense
+  const saveTemplate = async (expenseData: { provider_name: string; amount: number; date: string }) => {
+    try {
+      await templatesApi.learn({
+        fileId: uploadResult.file.id,
+        vendor: expenseData.provider_name,
+        amount: expenseData.amount,
+        date: expenseData.date,
+        invoiceNumber: invoiceFields?.invoiceNumber?.value
+      });
+      toast.success(`Extraction template saved for ${expenseData.provider_name}`);
+    } catch (error: any) {
+      toast.error('Could not save vendor template: ' + (error.response?.data?.error || error.message));
+    }
+  };
+
   const handleConfirmUpload = async () => {
     if (uploadResult && editedProviderName.trim()) {
       try {
-        // Create manual expense with edited provider name and sensitivity
-        await uploadApi.createExpenseFromUpload({
+        // Without a usable amount or date the record goes to the Inbox as a draft instead of into totals
+        const amount = parseFloat(editedAmount);
+        const isDraft = !(amount > 0) || !editedDate;
+        const expenseData = {
           provider_name: editedProviderName.trim(),
           description: `Invoice: ${uploadResult.file.originalName}`,
-          amount: parseFloat(uploadResult.ocrResults.extractedData.amount) || 0,
+          amount: amount > 0 ? amount : 0,
           currency: uploadResult.ocrResults.extractedData.currency || 'USD',
-          date: uploadResult.ocrResults.extractedData.date || new Date().toISOString().split('T')[0],
+          date: editedDate || new Date().toISOString().split('T')[0],
+          due_date: editedDueDate || undefined,
           sensitivity: editedSensitivity,
-          file_path: uploadResult.file.path
-        });
-        toast.success('Expense created successfully');
+          file_id: uploadResult.file.id,
+          ...(isDraft && { status: 'draft' as const })
+        };
+        try {
+          await uploadApi.createExpenseFromUpload(expenseData);
+        } catch (error) {
+          const duplicates = getDuplicateMatches(error);
+          if (!duplicates || !confirmDuplicateOverride(duplicates)) throw error;
+          await uploadApi.createExpenseFromUpload({ ...expenseData, allow_duplicate: true });
+        }
+        toast.success(isDraft ? 'Amount or date missing - saved to Inbox as a draft' : 'Expense created successfully');
+        if (rememberTemplate && !isDraft) {
+          await saveTemplate(expenseData);
+        }
         onUpload();
       } catch (error: any) {
         toast.error('Failed to create expense: ' + (error.response?.data?.error || error.message));
@@ -95,6 +188,8 @@ const UploadModal: React.FC<UploadModalProps> = ({ onClose, onUpload }) => {
     }
   };
 
+  const invoiceFields: InvoiceFields | undefined = uploadResult?.ocrResults.invoiceFields;
+
   return (
     <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
       <div className="card max-w-2xl w-full max-h-[90vh] overflow-y-auto">
@@ -173,7 +268,7 @@ const UploadModal: React.FC<UploadModalProps> = ({ onClose, onUpload }) => {
                       Processing Invoice...
                     </p>
                     <p className="text-sm text-primary-secondary mt-1">
-                      Extracting data with OCR and applying security policies
+                      {processingStatus ? PROCESSING_MESSAGES[processingStatus] : 'Uploading file'}
                     </p>
                   </div>
                 </div>
@@ -189,7 +284,7 @@ const UploadModal: React.FC<UploadModalProps> = ({ onClose, onUpload }) => {
                     </p>
                   </div>
                   <div className="text-xs text-primary-secondary">
-                    Supports PDF, JPEG, PNG • Max 10MB
+                    Supports PDF, JPEG, PNG and UBL/CII XML e-invoices • Max 10MB
                   </div>
                 </div>
               )}
@@ -250,7 +345,20 @@ const UploadModal: React.FC<UploadModalProps> = ({ onClose, onUpload }) => {
 
               {/* OCR Results */}
               <div className="card p-4 bg-primary-bg">
-                <h3 className="font-medium text-primary-text mb-3">Extracted Data</h3>
+                <div className="flex items-center justify-between mb-3">
+                  <h3 className="font-medium text-primary-text">Extracted Data</h3>
+                  {uploadResult.template && (
+                    <span className="text-xs text-primary-secondary">
+                      Using template: {uploadResult.template.vendorName}
+                    </span>
+                  )}
+                  {uploadResult.ocrResults.eInvoice && (
+                    <span className="text-xs text-primary-secondary">
+                      Structured e-invoice ({uploadResult.ocrResults.eInvoice.format.toUpperCase()}
+                      {uploadResult.ocrResults.eInvoice.source === 'pdf-attachment' ? ', embedded in PDF' : ''}) • OCR skipped
+                    </span>
+                  )}
+                </div>
                 <div className="grid grid-cols-2 gap-4">
                   <div>
                     <label className="text-xs font-medium text-primary-secondary">Vendor (Original)</label>
@@ -276,8 +384,53 @@ const UploadModal: React.FC<UploadModalProps> = ({ onClose, onUpload }) => {
                     </p>
                   </div>
                 </div>
+                {invoiceFields && (
+                  <div className="mt-4">
+                    <label className="text-xs font-medium text-primary-secondary">Invoice Fields</label>
+                    <div className="flex flex-wrap gap-2 mt-1">
+                      {([
+                        ['Invoice #', invoiceFields.invoiceNumber?.value, invoiceFields.invoiceNumber],
+                        ['Subtotal', invoiceFields.subtotal?.value.toFixed(2), invoiceFields.subtotal],
+                        ['VAT', invoiceFields.taxAmount?.value.toFixed(2), invoiceFields.taxAmount],
+                        ['VAT Rate', invoiceFields.taxRate && `${invoiceFields.taxRate.value}%`, invoiceFields.taxRate],
+                        ['Total', invoiceFields.total?.value.toFixed(2), invoiceFields.total],
+                        ['Due', invoiceFields.dueDate?.value, invoiceFields.dueDate]
+                      ] as const).filter(([, value]) => value).map(([label, value, field]) => (
+                        <span
+                          key={label}
+                          className="inline-flex items-center px-2 py-0.5 rounded text-xs font-medium bg-primary-button bg-opacity-20 text-primary-text"
+                          title={`Confidence: ${((field?.confidence || 0) * 100).toFixed(0)}%`}
+                        >
+                          {label}: {value}
+                        </span>
+                      ))}
+                    </div>
+                    {invoiceFields.lineItems.length > 0 && (
+                      <p className="text-xs text-primary-secondary mt-1">
+                        {invoiceFields.lineItems.length} line item(s) detected
+                      </p>
+                    )}
+                  </div>
+                )}
+                {uploadResult.ocrResults.pages?.length > 0 && (
+                  <div className="mt-4">
+                    <label className="text-xs font-medium text-primary-secondary">Scanned Pages</label>
+                    <div className="flex flex-wrap gap-2 mt-1">
+                      {uploadResult.ocrResults.pages.map((page: any) => (
+                        <span
+                          key={page.page}
+                          className="inline-flex items-center px-2 py-0.5 rounded text-xs font-medium bg-primary-button bg-opacity-20 text-primary-text"
+                        >
+                          Page {page.page}: {page.confidence !== undefined ? `${(page.confidence * 100).toFixed(1)}%` : 'N/A'}
+                        </span>
+                      ))}
+                    </div>
+                  </div>
+                )}
               </div>
 
+              <DuplicateNotice duplicates={uploadResult.duplicates || []} />
+
               {/* Edit Provider and Sensitivity */}
               <div className="card p-4 bg-primary-bg">
                 <h3 className="font-medium text-primary-text mb-3">Edit Invoice Details</h3>
@@ -297,6 +450,41 @@ const UploadModal: React.FC<UploadModalProps> = ({ onClose, onUpload }) => {
                       You can edit the provider name extracted from OCR
                     </p>
                   </div>
+
+                  <div className="grid grid-cols-2 gap-3">
+                    <div>
+                      <label className="block text-sm font-medium text-primary-text mb-2">
+                        Amount
+                      </label>
+                      <input
+                        type="number"
+                        step="0.01"
+                        value={editedAmount}
+                        onChange={(e) => setEditedAmount(e.target.value)}
+                        className="input w-full"
+                      />
+                    </div>
+                    <div>
+                      <label className="block text-sm font-medium text-primary-text mb-2">
+                        Invoice Date
+                      </label>
+                      <input
+                        type="date"
+                        value={editedDate}
+                        onChange={(e) => setEditedDate(e.target.value)}
+                        className="input w-full"
+                      />
+                    </div>
+                  </div>
+
+                  <label className="flex items-center space-x-2 text-sm text-primary-text">
+                    <input
+                      type="checkbox"
+                      checked={rememberTemplate}
+                      onChange={(e) => setRememberTemplate(e.target.checked)}
+                    />
+                    <span>Remember where these values are for this vendor's future invoices</span>
+                  </label>
                   
                   <div>
                     <label className="block text-sm font-medium text-primary-text mb-2">
@@ -346,6 +534,14 @@ const UploadModal: React.FC<UploadModalProps> = ({ onClose, onUpload }) => {
               {/* Extracted Text Preview */}
               <div className="card p-4 bg-primary-bg">
                 <h3 className="font-medium text-primary-text mb-3">OCR Text Preview</h3>
+                {uploadResult.ocrResults.redactions && uploadResult.ocrResults.redactions.total > 0 && (
+                  <p className="text-xs text-primary-secondary mb-2">
+                    Redacted before storage:{' '}
+                    {Object.entries(uploadResult.ocrResults.redactions.categories)
+                      .map(([category, count]) => `${count} ${REDACTION_LABELS[category as RedactionCategory]}`)
+                      .join(', ')}
+                  </p>
+                )}
                 <div className="text-xs text-primary-secondary bg-white p-3 rounded border max-h-32 overflow-y-auto">
                   {uploadResult.ocrResults.text}
                 </div>
@@ -362,6 +558,7 @@ const UploadModal: React.FC<UploadModalProps> = ({ onClose, onUpload }) => {
                 <ul className="text-primary-secondary space-y-1">
                   <li>• Files are encrypted before storage</li>
                   <li>• Small invoices (&lt;$5K) are deleted after data extraction</li>
+                  <li>• Medium invoices ($5K–$20K) are kept encrypted for 1 year</li>
                   <li>• Large invoices (&gt;$20K) are kept permanently for audit</li>
                   <li>• High-sensitivity files are always encrypted and retained</li>
                 </ul>
@@ -3,11 +3,18 @@ import { Link, useLocation } from 'react-router-dom';
 import { 
   LayoutDashboard, 
   Receipt, 
+  Inbox,
+  ArrowLeftRight,
+  PiggyBank,
+  Repeat,
+  Store,
+  FolderOpen,
   LogOut, 
   User
 } from 'lucide-react';
 import { useAuth } from '@/contexts/AuthContext';
 import { clsx } from 'clsx';
+import NotificationBell from '@/components/layout/NotificationBell';
 
 interface LayoutProps {
   children: React.ReactNode;
@@ -29,6 +36,42 @@ const Layout: React.FC<LayoutProps> = ({ children }) => {
       href: '/expenses',
       icon: Receipt,
       current: location.pathname === '/expenses'
+    },
+    {
+      name: 'Inbox',
+      href: '/inbox',
+      icon: Inbox,
+      current: location.pathname === '/inbox'
+    },
+    {
+      name: 'Reconciliation',
+      href: '/reconciliation',
+      icon: ArrowLeftRight,
+      current: location.pathname === '/reconciliation'
+    },
+    {
+      name: 'Budgets',
+      href: '/budgets',
+      icon: PiggyBank,
+      current: location.pathname === '/budgets'
+    },
+    {
+      name: 'Subscriptions',
+      href: '/subscriptions',
+      icon: Repeat,
+      current: location.pathname === '/subscriptions'
+    },
+    {
+      name: 'Vendors',
+      href: '/vendors',
+      icon: Store,
+      current: location.pathname === '/vendors'
+    },
+    {
+      name: 'Uploads',
+      href: '/uploads',
+      icon: FolderOpen,
+      current: location.pathname === '/uploads'
     }
   ];
 
@@ -80,6 +123,8 @@ const Layout: React.FC<LayoutProps> = ({ children }) => {
 
             {/* User Menu */}
             <div className="flex items-center space-x-4">
+              <NotificationBell />
+              
               <div className="flex items-center space-x-2 text-sm">
                 <User className="w-4 h-4 text-primary-secondary" />
                 <span className="font-medium text-primary-text">
@@ -0,0 +1,132 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { Bell, CheckCheck } from 'lucide-react';
+import { clsx } from 'clsx';
+import { formatDistanceToNow } from 'date-fns';
+import { notificationsApi } from '@/services/api';
+import { Notification } from '@/types';
+
+// Budget alerts are raised by an hourly job, so a minute is plenty
+const POLL_INTERVAL = 60000;
+
+const NotificationBell: React.FC = () => {
+  const navigate = useNavigate();
+  const [notifications, setNotifications] = useState<Notification[]>([]);
+  const [unreadCount, setUnreadCount] = useState(0);
+  const [isOpen, setIsOpen] = useState(false);
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  const fetchFeed = async () => {
+    try {
+      const feed = await notificationsApi.getFeed();
+      setNotifications(feed.notifications);
+      setUnreadCount(feed.unreadCount);
+    } catch (error) {
+      console.error('Failed to fetch notifications:', error);
+    }
+  };
+
+  useEffect(() => {
+    fetchFeed();
+    const interval = setInterval(fetchFeed, POLL_INTERVAL);
+    return () => clearInterval(interval);
+  }, []);
+
+  useEffect(() => {
+    if (!isOpen) return;
+
+    const handleClick = (event: MouseEvent) => {
+      if (containerRef.current && !containerRef.current.contains(event.target as Node)) {
+        setIsOpen(false);
+      }
+    };
+    document.addEventListener('mousedown', handleClick);
+    return () => document.removeEventListener('mousedown', handleClick);
+  }, [isOpen]);
+
+  const openNotification = async (notification: Notification) => {
+    setIsOpen(false);
+    if (!notification.read_at) {
+      setNotifications(current => current.map(item =>
+        item.id === notification.id ? { ...item, read_at: new Date().toISOString() } : item
+      ));
+      setUnreadCount(count => Math.max(0, count - 1));
+      notificationsApi.markRead(notification.id).catch(error => {
+        console.error('Failed to mark notification read:', error);
+      });
+    }
+    if (notification.link) {
+      navigate(notification.link);
+    }
+  };
+
+  const markAllRead = async () => {
+    try {
+      await notificationsApi.markAllRead();
+      await fetchFeed();
+    } catch (error) {
+      console.error('Failed to mark notifications read:', error);
+    }
+  };
+
+  return (
+    <div className="relative" ref={containerRef}>
+      <button
+        onClick={() => setIsOpen(open => !open)}
+        className="relative p-2 rounded-lg text-primary-secondary hover:text-primary-text hover:bg-primary-button hover:bg-opacity-10 transition-colors"
+        title="Notifications"
+      >
+        <Bell className="w-4 h-4" />
+        {unreadCount > 0 && (
+          <span className="absolute -top-0.5 -right-0.5 min-w-[1rem] h-4 px-1 rounded-full bg-red-600 text-white text-[10px] leading-4 text-center">
+            {unreadCount > 99 ? '99+' : unreadCount}
+          </span>
+        )}
+      </button>
+
+      {isOpen && (
+        <div className="absolute right-0 mt-2 w-80 card shadow-soft z-50">
+          <div className="flex items-center justify-between px-4 py-3 border-b border-primary-border">
+            <h3 className="text-sm font-semibold text-primary-text">Notifications</h3>
+            {unreadCount > 0 && (
+              <button
+                onClick={markAllRead}
+                className="flex items-center space-x-1 text-xs text-primary-secondary hover:text-primary-text"
+              >
+                <CheckCheck className="w-3 h-3" />
+                <span>Mark all read</span>
+              </button>
+            )}
+          </div>
+
+          <div className="max-h-96 overflow-y-auto">
+            {notifications.length === 0 ? (
+              <p className="px-4 py-6 text-sm text-center text-primary-secondary">No notifications yet.</p>
+            ) : (
+              notifications.map(notification => (
+                <button
+                  key={notification.id}
+                  onClick={() => openNotification(notification)}
+                  className={clsx(
+                    'w-full text-left px-4 py-3 border-b border-primary-border last:border-b-0 hover:bg-primary-bg transition-colors',
+                    !notification.read_at && 'bg-yellow-50'
+                  )}
+                >
+                  <div className="text-sm font-medium text-primary-text">{notification.title}</div>
+                  {notification.message && (
+                    <div className="text-xs text-primary-secondary mt-0.5">{notification.message}</div>
+                  )}
+                  <div className="text-xs text-primary-secondary mt-1">
+                    {formatDistanceToNow(new Date(notification.created_at), { addSuffix: true })}
+                  </div>
+                </button>
+              ))
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default NotificationBell;
\ No newline at end of file
@@ -0,0 +1,273 @@
+import React, { useEffect, useState } from 'react';
+import { Eye, Loader2, Shield, X } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { sensitivityRulesApi, vendorsApi } from '@/services/api';
+import { ReclassificationResult, SensitivityMatchType, SensitivityRule, SensitivityRuleRequest, Vendor } from '@/types';
+
+const MATCH_TYPES: { value: SensitivityMatchType; label: string }[] = [
+  { value: 'keyword', label: 'Vendor name contains' },
+  { value: 'regex', label: 'Vendor name matches pattern' },
+  { value: 'vendor', label: 'Vendor is' },
+  { value: 'category', label: 'Category is' },
+  { value: 'amount', label: 'Amount at least' }
+];
+
+const PATTERN_HINTS: Partial<Record<SensitivityMatchType, { placeholder: string; hint: string }>> = {
+  keyword: { placeholder: 'e.g. bank, health, defense', hint: 'Comma-separated; any one appearing in the vendor name matches, ignoring case.' },
+  regex: { placeholder: 'e.g. ^(aws|amazon web services)\\b', hint: 'A regular expression tested against the vendor name, ignoring case.' },
+  category: { placeholder: 'e.g. Security', hint: 'Matches the expense category exactly, ignoring case.' }
+};
+
+interface SensitivityRuleModalProps {
+  rule?: SensitivityRule;
+  onClose: () => void;
+  onSaved: () => void;
+}
+
+const SensitivityRuleModal: React.FC<SensitivityRuleModalProps> = ({ rule, onClose, onSaved }) => {
+  const [name, setName] = useState(rule?.name || '');
+  const [matchType, setMatchType] = useState<SensitivityMatchType>(rule?.match_type || 'keyword');
+  const [pattern, setPattern] = useState(rule?.pattern || '');
+  const [vendorId, setVendorId] = useState(rule?.vendor_id ? rule.vendor_id.toString() : '');
+  const [minAmount, setMinAmount] = useState(rule?.min_amount != null ? rule.min_amount.toString() : '');
+  const [amountCurrency, setAmountCurrency] = useState(rule?.amount_currency || 'USD');
+  const [sensitivity, setSensitivity] = useState<SensitivityRule['sensitivity']>(rule?.sensitivity || 'HIGH');
+  const [maskAlias, setMaskAlias] = useState(rule?.mask_alias || '');
+  const [priority, setPriority] = useState((rule?.priority ?? 100).toString());
+  const [isActive, setIsActive] = useState(rule?.is_active ?? true);
+  const [vendors, setVendors] = useState<Vendor[]>([]);
+  const [preview, setPreview] = useState<ReclassificationResult | null>(null);
+  const [isPreviewing, setIsPreviewing] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    if (matchType === 'vendor' && vendors.length === 0) {
+      vendorsApi.getAll()
+        .then(result => setVendors(result.vendors))
+        .catch(() => toast.error('Failed to load vendors'));
+    }
+  }, [matchType, vendors.length]);
+
+  // A preview describes the rule as it was when previewed
+  useEffect(() => {
+    setPreview(null);
+  }, [matchType, pattern, vendorId, minAmount, amountCurrency, sensitivity, maskAlias, priority, isActive]);
+
+  const buildRequest = (): SensitivityRuleRequest => ({
+    name: name.trim(),
+    matchType,
+    pattern: ['keyword', 'regex', 'category'].includes(matchType) ? pattern.trim() : null,
+    vendorId: matchType === 'vendor' && vendorId ? parseInt(vendorId) : null,
+    minAmount: matchType === 'amount' && minAmount ? parseFloat(minAmount) : null,
+    amountCurrency: matchType === 'amount' ? amountCurrency : null,
+    sensitivity,
+    maskAlias: maskAlias.trim() || null,
+    priority: parseInt(priority) || 0,
+    isActive
+  });
+
+  const handlePreview = async () => {
+    try {
+      setIsPreviewing(true);
+      setPreview(await sensitivityRulesApi.preview({ ...buildRequest(), ruleId: rule?.id }));
+    } catch (error: any) {
+      console.error('Failed to preview rule:', error);
+      toast.error(error.response?.data?.error || 'Failed to preview rule');
+    } finally {
+      setIsPreviewing(false);
+    }
+  };
+
+  const handleSave = async () => {
+    try {
+      setIsSaving(true);
+      if (rule) {
+        await sensitivityRulesApi.update(rule.id, buildRequest());
+        toast.success('Rule updated');
+      } else {
+        await sensitivityRulesApi.create(buildRequest());
+        toast.success('Rule added');
+      }
+      onSaved();
+    } catch (error: any) {
+      console.error('Failed to save rule:', error);
+      toast.error(error.response?.data?.error || 'Failed to save rule');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const hint = PATTERN_HINTS[matchType];
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="card max-w-lg w-full max-h-[90vh] overflow-y-auto">
+        {/* Header */}
+        <div className="flex items-center justify-between p-6 border-b border-primary-border">
+          <div className="flex items-center space-x-3">
+            <div className="p-2 rounded-lg bg-primary-button bg-opacity-20">
+              <Shield className="w-5 h-5 text-primary-secondary" />
+            </div>
+            <h2 className="text-xl font-semibold text-primary-text">
+              {rule ? 'Edit Rule' : 'Add Rule'}
+            </h2>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-2 rounded-lg hover:bg-primary-button hover:bg-opacity-20 transition-colors"
+          >
+            <X className="w-5 h-5 text-primary-secondary" />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-4">
+          <div>
+            <label className="block text-sm font-medium text-primary-text mb-2">Name</label>
+            <input
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="e.g. Financial institutions"
+              className="input"
+            />
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-primary-text mb-2">Match when</label>
+            <select value={matchType} onChange={(e) => setMatchType(e.target.value as SensitivityMatchType)} className="input">
+              {MATCH_TYPES.map(option => (
+                <option key={option.value} value={option.value}>{option.label}</option>
+              ))}
+            </select>
+          </div>
+
+          {hint && (
+            <div>
+              <input
+                value={pattern}
+                onChange={(e) => setPattern(e.target.value)}
+                placeholder={hint.placeholder}
+                className="input"
+              />
+              <p className="text-xs text-primary-secondary mt-1">{hint.hint}</p>
+            </div>
+          )}
+
+          {matchType === 'vendor' && (
+            <select value={vendorId} onChange={(e) => setVendorId(e.target.value)} className="input">
+              <option value="">Select a vendor</option>
+              {vendors.map(vendor => (
+                <option key={vendor.id} value={vendor.id}>{vendor.canonical_name}</option>
+              ))}
+            </select>
+          )}
+
+          {matchType === 'amount' && (
+            <div className="grid grid-cols-3 gap-4">
+              <input
+                type="number"
+                min="0"
+                step="0.01"
+                value={minAmount}
+                onChange={(e) => setMinAmount(e.target.value)}
+                placeholder="0.00"
+                className="input col-span-2"
+              />
+              <select value={amountCurrency} onChange={(e) => setAmountCurrency(e.target.value)} className="input">
+                {Array.from(new Set(['USD', 'EUR', 'ILS', amountCurrency])).map(code => (
+                  <option key={code} value={code}>{code}</option>
+                ))}
+              </select>
+            </div>
+          )}
+
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-primary-text mb-2">Sensitivity</label>
+              <select value={sensitivity} onChange={(e) => setSensitivity(e.target.value as SensitivityRule['sensitivity'])} className="input">
+                <option value="LOW">Low</option>
+                <option value="MEDIUM">Medium</option>
+                <option value="HIGH">High</option>
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-primary-text mb-2">Priority</label>
+              <input
+                type="number"
+                value={priority}
+                onChange={(e) => setPriority(e.target.value)}
+                className="input"
+              />
+            </div>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-primary-text mb-2">Mask alias</label>
+            <input
+              value={maskAlias}
+              onChange={(e) => setMaskAlias(e.target.value)}
+              placeholder="e.g. Financial Services {hash}"
+              className="input"
+            />
+            <p className="text-xs text-primary-secondary mt-1">
+              Shown instead of the vendor name. {'{hash}'} is replaced by a short code that stays the same for each vendor. A vendor's own masked alias takes precedence.
+            </p>
+          </div>
+
+          <label className="flex items-center space-x-2 text-sm text-primary-text">
+            <input type="checkbox" checked={isActive} onChange={(e) => setIsActive(e.target.checked)} />
+            <span>Active</span>
+          </label>
+
+          <p className="text-xs text-primary-secondary">
+            Rules are tried from the highest priority down and the first match decides. Saving affects new expenses; use Preview to see which existing ones would change.
+          </p>
+
+          {preview && (
+            <div className="rounded-lg border border-primary-border p-3 text-sm">
+              <p className="font-medium text-primary-text">
+                {preview.changed} of {preview.scanned} expense{preview.scanned === 1 ? '' : 's'} would change
+              </p>
+              {preview.changes.length > 0 && (
+                <ul className="mt-2 space-y-1 max-h-40 overflow-y-auto text-xs text-primary-secondary">
+                  {preview.changes.map(change => (
+                    <li key={change.expenseId}>
+                      {change.providerName}: {change.from.sensitivity} → {change.to.sensitivity}
+                      {change.to.maskedName && change.to.maskedName !== change.from.maskedName && ` (shown as ${change.to.maskedName})`}
+                    </li>
+                  ))}
+                  {preview.changed > preview.changes.length && (
+                    <li>...and {preview.changed - preview.changes.length} more</li>
+                  )}
+                </ul>
+              )}
+            </div>
+          )}
+
+          <div className="flex justify-end space-x-3 pt-2">
+            <button onClick={onClose} className="btn btn-secondary">
+              Cancel
+            </button>
+            <button
+              onClick={handlePreview}
+              disabled={isPreviewing || !name.trim()}
+              className="btn btn-secondary flex items-center space-x-2"
+            >
+              {isPreviewing ? <Loader2 className="w-4 h-4 animate-spin" /> : <Eye className="w-4 h-4" />}
+              <span>Preview</span>
+            </button>
+            <button
+              onClick={handleSave}
+              disabled={isSaving || !name.trim()}
+              className="btn btn-primary flex items-center space-x-2"
+            >
+              {isSaving && <Loader2 className="w-4 h-4 animate-spin" />}
+              <span>{rule ? 'Save' : 'Add Rule'}</span>
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SensitivityRuleModal;
\ No newline at end of file
@@ -0,0 +1,198 @@
+import React, { useState } from 'react';
+import { Loader2, Repeat, X } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { subscriptionsApi } from '@/services/api';
+import { Subscription, SubscriptionCadence, SubscriptionRequest } from '@/types';
+
+// Keep in step with the categories offered by ExpenseForm
+const CATEGORIES = ['Software', 'Infrastructure', 'Security', 'Services', 'Marketing', 'Office', 'Travel', 'Other'];
+
+const CADENCES: { value: SubscriptionCadence; label: string }[] = [
+  { value: 'weekly', label: 'Weekly' },
+  { value: 'monthly', label: 'Monthly' },
+  { value: 'quarterly', label: 'Quarterly' },
+  { value: 'annual', label: 'Annual' }
+];
+
+interface SubscriptionModalProps {
+  subscription?: Subscription;
+  onClose: () => void;
+  onSaved: () => void;
+}
+
+const SubscriptionModal: React.FC<SubscriptionModalProps> = ({ subscription, onClose, onSaved }) => {
+  const [providerName, setProviderName] = useState(subscription?.provider_name || '');
+  const [category, setCategory] = useState(subscription?.category || '');
+  const [amount, setAmount] = useState(subscription ? String(Number(subscription.amount)) : '');
+  const [currency, setCurrency] = useState('');
+  const [cadence, setCadence] = useState<SubscriptionCadence>(subscription?.cadence || 'monthly');
+  const [nextChargeDate, setNextChargeDate] = useState(subscription?.next_charge_date.substring(0, 10) || '');
+  const [autoDraft, setAutoDraft] = useState(subscription?.auto_draft ?? true);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const handleSave = async () => {
+    const data: SubscriptionRequest = {
+      category: category || null,
+      amount: parseFloat(amount),
+      autoDraft
+    };
+    // A changed schedule clears the flag, so only send the schedule when it changed
+    if (!subscription || cadence !== subscription.cadence) {
+      data.cadence = cadence;
+    }
+    if (!subscription || nextChargeDate !== subscription.next_charge_date.substring(0, 10)) {
+      data.nextChargeDate = nextChargeDate;
+    }
+    if (!subscription) {
+      data.providerName = providerName.trim();
+      if (currency) data.currency = currency;
+    }
+
+    try {
+      setIsSaving(true);
+      if (subscription) {
+        await subscriptionsApi.update(subscription.id, data);
+        toast.success('Subscription updated');
+      } else {
+        await subscriptionsApi.create(data);
+        toast.success('Subscription added');
+      }
+      onSaved();
+    } catch (error: any) {
+      console.error('Failed to save subscription:', error);
+      toast.error(error.response?.data?.error || 'Failed to save subscription');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="card max-w-lg w-full max-h-[90vh] overflow-y-auto">
+        {/* Header */}
+        <div className="flex items-center justify-between p-6 border-b border-primary-border">
+          <div className="flex items-center space-x-3">
+            <div className="p-2 rounded-lg bg-primary-button bg-opacity-20">
+              <Repeat className="w-5 h-5 text-primary-secondary" />
+            </div>
+            <h2 className="text-xl font-semibold text-primary-text">
+              {subscription ? 'Edit Subscription' : 'Add Subscription'}
+            </h2>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-2 rounded-lg hover:bg-primary-button hover:bg-opacity-20 transition-colors"
+          >
+            <X className="w-5 h-5 text-primary-secondary" />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-4">
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-primary-text mb-2">Provider</label>
+              <input
+                value={providerName}
+                onChange={(e) => setProviderName(e.target.value)}
+                placeholder="e.g. Slack"
+                disabled={Boolean(subscription)}
+                className="input"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-primary-text mb-2">Category</label>
+              <select value={category} onChange={(e) => setCategory(e.target.value)} className="input">
+                <option value="">None</option>
+                {Array.from(new Set([...CATEGORIES, ...(subscription?.category ? [subscription.category] : [])])).map(option => (
+                  <option key={option} value={option}>{option}</option>
+                ))}
+              </select>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-3 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-primary-text mb-2">Amount</label>
+              <input
+                type="number"
+                min="0.01"
+                step="0.01"
+                value={amount}
+                onChange={(e) => setAmount(e.target.value)}
+                className="input"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-primary-text mb-2">Currency</label>
+              {subscription ? (
+                <input value={subscription.currency} disabled className="input" />
+              ) : (
+                <select value={currency} onChange={(e) => setCurrency(e.target.value)} className="input">
+                  <option value="">Reporting</option>
+                  <option value="USD">USD</option>
+                  <option value="EUR">EUR</option>
+                  <option value="ILS">ILS</option>
+                </select>
+              )}
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-primary-text mb-2">Billed</label>
+              <select value={cadence} onChange={(e) => setCadence(e.target.value as SubscriptionCadence)} className="input">
+                {CADENCES.map(option => (
+                  <option key={option.value} value={option.value}>{option.label}</option>
+                ))}
+              </select>
+            </div>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-primary-text mb-2">Next charge</label>
+            <input
+              type="date"
+              value={nextChargeDate}
+              onChange={(e) => setNextChargeDate(e.target.value)}
+              className="input"
+            />
+          </div>
+
+          <label className="flex items-start space-x-3 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={autoDraft}
+              onChange={(e) => setAutoDraft(e.target.checked)}
+              className="mt-1"
+            />
+            <div>
+              <div className="text-sm font-medium text-primary-text">Draft each charge when it is due</div>
+              <div className="text-xs text-primary-secondary">
+                The expected charge waits in the inbox for review, so it no longer has to be entered by hand.
+              </div>
+            </div>
+          </label>
+
+          {subscription && (
+            <p className="text-xs text-primary-secondary">
+              The provider and currency identify this subscription's charges and cannot be changed.
+            </p>
+          )}
+
+          <div className="flex justify-end space-x-3 pt-2">
+            <button onClick={onClose} className="btn btn-secondary">
+              Cancel
+            </button>
+            <button
+              onClick={handleSave}
+              disabled={isSaving || !providerName.trim() || !(parseFloat(amount) > 0) || !nextChargeDate}
+              className="btn btn-primary flex items-center space-x-2"
+            >
+              {isSaving && <Loader2 className="w-4 h-4 animate-spin" />}
+              <span>{subscription ? 'Save' : 'Add Subscription'}</span>
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SubscriptionModal;
\ No newline at end of file
@@ -0,0 +1,133 @@
+import React, { useMemo, useState } from 'react';
+import { GitMerge, Loader2, X } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { vendorsApi } from '@/services/api';
+import { Vendor } from '@/types';
+
+interface VendorMergeModalProps {
+  target: Vendor;
+  vendors: Vendor[];
+  onClose: () => void;
+  onMerged: () => void;
+}
+
+const VendorMergeModal: React.FC<VendorMergeModalProps> = ({ target, vendors, onClose, onMerged }) => {
+  const [search, setSearch] = useState('');
+  const [selected, setSelected] = useState<Set<number>>(new Set());
+  const [isMerging, setIsMerging] = useState(false);
+
+  const candidates = useMemo(() => {
+    const term = search.trim().toLowerCase();
+    return vendors.filter(vendor =>
+      vendor.id !== target.id &&
+      (!term || vendor.aliases.some(alias => alias.toLowerCase().includes(term)))
+    );
+  }, [vendors, target.id, search]);
+
+  const toggle = (id: number) => {
+    setSelected(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) {
+        next.delete(id);
+      } else {
+        next.add(id);
+      }
+      return next;
+    });
+  };
+
+  const handleMerge = async () => {
+    const names = vendors.filter(vendor => selected.has(vendor.id)).map(vendor => vendor.canonical_name);
+    if (!window.confirm(`Merge ${names.join(', ')} into ${target.canonical_name}? The merged vendors are deleted; their names become aliases.`)) {
+      return;
+    }
+
+    try {
+      setIsMerging(true);
+      const result = await vendorsApi.merge(target.id, Array.from(selected));
+      toast.success(`Merged ${names.length} vendor${names.length === 1 ? '' : 's'}, ${result.movedExpenses} expense${result.movedExpenses === 1 ? '' : 's'} moved`);
+      onMerged();
+    } catch (error: any) {
+      console.error('Failed to merge vendors:', error);
+      toast.error(error.response?.data?.error || 'Failed to merge vendors');
+    } finally {
+      setIsMerging(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="card max-w-lg w-full max-h-[90vh] flex flex-col">
+        {/* Header */}
+        <div className="flex items-center justify-between p-6 border-b border-primary-border flex-shrink-0">
+          <div className="flex items-center space-x-3">
+            <div className="p-2 rounded-lg bg-primary-button bg-opacity-20">
+              <GitMerge className="w-5 h-5 text-primary-secondary" />
+            </div>
+            <div>
+              <h2 className="text-xl font-semibold text-primary-text">Merge Vendors</h2>
+              <p className="text-sm text-primary-secondary">Into {target.canonical_name}</p>
+            </div>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-2 rounded-lg hover:bg-primary-button hover:bg-opacity-20 transition-colors"
+          >
+            <X className="w-5 h-5 text-primary-secondary" />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-4 flex-1 min-h-0 flex flex-col">
+          <input
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            placeholder="Search vendors and aliases"
+            className="input flex-shrink-0"
+          />
+
+          <div className="flex-1 min-h-0 overflow-y-auto border border-primary-border rounded-lg divide-y divide-primary-border">
+            {candidates.length === 0 ? (
+              <p className="p-4 text-sm text-primary-secondary text-center">No other vendors match</p>
+            ) : candidates.map(vendor => (
+              <label key={vendor.id} className="flex items-start space-x-3 p-3 cursor-pointer hover:bg-primary-bg">
+                <input
+                  type="checkbox"
+                  checked={selected.has(vendor.id)}
+                  onChange={() => toggle(vendor.id)}
+                  className="mt-1"
+                />
+                <div className="min-w-0">
+                  <div className="text-sm font-medium text-primary-text">{vendor.canonical_name}</div>
+                  <div className="text-xs text-primary-secondary truncate">
+                    {vendor.expense_count} expense{vendor.expense_count === 1 ? '' : 's'}
+                    {vendor.aliases.length > 1 && ` · also ${vendor.aliases.filter(alias => alias !== vendor.canonical_name).join(', ')}`}
+                  </div>
+                </div>
+              </label>
+            ))}
+          </div>
+
+          <p className="text-xs text-primary-secondary flex-shrink-0">
+            Expenses keep their original provider names but are counted under {target.canonical_name} in statistics and budgets.
+          </p>
+
+          <div className="flex justify-end space-x-3 flex-shrink-0">
+            <button onClick={onClose} className="btn btn-secondary">
+              Cancel
+            </button>
+            <button
+              onClick={handleMerge}
+              disabled={isMerging || selected.size === 0}
+              className="btn btn-primary flex items-center space-x-2"
+            >
+              {isMerging && <Loader2 className="w-4 h-4 animate-spin" />}
+              <span>Merge {selected.size > 0 ? selected.size : ''}</span>
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default VendorMergeModal;
\ No newline at end of file
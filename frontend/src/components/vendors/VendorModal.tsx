@@ -0,0 +1,172 @@
+import React, { useState } from 'react';
+import { Loader2, Store, X } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { vendorsApi } from '@/services/api';
+import { Vendor, VendorRequest } from '@/types';
+
+// Keep in step with the categories offered by ExpenseForm
+const CATEGORIES = ['Software', 'Infrastructure', 'Security', 'Services', 'Marketing', 'Office', 'Travel', 'Other'];
+
+interface VendorModalProps {
+  vendor?: Vendor;
+  onClose: () => void;
+  onSaved: () => void;
+}
+
+const VendorModal: React.FC<VendorModalProps> = ({ vendor, onClose, onSaved }) => {
+  const [canonicalName, setCanonicalName] = useState(vendor?.canonical_name || '');
+  // The canonical name is always an alias server-side, so it is not listed here
+  const [aliases, setAliases] = useState(
+    (vendor?.aliases || []).filter(alias => alias !== vendor?.canonical_name).join('\n')
+  );
+  const [defaultCategory, setDefaultCategory] = useState(vendor?.default_category || '');
+  const [defaultSensitivity, setDefaultSensitivity] = useState(vendor?.default_sensitivity || '');
+  const [maskedAlias, setMaskedAlias] = useState(vendor?.masked_alias || '');
+  const [notes, setNotes] = useState(vendor?.notes || '');
+  const [isSaving, setIsSaving] = useState(false);
+
+  const handleSave = async () => {
+    const aliasList = aliases.split('\n').map(alias => alias.trim()).filter(Boolean);
+    // A renamed vendor keeps resolving under its previous name
+    if (vendor && canonicalName.trim() !== vendor.canonical_name) {
+      aliasList.push(vendor.canonical_name);
+    }
+
+    const data: VendorRequest = {
+      canonicalName: canonicalName.trim(),
+      aliases: aliasList,
+      defaultCategory: defaultCategory || null,
+      defaultSensitivity: (defaultSensitivity || null) as VendorRequest['defaultSensitivity'],
+      maskedAlias: maskedAlias.trim() || null,
+      notes: notes.trim() || null
+    };
+
+    try {
+      setIsSaving(true);
+      if (vendor) {
+        await vendorsApi.update(vendor.id, data);
+        toast.success('Vendor updated');
+      } else {
+        await vendorsApi.create(data);
+        toast.success('Vendor added');
+      }
+      onSaved();
+    } catch (error: any) {
+      console.error('Failed to save vendor:', error);
+      toast.error(error.response?.data?.error || 'Failed to save vendor');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="card max-w-lg w-full max-h-[90vh] overflow-y-auto">
+        {/* Header */}
+        <div className="flex items-center justify-between p-6 border-b border-primary-border">
+          <div className="flex items-center space-x-3">
+            <div className="p-2 rounded-lg bg-primary-button bg-opacity-20">
+              <Store className="w-5 h-5 text-primary-secondary" />
+            </div>
+            <h2 className="text-xl font-semibold text-primary-text">
+              {vendor ? 'Edit Vendor' : 'Add Vendor'}
+            </h2>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-2 rounded-lg hover:bg-primary-button hover:bg-opacity-20 transition-colors"
+          >
+            <X className="w-5 h-5 text-primary-secondary" />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-4">
+          <div>
+            <label className="block text-sm font-medium text-primary-text mb-2">Canonical name</label>
+            <input
+              value={canonicalName}
+              onChange={(e) => setCanonicalName(e.target.value)}
+              placeholder="e.g. Amazon Web Services"
+              className="input"
+            />
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-primary-text mb-2">Aliases</label>
+            <textarea
+              value={aliases}
+              onChange={(e) => setAliases(e.target.value)}
+              rows={3}
+              placeholder={'One per line, e.g.\nAWS\nAMAZON WEB SERVICES EMEA SARL'}
+              className="input"
+            />
+            <p className="text-xs text-primary-secondary mt-1">
+              Names are matched ignoring case, punctuation and suffixes such as Inc or Ltd.
+            </p>
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-primary-text mb-2">Default category</label>
+              <select value={defaultCategory} onChange={(e) => setDefaultCategory(e.target.value)} className="input">
+                <option value="">None</option>
+                {Array.from(new Set([...CATEGORIES, ...(vendor?.default_category ? [vendor.default_category] : [])])).map(option => (
+                  <option key={option} value={option}>{option}</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-primary-text mb-2">Default sensitivity</label>
+              <select value={defaultSensitivity} onChange={(e) => setDefaultSensitivity(e.target.value)} className="input">
+                <option value="">From sensitivity rules</option>
+                <option value="LOW">Low</option>
+                <option value="MEDIUM">Medium</option>
+                <option value="HIGH">High</option>
+              </select>
+            </div>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-primary-text mb-2">Masked alias</label>
+            <input
+              value={maskedAlias}
+              onChange={(e) => setMaskedAlias(e.target.value)}
+              placeholder="Shown instead of the name on high-sensitivity expenses"
+              className="input"
+            />
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-primary-text mb-2">Notes</label>
+            <textarea
+              value={notes}
+              onChange={(e) => setNotes(e.target.value)}
+              rows={2}
+              className="input"
+            />
+          </div>
+
+          <p className="text-xs text-primary-secondary">
+            Defaults fill in new expenses from this vendor; existing expenses keep their values.
+          </p>
+
+          <div className="flex justify-end space-x-3 pt-2">
+            <button onClick={onClose} className="btn btn-secondary">
+              Cancel
+            </button>
+            <button
+              onClick={handleSave}
+              disabled={isSaving || !canonicalName.trim()}
+              className="btn btn-primary flex items-center space-x-2"
+            >
+              {isSaving && <Loader2 className="w-4 h-4 animate-spin" />}
+              <span>{vendor ? 'Save' : 'Add Vendor'}</span>
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default VendorModal;
\ No newline at end of file
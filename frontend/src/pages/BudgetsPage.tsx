@@ -0,0 +1,309 @@
+import React, { useEffect, useState } from 'react';
+import {
+  AlertTriangle,
+  Edit,
+  Pause,
+  PiggyBank,
+  Play,
+  Plus,
+  Trash2,
+  TrendingUp
+} from 'lucide-react';
+import { clsx } from 'clsx';
+import { format } from 'date-fns';
+import toast from 'react-hot-toast';
+import { budgetsApi } from '@/services/api';
+import { Budget, BudgetStatus } from '@/types';
+import LoadingSpinner from '@/components/common/LoadingSpinner';
+import BudgetModal from '@/components/budgets/BudgetModal';
+
+const STATE_BADGES: Record<BudgetStatus['state'], { label: string; className: string }> = {
+  ok: { label: 'On track', className: 'bg-green-100 text-green-800' },
+  warning: { label: 'At risk', className: 'bg-yellow-100 text-yellow-800' },
+  over: { label: 'Over budget', className: 'bg-red-100 text-red-800' }
+};
+
+const BAR_COLORS: Record<BudgetStatus['state'], string> = {
+  ok: 'bg-green-600',
+  warning: 'bg-yellow-500',
+  over: 'bg-red-600'
+};
+
+const PERIOD_LABELS: Record<Budget['period'], string> = {
+  monthly: 'Monthly',
+  quarterly: 'Quarterly',
+  annual: 'Annual'
+};
+
+const formatAmount = (amount: number | string, currency: string) =>
+  new Intl.NumberFormat('en-US', {
+    style: 'currency',
+    currency,
+    minimumFractionDigits: 0,
+    maximumFractionDigits: 0,
+  }).format(Number(amount));
+
+const BudgetsPage: React.FC = () => {
+  const [budgets, setBudgets] = useState<Budget[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [editing, setEditing] = useState<Budget | null>(null);
+  const [showModal, setShowModal] = useState(false);
+
+  useEffect(() => {
+    fetchBudgets();
+  }, []);
+
+  const fetchBudgets = async () => {
+    try {
+      setBudgets(await budgetsApi.getAll());
+    } catch (error) {
+      console.error('Failed to fetch budgets:', error);
+      toast.error('Failed to load budgets');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const openModal = (budget?: Budget) => {
+    setEditing(budget || null);
+    setShowModal(true);
+  };
+
+  const handleSaved = () => {
+    setShowModal(false);
+    setEditing(null);
+    fetchBudgets();
+  };
+
+  const toggleActive = async (budget: Budget) => {
+    try {
+      await budgetsApi.update(budget.id, { isActive: !budget.is_active });
+      toast.success(budget.is_active ? 'Budget paused' : 'Budget resumed');
+      fetchBudgets();
+    } catch (error: any) {
+      toast.error(error.response?.data?.error || 'Failed to update budget');
+    }
+  };
+
+  const handleDelete = async (budget: Budget) => {
+    if (window.confirm(`Delete the budget "${budget.name}"? Alerts it already raised stay in your notifications.`)) {
+      try {
+        await budgetsApi.delete(budget.id);
+        toast.success('Budget deleted');
+        fetchBudgets();
+      } catch (error: any) {
+        toast.error(error.response?.data?.error || 'Failed to delete budget');
+      }
+    }
+  };
+
+  const active = budgets.filter(budget => budget.status);
+  const overCount = active.filter(budget => budget.status!.state === 'over').length;
+  const atRiskCount = active.filter(budget => budget.status!.state === 'warning').length;
+
+  const renderProgress = (budget: Budget, status: BudgetStatus) => (
+    <div className="min-w-[12rem]">
+      <div className="flex justify-between text-sm">
+        <span className="font-medium text-primary-text">{formatAmount(status.spent, budget.currency)}</span>
+        <span className="text-primary-secondary">of {formatAmount(budget.amount, budget.currency)}</span>
+      </div>
+      <div className="relative w-full bg-primary-border rounded-full h-2 mt-1">
+        <div
+          className={clsx('h-2 rounded-full transition-all', BAR_COLORS[status.state])}
+          style={{ width: `${Math.min(100, status.percentUsed)}%` }}
+        />
+        {/* Where the period is up to, to compare with how much is used */}
+        <div
+          className="absolute top-[-2px] w-0.5 h-3 bg-primary-text"
+          style={{ left: `${(status.daysElapsed / status.daysInPeriod) * 100}%` }}
+          title={`Day ${status.daysElapsed} of ${status.daysInPeriod}`}
+        />
+      </div>
+      <div className="text-xs text-primary-secondary mt-1">
+        {status.percentUsed}% used · {status.remaining >= 0
+          ? `${formatAmount(status.remaining, budget.currency)} left`
+          : `${formatAmount(-status.remaining, budget.currency)} over`}
+      </div>
+    </div>
+  );
+
+  return (
+    <div className="flex flex-col h-[calc(100vh-12rem)] overflow-hidden">
+      {/* Header */}
+      <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center mb-3 flex-shrink-0">
+        <div>
+          <h1 className="text-2xl font-bold text-primary-text">Budgets</h1>
+          <p className="text-primary-secondary mt-0.5">
+            Spending limits by category, provider or tag
+          </p>
+        </div>
+
+        <button
+          onClick={() => openModal()}
+          className="btn btn-primary flex items-center space-x-2 mt-4 sm:mt-0"
+        >
+          <Plus className="w-4 h-4" />
+          <span>New Budget</span>
+        </button>
+      </div>
+
+      {/* Totals */}
+      {!isLoading && budgets.length > 0 && (
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-3 mb-3 flex-shrink-0">
+          <div className="card p-4 flex items-center justify-between">
+            <div>
+              <p className="text-sm font-medium text-primary-secondary">Active Budgets</p>
+              <p className="text-xl font-bold text-primary-text mt-1">
+                {active.length}
+                <span className="text-sm font-normal text-primary-secondary"> of {budgets.length}</span>
+              </p>
+            </div>
+            <PiggyBank className="w-6 h-6 text-primary-secondary" />
+          </div>
+          <div className="card p-4 flex items-center justify-between">
+            <div>
+              <p className="text-sm font-medium text-primary-secondary">At Risk</p>
+              <p className={clsx('text-xl font-bold mt-1', atRiskCount > 0 ? 'text-yellow-700' : 'text-primary-text')}>
+                {atRiskCount}
+              </p>
+            </div>
+            <TrendingUp className="w-6 h-6 text-primary-secondary" />
+          </div>
+          <div className="card p-4 flex items-center justify-between">
+            <div>
+              <p className="text-sm font-medium text-primary-secondary">Over Budget</p>
+              <p className={clsx('text-xl font-bold mt-1', overCount > 0 ? 'text-red-700' : 'text-primary-text')}>
+                {overCount}
+              </p>
+            </div>
+            <AlertTriangle className="w-6 h-6 text-primary-secondary" />
+          </div>
+        </div>
+      )}
+
+      <div className="card overflow-hidden flex-1 min-h-0 flex flex-col">
+        {isLoading ? (
+          <div className="flex-1 flex items-center justify-center">
+            <LoadingSpinner size="large" />
+          </div>
+        ) : budgets.length === 0 ? (
+          <div className="flex-1 flex items-center justify-center flex-col">
+            <PiggyBank className="w-12 h-12 text-primary-secondary mx-auto mb-4" />
+            <p className="text-primary-secondary">
+              No budgets yet. Create one to track spending against a limit.
+            </p>
+          </div>
+        ) : (
+          <div className="flex-1 min-h-0 overflow-auto">
+            <table className="table w-full">
+              <thead className="bg-primary-bg sticky top-0 z-20">
+                <tr>
+                  <th className="bg-primary-bg">Budget</th>
+                  <th className="bg-primary-bg">Period</th>
+                  <th className="bg-primary-bg">Spent</th>
+                  <th className="bg-primary-bg">Projected</th>
+                  <th className="bg-primary-bg">Status</th>
+                  <th className="bg-primary-bg">Actions</th>
+                </tr>
+              </thead>
+              <tbody>
+                {budgets.map(budget => {
+                  const status = budget.status;
+                  return (
+                    <tr key={budget.id} className={clsx(!status && 'opacity-60')}>
+                      <td>
+                        <div className="font-medium text-primary-text">{budget.name}</div>
+                        <div className="text-xs text-primary-secondary">
+                          {budget.scope_type === 'category' ? 'Category' : budget.scope_type === 'provider' ? 'Provider' : 'Tag'}: {budget.scope_value}
+                        </div>
+                      </td>
+                      <td className="whitespace-nowrap">
+                        <div>{PERIOD_LABELS[budget.period]}</div>
+                        {status && (
+                          <div className="text-xs text-primary-secondary">
+                            {format(new Date(`${status.periodStart}T00:00:00`), 'MMM d')} - {format(new Date(`${status.periodEnd}T00:00:00`), 'MMM d, yyyy')}
+                          </div>
+                        )}
+                      </td>
+                      <td>
+                        {status ? renderProgress(budget, status) : (
+                          <span className="text-sm text-primary-secondary">{formatAmount(budget.amount, budget.currency)} limit</span>
+                        )}
+                      </td>
+                      <td className="whitespace-nowrap">
+                        {status && (
+                          <>
+                            <div className={clsx(status.projectedPercent >= 100 ? 'text-red-700 font-medium' : 'text-primary-text')}>
+                              {formatAmount(status.projected, budget.currency)}
+                            </div>
+                            <div className="text-xs text-primary-secondary">{status.projectedPercent}% at period end</div>
+                          </>
+                        )}
+                      </td>
+                      <td>
+                        {status ? (
+                          <>
+                            <span className={clsx('inline-flex items-center px-2 py-1 rounded-full text-xs font-medium', STATE_BADGES[status.state].className)}>
+                              {STATE_BADGES[status.state].label}
+                            </span>
+                            {status.unconverted > 0 && (
+                              <div
+                                className="text-xs text-yellow-700 mt-1"
+                                title={`No exchange rate to ${budget.currency} for their dates`}
+                              >
+                                {status.unconverted} not converted
+                              </div>
+                            )}
+                          </>
+                        ) : (
+                          <span className="inline-flex items-center px-2 py-1 rounded-full text-xs font-medium bg-gray-100 text-gray-800">
+                            Paused
+                          </span>
+                        )}
+                      </td>
+                      <td>
+                        <div className="flex items-center space-x-1">
+                          <button
+                            onClick={() => openModal(budget)}
+                            className="p-1 text-primary-secondary hover:text-primary-text rounded"
+                            title="Edit budget"
+                          >
+                            <Edit className="w-4 h-4" />
+                          </button>
+                          <button
+                            onClick={() => toggleActive(budget)}
+                            className="p-1 text-primary-secondary hover:text-primary-text rounded"
+                            title={budget.is_active ? 'Pause budget' : 'Resume budget'}
+                          >
+                            {budget.is_active ? <Pause className="w-4 h-4" /> : <Play className="w-4 h-4" />}
+                          </button>
+                          <button
+                            onClick={() => handleDelete(budget)}
+                            className="p-1 rounded hover:bg-red-100 transition-colors text-red-600 hover:text-red-800"
+                            title="Delete budget"
+                          >
+                            <Trash2 className="w-4 h-4" />
+                          </button>
+                        </div>
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+
+      {showModal && (
+        <BudgetModal
+          budget={editing || undefined}
+          onClose={() => setShowModal(false)}
+          onSaved={handleSaved}
+        />
+      )}
+    </div>
+  );
+};
+
+export default BudgetsPage;
\ No newline at end of file
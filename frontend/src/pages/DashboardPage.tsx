@@ -6,40 +6,45 @@ import {
   Activity,
   AlertTriangle,
   BarChart3,
+  Coins,
+  Inbox,
   PieChart
 } from 'lucide-react';
+import { Link } from 'react-router-dom';
 import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer } from 'recharts';
 import { dashboardApi } from '@/services/api';
 import { DashboardStats } from '@/types';
 import LoadingSpinner from '@/components/common/LoadingSpinner';
+import FxRatesModal from '@/components/expenses/FxRatesModal';
 import { clsx } from 'clsx';
 
 const DashboardPage: React.FC = () => {
   const [dashboardData, setDashboardData] = useState<DashboardStats | null>(null);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  const [showFxRates, setShowFxRates] = useState(false);
 
-  useEffect(() => {
-    const fetchDashboardData = async () => {
-      try {
-        setIsLoading(true);
-        const data = await dashboardApi.getOverview();
-        setDashboardData(data);
-      } catch (err) {
-        setError('Failed to load dashboard data');
-        console.error('Dashboard error:', err);
-      } finally {
-        setIsLoading(false);
-      }
-    };
+  const fetchDashboardData = async () => {
+    try {
+      const data = await dashboardApi.getOverview();
+      setDashboardData(data);
+    } catch (err) {
+      setError('Failed to load dashboard data');
+      console.error('Dashboard error:', err);
+    } finally {
+      setIsLoading(false);
+    }
+  };
 
+  useEffect(() => {
     fetchDashboardData();
   }, []);
 
-  const formatCurrency = (amount: number) => {
+  const formatCurrency = (amount: number, notation: 'standard' | 'compact' = 'standard') => {
     return new Intl.NumberFormat('en-US', {
       style: 'currency',
-      currency: 'USD',
+      currency: dashboardData?.reportingCurrency || 'USD',
+      notation,
       minimumFractionDigits: 0,
       maximumFractionDigits: 0,
     }).format(amount);
@@ -84,12 +89,43 @@ const DashboardPage: React.FC = () => {
         <div>
           <h1 className="text-2xl font-bold text-primary-text">Dashboard</h1>
           <p className="text-primary-secondary mt-0.5">
-            Expenses overview
+            Expenses overview in {dashboardData.reportingCurrency}
           </p>
         </div>
-        
+        <button
+          onClick={() => setShowFxRates(true)}
+          className="btn btn-secondary flex items-center space-x-2 mt-4 sm:mt-0"
+        >
+          <Coins className="w-4 h-4" />
+          <span>Exchange Rates</span>
+        </button>
       </div>
 
+      {/* Drafts are not counted below until approved */}
+      {dashboardData.draftCount > 0 && (
+        <Link
+          to="/inbox"
+          className="card p-4 flex items-center space-x-3 border border-yellow-300 bg-yellow-50 hover:bg-yellow-100 transition-colors"
+        >
+          <Inbox className="w-5 h-5 text-yellow-700" />
+          <span className="text-sm text-yellow-800">
+            {dashboardData.draftCount} draft expense{dashboardData.draftCount === 1 ? '' : 's'} awaiting review and not included in these totals
+          </span>
+        </Link>
+      )}
+
+      {/* Expenses in other currencies need a rate for their date to be counted */}
+      {dashboardData.unconvertedCount > 0 && (
+        <button
+          onClick={() => setShowFxRates(true)}
+          className="card p-4 w-full flex items-center space-x-3 border border-yellow-300 bg-yellow-50 hover:bg-yellow-100 transition-colors text-left"
+        >
+          <AlertTriangle className="w-5 h-5 text-yellow-700" />
+          <span className="text-sm text-yellow-800">
+            {dashboardData.unconvertedCount} expense{dashboardData.unconvertedCount === 1 ? '' : 's'} could not be converted to {dashboardData.reportingCurrency} and {dashboardData.unconvertedCount === 1 ? 'is' : 'are'} not included in these totals
+          </span>
+        </button>
+      )}
 
       {/* Key Metrics Grid */}
       <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-3 gap-6">
@@ -195,7 +231,7 @@ const DashboardPage: React.FC = () => {
                 <YAxis 
                   stroke="#97914e"
                   fontSize={12}
-                  tickFormatter={(value) => `$${value}k`}
+                  tickFormatter={(value) => formatCurrency(value, 'compact')}
                 />
                 <Tooltip 
                   formatter={(value: number) => [
@@ -256,6 +292,12 @@ const DashboardPage: React.FC = () => {
         </div>
       </div>
 
+      {showFxRates && (
+        <FxRatesModal
+          onClose={() => setShowFxRates(false)}
+          onImported={fetchDashboardData}
+        />
+      )}
     </div>
   );
 };
@@ -1,56 +1,176 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
+import { useSearchParams } from 'react-router-dom';
 import { 
   Filter, 
   Upload,
+  Files,
   Calendar,
   DollarSign,
   FileText,
   Check,
   X,
-  Trash2
+  Trash2,
+  ArrowUp,
+  ArrowDown,
+  Search,
+  Download,
+  Landmark
 } from 'lucide-react';
-import { expensesApi } from '@/services/api';
-import { Expense } from '@/types';
+import { expensesApi, uploadApi } from '@/services/api';
+import { Expense, ExpensePage, ExpenseSortField } from '@/types';
 import LoadingSpinner from '@/components/common/LoadingSpinner';
 import ExpenseForm from '@/components/expenses/ExpenseForm';
 import UploadModal from '@/components/expenses/UploadModal';
+import BatchUploadModal from '@/components/expenses/BatchUploadModal';
+import ExportModal from '@/components/expenses/ExportModal';
+import StatementImportModal from '@/components/expenses/StatementImportModal';
 import { clsx } from 'clsx';
 import { format } from 'date-fns';
 
+const PAGE_SIZE = 50;
+
+// Invoices entered by hand or ingested from a mailbox or drop folder can be corrected inline
+const EDITABLE_SOURCES: Expense['source_type'][] = ['manual', 'email', 'folder'];
+
 const ExpensesPage: React.FC = () => {
   const [expenses, setExpenses] = useState<Expense[]>([]);
   const [isLoading, setIsLoading] = useState(true);
+  const [isLoadingMore, setIsLoadingMore] = useState(false);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [total, setTotal] = useState(0);
+  const [totals, setTotals] = useState<ExpensePage['totals']>([]);
+  const [reportingTotal, setReportingTotal] = useState<ExpensePage['reportingTotal'] | null>(null);
+  const [sort, setSort] = useState<{ field: ExpenseSortField; order: 'asc' | 'desc' }>({ field: 'date', order: 'desc' });
+  // Responses for superseded filters/sorts are dropped
+  const requestId = useRef(0);
+  const highlightHandled = useRef(false);
   const [selectedExpense, setSelectedExpense] = useState<Expense | null>(null);
   const [showExpenseForm, setShowExpenseForm] = useState(false);
   const [showUploadModal, setShowUploadModal] = useState(false);
+  const [showBatchUploadModal, setShowBatchUploadModal] = useState(false);
+  const [showExportModal, setShowExportModal] = useState(false);
+  const [showStatementImportModal, setShowStatementImportModal] = useState(false);
   const [editingExpense, setEditingExpense] = useState<number | null>(null);
   const [editingField, setEditingField] = useState<string | null>(null);
   const [editingValue, setEditingValue] = useState<string>('');
+  const [searchParams] = useSearchParams();
+  const highlightedId = parseInt(searchParams.get('highlight') || '', 10);
   const [filters, setFilters] = useState({
     startDate: '',
     endDate: '',
     provider: '',
     category: '',
+    q: '',
   });
+  const [searchInput, setSearchInput] = useState('');
 
   useEffect(() => {
     fetchExpenses();
-  }, [filters]);
+  }, [filters, sort]);
+
+  // Full-text search runs once typing pauses; results come best match first
+  useEffect(() => {
+    const timer = setTimeout(() => {
+      const q = searchInput.trim();
+      if (q === filters.q) return;
+      setFilters(prev => ({ ...prev, q }));
+      setSort(prev => q
+        ? { field: 'relevance', order: 'desc' }
+        : prev.field === 'relevance' ? { field: 'date', order: 'desc' } : prev);
+    }, 300);
+    return () => clearTimeout(timer);
+  }, [searchInput]);
+
+  useEffect(() => {
+    highlightHandled.current = false;
+  }, [highlightedId]);
+
+  // Links to a specific expense (e.g. from duplicate warnings) scroll it into view;
+  // one that isn't on the loaded pages is fetched and pinned to the top
+  useEffect(() => {
+    if (isLoading || !highlightedId || highlightHandled.current) return;
+    highlightHandled.current = true;
+
+    if (expenses.some(expense => expense.id === highlightedId)) {
+      document.getElementById(`expense-${highlightedId}`)?.scrollIntoView({ block: 'center' });
+      return;
+    }
+    expensesApi.getById(highlightedId)
+      .then(expense => setExpenses(prev => [expense, ...prev.filter(e => e.id !== expense.id)]))
+      .catch(error => console.error('Failed to fetch highlighted expense:', error));
+  }, [isLoading, highlightedId, expenses]);
 
   const fetchExpenses = async () => {
+    const id = ++requestId.current;
     try {
       setIsLoading(true);
-      const data = await expensesApi.getAll({
-        ...filters
+      const page = await expensesApi.getPage(filters, {
+        limit: PAGE_SIZE,
+        sort: sort.field,
+        order: sort.order
       });
-      setExpenses(data);
+      if (id !== requestId.current) return;
+      setExpenses(page.items);
+      setNextCursor(page.nextCursor);
+      setTotal(page.total);
+      setTotals(page.totals);
+      setReportingTotal(page.reportingTotal);
     } catch (error) {
       console.error('Failed to fetch expenses:', error);
     } finally {
-      setIsLoading(false);
+      if (id === requestId.current) setIsLoading(false);
+    }
+  };
+
+  const loadMore = async () => {
+    if (!nextCursor || isLoadingMore) return;
+    const id = requestId.current;
+    try {
+      setIsLoadingMore(true);
+      const page = await expensesApi.getPage(filters, {
+        limit: PAGE_SIZE,
+        cursor: nextCursor,
+        sort: sort.field,
+        order: sort.order
+      });
+      if (id !== requestId.current) return;
+      // A pinned highlighted expense may turn up again on a later page
+      setExpenses(prev => [...prev, ...page.items.filter(item => !prev.some(e => e.id === item.id))]);
+      setNextCursor(page.nextCursor);
+    } catch (error) {
+      console.error('Failed to load more expenses:', error);
+    } finally {
+      setIsLoadingMore(false);
+    }
+  };
+
+  const handleScroll = (e: React.UIEvent<HTMLDivElement>) => {
+    const { scrollTop, clientHeight, scrollHeight } = e.currentTarget;
+    if (scrollHeight - scrollTop - clientHeight < 200) {
+      loadMore();
     }
   };
 
+  const toggleSort = (field: ExpenseSortField) => {
+    setSort(prev => prev.field === field
+      ? { field, order: prev.order === 'asc' ? 'desc' : 'asc' }
+      : { field, order: field === 'date' || field === 'amount' || field === 'due_date' ? 'desc' : 'asc' });
+  };
+
+  const renderSortHeader = (field: ExpenseSortField, label: string, width: string, title?: string) => (
+    <th className="bg-primary-bg" style={{ width }} title={title}>
+      <button
+        onClick={() => toggleSort(field)}
+        className="inline-flex items-center space-x-1 hover:text-primary-text"
+      >
+        <span>{label}</span>
+        {sort.field === field && (sort.order === 'asc'
+          ? <ArrowUp className="w-3 h-3" />
+          : <ArrowDown className="w-3 h-3" />)}
+      </button>
+    </th>
+  );
+
 
   const startEditing = (expenseId: number, field: string, currentValue: string) => {
     setEditingExpense(expenseId);
@@ -118,6 +238,19 @@ const ExpensesPage: React.FC = () => {
     }
   };
 
+  const openInvoice = async (fileId: number) => {
+    try {
+      const blob = await uploadApi.downloadFile(fileId);
+      const url = URL.createObjectURL(blob);
+      window.open(url, '_blank');
+      // Give the new tab time to load before releasing the decrypted copy
+      setTimeout(() => URL.revokeObjectURL(url), 60000);
+    } catch (error) {
+      console.error('Failed to open invoice:', error);
+      alert('Failed to open invoice');
+    }
+  };
+
   const formatCurrency = (amount: number, expenseId: number, masked: boolean = false) => {
     if (masked) {
       return '$***,***';
@@ -139,6 +272,14 @@ const ExpensesPage: React.FC = () => {
   };
 
 
+  // Snippets mark hits with <mark>; everything else is rendered as plain text
+  const renderSnippet = (snippet: string) =>
+    snippet.split(/(<mark>.*?<\/mark>)/g).map((part, index) =>
+      part.startsWith('<mark>') && part.endsWith('</mark>')
+        ? <mark key={index} className="bg-yellow-200 rounded px-0.5">{part.slice(6, -7)}</mark>
+        : <span key={index}>{part}</span>
+    );
+
   const getProviderName = (expense: Expense) => {
     if (expense.sensitivity_level === 'HIGH' && expense.provider_masked_name) {
       return expense.provider_masked_name;
@@ -158,6 +299,27 @@ const ExpensesPage: React.FC = () => {
         </div>
         
         <div className="flex items-center space-x-3 mt-4 sm:mt-0">
+          <button
+            onClick={() => setShowExportModal(true)}
+            className="btn btn-secondary flex items-center space-x-2"
+          >
+            <Download className="w-4 h-4" />
+            <span>Export</span>
+          </button>
+          <button
+            onClick={() => setShowStatementImportModal(true)}
+            className="btn btn-secondary flex items-center space-x-2"
+          >
+            <Landmark className="w-4 h-4" />
+            <span>Import Statement</span>
+          </button>
+          <button
+            onClick={() => setShowBatchUploadModal(true)}
+            className="btn btn-secondary flex items-center space-x-2"
+          >
+            <Files className="w-4 h-4" />
+            <span>Batch Upload</span>
+          </button>
           <button
             onClick={() => setShowUploadModal(true)}
             className="btn btn-primary flex items-center space-x-2"
@@ -175,11 +337,50 @@ const ExpensesPage: React.FC = () => {
             <Filter className="w-4 h-4 text-primary-secondary" />
             <h2 className="text-sm font-semibold text-primary-text">Filters</h2>
           </div>
-          <div className="text-sm text-primary-secondary">
-            {expenses.length} records
+          <div className="text-sm text-primary-secondary text-right">
+            <div>{expenses.length < total ? `${expenses.length} of ${total}` : total} records</div>
+            {totals.length > 0 && (
+              <div className="text-xs">
+                {totals.map(t => new Intl.NumberFormat('en-US', {
+                  style: 'currency',
+                  currency: t.currency,
+                  minimumFractionDigits: 2,
+                }).format(t.amount)).join(' · ')}
+              </div>
+            )}
+            {/* Only worth showing once more than the reporting currency is involved */}
+            {reportingTotal && totals.some(t => t.currency !== reportingTotal.currency) && (
+              <div className="text-xs">
+                ≈ {new Intl.NumberFormat('en-US', {
+                  style: 'currency',
+                  currency: reportingTotal.currency,
+                  minimumFractionDigits: 2,
+                }).format(reportingTotal.amount)}
+                {reportingTotal.unconverted > 0 && ` (${reportingTotal.unconverted} without a rate not included)`}
+              </div>
+            )}
           </div>
         </div>
         
+        <div className="relative mt-3">
+          <Search className="w-4 h-4 text-primary-secondary absolute left-3 top-1/2 -translate-y-1/2" />
+          <input
+            type="search"
+            placeholder="Search descriptions, tags, categories and invoice text..."
+            value={searchInput}
+            onChange={(e) => setSearchInput(e.target.value)}
+            className="input py-2 pl-9 text-sm w-full"
+          />
+          {filters.q && sort.field !== 'relevance' && (
+            <button
+              onClick={() => setSort({ field: 'relevance', order: 'desc' })}
+              className="absolute right-3 top-1/2 -translate-y-1/2 text-xs text-primary-secondary hover:text-primary-text"
+            >
+              Sort by best match
+            </button>
+          )}
+        </div>
+
         <div className="grid grid-cols-1 md:grid-cols-4 gap-3 mt-3">
           <input
             type="date"
@@ -237,27 +438,31 @@ const ExpensesPage: React.FC = () => {
             </p>
           </div>
         ) : (
-          <div className="flex-1 min-h-0 overflow-auto">
+          <div className="flex-1 min-h-0 overflow-auto" onScroll={handleScroll}>
             <div className="h-full overflow-x-auto">
               <table className="table w-full h-full" style={{ tableLayout: 'fixed' }}>
               <thead className="bg-primary-bg sticky top-0 z-20">
                 <tr>
-                  <th className="bg-primary-bg" style={{ width: '8%' }}>Date</th>
-                  <th className="bg-primary-bg" style={{ width: '12%' }}>Provider</th>
-                  <th className="bg-primary-bg" style={{ width: '6%' }}>Source</th>
-                  <th className="bg-primary-bg" style={{ width: '20%' }}>Description</th>
-                  <th className="bg-primary-bg" style={{ width: '8%' }}>Amount</th>
-                  <th className="bg-primary-bg" style={{ width: '7%' }}>Sensitivity</th>
-                  <th className="bg-primary-bg" style={{ width: '9%' }}>Category</th>
+                  {renderSortHeader('date', 'Date', '8%')}
+                  {renderSortHeader('provider_name', 'Provider', '12%')}
+                  {renderSortHeader('source_type', 'Source', '6%')}
+                  {renderSortHeader('description', 'Description', '20%')}
+                  {renderSortHeader('amount', 'Amount', '8%')}
+                  {renderSortHeader('sensitivity_level', 'Sensitivity', '7%')}
+                  {renderSortHeader('category', 'Category', '9%')}
                   <th className="bg-primary-bg" style={{ width: '10%' }}>Tags</th>
                   <th className="bg-primary-bg" style={{ width: '5%' }} title="Shows if expense has uploaded invoice file">Invoice</th>
-                  <th className="bg-primary-bg" style={{ width: '8%' }} title="Due date for invoices (if applicable)">Due Date</th>
+                  {renderSortHeader('due_date', 'Due Date', '8%', 'Due date for invoices (if applicable)')}
                   <th className="bg-primary-bg" style={{ width: '7%' }} title="Delete expense">Actions</th>
                 </tr>
               </thead>
               <tbody>
                 {expenses.map((expense) => (
-                  <tr key={expense.id}>
+                  <tr
+                    key={expense.id}
+                    id={`expense-${expense.id}`}
+                    className={clsx(expense.id === highlightedId && 'bg-yellow-50')}
+                  >
                     <td className="whitespace-nowrap">
                       <div className="flex items-center justify-center space-x-2">
                         <Calendar className="w-4 h-4 text-primary-secondary" />
@@ -268,7 +473,7 @@ const ExpensesPage: React.FC = () => {
                     </td>
                     
                     <td>
-                      {editingExpense === expense.id && editingField === 'provider_name' && expense.source_type === 'manual' ? (
+                      {editingExpense === expense.id && editingField === 'provider_name' && EDITABLE_SOURCES.includes(expense.source_type) ? (
                         <div className="flex items-center justify-center space-x-2">
                           <input
                             type="text"
@@ -302,14 +507,14 @@ const ExpensesPage: React.FC = () => {
                           <span 
                             className={clsx(
                               'font-medium p-1 rounded',
-                              expense.source_type === 'manual' && 'cursor-pointer hover:bg-gray-100'
+                              EDITABLE_SOURCES.includes(expense.source_type) && 'cursor-pointer hover:bg-gray-100'
                             )}
                             onClick={() => {
-                              if (expense.source_type === 'manual') {
+                              if (EDITABLE_SOURCES.includes(expense.source_type)) {
                                 startEditing(expense.id, 'provider_name', expense.provider_name);
                               }
                             }}
-                            title={expense.source_type === 'manual' ? 'Click to edit provider name' : 'API-sourced provider (read-only)'}
+                            title={EDITABLE_SOURCES.includes(expense.source_type) ? 'Click to edit provider name' : 'API-sourced provider (read-only)'}
                           >
                             {getProviderName(expense)}
                           </span>
@@ -321,14 +526,38 @@ const ExpensesPage: React.FC = () => {
                       <span className={`inline-flex items-center px-2 py-1 rounded-full text-xs font-medium ${
                         expense.source_type === 'api' ? 'bg-blue-100 text-blue-800' :
                         expense.source_type === 'manual' ? 'bg-green-100 text-green-800' :
+                        expense.source_type === 'import' ? 'bg-orange-100 text-orange-800' :
+                        expense.source_type === 'email' || expense.source_type === 'folder' ? 'bg-teal-100 text-teal-800' :
                         expense.file_id ? 'bg-purple-100 text-purple-800' :
                         'bg-gray-100 text-gray-800'
                       }`}>
                         {expense.source_type === 'api' ? 'API' :
                          expense.source_type === 'manual' && expense.file_id ? 'Matched' :
                          expense.source_type === 'manual' ? 'Manual' :
+                         expense.source_type === 'import' ? 'Import' :
+                         expense.source_type === 'email' ? 'Email' :
+                         expense.source_type === 'folder' ? 'Drop folder' :
                          'Unknown'}
                       </span>
+                      {expense.status === 'draft' && (
+                        <span
+                          className="ml-1 inline-flex items-center px-2 py-1 rounded-full text-xs font-medium bg-yellow-100 text-yellow-800"
+                          title="Created from an ingested invoice; awaiting review"
+                        >
+                          Draft
+                        </span>
+                      )}
+                      {expense.source_type !== 'import' && expense.payment_status && expense.payment_status !== 'unpaid' && (
+                        <span
+                          className={clsx(
+                            'ml-1 inline-flex items-center px-2 py-1 rounded-full text-xs font-medium',
+                            expense.payment_status === 'paid' ? 'bg-green-100 text-green-800' : 'bg-yellow-100 text-yellow-800'
+                          )}
+                          title={`${Number(expense.paid_amount).toFixed(2)} ${expense.currency} matched to bank transactions`}
+                        >
+                          {expense.payment_status === 'paid' ? 'Paid' : 'Partial'}
+                        </span>
+                      )}
                     </td>
                     
                     <td>
@@ -369,10 +598,15 @@ const ExpensesPage: React.FC = () => {
                           {expense.description || '-'}
                         </div>
                       )}
+                      {expense.search_snippet?.includes('<mark>') && (
+                        <div className="text-xs text-primary-secondary mt-1 max-w-xs mx-auto break-words">
+                          {renderSnippet(expense.search_snippet)}
+                        </div>
+                      )}
                     </td>
                     
                     <td className="whitespace-nowrap">
-                      {editingExpense === expense.id && editingField === 'amount' && (expense.source_type === 'manual' || expense.file_id) ? (
+                      {editingExpense === expense.id && editingField === 'amount' && (EDITABLE_SOURCES.includes(expense.source_type) || expense.file_id) ? (
                         <div className="flex items-center justify-center space-x-2">
                           <input
                             type="number"
@@ -405,16 +639,16 @@ const ExpensesPage: React.FC = () => {
                         <span 
                           className={clsx(
                             'font-medium p-1 rounded',
-                            (expense.source_type === 'manual' || expense.file_id) && 'cursor-pointer hover:bg-gray-100'
+                            (EDITABLE_SOURCES.includes(expense.source_type) || expense.file_id) && 'cursor-pointer hover:bg-gray-100'
                           )}
                           onClick={() => {
                             // Allow editing for manual expenses or expenses with invoices (matched)
-                            if (expense.source_type === 'manual' || expense.file_id) {
+                            if (EDITABLE_SOURCES.includes(expense.source_type) || expense.file_id) {
                               startEditing(expense.id, 'amount', expense.amount.toString());
                             }
                           }}
                           title={
-                            (expense.source_type === 'manual' || expense.file_id) 
+                            (EDITABLE_SOURCES.includes(expense.source_type) || expense.file_id) 
                               ? 'Click to edit amount' 
                               : 'API-sourced amount (read-only)'
                           }
@@ -429,7 +663,7 @@ const ExpensesPage: React.FC = () => {
                     </td>
                     
                     <td className="whitespace-nowrap">
-                      {editingExpense === expense.id && editingField === 'sensitivity_level' && expense.source_type === 'manual' ? (
+                      {editingExpense === expense.id && editingField === 'sensitivity_level' && EDITABLE_SOURCES.includes(expense.source_type) ? (
                         <div className="flex items-center justify-center space-x-2">
                           <select
                             value={editingValue}
@@ -469,11 +703,11 @@ const ExpensesPage: React.FC = () => {
                               expense.source_type !== 'manual' && 'cursor-not-allowed opacity-60'
                             )}
                             onClick={() => {
-                              if (expense.source_type === 'manual') {
+                              if (EDITABLE_SOURCES.includes(expense.source_type)) {
                                 startEditing(expense.id, 'sensitivity_level', expense.sensitivity_level);
                               }
                             }}
-                            title={expense.source_type === 'manual' ? 'Click to edit sensitivity level' : 'API-sourced sensitivity (read-only)'}
+                            title={EDITABLE_SOURCES.includes(expense.source_type) ? 'Click to edit sensitivity level' : 'API-sourced sensitivity (read-only)'}
                           >
                             {expense.sensitivity_level}
                           </span>
@@ -482,7 +716,7 @@ const ExpensesPage: React.FC = () => {
                     </td>
                     
                     <td className="whitespace-nowrap">
-                      {editingExpense === expense.id && editingField === 'category' && (expense.source_type === 'manual' || expense.file_id) ? (
+                      {editingExpense === expense.id && editingField === 'category' && (EDITABLE_SOURCES.includes(expense.source_type) || expense.file_id) ? (
                         <div className="flex items-center justify-center space-x-2">
                           <select
                             value={editingValue}
@@ -523,14 +757,14 @@ const ExpensesPage: React.FC = () => {
                         <span 
                           className={clsx(
                             'text-sm p-1 rounded',
-                            (expense.source_type === 'manual' || expense.file_id) && 'cursor-pointer hover:bg-gray-100'
+                            (EDITABLE_SOURCES.includes(expense.source_type) || expense.file_id) && 'cursor-pointer hover:bg-gray-100'
                           )}
                           onClick={() => {
-                            if (expense.source_type === 'manual' || expense.file_id) {
+                            if (EDITABLE_SOURCES.includes(expense.source_type) || expense.file_id) {
                               startEditing(expense.id, 'category', expense.category || '');
                             }
                           }}
-                          title={(expense.source_type === 'manual' || expense.file_id) ? 'Click to edit category' : 'API-sourced category (read-only)'}
+                          title={(EDITABLE_SOURCES.includes(expense.source_type) || expense.file_id) ? 'Click to edit category' : 'API-sourced category (read-only)'}
                         >
                           {expense.category || '-'}
                         </span>
@@ -597,9 +831,9 @@ const ExpensesPage: React.FC = () => {
                     
                     <td className="whitespace-nowrap">
                       <div className="flex items-center justify-center">
-                        {expense.file_path && expense.file_retention_policy === 'KEEP' ? (
+                        {expense.file_id && expense.file_retention_policy === 'KEEP' ? (
                           <button
-                            onClick={() => window.open(`/api/expenses/${expense.id}/invoice`, '_blank')}
+                            onClick={() => openInvoice(expense.file_id!)}
                             className="p-1 rounded hover:bg-primary-button hover:bg-opacity-20 transition-colors"
                             title="View invoice"
                           >
@@ -612,7 +846,7 @@ const ExpensesPage: React.FC = () => {
                     </td>
                     
                     <td className="whitespace-nowrap">
-                      {editingExpense === expense.id && editingField === 'due_date' && expense.source_type === 'manual' ? (
+                      {editingExpense === expense.id && editingField === 'due_date' && EDITABLE_SOURCES.includes(expense.source_type) ? (
                         <div className="flex items-center justify-center space-x-2">
                           <input
                             type="date"
@@ -642,9 +876,9 @@ const ExpensesPage: React.FC = () => {
                         </div>
                       ) : (
                         <div 
-                          className={expense.source_type === 'manual' ? 'cursor-pointer hover:bg-gray-100 p-1 rounded' : ''}
+                          className={EDITABLE_SOURCES.includes(expense.source_type) ? 'cursor-pointer hover:bg-gray-100 p-1 rounded' : ''}
                           onClick={() => {
-                            if (expense.source_type === 'manual') {
+                            if (EDITABLE_SOURCES.includes(expense.source_type)) {
                               // Format date for HTML date input (YYYY-MM-DD)
                               const formattedDate = expense.due_date 
                                 ? new Date(expense.due_date).toISOString().split('T')[0] 
@@ -652,7 +886,7 @@ const ExpensesPage: React.FC = () => {
                               startEditing(expense.id, 'due_date', formattedDate);
                             }
                           }}
-                          title={expense.source_type === 'manual' ? 'Click to edit due date' : 'API-sourced due date (read-only)'}
+                          title={EDITABLE_SOURCES.includes(expense.source_type) ? 'Click to edit due date' : 'API-sourced due date (read-only)'}
                         >
                           {expense.due_date ? (
                             <div className="flex items-center justify-center space-x-2">
@@ -683,6 +917,19 @@ const ExpensesPage: React.FC = () => {
                     </td>
                   </tr>
                 ))}
+                {nextCursor && (
+                  <tr>
+                    <td colSpan={11} className="text-center">
+                      {isLoadingMore ? (
+                        <LoadingSpinner size="small" />
+                      ) : (
+                        <button onClick={loadMore} className="btn btn-secondary text-sm">
+                          Load more
+                        </button>
+                      )}
+                    </td>
+                  </tr>
+                )}
               </tbody>
             </table>
             </div>
@@ -715,6 +962,33 @@ const ExpensesPage: React.FC = () => {
           }}
         />
       )}
+
+      {showExportModal && (
+        <ExportModal
+          filters={filters}
+          onClose={() => setShowExportModal(false)}
+        />
+      )}
+
+      {showStatementImportModal && (
+        <StatementImportModal
+          onClose={() => setShowStatementImportModal(false)}
+          onImport={() => {
+            fetchExpenses();
+            setShowStatementImportModal(false);
+          }}
+        />
+      )}
+
+      {showBatchUploadModal && (
+        <BatchUploadModal
+          onClose={() => setShowBatchUploadModal(false)}
+          onUpload={() => {
+            fetchExpenses();
+            setShowBatchUploadModal(false);
+          }}
+        />
+      )}
     </div>
   );
 };
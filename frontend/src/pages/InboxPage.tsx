@@ -0,0 +1,365 @@
+import React, { useState, useEffect } from 'react';
+import {
+  AlertTriangle,
+  Check,
+  FileText,
+  Inbox,
+  Loader2,
+  Trash2
+} from 'lucide-react';
+import { expensesApi, getDuplicateMatches, uploadApi } from '@/services/api';
+import { confirmDuplicateOverride } from '@/components/expenses/DuplicateNotice';
+import { Expense, ExpenseUpdateRequest, InvoiceFields } from '@/types';
+import LoadingSpinner from '@/components/common/LoadingSpinner';
+import { clsx } from 'clsx';
+import { format } from 'date-fns';
+import toast from 'react-hot-toast';
+
+// Extracted values below this confidence are highlighted for a closer look
+const LOW_CONFIDENCE = 0.7;
+const UNKNOWN_VENDOR = 'Unknown vendor';
+
+interface DraftEdits {
+  provider_name: string;
+  amount: string;
+  currency: string;
+  date: string;
+  due_date: string;
+  category: string;
+}
+
+const toEdits = (draft: Expense): DraftEdits => ({
+  provider_name: draft.provider_name === UNKNOWN_VENDOR ? '' : draft.provider_name,
+  amount: Number(draft.amount) > 0 ? String(Number(draft.amount)) : '',
+  currency: draft.currency || 'USD',
+  date: draft.date ? draft.date.substring(0, 10) : '',
+  due_date: draft.due_date ? draft.due_date.substring(0, 10) : '',
+  category: draft.category || ''
+});
+
+const getSourceLabel = (draft: Expense) => {
+  // Drafts ingested before the source type was recorded only carry it in metadata
+  const source = draft.source_type === 'manual' ? draft.metadata?.ingestion?.source : draft.source_type;
+  if (source === 'email') return 'Email';
+  if (source === 'folder') return 'Drop folder';
+  if (draft.metadata?.subscription) return 'Subscription';
+  if (draft.source_type === 'api') return 'API sync';
+  if (draft.source_type === 'import') return `Statement: ${draft.metadata?.import?.source}`;
+  return 'Upload';
+};
+
+const InboxPage: React.FC = () => {
+  const [drafts, setDrafts] = useState<Expense[]>([]);
+  const [edits, setEdits] = useState<Record<number, DraftEdits>>({});
+  const [selected, setSelected] = useState<Set<number>>(new Set());
+  const [busy, setBusy] = useState<Set<number>>(new Set());
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    fetchDrafts();
+  }, []);
+
+  const fetchDrafts = async () => {
+    try {
+      setIsLoading(true);
+      const data = await expensesApi.getAll({ status: 'draft' });
+      setDrafts(data);
+      setEdits(Object.fromEntries(data.map(draft => [draft.id, toEdits(draft)])));
+      setSelected(new Set());
+    } catch (error) {
+      console.error('Failed to fetch drafts:', error);
+      toast.error('Failed to load inbox');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const setField = (id: number, field: keyof DraftEdits, value: string) => {
+    setEdits(prev => ({ ...prev, [id]: { ...prev[id], [field]: value } }));
+  };
+
+  const setBusyFlag = (id: number, on: boolean) => {
+    setBusy(prev => {
+      const next = new Set(prev);
+      if (on) next.add(id);
+      else next.delete(id);
+      return next;
+    });
+  };
+
+  // Confidence of the extracted value behind a column; undefined when nothing was extracted
+  const confidenceOf = (draft: Expense, field: keyof DraftEdits): number | undefined => {
+    const invoice: InvoiceFields | undefined = draft.metadata?.invoice;
+    if (!invoice) return undefined;
+    if (field === 'amount') return invoice.total?.confidence;
+    if (field === 'date') return invoice.invoiceDate?.confidence;
+    if (field === 'due_date') return invoice.dueDate?.confidence;
+    return undefined;
+  };
+
+  // Missing required values and shaky extractions both need the reviewer's attention
+  const needsAttention = (draft: Expense, field: keyof DraftEdits): string | null => {
+    const value = edits[draft.id]?.[field];
+    if ((field === 'provider_name' || field === 'amount' || field === 'date') && !value) {
+      return 'Not detected';
+    }
+    const confidence = confidenceOf(draft, field);
+    if (confidence !== undefined && confidence < LOW_CONFIDENCE && value === toEdits(draft)[field]) {
+      return `Low confidence (${Math.round(confidence * 100)}%)`;
+    }
+    return null;
+  };
+
+  const saveEdits = async (draft: Expense) => {
+    const edit = edits[draft.id];
+    const original = toEdits(draft);
+    const update: ExpenseUpdateRequest = {};
+
+    if (edit.provider_name.trim() !== original.provider_name) update.provider_name = edit.provider_name.trim();
+    if (edit.amount !== original.amount) update.amount = parseFloat(edit.amount);
+    if (edit.currency !== original.currency) update.currency = edit.currency;
+    if (edit.date !== original.date) update.date = edit.date;
+    if (edit.due_date !== original.due_date && edit.due_date) update.due_date = edit.due_date;
+    if (edit.category !== original.category) update.category = edit.category;
+
+    if (Object.keys(update).length > 0) {
+      await expensesApi.update(draft.id, update);
+    }
+  };
+
+  // Returns true once the draft is approved
+  const approve = async (draft: Expense): Promise<boolean> => {
+    const edit = edits[draft.id];
+    if (!edit.provider_name.trim() || !(parseFloat(edit.amount) > 0) || !edit.date) {
+      toast.error(`${draft.provider_name}: provider, a positive amount and date are required`);
+      return false;
+    }
+
+    setBusyFlag(draft.id, true);
+    try {
+      await saveEdits(draft);
+      try {
+        await expensesApi.approve(draft.id);
+      } catch (error) {
+        const duplicates = getDuplicateMatches(error);
+        if (!duplicates) throw error;
+        if (!confirmDuplicateOverride(duplicates)) return false;
+        await expensesApi.approve(draft.id, true);
+      }
+      return true;
+    } catch (error: any) {
+      toast.error('Failed to approve: ' + (error.response?.data?.error || error.message));
+      return false;
+    } finally {
+      setBusyFlag(draft.id, false);
+    }
+  };
+
+  const approveOne = async (draft: Expense) => {
+    if (await approve(draft)) {
+      toast.success('Expense approved');
+      await fetchDrafts();
+    }
+  };
+
+  const approveSelected = async () => {
+    let approved = 0;
+    for (const draft of drafts.filter(d => selected.has(d.id))) {
+      if (await approve(draft)) approved++;
+    }
+    if (approved > 0) toast.success(`${approved} expense${approved === 1 ? '' : 's'} approved`);
+    await fetchDrafts();
+  };
+
+  const discard = async (draft: Expense) => {
+    if (window.confirm(`Discard the draft for "${draft.provider_name}"? Its invoice will be purged.`)) {
+      try {
+        await expensesApi.delete(draft.id);
+        toast.success('Draft discarded');
+        await fetchDrafts();
+      } catch (error) {
+        console.error('Failed to discard draft:', error);
+        toast.error('Failed to discard draft');
+      }
+    }
+  };
+
+  const openFile = async (fileId: number) => {
+    try {
+      const blob = await uploadApi.downloadFile(fileId);
+      const url = URL.createObjectURL(blob);
+      window.open(url, '_blank');
+      // Give the new tab time to load before releasing the decrypted copy
+      setTimeout(() => URL.revokeObjectURL(url), 60000);
+    } catch (error) {
+      console.error('Failed to open invoice:', error);
+      toast.error('Failed to open file');
+    }
+  };
+
+  const toggleSelected = (id: number) => {
+    setSelected(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+  };
+
+  const allSelected = drafts.length > 0 && drafts.every(draft => selected.has(draft.id));
+
+  const renderInput = (draft: Expense, field: keyof DraftEdits, type: string = 'text', className: string = '') => {
+    const warning = needsAttention(draft, field);
+    return (
+      <input
+        type={type}
+        step={type === 'number' ? '0.01' : undefined}
+        value={edits[draft.id]?.[field] ?? ''}
+        onChange={(e) => setField(draft.id, field, e.target.value)}
+        className={clsx('input text-sm py-1 px-2', className, warning && 'border-yellow-400 bg-yellow-50')}
+        title={warning || undefined}
+      />
+    );
+  };
+
+  return (
+    <div className="flex flex-col h-[calc(100vh-12rem)] overflow-hidden">
+      {/* Header */}
+      <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center mb-3 flex-shrink-0">
+        <div>
+          <h1 className="text-2xl font-bold text-primary-text">Inbox</h1>
+          <p className="text-primary-secondary mt-0.5">
+            Draft expenses from automated ingestion, excluded from totals until approved
+          </p>
+        </div>
+
+        <div className="flex items-center space-x-3 mt-4 sm:mt-0">
+          <button
+            onClick={approveSelected}
+            disabled={selected.size === 0 || busy.size > 0}
+            className="btn btn-primary flex items-center space-x-2"
+          >
+            <Check className="w-4 h-4" />
+            <span>Approve {selected.size > 0 ? selected.size : ''} Selected</span>
+          </button>
+        </div>
+      </div>
+
+      <div className="card overflow-hidden flex-1 min-h-0 flex flex-col">
+        {isLoading ? (
+          <div className="flex-1 flex items-center justify-center">
+            <LoadingSpinner size="large" />
+          </div>
+        ) : drafts.length === 0 ? (
+          <div className="flex-1 flex items-center justify-center flex-col">
+            <Inbox className="w-12 h-12 text-primary-secondary mx-auto mb-4" />
+            <h3 className="text-lg font-semibold text-primary-text mb-2">
+              Inbox Zero
+            </h3>
+            <p className="text-primary-secondary">
+              Invoices from email, drop folders and API syncs appear here for review.
+            </p>
+          </div>
+        ) : (
+          <div className="flex-1 min-h-0 overflow-auto">
+            <table className="table w-full">
+              <thead className="bg-primary-bg sticky top-0 z-20">
+                <tr>
+                  <th className="bg-primary-bg">
+                    <input
+                      type="checkbox"
+                      checked={allSelected}
+                      onChange={() => setSelected(allSelected ? new Set() : new Set(drafts.map(d => d.id)))}
+                    />
+                  </th>
+                  <th className="bg-primary-bg">Source</th>
+                  <th className="bg-primary-bg">Provider</th>
+                  <th className="bg-primary-bg">Amount</th>
+                  <th className="bg-primary-bg">Date</th>
+                  <th className="bg-primary-bg">Due Date</th>
+                  <th className="bg-primary-bg">Category</th>
+                  <th className="bg-primary-bg">Actions</th>
+                </tr>
+              </thead>
+              <tbody>
+                {drafts.map((draft) => {
+                  const possibleDuplicates: unknown[] = draft.metadata?.possibleDuplicates || [];
+                  return (
+                    <tr key={draft.id}>
+                      <td className="text-center">
+                        <input
+                          type="checkbox"
+                          checked={selected.has(draft.id)}
+                          onChange={() => toggleSelected(draft.id)}
+                        />
+                      </td>
+                      <td className="whitespace-nowrap text-center">
+                        <span className="inline-flex items-center px-2 py-1 rounded-full text-xs font-medium bg-gray-100 text-gray-800">
+                          {getSourceLabel(draft)}
+                        </span>
+                        <div className="text-xs text-primary-secondary mt-1">
+                          {format(new Date(draft.created_at), 'MMM dd, HH:mm')}
+                        </div>
+                      </td>
+                      <td>
+                        <div className="flex items-center space-x-1">
+                          {renderInput(draft, 'provider_name', 'text', 'w-40')}
+                          {possibleDuplicates.length > 0 && (
+                            <span title="Possible duplicate of an existing expense">
+                              <AlertTriangle className="w-4 h-4 text-yellow-600 flex-shrink-0" />
+                            </span>
+                          )}
+                        </div>
+                      </td>
+                      <td>
+                        <div className="flex items-center space-x-1">
+                          {renderInput(draft, 'amount', 'number', 'w-24')}
+                          {renderInput(draft, 'currency', 'text', 'w-16')}
+                        </div>
+                      </td>
+                      <td>{renderInput(draft, 'date', 'date')}</td>
+                      <td>{renderInput(draft, 'due_date', 'date')}</td>
+                      <td>{renderInput(draft, 'category', 'text', 'w-32')}</td>
+                      <td>
+                        <div className="flex items-center justify-center space-x-1">
+                          {draft.file_id && (
+                            <button
+                              onClick={() => openFile(draft.file_id!)}
+                              className="p-1 rounded hover:bg-primary-button hover:bg-opacity-20 transition-colors"
+                              title="Open invoice"
+                            >
+                              <FileText className="w-4 h-4 text-primary-secondary" />
+                            </button>
+                          )}
+                          <button
+                            onClick={() => approveOne(draft)}
+                            disabled={busy.has(draft.id)}
+                            className="p-1 rounded hover:bg-green-100 transition-colors"
+                            title="Approve"
+                          >
+                            {busy.has(draft.id)
+                              ? <Loader2 className="w-4 h-4 text-green-600 animate-spin" />
+                              : <Check className="w-4 h-4 text-green-600" />}
+                          </button>
+                          <button
+                            onClick={() => discard(draft)}
+                            className="p-1 rounded hover:bg-red-100 transition-colors text-red-600 hover:text-red-800"
+                            title="Discard draft"
+                          >
+                            <Trash2 className="w-4 h-4" />
+                          </button>
+                        </div>
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default InboxPage;
\ No newline at end of file
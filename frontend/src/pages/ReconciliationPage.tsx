@@ -0,0 +1,488 @@
+import React, { useEffect, useState } from 'react';
+import { Link } from 'react-router-dom';
+import {
+  ArrowLeftRight,
+  AlertTriangle,
+  CheckCircle2,
+  EyeOff,
+  Landmark,
+  Link2,
+  Loader2,
+  RotateCcw,
+  Search,
+  Unlink,
+  Wand2
+} from 'lucide-react';
+import { clsx } from 'clsx';
+import { differenceInCalendarDays, format } from 'date-fns';
+import toast from 'react-hot-toast';
+import { reconciliationApi } from '@/services/api';
+import { BankTransaction, MatchCandidate, PaymentStatus, ReconciliationOverview } from '@/types';
+import LoadingSpinner from '@/components/common/LoadingSpinner';
+import StatementImportModal from '@/components/expenses/StatementImportModal';
+
+type Tab = 'unmatched' | 'overdue' | 'matched' | 'ignored';
+
+const PAYMENT_BADGES: Record<PaymentStatus, { label: string; className: string }> = {
+  unpaid: { label: 'Unpaid', className: 'bg-red-100 text-red-800' },
+  partially_paid: { label: 'Partially paid', className: 'bg-yellow-100 text-yellow-800' },
+  paid: { label: 'Paid', className: 'bg-green-100 text-green-800' }
+};
+
+const formatAmount = (amount: number | string, currency: string) =>
+  `${Number(amount).toFixed(2)} ${currency}`;
+
+const formatDate = (date: string) => format(new Date(date), 'MMM dd, yyyy');
+
+const ReconciliationPage: React.FC = () => {
+  const [overview, setOverview] = useState<ReconciliationOverview | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [tab, setTab] = useState<Tab>('unmatched');
+  const [isAutoMatching, setIsAutoMatching] = useState(false);
+  const [busy, setBusy] = useState<Set<number>>(new Set());
+  // Transaction whose candidates are open, and those candidates
+  const [expanded, setExpanded] = useState<number | null>(null);
+  const [candidates, setCandidates] = useState<MatchCandidate[] | null>(null);
+  const [showImportModal, setShowImportModal] = useState(false);
+
+  useEffect(() => {
+    fetchOverview();
+  }, []);
+
+  const fetchOverview = async () => {
+    try {
+      setOverview(await reconciliationApi.getOverview());
+    } catch (error) {
+      console.error('Failed to fetch reconciliation:', error);
+      toast.error('Failed to load reconciliation');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const withBusy = async (transactionId: number, action: () => Promise<void>) => {
+    setBusy(current => new Set(current).add(transactionId));
+    try {
+      await action();
+    } catch (error: any) {
+      toast.error(error.response?.data?.error || error.message);
+    } finally {
+      setBusy(current => {
+        const next = new Set(current);
+        next.delete(transactionId);
+        return next;
+      });
+    }
+  };
+
+  const runAutoMatch = async () => {
+    try {
+      setIsAutoMatching(true);
+      const { matched } = await reconciliationApi.autoMatch();
+      toast.success(matched > 0 ? `Matched ${matched} transaction${matched === 1 ? '' : 's'}` : 'No confident matches found');
+      await fetchOverview();
+    } catch (error: any) {
+      toast.error(error.response?.data?.error || 'Auto-match failed');
+    } finally {
+      setIsAutoMatching(false);
+    }
+  };
+
+  const toggleCandidates = async (transaction: BankTransaction) => {
+    if (expanded === transaction.id) {
+      setExpanded(null);
+      return;
+    }
+
+    setExpanded(transaction.id);
+    setCandidates(null);
+    await withBusy(transaction.id, async () => {
+      setCandidates(await reconciliationApi.getCandidates(transaction.id));
+    });
+  };
+
+  const match = (transaction: BankTransaction, candidate: MatchCandidate) =>
+    withBusy(transaction.id, async () => {
+      await reconciliationApi.match(transaction.id, candidate.expenseId);
+      toast.success(`Matched to ${candidate.providerName}`);
+      setExpanded(null);
+      await fetchOverview();
+    });
+
+  const unmatch = (transaction: BankTransaction) =>
+    withBusy(transaction.id, async () => {
+      await reconciliationApi.unmatch(transaction.id);
+      toast.success('Match removed');
+      await fetchOverview();
+    });
+
+  const setIgnored = (transaction: BankTransaction, ignore: boolean) =>
+    withBusy(transaction.id, async () => {
+      await reconciliationApi.setIgnored(transaction.id, ignore);
+      toast.success(ignore ? 'Transaction ignored' : 'Transaction restored');
+      await fetchOverview();
+    });
+
+  const renderPaymentBadge = (status: PaymentStatus) => (
+    <span className={clsx('inline-flex items-center px-2 py-1 rounded-full text-xs font-medium', PAYMENT_BADGES[status].className)}>
+      {PAYMENT_BADGES[status].label}
+    </span>
+  );
+
+  const renderCandidates = (transaction: BankTransaction) => (
+    <tr>
+      <td colSpan={5} className="bg-primary-bg">
+        {!candidates ? (
+          <div className="flex items-center space-x-2 text-sm text-primary-secondary p-2">
+            <Loader2 className="w-4 h-4 animate-spin" />
+            <span>Looking for expenses this could be paying...</span>
+          </div>
+        ) : candidates.length === 0 ? (
+          <p className="text-sm text-primary-secondary p-2">
+            No unpaid {transaction.currency} expense fits this amount and date. If it is a transfer or a card repayment, ignore it.
+          </p>
+        ) : (
+          <table className="w-full text-sm">
+            <tbody>
+              {candidates.map(candidate => (
+                <tr key={candidate.expenseId} className="border-t border-primary-border first:border-t-0">
+                  <td className="p-2">
+                    <Link to={`/expenses?highlight=${candidate.expenseId}`} className="font-medium text-primary-text hover:underline">
+                      {candidate.providerName}
+                    </Link>
+                    <div className="text-xs text-primary-secondary">
+                      {formatDate(candidate.date)}
+                      {candidate.dueDate && ` · due ${formatDate(candidate.dueDate)}`}
+                    </div>
+                  </td>
+                  <td className="p-2 whitespace-nowrap">
+                    {formatAmount(candidate.outstanding, candidate.currency)} owed
+                    {candidate.partial && (
+                      <span className="ml-2 inline-flex px-2 py-0.5 rounded-full text-xs font-medium bg-yellow-100 text-yellow-800">
+                        Partial payment
+                      </span>
+                    )}
+                  </td>
+                  <td
+                    className="p-2 whitespace-nowrap text-primary-secondary"
+                    title={`Amount ${Math.round(candidate.signals.amount * 100)}% · Date ${Math.round(candidate.signals.date * 100)}% · Vendor ${Math.round(candidate.signals.vendor * 100)}%`}
+                  >
+                    {Math.round(candidate.score * 100)}% match
+                  </td>
+                  <td className="p-2 text-right">
+                    <button
+                      onClick={() => match(transaction, candidate)}
+                      disabled={busy.has(transaction.id)}
+                      className="btn btn-primary text-xs py-1 px-2 inline-flex items-center space-x-1"
+                    >
+                      <Link2 className="w-3 h-3" />
+                      <span>Match</span>
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </td>
+    </tr>
+  );
+
+  const renderUnmatched = () => (
+    <table className="table w-full">
+      <thead className="bg-primary-bg sticky top-0 z-20">
+        <tr>
+          <th className="bg-primary-bg">Date</th>
+          <th className="bg-primary-bg">Source</th>
+          <th className="bg-primary-bg">Description</th>
+          <th className="bg-primary-bg">Amount</th>
+          <th className="bg-primary-bg">Actions</th>
+        </tr>
+      </thead>
+      <tbody>
+        {overview!.unmatched.map(transaction => (
+          <React.Fragment key={transaction.id}>
+            <tr>
+              <td className="whitespace-nowrap">{formatDate(transaction.date)}</td>
+              <td className="text-sm text-primary-secondary">{transaction.source_name}</td>
+              <td>{transaction.description}</td>
+              <td className="whitespace-nowrap font-medium">{formatAmount(transaction.amount, transaction.currency)}</td>
+              <td>
+                <div className="flex items-center space-x-1">
+                  <button
+                    onClick={() => toggleCandidates(transaction)}
+                    className="p-1 text-primary-secondary hover:text-primary-text rounded"
+                    title="Find the expense this paid"
+                  >
+                    <Search className="w-4 h-4" />
+                  </button>
+                  <button
+                    onClick={() => setIgnored(transaction, true)}
+                    disabled={busy.has(transaction.id)}
+                    className="p-1 text-primary-secondary hover:text-primary-text rounded disabled:opacity-50"
+                    title="Not an expense payment (transfer, card repayment, cash)"
+                  >
+                    <EyeOff className="w-4 h-4" />
+                  </button>
+                </div>
+              </td>
+            </tr>
+            {expanded === transaction.id && renderCandidates(transaction)}
+          </React.Fragment>
+        ))}
+      </tbody>
+    </table>
+  );
+
+  const renderOverdue = () => (
+    <table className="table w-full">
+      <thead className="bg-primary-bg sticky top-0 z-20">
+        <tr>
+          <th className="bg-primary-bg">Provider</th>
+          <th className="bg-primary-bg">Amount</th>
+          <th className="bg-primary-bg">Paid</th>
+          <th className="bg-primary-bg">Due Date</th>
+          <th className="bg-primary-bg">Status</th>
+        </tr>
+      </thead>
+      <tbody>
+        {overview!.overdue.map(expense => (
+          <tr key={expense.id}>
+            <td>
+              <Link to={`/expenses?highlight=${expense.id}`} className="font-medium text-primary-text hover:underline">
+                {expense.provider_name}
+              </Link>
+            </td>
+            <td className="whitespace-nowrap">{formatAmount(expense.amount, expense.currency)}</td>
+            <td className="whitespace-nowrap">{formatAmount(expense.paid_amount, expense.currency)}</td>
+            <td className="whitespace-nowrap">
+              {formatDate(expense.due_date!)}
+              <div className="text-xs text-red-700">
+                {differenceInCalendarDays(new Date(), new Date(expense.due_date!))} days overdue
+              </div>
+            </td>
+            <td>{renderPaymentBadge(expense.payment_status)}</td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  );
+
+  const renderMatched = () => (
+    <table className="table w-full">
+      <thead className="bg-primary-bg sticky top-0 z-20">
+        <tr>
+          <th className="bg-primary-bg">Transaction</th>
+          <th className="bg-primary-bg">Amount</th>
+          <th className="bg-primary-bg">Expense</th>
+          <th className="bg-primary-bg">Matched</th>
+          <th className="bg-primary-bg">Actions</th>
+        </tr>
+      </thead>
+      <tbody>
+        {overview!.recentMatches.map(transaction => (
+          <tr key={transaction.id}>
+            <td>
+              <div>{transaction.description}</div>
+              <div className="text-xs text-primary-secondary">{formatDate(transaction.date)} · {transaction.source_name}</div>
+            </td>
+            <td className="whitespace-nowrap">{formatAmount(transaction.amount, transaction.currency)}</td>
+            <td>
+              <Link to={`/expenses?highlight=${transaction.expense.id}`} className="font-medium text-primary-text hover:underline">
+                {transaction.expense.provider_name}
+              </Link>
+              <div className="mt-1">{renderPaymentBadge(transaction.expense.payment_status)}</div>
+            </td>
+            <td className="text-sm text-primary-secondary whitespace-nowrap">
+              {transaction.match_type === 'auto' ? 'Automatic' : 'Manual'}
+              {transaction.match_score !== null && ` · ${Math.round(Number(transaction.match_score) * 100)}%`}
+            </td>
+            <td>
+              <button
+                onClick={() => unmatch(transaction)}
+                disabled={busy.has(transaction.id)}
+                className="p-1 text-primary-secondary hover:text-primary-text rounded disabled:opacity-50"
+                title="Remove this match"
+              >
+                <Unlink className="w-4 h-4" />
+              </button>
+            </td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  );
+
+  const renderIgnored = () => (
+    <table className="table w-full">
+      <thead className="bg-primary-bg sticky top-0 z-20">
+        <tr>
+          <th className="bg-primary-bg">Date</th>
+          <th className="bg-primary-bg">Source</th>
+          <th className="bg-primary-bg">Description</th>
+          <th className="bg-primary-bg">Amount</th>
+          <th className="bg-primary-bg">Actions</th>
+        </tr>
+      </thead>
+      <tbody>
+        {overview!.ignored.map(transaction => (
+          <tr key={transaction.id}>
+            <td className="whitespace-nowrap">{formatDate(transaction.date)}</td>
+            <td className="text-sm text-primary-secondary">{transaction.source_name}</td>
+            <td>{transaction.description}</td>
+            <td className="whitespace-nowrap">{formatAmount(transaction.amount, transaction.currency)}</td>
+            <td>
+              <button
+                onClick={() => setIgnored(transaction, false)}
+                disabled={busy.has(transaction.id)}
+                className="p-1 text-primary-secondary hover:text-primary-text rounded disabled:opacity-50"
+                title="Restore to unmatched"
+              >
+                <RotateCcw className="w-4 h-4" />
+              </button>
+            </td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  );
+
+  const tabs: { key: Tab; label: string; count: number }[] = overview ? [
+    { key: 'unmatched', label: 'Unmatched transactions', count: overview.summary.unmatchedTransactions },
+    { key: 'overdue', label: 'Overdue invoices', count: overview.summary.overdueExpenses },
+    { key: 'matched', label: 'Recent matches', count: overview.recentMatches.length },
+    { key: 'ignored', label: 'Ignored', count: overview.summary.ignoredTransactions }
+  ] : [];
+
+  const rowsInTab = overview
+    ? { unmatched: overview.unmatched, overdue: overview.overdue, matched: overview.recentMatches, ignored: overview.ignored }[tab].length
+    : 0;
+
+  return (
+    <div className="flex flex-col h-[calc(100vh-12rem)] overflow-hidden">
+      {/* Header */}
+      <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center mb-3 flex-shrink-0">
+        <div>
+          <h1 className="text-2xl font-bold text-primary-text">Reconciliation</h1>
+          <p className="text-primary-secondary mt-0.5">
+            Match bank and card transactions to recorded expenses
+          </p>
+        </div>
+
+        <div className="flex items-center space-x-3 mt-4 sm:mt-0">
+          <button
+            onClick={() => setShowImportModal(true)}
+            className="btn btn-secondary flex items-center space-x-2"
+          >
+            <Landmark className="w-4 h-4" />
+            <span>Import Statement</span>
+          </button>
+          <button
+            onClick={runAutoMatch}
+            disabled={isAutoMatching || !overview?.summary.unmatchedTransactions}
+            className="btn btn-primary flex items-center space-x-2"
+          >
+            {isAutoMatching ? <Loader2 className="w-4 h-4 animate-spin" /> : <Wand2 className="w-4 h-4" />}
+            <span>Auto-match</span>
+          </button>
+        </div>
+      </div>
+
+      {/* Totals */}
+      {overview && (
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-3 mb-3 flex-shrink-0">
+          <div className="card p-4 flex items-center justify-between">
+            <div>
+              <p className="text-sm font-medium text-primary-secondary">Unmatched Transactions</p>
+              <p className="text-xl font-bold text-primary-text mt-1">
+                {overview.summary.unmatchedTransactions}
+                <span className="text-sm font-normal text-primary-secondary"> of {overview.summary.unmatchedTransactions + overview.summary.matchedTransactions}</span>
+              </p>
+            </div>
+            <ArrowLeftRight className="w-6 h-6 text-primary-secondary" />
+          </div>
+          <div className="card p-4 flex items-center justify-between">
+            <div>
+              <p className="text-sm font-medium text-primary-secondary">Unpaid / Partially Paid</p>
+              <p className="text-xl font-bold text-primary-text mt-1">
+                {overview.summary.unpaidExpenses} / {overview.summary.partiallyPaidExpenses}
+              </p>
+            </div>
+            <CheckCircle2 className="w-6 h-6 text-primary-secondary" />
+          </div>
+          <div className="card p-4 flex items-center justify-between">
+            <div>
+              <p className="text-sm font-medium text-primary-secondary">Past Due Date</p>
+              <p className={clsx('text-xl font-bold mt-1', overview.summary.overdueExpenses > 0 ? 'text-red-700' : 'text-primary-text')}>
+                {overview.summary.overdueExpenses}
+              </p>
+            </div>
+            <AlertTriangle className="w-6 h-6 text-primary-secondary" />
+          </div>
+        </div>
+      )}
+
+      <div className="card overflow-hidden flex-1 min-h-0 flex flex-col">
+        {isLoading ? (
+          <div className="flex-1 flex items-center justify-center">
+            <LoadingSpinner size="large" />
+          </div>
+        ) : !overview ? null : (
+          <>
+            <div className="flex border-b border-primary-border flex-shrink-0">
+              {tabs.map(option => (
+                <button
+                  key={option.key}
+                  onClick={() => setTab(option.key)}
+                  className={clsx(
+                    'px-4 py-3 text-sm font-medium border-b-2 transition-colors',
+                    tab === option.key
+                      ? 'border-primary-text text-primary-text'
+                      : 'border-transparent text-primary-secondary hover:text-primary-text'
+                  )}
+                >
+                  {option.label} ({option.count})
+                </button>
+              ))}
+            </div>
+
+            {rowsInTab === 0 ? (
+              <div className="flex-1 flex items-center justify-center flex-col">
+                <CheckCircle2 className="w-12 h-12 text-primary-secondary mx-auto mb-4" />
+                <p className="text-primary-secondary">
+                  {tab === 'unmatched'
+                    ? overview.summary.matchedTransactions === 0
+                      ? 'Import a bank or card statement to start reconciling.'
+                      : 'Every transaction is matched or ignored.'
+                    : tab === 'overdue'
+                      ? 'No unpaid invoices past their due date.'
+                      : tab === 'matched' ? 'No matches yet.' : 'No ignored transactions.'}
+                </p>
+              </div>
+            ) : (
+              <div className="flex-1 min-h-0 overflow-auto">
+                {tab === 'unmatched' && renderUnmatched()}
+                {tab === 'overdue' && renderOverdue()}
+                {tab === 'matched' && renderMatched()}
+                {tab === 'ignored' && renderIgnored()}
+              </div>
+            )}
+          </>
+        )}
+      </div>
+
+      {showImportModal && (
+        <StatementImportModal
+          defaultReconcileOnly
+          onClose={() => setShowImportModal(false)}
+          onImport={() => {
+            fetchOverview();
+            setShowImportModal(false);
+          }}
+        />
+      )}
+    </div>
+  );
+};
+
+export default ReconciliationPage;
\ No newline at end of file
@@ -0,0 +1,286 @@
+import React, { useEffect, useState } from 'react';
+import { Edit, FlaskConical, Loader2, Plus, RefreshCw, Shield, Trash2 } from 'lucide-react';
+import { clsx } from 'clsx';
+import toast from 'react-hot-toast';
+import { sensitivityRulesApi } from '@/services/api';
+import { SensitivityRule, SensitivityTestResult } from '@/types';
+import LoadingSpinner from '@/components/common/LoadingSpinner';
+import SensitivityRuleModal from '@/components/sensitivity/SensitivityRuleModal';
+
+const SENSITIVITY_BADGES: Record<SensitivityRule['sensitivity'], string> = {
+  LOW: 'bg-green-100 text-green-800',
+  MEDIUM: 'bg-yellow-100 text-yellow-800',
+  HIGH: 'bg-red-100 text-red-800'
+};
+
+const describeMatch = (rule: SensitivityRule) => {
+  switch (rule.match_type) {
+    case 'keyword':
+      return `Vendor name contains ${rule.pattern}`;
+    case 'regex':
+      return `Vendor name matches /${rule.pattern}/`;
+    case 'vendor':
+      return `Vendor is ${rule.vendor_name || 'a deleted vendor'}`;
+    case 'category':
+      return `Category is ${rule.pattern}`;
+    case 'amount':
+      return `Amount at least ${rule.min_amount} ${rule.amount_currency}`;
+  }
+};
+
+const SensitivityRulesPage: React.FC = () => {
+  const [rules, setRules] = useState<SensitivityRule[]>([]);
+  const [canManage, setCanManage] = useState(false);
+  const [isLoading, setIsLoading] = useState(true);
+  const [editing, setEditing] = useState<SensitivityRule | null>(null);
+  const [showModal, setShowModal] = useState(false);
+  const [isReclassifying, setIsReclassifying] = useState(false);
+  const [testProvider, setTestProvider] = useState('');
+  const [testCategory, setTestCategory] = useState('');
+  const [testAmount, setTestAmount] = useState('');
+  const [testCurrency, setTestCurrency] = useState('USD');
+  const [testResult, setTestResult] = useState<SensitivityTestResult | null>(null);
+  const [isTesting, setIsTesting] = useState(false);
+
+  useEffect(() => {
+    fetchRules();
+  }, []);
+
+  const fetchRules = async () => {
+    try {
+      const result = await sensitivityRulesApi.getAll();
+      setRules(result.rules);
+      setCanManage(result.canManage);
+    } catch (error) {
+      console.error('Failed to fetch sensitivity rules:', error);
+      toast.error('Failed to load sensitivity rules');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const openModal = (rule?: SensitivityRule) => {
+    setEditing(rule || null);
+    setShowModal(true);
+  };
+
+  const handleSaved = () => {
+    setShowModal(false);
+    setEditing(null);
+    setTestResult(null);
+    fetchRules();
+  };
+
+  const handleDelete = async (rule: SensitivityRule) => {
+    if (window.confirm(`Delete the rule "${rule.name}"? Expenses it classified keep their level until reclassified.`)) {
+      try {
+        await sensitivityRulesApi.delete(rule.id);
+        toast.success('Rule deleted');
+        setTestResult(null);
+        fetchRules();
+      } catch (error: any) {
+        toast.error(error.response?.data?.error || 'Failed to delete rule');
+      }
+    }
+  };
+
+  const handleReclassify = async () => {
+    if (!window.confirm('Apply the active rules to all existing expenses? Levels set by hand are kept.')) {
+      return;
+    }
+
+    try {
+      setIsReclassifying(true);
+      const result = await sensitivityRulesApi.reclassify();
+      toast.success(`Scanned ${result.scanned} expense${result.scanned === 1 ? '' : 's'}; ${result.changed} reclassified`);
+    } catch (error: any) {
+      toast.error(error.response?.data?.error || 'Failed to reclassify expenses');
+    } finally {
+      setIsReclassifying(false);
+    }
+  };
+
+  const handleTest = async (e: React.FormEvent) => {
+    e.preventDefault();
+    try {
+      setIsTesting(true);
+      setTestResult(await sensitivityRulesApi.test({
+        providerName: testProvider.trim(),
+        category: testCategory.trim() || undefined,
+        amount: testAmount ? parseFloat(testAmount) : undefined,
+        currency: testCurrency
+      }));
+    } catch (error: any) {
+      toast.error(error.response?.data?.error || 'Failed to test rules');
+    } finally {
+      setIsTesting(false);
+    }
+  };
+
+  return (
+    <div className="flex flex-col h-[calc(100vh-12rem)] overflow-hidden">
+      {/* Header */}
+      <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center mb-3 flex-shrink-0">
+        <div>
+          <h1 className="text-2xl font-bold text-primary-text">Sensitivity Rules</h1>
+          <p className="text-primary-secondary mt-0.5">
+            How expenses are classified and which vendor names are masked
+          </p>
+        </div>
+
+        {canManage && (
+          <div className="flex items-center space-x-3 mt-4 sm:mt-0">
+            <button
+              onClick={handleReclassify}
+              disabled={isReclassifying}
+              className="btn btn-secondary flex items-center space-x-2"
+            >
+              {isReclassifying ? <Loader2 className="w-4 h-4 animate-spin" /> : <RefreshCw className="w-4 h-4" />}
+              <span>Apply to existing expenses</span>
+            </button>
+            <button
+              onClick={() => openModal()}
+              className="btn btn-primary flex items-center space-x-2"
+            >
+              <Plus className="w-4 h-4" />
+              <span>Add</span>
+            </button>
+          </div>
+        )}
+      </div>
+
+      {/* Try the rules against a sample expense */}
+      <form onSubmit={handleTest} className="card p-4 mb-3 flex-shrink-0">
+        <div className="flex flex-wrap items-center gap-3">
+          <FlaskConical className="w-5 h-5 text-primary-secondary" />
+          <input
+            value={testProvider}
+            onChange={(e) => setTestProvider(e.target.value)}
+            placeholder="Vendor name"
+            className="input flex-1 min-w-[12rem]"
+          />
+          <input
+            value={testCategory}
+            onChange={(e) => setTestCategory(e.target.value)}
+            placeholder="Category"
+            className="input w-36"
+          />
+          <input
+            type="number"
+            min="0"
+            step="0.01"
+            value={testAmount}
+            onChange={(e) => setTestAmount(e.target.value)}
+            placeholder="Amount"
+            className="input w-28"
+          />
+          <select value={testCurrency} onChange={(e) => setTestCurrency(e.target.value)} className="input w-24">
+            {['USD', 'EUR', 'ILS'].map(code => (
+              <option key={code} value={code}>{code}</option>
+            ))}
+          </select>
+          <button
+            type="submit"
+            disabled={isTesting || !testProvider.trim()}
+            className="btn btn-secondary flex items-center space-x-2"
+          >
+            {isTesting && <Loader2 className="w-4 h-4 animate-spin" />}
+            <span>Test</span>
+          </button>
+        </div>
+        {testResult && (
+          <div className="flex flex-wrap items-center gap-2 mt-3 text-sm text-primary-text">
+            <span className={clsx('inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium', SENSITIVITY_BADGES[testResult.sensitivity])}>
+              {testResult.sensitivity}
+            </span>
+            <span>
+              {testResult.rule ? `by rule "${testResult.rule.name}"` : 'No rule matches'}
+              {testResult.maskedName && `; shown as ${testResult.maskedName}`}
+            </span>
+          </div>
+        )}
+      </form>
+
+      <div className="card overflow-hidden flex-1 min-h-0 flex flex-col">
+        {isLoading ? (
+          <div className="flex-1 flex items-center justify-center">
+            <LoadingSpinner size="large" />
+          </div>
+        ) : rules.length === 0 ? (
+          <div className="flex-1 flex items-center justify-center flex-col">
+            <Shield className="w-12 h-12 text-primary-secondary mx-auto mb-4" />
+            <p className="text-primary-secondary">
+              No rules yet. Every expense is classified as low sensitivity unless its vendor says otherwise.
+            </p>
+          </div>
+        ) : (
+          <div className="flex-1 min-h-0 overflow-auto">
+            <table className="table w-full">
+              <thead className="bg-primary-bg sticky top-0 z-20">
+                <tr>
+                  <th className="bg-primary-bg">Priority</th>
+                  <th className="bg-primary-bg">Rule</th>
+                  <th className="bg-primary-bg">Sensitivity</th>
+                  <th className="bg-primary-bg">Masked As</th>
+                  {canManage && <th className="bg-primary-bg">Actions</th>}
+                </tr>
+              </thead>
+              <tbody>
+                {rules.map(rule => (
+                  <tr key={rule.id} className={clsx(!rule.is_active && 'opacity-50')}>
+                    <td className="whitespace-nowrap">{rule.priority}</td>
+                    <td>
+                      <div className="font-medium text-primary-text">
+                        {rule.name}
+                        {!rule.is_active && <span className="ml-2 text-xs text-primary-secondary">(inactive)</span>}
+                      </div>
+                      <div className="text-xs text-primary-secondary">{describeMatch(rule)}</div>
+                    </td>
+                    <td>
+                      <span className={clsx('inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium', SENSITIVITY_BADGES[rule.sensitivity])}>
+                        {rule.sensitivity}
+                      </span>
+                    </td>
+                    <td className="text-sm">
+                      {rule.mask_alias || (rule.sensitivity === 'HIGH' ? 'Partially hidden name' : '—')}
+                    </td>
+                    {canManage && (
+                      <td>
+                        <div className="flex items-center space-x-1">
+                          <button
+                            onClick={() => openModal(rule)}
+                            className="p-1 text-primary-secondary hover:text-primary-text rounded"
+                            title="Edit rule"
+                          >
+                            <Edit className="w-4 h-4" />
+                          </button>
+                          <button
+                            onClick={() => handleDelete(rule)}
+                            className="p-1 rounded hover:bg-red-100 transition-colors text-red-600 hover:text-red-800"
+                            title="Delete rule"
+                          >
+                            <Trash2 className="w-4 h-4" />
+                          </button>
+                        </div>
+                      </td>
+                    )}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+
+      {showModal && (
+        <SensitivityRuleModal
+          rule={editing || undefined}
+          onClose={() => setShowModal(false)}
+          onSaved={handleSaved}
+        />
+      )}
+    </div>
+  );
+};
+
+export default SensitivityRulesPage;
\ No newline at end of file
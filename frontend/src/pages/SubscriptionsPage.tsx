@@ -0,0 +1,340 @@
+import React, { useEffect, useState } from 'react';
+import {
+  AlertTriangle,
+  BellOff,
+  CalendarClock,
+  Edit,
+  Loader2,
+  Pause,
+  Play,
+  Plus,
+  Repeat,
+  Trash2,
+  Wand2,
+  XCircle
+} from 'lucide-react';
+import { clsx } from 'clsx';
+import { format } from 'date-fns';
+import toast from 'react-hot-toast';
+import { subscriptionsApi } from '@/services/api';
+import { Subscription, SubscriptionFlag, SubscriptionRegistry } from '@/types';
+import LoadingSpinner from '@/components/common/LoadingSpinner';
+import SubscriptionModal from '@/components/subscriptions/SubscriptionModal';
+
+const FLAG_BADGES: Record<SubscriptionFlag, { label: string; className: string }> = {
+  missed: { label: 'Missed', className: 'bg-red-100 text-red-800' },
+  late: { label: 'Late', className: 'bg-yellow-100 text-yellow-800' },
+  price_changed: { label: 'Price changed', className: 'bg-yellow-100 text-yellow-800' }
+};
+
+const STATUS_BADGES: Record<Subscription['status'], { label: string; className: string }> = {
+  active: { label: 'Active', className: 'bg-green-100 text-green-800' },
+  paused: { label: 'Paused', className: 'bg-gray-100 text-gray-800' },
+  cancelled: { label: 'Cancelled', className: 'bg-gray-100 text-gray-800' }
+};
+
+const CADENCE_LABELS: Record<Subscription['cadence'], string> = {
+  weekly: 'Weekly',
+  monthly: 'Monthly',
+  quarterly: 'Quarterly',
+  annual: 'Annual'
+};
+
+const formatAmount = (amount: number | string, currency: string) =>
+  new Intl.NumberFormat('en-US', {
+    style: 'currency',
+    currency,
+    minimumFractionDigits: 2,
+  }).format(Number(amount));
+
+const formatDate = (date: string) => format(new Date(`${date.substring(0, 10)}T00:00:00`), 'MMM dd, yyyy');
+
+const describeFlag = (subscription: Subscription): string => {
+  const details = subscription.flag_details || {};
+  switch (subscription.flag) {
+    case 'missed':
+      return `Expected ${formatDate(details.expected)}, no charge recorded`;
+    case 'late':
+      return `Charged ${formatDate(details.charged)}, ${details.daysLate} days after ${formatDate(details.expected)}`;
+    case 'price_changed':
+      return `${formatAmount(details.previous, subscription.currency)} → ${formatAmount(details.current, subscription.currency)}`;
+    default:
+      return '';
+  }
+};
+
+const SubscriptionsPage: React.FC = () => {
+  const [registry, setRegistry] = useState<SubscriptionRegistry | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isDetecting, setIsDetecting] = useState(false);
+  const [editing, setEditing] = useState<Subscription | null>(null);
+  const [showModal, setShowModal] = useState(false);
+
+  useEffect(() => {
+    fetchRegistry();
+  }, []);
+
+  const fetchRegistry = async () => {
+    try {
+      setRegistry(await subscriptionsApi.getRegistry());
+    } catch (error) {
+      console.error('Failed to fetch subscriptions:', error);
+      toast.error('Failed to load subscriptions');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const runDetection = async () => {
+    try {
+      setIsDetecting(true);
+      const result = await subscriptionsApi.detect();
+      const parts = [
+        `${result.detected} new subscription${result.detected === 1 ? '' : 's'} found`,
+        result.drafted > 0 && `${result.drafted} charge${result.drafted === 1 ? '' : 's'} drafted`,
+        result.flagged > 0 && `${result.flagged} flagged`
+      ].filter(Boolean);
+      toast.success(parts.join(', '));
+      await fetchRegistry();
+    } catch (error: any) {
+      toast.error(error.response?.data?.error || 'Detection failed');
+    } finally {
+      setIsDetecting(false);
+    }
+  };
+
+  const openModal = (subscription?: Subscription) => {
+    setEditing(subscription || null);
+    setShowModal(true);
+  };
+
+  const handleSaved = () => {
+    setShowModal(false);
+    setEditing(null);
+    fetchRegistry();
+  };
+
+  const update = async (subscription: Subscription, data: Parameters<typeof subscriptionsApi.update>[1], message: string) => {
+    try {
+      await subscriptionsApi.update(subscription.id, data);
+      toast.success(message);
+      fetchRegistry();
+    } catch (error: any) {
+      toast.error(error.response?.data?.error || 'Failed to update subscription');
+    }
+  };
+
+  const handleDelete = async (subscription: Subscription) => {
+    if (window.confirm(`Delete "${subscription.provider_name}" from the registry? Its charges stay as expenses, and detection may find it again; cancel it to keep it out.`)) {
+      try {
+        await subscriptionsApi.delete(subscription.id);
+        toast.success('Subscription deleted');
+        fetchRegistry();
+      } catch (error: any) {
+        toast.error(error.response?.data?.error || 'Failed to delete subscription');
+      }
+    }
+  };
+
+  const summary = registry?.summary;
+
+  return (
+    <div className="flex flex-col h-[calc(100vh-12rem)] overflow-hidden">
+      {/* Header */}
+      <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center mb-3 flex-shrink-0">
+        <div>
+          <h1 className="text-2xl font-bold text-primary-text">Subscriptions</h1>
+          <p className="text-primary-secondary mt-0.5">
+            Recurring charges detected from your expenses
+          </p>
+        </div>
+
+        <div className="flex items-center space-x-3 mt-4 sm:mt-0">
+          <button
+            onClick={() => openModal()}
+            className="btn btn-secondary flex items-center space-x-2"
+          >
+            <Plus className="w-4 h-4" />
+            <span>Add</span>
+          </button>
+          <button
+            onClick={runDetection}
+            disabled={isDetecting}
+            className="btn btn-primary flex items-center space-x-2"
+          >
+            {isDetecting ? <Loader2 className="w-4 h-4 animate-spin" /> : <Wand2 className="w-4 h-4" />}
+            <span>Detect</span>
+          </button>
+        </div>
+      </div>
+
+      {/* Totals */}
+      {summary && (
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-3 mb-3 flex-shrink-0">
+          <div className="card p-4 flex items-center justify-between">
+            <div>
+              <p className="text-sm font-medium text-primary-secondary">Monthly Cost</p>
+              <p className="text-xl font-bold text-primary-text mt-1">
+                {formatAmount(summary.monthlyCost.amount, summary.monthlyCost.currency)}
+                <span className="text-sm font-normal text-primary-secondary"> across {summary.active} active</span>
+              </p>
+              {summary.monthlyCost.unconverted > 0 && (
+                <p className="text-xs text-yellow-700">{summary.monthlyCost.unconverted} without an exchange rate not included</p>
+              )}
+            </div>
+            <Repeat className="w-6 h-6 text-primary-secondary" />
+          </div>
+          <div className="card p-4 flex items-center justify-between">
+            <div>
+              <p className="text-sm font-medium text-primary-secondary">Due in 7 Days</p>
+              <p className="text-xl font-bold text-primary-text mt-1">{summary.dueSoon}</p>
+            </div>
+            <CalendarClock className="w-6 h-6 text-primary-secondary" />
+          </div>
+          <div className="card p-4 flex items-center justify-between">
+            <div>
+              <p className="text-sm font-medium text-primary-secondary">Flagged</p>
+              <p className={clsx('text-xl font-bold mt-1', summary.flagged > 0 ? 'text-red-700' : 'text-primary-text')}>
+                {summary.flagged}
+              </p>
+            </div>
+            <AlertTriangle className="w-6 h-6 text-primary-secondary" />
+          </div>
+        </div>
+      )}
+
+      <div className="card overflow-hidden flex-1 min-h-0 flex flex-col">
+        {isLoading ? (
+          <div className="flex-1 flex items-center justify-center">
+            <LoadingSpinner size="large" />
+          </div>
+        ) : !registry || registry.subscriptions.length === 0 ? (
+          <div className="flex-1 flex items-center justify-center flex-col">
+            <Repeat className="w-12 h-12 text-primary-secondary mx-auto mb-4" />
+            <p className="text-primary-secondary">
+              No subscriptions yet. Detect them from your expense history, or add one.
+            </p>
+          </div>
+        ) : (
+          <div className="flex-1 min-h-0 overflow-auto">
+            <table className="table w-full">
+              <thead className="bg-primary-bg sticky top-0 z-20">
+                <tr>
+                  <th className="bg-primary-bg">Provider</th>
+                  <th className="bg-primary-bg">Billed</th>
+                  <th className="bg-primary-bg">Amount</th>
+                  <th className="bg-primary-bg">Last Charge</th>
+                  <th className="bg-primary-bg">Next Charge</th>
+                  <th className="bg-primary-bg">Status</th>
+                  <th className="bg-primary-bg">Actions</th>
+                </tr>
+              </thead>
+              <tbody>
+                {registry.subscriptions.map(subscription => (
+                  <tr key={subscription.id} className={clsx(subscription.status !== 'active' && 'opacity-60')}>
+                    <td>
+                      <div className="font-medium text-primary-text">{subscription.provider_name}</div>
+                      <div className="text-xs text-primary-secondary">
+                        {subscription.category || 'Uncategorized'}
+                        {subscription.origin === 'detected'
+                          ? ` · detected from ${subscription.charge_count} charges`
+                          : ' · added by hand'}
+                      </div>
+                    </td>
+                    <td className="whitespace-nowrap">
+                      {CADENCE_LABELS[subscription.cadence]}
+                      {subscription.auto_draft && subscription.status === 'active' && (
+                        <div className="text-xs text-primary-secondary">Drafts charges</div>
+                      )}
+                    </td>
+                    <td className="whitespace-nowrap font-medium">{formatAmount(subscription.amount, subscription.currency)}</td>
+                    <td className="whitespace-nowrap text-sm">
+                      {subscription.last_charge_date ? formatDate(subscription.last_charge_date) : '—'}
+                    </td>
+                    <td className="whitespace-nowrap text-sm">{formatDate(subscription.next_charge_date)}</td>
+                    <td>
+                      <span className={clsx('inline-flex items-center px-2 py-1 rounded-full text-xs font-medium', STATUS_BADGES[subscription.status].className)}>
+                        {STATUS_BADGES[subscription.status].label}
+                      </span>
+                      {subscription.flag && (
+                        <div className="mt-1">
+                          <span className={clsx('inline-flex items-center px-2 py-1 rounded-full text-xs font-medium', FLAG_BADGES[subscription.flag].className)}>
+                            {FLAG_BADGES[subscription.flag].label}
+                          </span>
+                          <div className="text-xs text-primary-secondary mt-0.5">{describeFlag(subscription)}</div>
+                        </div>
+                      )}
+                    </td>
+                    <td>
+                      <div className="flex items-center space-x-1">
+                        <button
+                          onClick={() => openModal(subscription)}
+                          className="p-1 text-primary-secondary hover:text-primary-text rounded"
+                          title="Edit subscription"
+                        >
+                          <Edit className="w-4 h-4" />
+                        </button>
+                        {subscription.flag && (
+                          <button
+                            onClick={() => update(subscription, { clearFlag: true }, 'Flag dismissed')}
+                            className="p-1 text-primary-secondary hover:text-primary-text rounded"
+                            title="Dismiss flag"
+                          >
+                            <BellOff className="w-4 h-4" />
+                          </button>
+                        )}
+                        {subscription.status === 'active' ? (
+                          <button
+                            onClick={() => update(subscription, { status: 'paused' }, 'Subscription paused')}
+                            className="p-1 text-primary-secondary hover:text-primary-text rounded"
+                            title="Pause: stop drafting and flagging"
+                          >
+                            <Pause className="w-4 h-4" />
+                          </button>
+                        ) : (
+                          <button
+                            onClick={() => update(subscription, { status: 'active' }, 'Subscription resumed')}
+                            className="p-1 text-primary-secondary hover:text-primary-text rounded"
+                            title="Resume"
+                          >
+                            <Play className="w-4 h-4" />
+                          </button>
+                        )}
+                        {subscription.status !== 'cancelled' && (
+                          <button
+                            onClick={() => update(subscription, { status: 'cancelled' }, 'Subscription cancelled')}
+                            className="p-1 text-primary-secondary hover:text-primary-text rounded"
+                            title="Cancelled with the vendor; keep out of detection"
+                          >
+                            <XCircle className="w-4 h-4" />
+                          </button>
+                        )}
+                        <button
+                          onClick={() => handleDelete(subscription)}
+                          className="p-1 rounded hover:bg-red-100 transition-colors text-red-600 hover:text-red-800"
+                          title="Delete subscription"
+                        >
+                          <Trash2 className="w-4 h-4" />
+                        </button>
+                      </div>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+
+      {showModal && (
+        <SubscriptionModal
+          subscription={editing || undefined}
+          onClose={() => setShowModal(false)}
+          onSaved={handleSaved}
+        />
+      )}
+    </div>
+  );
+};
+
+export default SubscriptionsPage;
\ No newline at end of file
@@ -0,0 +1,364 @@
+import React, { useState, useEffect, useRef } from 'react';
+import {
+  FileText,
+  FolderInput,
+  FolderOpen,
+  HardDrive,
+  Inbox,
+  Loader2,
+  Mail,
+  RefreshCw,
+  ShieldAlert,
+  Trash2
+} from 'lucide-react';
+import { uploadApi } from '@/services/api';
+import { MailboxStatus, UploadHistoryItem, UploadHistoryResponse } from '@/types';
+import LoadingSpinner from '@/components/common/LoadingSpinner';
+import DropFolderModal from '@/components/expenses/DropFolderModal';
+import { clsx } from 'clsx';
+import { format } from 'date-fns';
+import toast from 'react-hot-toast';
+
+const PENDING_STATUSES = ['queued', 'scanning', 'extracting'];
+
+const UploadsPage: React.FC = () => {
+  const [history, setHistory] = useState<UploadHistoryResponse | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [mailbox, setMailbox] = useState<MailboxStatus | null>(null);
+  const [isImporting, setIsImporting] = useState(false);
+  const [isPolling, setIsPolling] = useState(false);
+  const [showDropFolderModal, setShowDropFolderModal] = useState(false);
+  const emailInputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    fetchHistory();
+    fetchMailbox();
+  }, []);
+
+  const fetchMailbox = async () => {
+    try {
+      setMailbox(await uploadApi.getMailboxStatus());
+    } catch (error) {
+      console.error('Failed to fetch mailbox status:', error);
+    }
+  };
+
+  const importEmail = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const message = event.target.files?.[0];
+    event.target.value = '';
+    if (!message) return;
+
+    try {
+      setIsImporting(true);
+      const result = await uploadApi.uploadEmail(message);
+      const queued = result.items.filter(item => item.status === 'queued').length;
+      if (queued > 0) toast.success(result.message);
+      else toast.error(result.message);
+      await fetchHistory();
+    } catch (error: any) {
+      console.error('Failed to import email:', error);
+      toast.error(error.response?.data?.error || 'Failed to import email');
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  const pollMailbox = async () => {
+    try {
+      setIsPolling(true);
+      const { status } = await uploadApi.pollMailbox();
+      setMailbox(status);
+      const queued = status.lastRun?.result?.queued || 0;
+      toast.success(queued > 0 ? `${queued} invoice(s) queued as drafts` : 'No new invoices');
+      await fetchHistory();
+    } catch (error: any) {
+      console.error('Failed to poll mailbox:', error);
+      toast.error(error.response?.data?.error || 'Failed to check mailbox');
+      await fetchMailbox();
+    } finally {
+      setIsPolling(false);
+    }
+  };
+
+  const fetchHistory = async () => {
+    try {
+      setIsLoading(true);
+      const data = await uploadApi.getHistory();
+      setHistory(data);
+    } catch (error) {
+      console.error('Failed to fetch upload history:', error);
+      toast.error('Failed to load upload history');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const openUpload = async (upload: UploadHistoryItem) => {
+    try {
+      const blob = await uploadApi.downloadFile(upload.id);
+      const url = URL.createObjectURL(blob);
+      window.open(url, '_blank');
+      // Give the new tab time to load before releasing the decrypted copy
+      setTimeout(() => URL.revokeObjectURL(url), 60000);
+    } catch (error) {
+      console.error('Failed to open upload:', error);
+      toast.error('Failed to open file');
+    }
+  };
+
+  const deleteUpload = async (upload: UploadHistoryItem) => {
+    const linkedNote = upload.expense ? ' It will be unlinked from its expense, which is kept.' : '';
+    if (window.confirm(`Securely delete "${upload.originalName}"?${linkedNote} This action cannot be undone.`)) {
+      try {
+        await uploadApi.deleteFile(upload.id);
+        toast.success('File deleted');
+        await fetchHistory();
+      } catch (error) {
+        console.error('Failed to delete upload:', error);
+        toast.error('Failed to delete file');
+      }
+    }
+  };
+
+  const formatSize = (bytes: number) => {
+    if (bytes < 1024) return `${bytes} B`;
+    if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+    return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+  };
+
+  const formatCurrency = (amount: number) => {
+    return new Intl.NumberFormat('en-US', {
+      style: 'currency',
+      currency: 'USD',
+      minimumFractionDigits: 2,
+    }).format(amount);
+  };
+
+  const getSensitivityBadge = (level: string) => {
+    const classes = {
+      LOW: 'badge-security-low',
+      MEDIUM: 'badge-security-medium',
+      HIGH: 'badge-security-high'
+    };
+    return classes[level as keyof typeof classes] || 'badge-security-low';
+  };
+
+  const getStatusBadge = (status: string) => {
+    if (status === 'ready') return 'bg-green-100 text-green-800';
+    if (status === 'failed') return 'bg-red-100 text-red-800';
+    if (PENDING_STATUSES.includes(status)) return 'bg-blue-100 text-blue-800';
+    return 'bg-gray-100 text-gray-800';
+  };
+
+  const getRetentionLabel = (upload: UploadHistoryItem) => {
+    if (upload.retentionPolicy === 'permanent') return 'Permanent';
+    if (!upload.expiresAt) return upload.retentionPolicy === 'temporary' ? 'Temporary' : 'Immediate';
+    return `Until ${format(new Date(upload.expiresAt), 'MMM dd, yyyy HH:mm')}`;
+  };
+
+  const stats = history?.stats;
+  const uploads = history?.uploads || [];
+
+  return (
+    <div className="flex flex-col h-[calc(100vh-12rem)] overflow-hidden">
+      {/* Header */}
+      <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center mb-3 flex-shrink-0">
+        <div>
+          <h1 className="text-2xl font-bold text-primary-text">Uploads</h1>
+          <p className="text-primary-secondary mt-0.5">
+            Stored invoices and their retention status
+          </p>
+        </div>
+        
+        <div className="flex items-center space-x-3 mt-4 sm:mt-0">
+          <button
+            onClick={() => setShowDropFolderModal(true)}
+            className="btn btn-secondary flex items-center space-x-2"
+          >
+            <FolderInput className="w-4 h-4" />
+            <span>Drop Folders</span>
+          </button>
+          <input
+            ref={emailInputRef}
+            type="file"
+            accept=".eml,.msg"
+            className="hidden"
+            onChange={importEmail}
+          />
+          <button
+            onClick={() => emailInputRef.current?.click()}
+            disabled={isImporting}
+            className="btn btn-secondary flex items-center space-x-2"
+            title="Queue the invoices attached to a saved email as draft expenses"
+          >
+            {isImporting ? <Loader2 className="w-4 h-4 animate-spin" /> : <Mail className="w-4 h-4" />}
+            <span>Import Email</span>
+          </button>
+        </div>
+      </div>
+
+      {/* Mailbox */}
+      {mailbox?.enabled && (
+        <div className="card p-3 mb-3 flex items-center justify-between flex-shrink-0">
+          <div className="flex items-center space-x-2 text-sm">
+            <Inbox className="w-4 h-4 text-primary-secondary" />
+            <span className="font-medium text-primary-text">
+              Mailbox ({mailbox.type === 'imap' ? 'IMAP' : 'Maildir'})
+            </span>
+            <span className="text-primary-secondary">
+              {!mailbox.lastRun
+                ? 'Not checked yet'
+                : mailbox.lastRun.error
+                  ? `Last check failed: ${mailbox.lastRun.error}`
+                  : `Last checked ${format(new Date(mailbox.lastRun.at), 'MMM dd, yyyy HH:mm')} · ${mailbox.lastRun.result?.queued || 0} queued`}
+            </span>
+          </div>
+          <button
+            onClick={pollMailbox}
+            disabled={isPolling}
+            className="btn btn-secondary flex items-center space-x-2 text-sm"
+          >
+            <RefreshCw className={clsx('w-4 h-4', isPolling && 'animate-spin')} />
+            <span>Check now</span>
+          </button>
+        </div>
+      )}
+
+      {/* Totals */}
+      {stats && (
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-3 mb-3 flex-shrink-0">
+          <div className="card p-4 flex items-center justify-between">
+            <div>
+              <p className="text-sm font-medium text-primary-secondary">Stored Files</p>
+              <p className="text-xl font-bold text-primary-text mt-1">{stats.totalUploads}</p>
+            </div>
+            <FolderOpen className="w-6 h-6 text-primary-secondary" />
+          </div>
+          <div className="card p-4 flex items-center justify-between">
+            <div>
+              <p className="text-sm font-medium text-primary-secondary">Total Size</p>
+              <p className="text-xl font-bold text-primary-text mt-1">{formatSize(stats.totalSize)}</p>
+            </div>
+            <HardDrive className="w-6 h-6 text-primary-secondary" />
+          </div>
+          <div className="card p-4 flex items-center justify-between">
+            <div>
+              <p className="text-sm font-medium text-primary-secondary">Processing / High Sensitivity</p>
+              <p className="text-xl font-bold text-primary-text mt-1">
+                {stats.processingQueue} / {stats.highSensitivity}
+              </p>
+            </div>
+            <ShieldAlert className="w-6 h-6 text-primary-secondary" />
+          </div>
+        </div>
+      )}
+
+      {/* Uploads Table */}
+      <div className="card overflow-hidden flex-1 min-h-0 flex flex-col">
+        {isLoading ? (
+          <div className="flex-1 flex items-center justify-center">
+            <LoadingSpinner size="large" />
+          </div>
+        ) : uploads.length === 0 ? (
+          <div className="flex-1 flex items-center justify-center flex-col">
+            <FolderOpen className="w-12 h-12 text-primary-secondary mx-auto mb-4" />
+            <h3 className="text-lg font-semibold text-primary-text mb-2">
+              No Stored Uploads
+            </h3>
+            <p className="text-primary-secondary">
+              Invoices you upload appear here until their retention period ends.
+            </p>
+          </div>
+        ) : (
+          <div className="flex-1 min-h-0 overflow-auto">
+            <table className="table w-full">
+              <thead className="bg-primary-bg sticky top-0 z-20">
+                <tr>
+                  <th className="bg-primary-bg">File</th>
+                  <th className="bg-primary-bg">Uploaded</th>
+                  <th className="bg-primary-bg">Size</th>
+                  <th className="bg-primary-bg">Sensitivity</th>
+                  <th className="bg-primary-bg">Retention</th>
+                  <th className="bg-primary-bg">Status</th>
+                  <th className="bg-primary-bg">Linked Expense</th>
+                  <th className="bg-primary-bg">Actions</th>
+                </tr>
+              </thead>
+              <tbody>
+                {uploads.map((upload) => (
+                  <tr key={upload.id}>
+                    <td>
+                      <div className="flex items-center space-x-2 min-w-0">
+                        <FileText className="w-4 h-4 text-primary-secondary flex-shrink-0" />
+                        <span className="font-medium truncate" title={upload.originalName}>
+                          {upload.originalName}
+                        </span>
+                      </div>
+                    </td>
+                    <td className="whitespace-nowrap text-center">
+                      {format(new Date(upload.uploadedAt), 'MMM dd, yyyy HH:mm')}
+                    </td>
+                    <td className="whitespace-nowrap text-center">{formatSize(upload.size)}</td>
+                    <td className="text-center">
+                      <span className={clsx('badge', getSensitivityBadge(upload.sensitivity))}>
+                        {upload.sensitivity}
+                      </span>
+                    </td>
+                    <td className="whitespace-nowrap text-center text-sm">{getRetentionLabel(upload)}</td>
+                    <td className="text-center">
+                      <span className={clsx(
+                        'inline-flex items-center px-2 py-1 rounded-full text-xs font-medium capitalize',
+                        getStatusBadge(upload.status)
+                      )}>
+                        {PENDING_STATUSES.includes(upload.status) && (
+                          <Loader2 className="w-3 h-3 mr-1 animate-spin" />
+                        )}
+                        {upload.status}
+                      </span>
+                    </td>
+                    <td className="text-center text-sm">
+                      {upload.expense ? (
+                        <span>
+                          {upload.expense.providerName} · {formatCurrency(upload.expense.amount)}
+                        </span>
+                      ) : (
+                        <span className="text-xs text-primary-secondary">-</span>
+                      )}
+                    </td>
+                    <td>
+                      <div className="flex items-center justify-center space-x-1">
+                        <button
+                          onClick={() => openUpload(upload)}
+                          className="p-1 rounded hover:bg-primary-button hover:bg-opacity-20 transition-colors"
+                          title="Open file"
+                        >
+                          <FileText className="w-4 h-4 text-primary-secondary" />
+                        </button>
+                        <button
+                          onClick={() => deleteUpload(upload)}
+                          className="p-1 rounded hover:bg-red-100 transition-colors text-red-600 hover:text-red-800"
+                          title="Delete file"
+                        >
+                          <Trash2 className="w-4 h-4" />
+                        </button>
+                      </div>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+
+      {showDropFolderModal && (
+        <DropFolderModal
+          onClose={() => setShowDropFolderModal(false)}
+          onScan={fetchHistory}
+        />
+      )}
+    </div>
+  );
+};
+
+export default UploadsPage;
\ No newline at end of file
@@ -0,0 +1,252 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { Edit, GitMerge, Plus, Search, Shield, Store, Trash2 } from 'lucide-react';
+import { clsx } from 'clsx';
+import { format } from 'date-fns';
+import toast from 'react-hot-toast';
+import { vendorsApi } from '@/services/api';
+import { Vendor } from '@/types';
+import LoadingSpinner from '@/components/common/LoadingSpinner';
+import VendorModal from '@/components/vendors/VendorModal';
+import VendorMergeModal from '@/components/vendors/VendorMergeModal';
+
+const SENSITIVITY_BADGES: Record<NonNullable<Vendor['default_sensitivity']>, string> = {
+  LOW: 'bg-green-100 text-green-800',
+  MEDIUM: 'bg-yellow-100 text-yellow-800',
+  HIGH: 'bg-red-100 text-red-800'
+};
+
+const formatAmount = (amount: number, currency: string) =>
+  new Intl.NumberFormat('en-US', {
+    style: 'currency',
+    currency,
+    minimumFractionDigits: 2,
+  }).format(amount);
+
+const VendorsPage: React.FC = () => {
+  const [vendors, setVendors] = useState<Vendor[]>([]);
+  const [reportingCurrency, setReportingCurrency] = useState('USD');
+  const [canManage, setCanManage] = useState(false);
+  const [isLoading, setIsLoading] = useState(true);
+  const [search, setSearch] = useState('');
+  const [editing, setEditing] = useState<Vendor | null>(null);
+  const [showModal, setShowModal] = useState(false);
+  const [mergeTarget, setMergeTarget] = useState<Vendor | null>(null);
+
+  useEffect(() => {
+    fetchVendors();
+  }, []);
+
+  const fetchVendors = async () => {
+    try {
+      const result = await vendorsApi.getAll();
+      setVendors(result.vendors);
+      setReportingCurrency(result.reportingCurrency);
+      setCanManage(result.canManage);
+    } catch (error) {
+      console.error('Failed to fetch vendors:', error);
+      toast.error('Failed to load vendors');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const filtered = useMemo(() => {
+    const term = search.trim().toLowerCase();
+    return term
+      ? vendors.filter(vendor => vendor.aliases.some(alias => alias.toLowerCase().includes(term)))
+      : vendors;
+  }, [vendors, search]);
+
+  const openModal = (vendor?: Vendor) => {
+    setEditing(vendor || null);
+    setShowModal(true);
+  };
+
+  const handleSaved = () => {
+    setShowModal(false);
+    setEditing(null);
+    fetchVendors();
+  };
+
+  const handleMerged = () => {
+    setMergeTarget(null);
+    fetchVendors();
+  };
+
+  const handleDelete = async (vendor: Vendor) => {
+    if (window.confirm(`Delete "${vendor.canonical_name}"? Its expenses are kept but unlinked, and the vendor is registered again the next time one of its names comes in.`)) {
+      try {
+        await vendorsApi.delete(vendor.id);
+        toast.success('Vendor deleted');
+        fetchVendors();
+      } catch (error: any) {
+        toast.error(error.response?.data?.error || 'Failed to delete vendor');
+      }
+    }
+  };
+
+  return (
+    <div className="flex flex-col h-[calc(100vh-12rem)] overflow-hidden">
+      {/* Header */}
+      <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center mb-3 flex-shrink-0">
+        <div>
+          <h1 className="text-2xl font-bold text-primary-text">Vendors</h1>
+          <p className="text-primary-secondary mt-0.5">
+            Canonical vendors, the names they appear under, and their defaults
+          </p>
+        </div>
+
+        <div className="flex items-center space-x-3 mt-4 sm:mt-0">
+          <div className="relative">
+            <Search className="w-4 h-4 text-primary-secondary absolute left-3 top-1/2 -translate-y-1/2" />
+            <input
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+              placeholder="Search names"
+              className="input pl-9"
+            />
+          </div>
+          <Link
+            to="/sensitivity-rules"
+            className="btn btn-secondary flex items-center space-x-2"
+          >
+            <Shield className="w-4 h-4" />
+            <span>Sensitivity Rules</span>
+          </Link>
+          {canManage && (
+            <button
+              onClick={() => openModal()}
+              className="btn btn-primary flex items-center space-x-2"
+            >
+              <Plus className="w-4 h-4" />
+              <span>Add</span>
+            </button>
+          )}
+        </div>
+      </div>
+
+      <div className="card overflow-hidden flex-1 min-h-0 flex flex-col">
+        {isLoading ? (
+          <div className="flex-1 flex items-center justify-center">
+            <LoadingSpinner size="large" />
+          </div>
+        ) : filtered.length === 0 ? (
+          <div className="flex-1 flex items-center justify-center flex-col">
+            <Store className="w-12 h-12 text-primary-secondary mx-auto mb-4" />
+            <p className="text-primary-secondary">
+              {vendors.length === 0
+                ? canManage
+                  ? 'No vendors yet. They are registered as expenses come in, or add one ahead of time.'
+                  : 'No vendors yet. They are registered as expenses come in.'
+                : 'No vendors match your search.'}
+            </p>
+          </div>
+        ) : (
+          <div className="flex-1 min-h-0 overflow-auto">
+            <table className="table w-full">
+              <thead className="bg-primary-bg sticky top-0 z-20">
+                <tr>
+                  <th className="bg-primary-bg">Vendor</th>
+                  <th className="bg-primary-bg">Defaults</th>
+                  <th className="bg-primary-bg">Expenses</th>
+                  <th className="bg-primary-bg">Spend ({reportingCurrency})</th>
+                  <th className="bg-primary-bg">Last Expense</th>
+                  {canManage && <th className="bg-primary-bg">Actions</th>}
+                </tr>
+              </thead>
+              <tbody>
+                {filtered.map(vendor => {
+                  const aliases = vendor.aliases.filter(alias => alias !== vendor.canonical_name);
+                  return (
+                    <tr key={vendor.id}>
+                      <td>
+                        <div className="font-medium text-primary-text">{vendor.canonical_name}</div>
+                        {aliases.length > 0 && (
+                          <div className="text-xs text-primary-secondary">Also {aliases.join(', ')}</div>
+                        )}
+                        {vendor.notes && (
+                          <div className="text-xs text-primary-secondary italic mt-0.5">{vendor.notes}</div>
+                        )}
+                      </td>
+                      <td className="text-sm">
+                        <div className="flex flex-wrap items-center gap-1">
+                          {vendor.default_category && <span>{vendor.default_category}</span>}
+                          {vendor.default_sensitivity && (
+                            <span className={clsx('inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium', SENSITIVITY_BADGES[vendor.default_sensitivity])}>
+                              {vendor.default_sensitivity}
+                            </span>
+                          )}
+                          {!vendor.default_category && !vendor.default_sensitivity && (
+                            <span className="text-primary-secondary">—</span>
+                          )}
+                        </div>
+                        {vendor.masked_alias && (
+                          <div className="text-xs text-primary-secondary">Masked as {vendor.masked_alias}</div>
+                        )}
+                      </td>
+                      <td className="whitespace-nowrap">{vendor.expense_count}</td>
+                      <td className="whitespace-nowrap font-medium">{formatAmount(vendor.total_amount, reportingCurrency)}</td>
+                      <td className="whitespace-nowrap text-sm">
+                        {vendor.last_expense_date
+                          ? format(new Date(`${vendor.last_expense_date.substring(0, 10)}T00:00:00`), 'MMM dd, yyyy')
+                          : '—'}
+                      </td>
+                      {canManage && (
+                        <td>
+                          <div className="flex items-center space-x-1">
+                            <button
+                              onClick={() => openModal(vendor)}
+                              className="p-1 text-primary-secondary hover:text-primary-text rounded"
+                              title="Edit vendor"
+                            >
+                              <Edit className="w-4 h-4" />
+                            </button>
+                            <button
+                              onClick={() => setMergeTarget(vendor)}
+                              disabled={vendors.length < 2}
+                              className="p-1 text-primary-secondary hover:text-primary-text rounded disabled:opacity-40"
+                              title="Merge other vendors into this one"
+                            >
+                              <GitMerge className="w-4 h-4" />
+                            </button>
+                            <button
+                              onClick={() => handleDelete(vendor)}
+                              className="p-1 rounded hover:bg-red-100 transition-colors text-red-600 hover:text-red-800"
+                              title="Delete vendor"
+                            >
+                              <Trash2 className="w-4 h-4" />
+                            </button>
+                          </div>
+                        </td>
+                      )}
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+
+      {showModal && (
+        <VendorModal
+          vendor={editing || undefined}
+          onClose={() => setShowModal(false)}
+          onSaved={handleSaved}
+        />
+      )}
+
+      {mergeTarget && (
+        <VendorMergeModal
+          target={mergeTarget}
+          vendors={vendors}
+          onClose={() => setMergeTarget(null)}
+          onMerged={handleMerged}
+        />
+      )}
+    </div>
+  );
+};
+
+export default VendorsPage;
\ No newline at end of file
@@ -1,5 +1,5 @@
 import axios from 'axios';
-import { LoginRequest, LoginResponse, Expense, ExpenseCreateRequest, ExpenseUpdateRequest, DashboardStats } from '@/types';
+import { LoginRequest, LoginResponse, Expense, ExpenseCreateRequest, ExpenseUpdateRequest, ExpenseFilters, ExpensePage, ExpenseSortField, ExportFormat, ExportProfile, DashboardStats, UploadJobStatus, UploadHistoryResponse, DuplicateMatch, BatchUploadResponse, UploadBatchStatus, EmailIngestionResponse, MailboxStatus, DropFolderStatus, StatementMapping, StatementPreview, StatementSource, StatementImportResult, BankTransaction, MatchCandidate, ReconciliationOverview, FxStatus, FxImportResult, Budget, BudgetRequest, Notification, Subscription, SubscriptionRegistry, SubscriptionRequest, Vendor, VendorRequest, SensitivityRule, SensitivityRuleRequest, SensitivityTestResult, ReclassificationResult } from '@/types';
 
 const API_BASE_URL = '/api';
 
@@ -57,20 +57,27 @@ export const authApi = {
 
 // Expenses API
 export const expensesApi = {
-  getAll: (filters?: {
-    startDate?: string;
-    endDate?: string;
-    provider?: string;
-    category?: string;
-    minAmount?: number;
-    maxAmount?: number;
-    showMasked?: boolean;
-  }): Promise<Expense[]> =>
+  getAll: (filters?: ExpenseFilters): Promise<Expense[]> =>
     api.get('/expenses', { params: filters }).then(res => res.data),
   
+  getPage: (filters: ExpenseFilters, page: {
+    limit?: number;
+    cursor?: string;
+    sort?: ExpenseSortField;
+    order?: 'asc' | 'desc';
+  }): Promise<ExpensePage> =>
+    api.get('/expenses', { params: { ...filters, ...page } }).then(res => res.data),
+  
   getById: (id: number): Promise<Expense> =>
     api.get(`/expenses/${id}`).then(res => res.data),
   
+  exportFile: (filters: ExpenseFilters, format: ExportFormat, profile: ExportProfile): Promise<Blob> =>
+    api.get('/expenses/export', {
+      params: { ...filters, format, profile },
+      responseType: 'blob',
+      timeout: 120000
+    }).then(res => res.data),
+  
   create: (expense: ExpenseCreateRequest): Promise<Expense> =>
     api.post('/expenses', expense).then(res => res.data),
   
@@ -80,6 +87,9 @@ export const expensesApi = {
   delete: (id: number): Promise<{ success: boolean; message: string }> =>
     api.delete(`/expenses/${id}`).then(res => res.data),
   
+  approve: (id: number, allowDuplicate?: boolean): Promise<Expense> =>
+    api.post(`/expenses/${id}/approve`, { allow_duplicate: allowDuplicate }).then(res => res.data),
+  
   getStats: (): Promise<any> =>
     api.get('/expenses/stats/summary').then(res => res.data),
   
@@ -102,14 +112,23 @@ export const dashboardApi = {
     api.get('/dashboard/retention').then(res => res.data),
 };
 
+// 409 responses from uploads and expense creation list the likely duplicates
+export const getDuplicateMatches = (error: any): DuplicateMatch[] | null =>
+  error?.response?.status === 409 && Array.isArray(error.response.data?.duplicates)
+    ? error.response.data.duplicates
+    : null;
+
 // Upload API
 export const uploadApi = {
-  uploadInvoice: (file: File, sensitivity?: string): Promise<any> => {
+  uploadInvoice: (file: File, sensitivity?: string, allowDuplicate?: boolean): Promise<any> => {
     const formData = new FormData();
     formData.append('invoice', file);
     if (sensitivity) {
       formData.append('sensitivity', sensitivity);
     }
+    if (allowDuplicate) {
+      formData.append('allowDuplicate', 'true');
+    }
     
     return api.post('/upload/invoice', formData, {
       headers: {
@@ -118,6 +137,22 @@ export const uploadApi = {
     }).then(res => res.data);
   },
   
+  uploadBatch: (files: File[], sensitivity?: string): Promise<BatchUploadResponse> => {
+    const formData = new FormData();
+    files.forEach(file => formData.append('invoices', file));
+    if (sensitivity) {
+      formData.append('sensitivity', sensitivity);
+    }
+    
+    // Archives are unpacked and every file stored before the response
+    return api.post('/upload/batch', formData, {
+      headers: {
+        'Content-Type': 'multipart/form-data',
+      },
+      timeout: 120000,
+    }).then(res => res.data);
+  },
+  
   createExpenseFromUpload: (data: {
     provider_name: string;
     description: string;
@@ -126,15 +161,247 @@ export const uploadApi = {
     date: string;
     due_date?: string;
     sensitivity: string;
-    file_path?: string;
+    file_id?: number;
+    allow_duplicate?: boolean;
+    status?: 'draft';
   }): Promise<any> =>
     api.post('/expenses', {
       ...data,
       source_type: 'manual'
     }).then(res => res.data),
   
-  getHistory: (): Promise<any> =>
+  getJob: (jobId: string): Promise<UploadJobStatus> =>
+    api.get(`/upload/jobs/${jobId}`).then(res => res.data),
+  
+  getBatch: (batchId: string): Promise<UploadBatchStatus> =>
+    api.get(`/upload/batches/${batchId}`).then(res => res.data),
+  
+  uploadEmail: (message: File, sensitivity?: string): Promise<EmailIngestionResponse> => {
+    const formData = new FormData();
+    formData.append('message', message);
+    if (sensitivity) {
+      formData.append('sensitivity', sensitivity);
+    }
+    
+    return api.post('/upload/email', formData, {
+      headers: {
+        'Content-Type': 'multipart/form-data',
+      },
+      timeout: 60000,
+    }).then(res => res.data);
+  },
+  
+  getMailboxStatus: (): Promise<MailboxStatus> =>
+    api.get('/upload/mailbox').then(res => res.data),
+  
+  pollMailbox: (): Promise<{ success: boolean; status: MailboxStatus }> =>
+    api.post('/upload/mailbox/poll', undefined, { timeout: 120000 }).then(res => res.data),
+  
+  getDropFolders: (): Promise<DropFolderStatus> =>
+    api.get('/upload/drop-folders').then(res => res.data),
+  
+  scanDropFolders: (): Promise<{ success: boolean; result: { processed: number; queued: number; rejected: number } }> =>
+    api.post('/upload/drop-folders/scan', undefined, { timeout: 120000 }).then(res => res.data),
+  
+  getHistory: (): Promise<UploadHistoryResponse> =>
     api.get('/upload/history').then(res => res.data),
+  
+  downloadFile: (fileId: number): Promise<Blob> =>
+    api.get(`/upload/files/${fileId}/download`, { responseType: 'blob' }).then(res => res.data),
+  
+  deleteFile: (fileId: number): Promise<{ success: boolean; message: string }> =>
+    api.delete(`/upload/files/${fileId}`).then(res => res.data),
+};
+
+// Bank and card statement import API
+const statementFormData = (file: File, sourceName: string, mapping?: StatementMapping | null): FormData => {
+  const formData = new FormData();
+  formData.append('file', file);
+  formData.append('sourceName', sourceName);
+  if (mapping) {
+    formData.append('mapping', JSON.stringify(mapping));
+  }
+  return formData;
+};
+
+export const statementsApi = {
+  getSources: (): Promise<StatementSource[]> =>
+    api.get('/statements/sources').then(res => res.data.sources),
+  
+  preview: (file: File, sourceName: string, mapping?: StatementMapping | null): Promise<StatementPreview> =>
+    api.post('/statements/preview', statementFormData(file, sourceName, mapping), {
+      headers: {
+        'Content-Type': 'multipart/form-data',
+      },
+      timeout: 60000,
+    }).then(res => res.data.preview),
+  
+  import: (file: File, sourceName: string, mapping: StatementMapping | null, options: {
+    saveMapping: boolean;
+    asDrafts: boolean;
+    reconcileOnly: boolean;
+    excludedLines: number[];
+  }): Promise<StatementImportResult> => {
+    const formData = statementFormData(file, sourceName, mapping);
+    formData.append('saveMapping', String(options.saveMapping));
+    formData.append('asDrafts', String(options.asDrafts));
+    formData.append('reconcileOnly', String(options.reconcileOnly));
+    formData.append('excludedLines', JSON.stringify(options.excludedLines));
+    return api.post('/statements/import', formData, {
+      headers: {
+        'Content-Type': 'multipart/form-data',
+      },
+      timeout: 120000,
+    }).then(res => res.data.result);
+  },
+  
+  deleteSource: (id: number): Promise<{ success: boolean; message: string }> =>
+    api.delete(`/statements/sources/${id}`).then(res => res.data),
+};
+
+// Payment reconciliation API
+export const reconciliationApi = {
+  getOverview: (): Promise<ReconciliationOverview> =>
+    api.get('/reconciliation').then(res => res.data),
+  
+  autoMatch: (): Promise<{ success: boolean; matched: number }> =>
+    api.post('/reconciliation/auto-match', undefined, { timeout: 60000 }).then(res => res.data),
+  
+  getCandidates: (transactionId: number): Promise<MatchCandidate[]> =>
+    api.get(`/reconciliation/transactions/${transactionId}/candidates`).then(res => res.data.candidates),
+  
+  match: (transactionId: number, expenseId: number): Promise<BankTransaction> =>
+    api.post(`/reconciliation/transactions/${transactionId}/match`, { expenseId }).then(res => res.data.transaction),
+  
+  unmatch: (transactionId: number): Promise<BankTransaction> =>
+    api.delete(`/reconciliation/transactions/${transactionId}/match`).then(res => res.data.transaction),
+  
+  setIgnored: (transactionId: number, ignore: boolean): Promise<BankTransaction> =>
+    api.put(`/reconciliation/transactions/${transactionId}/ignore`, { ignore }).then(res => res.data.transaction),
+};
+
+// FX rates API
+export const fxRatesApi = {
+  getStatus: (): Promise<FxStatus> =>
+    api.get('/fx-rates').then(res => res.data),
+  
+  importFile: (file: File): Promise<FxImportResult> => {
+    const formData = new FormData();
+    formData.append('file', file);
+    
+    // A full rate history re-converts every expense it covers
+    return api.post('/fx-rates/import', formData, {
+      headers: {
+        'Content-Type': 'multipart/form-data',
+      },
+      timeout: 120000,
+    }).then(res => res.data.result);
+  },
+};
+
+// Budgets API
+export const budgetsApi = {
+  getAll: (): Promise<Budget[]> =>
+    api.get('/budgets').then(res => res.data.budgets),
+  
+  create: (data: BudgetRequest): Promise<Budget> =>
+    api.post('/budgets', data).then(res => res.data.budget),
+  
+  update: (id: number, data: Partial<BudgetRequest>): Promise<Budget> =>
+    api.put(`/budgets/${id}`, data).then(res => res.data.budget),
+  
+  delete: (id: number): Promise<void> =>
+    api.delete(`/budgets/${id}`).then(() => {}),
+};
+
+// Subscriptions API
+export const subscriptionsApi = {
+  getRegistry: (): Promise<SubscriptionRegistry> =>
+    api.get('/subscriptions').then(res => res.data),
+  
+  detect: (): Promise<{ detected: number; charges: number; flagged: number; drafted: number }> =>
+    api.post('/subscriptions/detect', undefined, { timeout: 60000 }).then(res => res.data),
+  
+  create: (data: SubscriptionRequest): Promise<Subscription> =>
+    api.post('/subscriptions', data).then(res => res.data.subscription),
+  
+  update: (id: number, data: SubscriptionRequest): Promise<Subscription> =>
+    api.put(`/subscriptions/${id}`, data).then(res => res.data.subscription),
+  
+  delete: (id: number): Promise<void> =>
+    api.delete(`/subscriptions/${id}`).then(() => {}),
+};
+
+// Vendor registry API
+export const vendorsApi = {
+  getAll: (): Promise<{ reportingCurrency: string; vendors: Vendor[]; canManage: boolean }> =>
+    api.get('/vendors').then(res => res.data),
+  
+  create: (data: VendorRequest): Promise<Vendor> =>
+    api.post('/vendors', data).then(res => res.data.vendor),
+  
+  update: (id: number, data: VendorRequest): Promise<Vendor> =>
+    api.put(`/vendors/${id}`, data).then(res => res.data.vendor),
+  
+  merge: (id: number, sourceIds: number[]): Promise<{ vendor: Vendor; movedExpenses: number }> =>
+    api.post(`/vendors/${id}/merge`, { sourceIds }).then(res => res.data),
+  
+  delete: (id: number): Promise<void> =>
+    api.delete(`/vendors/${id}`).then(() => {}),
+};
+
+// Sensitivity classification rules API
+export const sensitivityRulesApi = {
+  getAll: (): Promise<{ rules: SensitivityRule[]; canManage: boolean }> =>
+    api.get('/sensitivity-rules').then(res => res.data),
+  
+  test: (data: { providerName: string; category?: string; amount?: number; currency?: string }): Promise<SensitivityTestResult> =>
+    api.post('/sensitivity-rules/test', data).then(res => res.data),
+  
+  preview: (data: SensitivityRuleRequest & { ruleId?: number }): Promise<ReclassificationResult> =>
+    api.post('/sensitivity-rules/preview', data, { timeout: 120000 }).then(res => res.data),
+  
+  reclassify: (): Promise<ReclassificationResult> =>
+    api.post('/sensitivity-rules/reclassify', undefined, { timeout: 120000 }).then(res => res.data),
+  
+  create: (data: SensitivityRuleRequest): Promise<SensitivityRule> =>
+    api.post('/sensitivity-rules', data).then(res => res.data.rule),
+  
+  update: (id: number, data: SensitivityRuleRequest): Promise<SensitivityRule> =>
+    api.put(`/sensitivity-rules/${id}`, data).then(res => res.data.rule),
+  
+  delete: (id: number): Promise<void> =>
+    api.delete(`/sensitivity-rules/${id}`).then(() => {}),
+};
+
+// Notifications API
+export const notificationsApi = {
+  getFeed: (): Promise<{ notifications: Notification[]; unreadCount: number }> =>
+    api.get('/notifications').then(res => res.data),
+  
+  markRead: (id: number): Promise<void> =>
+    api.put(`/notifications/${id}/read`).then(() => {}),
+  
+  markAllRead: (): Promise<void> =>
+    api.put('/notifications/read-all').then(() => {}),
+};
+
+// Vendor extraction templates API
+export const templatesApi = {
+  getAll: (): Promise<any[]> =>
+    api.get('/extraction-templates').then(res => res.data.templates),
+  
+  learn: (data: {
+    fileId: number;
+    vendor: string;
+    amount: number;
+    date: string;
+    invoiceNumber?: string;
+  }): Promise<any> =>
+    api.post('/extraction-templates/learn', data).then(res => res.data.template),
+  
+  delete: (id: number): Promise<{ success: boolean; message: string }> =>
+    api.delete(`/extraction-templates/${id}`).then(res => res.data),
 };
 
 export default api;
\ No newline at end of file
@@ -32,7 +32,7 @@ export interface Expense {
   currency: string;
   date: string;
   due_date?: string;
-  source_type: 'api' | 'manual';
+  source_type: 'api' | 'manual' | 'import' | 'email' | 'folder';
   sensitivity_level: 'LOW' | 'MEDIUM' | 'HIGH';
   tags: string[] | null;
   category?: string;
@@ -43,8 +43,19 @@ export interface Expense {
   created_at: string;
   updated_at: string;
   retention_until?: string;
+  metadata?: Record<string, any>;
+  status: 'draft' | 'approved';
+  payment_status: PaymentStatus;
+  paid_amount: number;
+  reporting_currency?: string | null;
+  fx_rate?: number | null;
+  reporting_amount?: number | null;
+  subscription_id?: number | null;
+  search_snippet?: string | null;
 }
 
+export type PaymentStatus = 'unpaid' | 'partially_paid' | 'paid';
+
 export interface ExpenseCreateRequest {
   provider_name: string;
   description?: string;
@@ -54,12 +65,14 @@ export interface ExpenseCreateRequest {
   due_date?: string;
   tags?: string[];
   category?: string;
+  allow_duplicate?: boolean;
 }
 
 export interface ExpenseUpdateRequest {
   description?: string;
   amount?: number;
   currency?: string;
+  date?: string;
   due_date?: string;
   tags?: string[];
   category?: string;
@@ -67,7 +80,167 @@ export interface ExpenseUpdateRequest {
   sensitivity_level?: 'LOW' | 'MEDIUM' | 'HIGH';
 }
 
+export interface ExpenseFilters {
+  startDate?: string;
+  endDate?: string;
+  provider?: string;
+  category?: string;
+  minAmount?: number;
+  maxAmount?: number;
+  showMasked?: boolean;
+  status?: 'draft' | 'approved';
+  q?: string;
+}
+
+export type ExpenseSortField =
+  | 'relevance'
+  | 'date'
+  | 'provider_name'
+  | 'description'
+  | 'amount'
+  | 'currency'
+  | 'category'
+  | 'sensitivity_level'
+  | 'source_type'
+  | 'due_date'
+  | 'created_at';
+
+export interface ExpensePage {
+  items: Expense[];
+  nextCursor: string | null;
+  total: number;
+  totals: {
+    currency: string;
+    count: number;
+    amount: number;
+  }[];
+  reportingTotal: {
+    currency: string;
+    amount: number;
+    unconverted: number;
+  };
+}
+
+export type ExportFormat = 'csv' | 'xlsx' | 'json';
+
+export type ExportProfile = 'full' | 'masked' | 'amounts_only';
+
+export type StatementFormat = 'csv' | 'ofx' | 'qif';
+
+export interface StatementMapping {
+  date: string;
+  description: string;
+  amount?: string;
+  debit?: string;
+  credit?: string;
+  currency?: string;
+  reference?: string;
+  dateFormat: string;
+  decimalSeparator: '.' | ',';
+  expenseSign: 'negative' | 'positive';
+  defaultCurrency: string;
+}
+
+export interface StatementSource {
+  id: number;
+  source_name: string;
+  format: StatementFormat;
+  mapping: StatementMapping | null;
+  use_count: number;
+  last_used_at?: string;
+  created_at: string;
+  updated_at: string;
+}
+
+export type StatementRowStatus = 'new' | 'imported' | 'credit' | 'error';
+
+export interface StatementPreview {
+  format: StatementFormat;
+  sourceName: string;
+  headers: string[];
+  mapping: StatementMapping | null;
+  mappingSource: 'provided' | 'saved' | 'suggested' | null;
+  rows: {
+    line: number;
+    status: StatementRowStatus;
+    transaction?: {
+      date: string;
+      description: string;
+      amount: number;
+      currency: string;
+      reference?: string;
+    };
+    error?: string;
+  }[];
+  summary: Record<StatementRowStatus, number>;
+}
+
+export interface StatementImportResult {
+  created: number;
+  alreadyImported: number;
+  skipped: number;
+  errors: number;
+  expenseIds: number[];
+  recorded: number;
+  matched: number;
+}
+
+export interface BankTransaction {
+  id: number;
+  source_name: string;
+  date: string;
+  description: string;
+  amount: number;
+  currency: string;
+  reference?: string;
+  expense_id: number | null;
+  match_type: 'import' | 'auto' | 'manual' | null;
+  match_score: number | null;
+  matched_at: string | null;
+  ignored_at: string | null;
+  created_at: string;
+}
+
+export interface MatchedTransaction extends BankTransaction {
+  expense: Pick<Expense, 'id' | 'provider_name' | 'amount' | 'currency' | 'date' | 'due_date' | 'payment_status'>;
+}
+
+export interface MatchCandidate {
+  expenseId: number;
+  providerName: string;
+  amount: number;
+  outstanding: number;
+  currency: string;
+  date: string;
+  dueDate: string | null;
+  paymentStatus: PaymentStatus;
+  score: number;
+  partial: boolean;
+  signals: {
+    amount: number;
+    date: number;
+    vendor: number;
+  };
+}
+
+export interface ReconciliationOverview {
+  summary: {
+    unmatchedTransactions: number;
+    matchedTransactions: number;
+    ignoredTransactions: number;
+    unpaidExpenses: number;
+    partiallyPaidExpenses: number;
+    overdueExpenses: number;
+  };
+  unmatched: BankTransaction[];
+  overdue: Expense[];
+  recentMatches: MatchedTransaction[];
+  ignored: BankTransaction[];
+}
+
 export interface DashboardStats {
+  reportingCurrency: string;
+  unconvertedCount: number;
   totalExpenses: number;
   monthlyTotal: number;
   monthlyChange: number;
@@ -77,6 +250,7 @@ export interface DashboardStats {
     masked: boolean;
   }[];
   recentTransactions: number;
+  draftCount: number;
   trendData: {
     month: string;
     total: number;
@@ -84,6 +258,224 @@ export interface DashboardStats {
   }[];
 }
 
+export interface FxStatus {
+  reportingCurrency: string;
+  maxRateAgeDays: number;
+  coverage: {
+    base: string;
+    quote: string;
+    from: string;
+    to: string;
+    count: number;
+  }[];
+  unconverted: {
+    currency: string;
+    count: number;
+    from: string;
+    to: string;
+  }[];
+}
+
+export interface FxImportResult {
+  format: 'ecb_xml' | 'ecb_csv' | 'csv';
+  imported: number;
+  skipped: number;
+  from: string;
+  to: string;
+  currencies: string[];
+  converted: number;
+}
+
+export type BudgetPeriod = 'monthly' | 'quarterly' | 'annual';
+
+export type BudgetScope = 'category' | 'provider' | 'tag';
+
+export interface BudgetStatus {
+  periodStart: string;
+  periodEnd: string;
+  daysElapsed: number;
+  daysInPeriod: number;
+  spent: number;
+  remaining: number;
+  percentUsed: number;
+  projected: number;
+  projectedPercent: number;
+  expenseCount: number;
+  unconverted: number;
+  state: 'ok' | 'warning' | 'over';
+}
+
+export interface Budget {
+  id: number;
+  name: string;
+  period: BudgetPeriod;
+  scope_type: BudgetScope;
+  scope_value: string;
+  amount: number;
+  currency: string;
+  thresholds: number[];
+  is_active: boolean;
+  created_at: string;
+  updated_at: string;
+  // null while the budget is paused
+  status: BudgetStatus | null;
+}
+
+export interface BudgetRequest {
+  name: string;
+  period: BudgetPeriod;
+  scopeType: BudgetScope;
+  scopeValue: string;
+  amount: number;
+  // Defaults to the reporting currency
+  currency?: string;
+  thresholds: number[];
+  isActive?: boolean;
+}
+
+export type SubscriptionCadence = 'weekly' | 'monthly' | 'quarterly' | 'annual';
+
+export type SubscriptionFlag = 'missed' | 'late' | 'price_changed';
+
+export interface Subscription {
+  id: number;
+  provider_name: string;
+  category?: string | null;
+  currency: string;
+  amount: number;
+  cadence: SubscriptionCadence;
+  billing_day?: number | null;
+  last_charge_date?: string | null;
+  last_charge_amount?: number | null;
+  next_charge_date: string;
+  charge_count: number;
+  status: 'active' | 'paused' | 'cancelled';
+  origin: 'detected' | 'manual';
+  confidence?: number | null;
+  auto_draft: boolean;
+  flag?: SubscriptionFlag | null;
+  flag_details?: Record<string, any> | null;
+  flagged_at?: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface SubscriptionRegistry {
+  summary: {
+    active: number;
+    flagged: number;
+    dueSoon: number;
+    monthlyCost: {
+      currency: string;
+      amount: number;
+      unconverted: number;
+    };
+  };
+  subscriptions: Subscription[];
+}
+
+export interface SubscriptionRequest {
+  providerName?: string;
+  category?: string | null;
+  amount?: number;
+  // Only when adding; defaults to the reporting currency
+  currency?: string;
+  cadence?: SubscriptionCadence;
+  nextChargeDate?: string;
+  status?: Subscription['status'];
+  autoDraft?: boolean;
+  clearFlag?: boolean;
+}
+
+export interface Vendor {
+  id: number;
+  canonical_name: string;
+  aliases: string[];
+  default_category?: string | null;
+  default_sensitivity?: 'LOW' | 'MEDIUM' | 'HIGH' | null;
+  masked_alias?: string | null;
+  notes?: string | null;
+  // Approved expenses in the user's scope; the total is in the reporting currency
+  expense_count: number;
+  total_amount: number;
+  last_expense_date?: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface VendorRequest {
+  canonicalName?: string;
+  aliases?: string[];
+  // null clears a default
+  defaultCategory?: string | null;
+  defaultSensitivity?: Vendor['default_sensitivity'];
+  maskedAlias?: string | null;
+  notes?: string | null;
+}
+
+export type SensitivityMatchType = 'keyword' | 'regex' | 'vendor' | 'category' | 'amount';
+
+export interface SensitivityRule {
+  id: number;
+  name: string;
+  match_type: SensitivityMatchType;
+  pattern?: string | null;
+  vendor_id?: number | null;
+  vendor_name?: string | null;
+  min_amount?: number | string | null;
+  amount_currency?: string | null;
+  sensitivity: 'LOW' | 'MEDIUM' | 'HIGH';
+  mask_alias?: string | null;
+  priority: number;
+  is_active: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface SensitivityRuleRequest {
+  name?: string;
+  matchType?: SensitivityMatchType;
+  pattern?: string | null;
+  vendorId?: number | null;
+  minAmount?: number | null;
+  amountCurrency?: string | null;
+  sensitivity?: SensitivityRule['sensitivity'];
+  maskAlias?: string | null;
+  priority?: number;
+  isActive?: boolean;
+}
+
+export interface SensitivityTestResult {
+  sensitivity: SensitivityRule['sensitivity'];
+  maskedName: string | null;
+  rule: { id: number; name: string } | null;
+}
+
+export interface ReclassificationResult {
+  scanned: number;
+  changed: number;
+  // Only the first changes are listed
+  changes: {
+    expenseId: number;
+    providerName: string;
+    from: { sensitivity: SensitivityRule['sensitivity']; maskedName: string | null };
+    to: { sensitivity: SensitivityRule['sensitivity']; maskedName: string | null };
+    rule: { id: number; name: string } | null;
+  }[];
+}
+
+export interface Notification {
+  id: number;
+  type: string;
+  title: string;
+  message?: string;
+  link?: string;
+  resource_type?: string;
+  resource_id?: number;
+  read_at?: string | null;
+  created_at: string;
+}
+
 export interface FileUpload {
   file: File;
   sensitivity?: 'LOW' | 'MEDIUM' | 'HIGH';
@@ -93,18 +485,207 @@ export interface UploadResponse {
   success: boolean;
   message: string;
   file: {
+    id: number;
     originalName: string;
     size: number;
     type: string;
   };
   ocrResults: {
+    engine: 'pdf-parse' | 'tesseract' | 'pdf-ocr' | 'e-invoice';
     text: string;
     confidence: number;
+    pages?: {
+      page: number;
+      confidence?: number;
+      characters: number;
+    }[];
     extractedData: {
       amount: string;
       currency: string;
       date: string;
       vendor: string;
     };
+    invoiceFields?: InvoiceFields;
+    redactions?: RedactionReport;
+    eInvoice?: {
+      format: 'ubl' | 'cii';
+      profile?: string;
+      source: 'xml' | 'pdf-attachment';
+      seller: { name: string; vatId?: string };
+      buyer?: { name: string; vatId?: string };
+    } | null;
+  };
+  duplicates?: DuplicateMatch[];
+  template?: { id: number; vendorName: string } | null;
+  draftExpenseId?: number;
+}
+
+export interface DuplicateMatch {
+  reason: 'same_file' | 'same_invoice' | 'similar_expense';
+  expenseId: number | null;
+  fileId?: number;
+  providerName?: string | null;
+  amount?: number | null;
+  date?: string | null;
+  link: string | null;
+}
+
+export interface ExtractedField<T> {
+  value: T;
+  confidence: number;
+}
+
+export interface InvoiceFields {
+  invoiceNumber?: ExtractedField<string>;
+  invoiceDate?: ExtractedField<string>;
+  dueDate?: ExtractedField<string>;
+  subtotal?: ExtractedField<number>;
+  taxAmount?: ExtractedField<number>;
+  taxRate?: ExtractedField<number>;
+  total?: ExtractedField<number>;
+  lineItems: {
+    description: string;
+    quantity?: number;
+    unitPrice?: number;
+    amount: number;
+    confidence: number;
+  }[];
+}
+
+export interface UploadJobStatus {
+  jobId: string;
+  fileId: number;
+  status: 'queued' | 'scanning' | 'extracting' | 'ready' | 'failed';
+  result?: UploadResponse;
+  error?: string;
+  updatedAt: string;
+}
+
+export type RedactionCategory =
+  | 'secret'
+  | 'email'
+  | 'iban'
+  | 'credit_card'
+  | 'phone'
+  | 'national_id'
+  | 'name'
+  | 'address';
+
+export interface RedactionReport {
+  total: number;
+  categories: Partial<Record<RedactionCategory, number>>;
+}
+
+export interface BatchUploadItem {
+  name: string;
+  archive?: string;
+  size: number;
+  status: 'queued' | 'duplicate' | 'rejected';
+  fileId?: number;
+  jobId?: string;
+  duplicates?: DuplicateMatch[];
+  error?: string;
+}
+
+export interface BatchUploadResponse {
+  success: boolean;
+  message: string;
+  batchId: string;
+  items: BatchUploadItem[];
+}
+
+export interface UploadBatchStatus {
+  batchId: string;
+  jobs: UploadJobStatus[];
+  done: boolean;
+}
+
+export interface EmailIngestionResponse {
+  success: boolean;
+  message: string;
+  items: {
+    name: string;
+    status: 'queued' | 'duplicate' | 'rejected';
+    fileId?: number;
+    jobId?: string;
+    error?: string;
+  }[];
+}
+
+export interface MailboxRun {
+  at: string;
+  result?: { messages: number; queued: number; rejected: number };
+  error?: string;
+}
+
+export interface MailboxStatus {
+  enabled: boolean;
+  type: 'imap' | 'maildir' | null;
+  running: boolean;
+  lastRun: MailboxRun | null;
+}
+
+export interface DropFolder {
+  path: string;
+  sensitivity: 'LOW' | 'MEDIUM' | 'HIGH';
+  category?: string;
+}
+
+export interface DropFolderActivity {
+  at: string;
+  folder: string;
+  name: string;
+  size: number;
+  status: 'queued' | 'duplicate' | 'rejected';
+  fileId?: number;
+  jobId?: string;
+  error?: string;
+  processing?: UploadJobStatus['status'];
+  processingError?: string;
+  draftExpenseId?: number;
+}
+
+export interface DropFolderStatus {
+  enabled: boolean;
+  running: boolean;
+  folders: DropFolder[];
+  lastRun: {
+    at: string;
+    result?: { processed: number; queued: number; rejected: number };
+    errors?: string[];
+  } | null;
+  activity: DropFolderActivity[];
+}
+
+export interface UploadHistoryItem {
+  id: number;
+  originalName: string;
+  size: number;
+  type: string;
+  sensitivity: 'LOW' | 'MEDIUM' | 'HIGH';
+  retentionPolicy: 'immediate' | 'temporary' | 'permanent';
+  expiresAt: string | null;
+  status: string;
+  uploadedAt: string;
+  expense: {
+    id: number;
+    providerName: string;
+    amount: number;
+    date: string;
+  } | null;
+}
+
+export interface UploadHistoryResponse {
+  uploads: UploadHistoryItem[];
+  stats: {
+    totalUploads: number;
+    totalSize: number;
+    processingQueue: number;
+    highSensitivity: number;
+    byRetention: {
+      immediate: number;
+      temporary: number;
+      permanent: number;
+    };
   };
-}
\ No newline at end of file
+}